@@ -0,0 +1,320 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Download, Minus, Plus, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { argumentHighlightId } from "@/components/SourceViewer";
+import {
+  ARGUMENT_EDGE_TYPES,
+  ARGUMENT_NODE_TYPES,
+  EDGE_COLORS,
+  NODE_COLORS,
+  argumentMapToDot,
+  wrapText,
+  type ArgumentMap,
+  type ArgumentNode,
+} from "@shared/argumentMap";
+
+const NODE_WIDTH = 220;
+const NODE_HEIGHT = 92;
+const COLUMN_GAP = 40;
+const ROW_GAP = 90;
+const MARGIN = 30;
+const MAX_LINES = 4;
+
+type Point = { x: number; y: number };
+
+// Conclusions go in the top row and every other node sits one row below the
+// highest node it bears on, so edges point upwards. Within a row nodes are
+// ordered by where their targets are, which keeps most edges from crossing.
+function layoutNodes(map: ArgumentMap): Map<string, Point> {
+  const outgoing = new Map<string, string[]>();
+  map.edges.forEach(edge => outgoing.set(edge.from, [...(outgoing.get(edge.from) || []), edge.to]));
+
+  const levels = new Map<string, number>();
+  const levelOf = (id: string, visiting: Set<string>): number => {
+    if (levels.has(id)) return levels.get(id)!;
+    // A cycle is cut where it is found
+    if (visiting.has(id)) return -1;
+    visiting.add(id);
+    const targets = outgoing.get(id) || [];
+    const level = targets.length === 0 ? 0 : 1 + Math.max(...targets.map(t => levelOf(t, visiting)));
+    visiting.delete(id);
+    levels.set(id, level);
+    return level;
+  };
+  map.nodes.forEach(node => levelOf(node.id, new Set()));
+
+  const rows: ArgumentNode[][] = [];
+  map.nodes.forEach(node => {
+    const level = levels.get(node.id)!;
+    (rows[level] = rows[level] || []).push(node);
+  });
+
+  const widest = Math.max(1, ...rows.map(row => row?.length || 0));
+  const positions = new Map<string, Point>();
+  rows.forEach((row, level) => {
+    if (!row) return;
+    const centre = (node: ArgumentNode) => {
+      const xs = (outgoing.get(node.id) || []).map(t => positions.get(t)?.x).filter((x): x is number => x !== undefined);
+      return xs.length > 0 ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+    };
+    const ordered = level === 0 ? row : [...row].sort((a, b) => centre(a) - centre(b));
+    const offset = ((widest - ordered.length) * (NODE_WIDTH + COLUMN_GAP)) / 2;
+    ordered.forEach((node, i) => {
+      positions.set(node.id, {
+        x: MARGIN + offset + i * (NODE_WIDTH + COLUMN_GAP),
+        y: MARGIN + level * (NODE_HEIGHT + ROW_GAP),
+      });
+    });
+  });
+  return positions;
+}
+
+function download(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
+
+interface ArgumentMapDiagramProps {
+  map: ArgumentMap;
+  onShowInSource?: (highlightId: string) => void;
+}
+
+export function ArgumentMapDiagram({ map, onShowInSource }: ArgumentMapDiagramProps) {
+  const initial = useMemo(() => layoutNodes(map), [map]);
+  const [positions, setPositions] = useState(initial);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [zoom, setZoom] = useState(1);
+  const dragging = useRef<{ id: string; dx: number; dy: number; moved: boolean } | null>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    setPositions(initial);
+    setSelectedId(null);
+  }, [initial]);
+
+  const width = Math.max(...Array.from(positions.values()).map(p => p.x + NODE_WIDTH), 0) + MARGIN;
+  const height = Math.max(...Array.from(positions.values()).map(p => p.y + NODE_HEIGHT), 0) + MARGIN;
+  const selected = map.nodes.find(node => node.id === selectedId);
+  const isLinked = (from: string, to: string) => !selectedId || from === selectedId || to === selectedId;
+
+  // Pointer position in diagram coordinates, whatever the zoom and scroll
+  const toDiagram = (event: React.PointerEvent): Point => {
+    const matrix = svgRef.current!.getScreenCTM()!.inverse();
+    const point = new DOMPoint(event.clientX, event.clientY).matrixTransform(matrix);
+    return { x: point.x, y: point.y };
+  };
+
+  const handlePointerDown = (event: React.PointerEvent, id: string) => {
+    const point = toDiagram(event);
+    const position = positions.get(id)!;
+    dragging.current = { id, dx: point.x - position.x, dy: point.y - position.y, moved: false };
+    (event.target as Element).setPointerCapture(event.pointerId);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const drag = dragging.current;
+    if (!drag) return;
+    const point = toDiagram(event);
+    drag.moved = true;
+    setPositions(prev => new Map(prev).set(drag.id, { x: point.x - drag.dx, y: point.y - drag.dy }));
+  };
+
+  const handlePointerUp = (id: string) => {
+    // A click without a drag selects the node
+    if (dragging.current && !dragging.current.moved) {
+      setSelectedId(selectedId === id ? null : id);
+    }
+    dragging.current = null;
+  };
+
+  const relations = selected
+    ? map.edges
+        .filter(edge => edge.from === selected.id || edge.to === selected.id)
+        .map(edge => {
+          const otherId = edge.from === selected.id ? edge.to : edge.from;
+          return { edge, outgoing: edge.from === selected.id, other: map.nodes.find(node => node.id === otherId) };
+        })
+    : [];
+
+  return (
+    <div className="space-y-3" data-testid="argument-map">
+      <div className="flex flex-wrap items-center gap-2">
+        {ARGUMENT_NODE_TYPES.map(type => (
+          <span key={type} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <span className="w-3 h-3 rounded-sm border border-gray-300" style={{ background: NODE_COLORS[type] }} />
+            {type} ({map.nodes.filter(node => node.type === type).length})
+          </span>
+        ))}
+        {ARGUMENT_EDGE_TYPES.map(type => (
+          <span key={type} className="flex items-center gap-1.5 text-xs text-muted-foreground">
+            <svg width="20" height="6">
+              <line x1="0" y1="3" x2="20" y2="3" stroke={EDGE_COLORS[type]} strokeWidth="2" strokeDasharray={type === "attacks" ? "4 3" : undefined} />
+            </svg>
+            {type}
+          </span>
+        ))}
+        <div className="ml-auto flex items-center gap-1">
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setZoom(z => Math.max(0.4, z - 0.2))} title="Zoom out">
+            <Minus className="w-3.5 h-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => setZoom(z => Math.min(2, z + 0.2))} title="Zoom in">
+            <Plus className="w-3.5 h-3.5" />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => { setPositions(initial); setZoom(1); }} title="Reset layout">
+            <RotateCcw className="w-3.5 h-3.5" />
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => download(JSON.stringify(map, null, 2), "argument-map.json", "application/json")}
+            data-testid="button-export-argument-json"
+          >
+            <Download className="w-3.5 h-3.5" />
+            JSON
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 text-xs"
+            onClick={() => download(argumentMapToDot(map), "argument-map.dot", "text/vnd.graphviz")}
+            data-testid="button-export-argument-dot"
+          >
+            <Download className="w-3.5 h-3.5" />
+            DOT
+          </Button>
+        </div>
+      </div>
+
+      <div className="overflow-auto border-2 border-gray-200 rounded-lg bg-gray-50 max-h-[60vh]">
+        <svg
+          ref={svgRef}
+          width={width * zoom}
+          height={height * zoom}
+          viewBox={`0 0 ${width} ${height}`}
+          onPointerMove={handlePointerMove}
+          className="select-none"
+        >
+          <defs>
+            {ARGUMENT_EDGE_TYPES.map(type => (
+              <marker key={type} id={`arrow-${type}`} viewBox="0 0 10 10" refX="9" refY="5" markerWidth="7" markerHeight="7" orient="auto-start-reverse">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill={EDGE_COLORS[type]} />
+              </marker>
+            ))}
+          </defs>
+
+          {map.edges.map((edge, i) => {
+            const from = positions.get(edge.from);
+            const to = positions.get(edge.to);
+            if (!from || !to) return null;
+            const start = { x: from.x + NODE_WIDTH / 2, y: from.y };
+            const end = { x: to.x + NODE_WIDTH / 2, y: to.y + NODE_HEIGHT };
+            const bend = Math.max(40, Math.abs(start.y - end.y) / 2);
+            return (
+              <path
+                key={i}
+                d={`M ${start.x} ${start.y} C ${start.x} ${start.y - bend}, ${end.x} ${end.y + bend}, ${end.x} ${end.y}`}
+                fill="none"
+                stroke={EDGE_COLORS[edge.type]}
+                strokeWidth={selectedId && isLinked(edge.from, edge.to) ? 3 : 2}
+                strokeDasharray={edge.type === "attacks" ? "6 4" : undefined}
+                opacity={isLinked(edge.from, edge.to) ? 1 : 0.15}
+                markerEnd={`url(#arrow-${edge.type})`}
+              >
+                <title>{`${edge.from} ${edge.type} ${edge.to}${edge.evidence.length > 0 ? `: "${edge.evidence.join('" / "')}"` : ""}`}</title>
+              </path>
+            );
+          })}
+
+          {map.nodes.map(node => {
+            const position = positions.get(node.id);
+            if (!position) return null;
+            const lines = wrapText(node.text, 32);
+            const shown = lines.slice(0, MAX_LINES);
+            if (lines.length > MAX_LINES) shown[MAX_LINES - 1] += "…";
+            const dimmed = selectedId && selectedId !== node.id && !map.edges.some(e =>
+              (e.from === selectedId && e.to === node.id) || (e.to === selectedId && e.from === node.id));
+            return (
+              <g
+                key={node.id}
+                transform={`translate(${position.x}, ${position.y})`}
+                onPointerDown={(e) => handlePointerDown(e, node.id)}
+                onPointerUp={() => handlePointerUp(node.id)}
+                className="cursor-pointer"
+                opacity={dimmed ? 0.35 : 1}
+                data-testid={`argument-node-${node.id}`}
+              >
+                <rect
+                  width={NODE_WIDTH}
+                  height={NODE_HEIGHT}
+                  rx="8"
+                  fill={NODE_COLORS[node.type]}
+                  stroke={selectedId === node.id ? "#1d4ed8" : "#9ca3af"}
+                  strokeWidth={selectedId === node.id ? 3 : 1}
+                />
+                <text x="10" y="17" fontSize="10" fontWeight="700" fill="#374151">
+                  {node.type.toUpperCase()} {node.id}
+                </text>
+                {shown.map((line, i) => (
+                  <text key={i} x="10" y={35 + i * 14} fontSize="11" fill="#111827">{line}</text>
+                ))}
+                <title>{node.text}</title>
+              </g>
+            );
+          })}
+        </svg>
+      </div>
+
+      {selected ? (
+        <div className="rounded-lg border-2 border-gray-200 bg-white p-4 space-y-3" data-testid="argument-node-details">
+          <div className="flex items-center gap-2">
+            <Badge variant="outline" style={{ background: NODE_COLORS[selected.type] }}>{selected.type}</Badge>
+            <span className="text-xs text-muted-foreground">{selected.id}</span>
+            {selected.chunks && selected.chunks.length > 0 && (
+              <span className="text-xs text-muted-foreground">
+                {selected.chunks.length === 1 ? "Chunk" : "Chunks"} {selected.chunks.join(", ")}
+              </span>
+            )}
+          </div>
+          <p className="font-serif text-lg">{selected.text}</p>
+          {selected.evidence.map((quote, j) => (
+            <blockquote
+              key={j}
+              className={`font-serif text-gray-700 italic border-l-2 border-orange-400 pl-3 ${onShowInSource ? "cursor-pointer hover:bg-orange-50" : ""}`}
+              onClick={() => onShowInSource?.(argumentHighlightId(selected.id, j))}
+              title={onShowInSource ? "Show in source" : undefined}
+            >
+              "{quote}"
+            </blockquote>
+          ))}
+          {relations.length > 0 && (
+            <ul className="space-y-1 text-sm">
+              {relations.map(({ edge, outgoing, other }, i) => (
+                <li key={i}>
+                  <button className="text-left hover:underline" onClick={() => setSelectedId(other?.id || null)}>
+                    <span style={{ color: EDGE_COLORS[edge.type] }} className="font-semibold">
+                      {outgoing ? edge.type : `${edge.type === "supports" ? "supported" : "attacked"} by`}
+                    </span>{" "}
+                    {other ? `${other.type} ${other.id}: ${other.text}` : edge.from}
+                  </button>
+                  {edge.evidence.length > 0 && (
+                    <span className="text-muted-foreground italic"> ("{edge.evidence.join('" / "')}")</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">Click a node to see its evidence and relations; drag nodes to rearrange the map.</p>
+      )}
+    </div>
+  );
+}
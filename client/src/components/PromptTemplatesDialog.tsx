@@ -0,0 +1,426 @@
+import { useEffect, useState } from "react";
+import { Copy, Pencil, Plus, Save, Trash2, Wand2, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  listBuiltinPrompts,
+  getPromptTemplate,
+  createPromptTemplate,
+  updatePromptTemplate,
+  deletePromptTemplate,
+  type BuiltinPrompt,
+  type PromptTemplate,
+  type PromptTemplateVersion,
+} from "@/lib/llm";
+import {
+  FIELD_KINDS,
+  MERGE_STRATEGIES,
+  defaultDisplay,
+  outputSpecErrors,
+  type FieldKind,
+  type MergeStrategy,
+  type OutputField,
+  type OutputSpec,
+} from "@shared/functions";
+
+// A template being edited: a clone of a built-in until it is first saved
+type Draft = {
+  id?: number;
+  name: string;
+  description: string;
+  baseFunction: PromptTemplate["baseFunction"];
+  clonedFrom?: string;
+  template: string;
+  output?: OutputSpec;
+  version?: number;
+};
+
+function toDraft(template: PromptTemplate): Draft {
+  const { id, name, description, baseFunction, template: text, output, version } = template;
+  return { id, name, description: description || "", baseFunction, template: text, output: output || undefined, version };
+}
+
+const NEW_FUNCTION_TEMPLATE = `You are analyzing a text of {{wordCount}} words.
+
+Describe here what to extract from the text. The output format below is added automatically from the fields you define.`;
+
+const KIND_LABELS: Record<FieldKind, string> = {
+  text: "Text",
+  list: "List of strings",
+  records: "List of records",
+};
+
+const MERGE_LABELS: Record<MergeStrategy, string> = {
+  concatenate: "Concatenate chunk outputs",
+  deduplicate: "Deduplicate list items across chunks",
+};
+
+// The fields, chunk merge and display of a function with the 'custom' base
+function OutputEditor({ output, onChange }: { output: OutputSpec; onChange: (output: OutputSpec) => void }) {
+  const updateField = (index: number, changes: Partial<OutputField>) => {
+    onChange({ ...output, fields: output.fields.map((field, i) => i === index ? { ...field, ...changes } : field) });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {output.fields.map((field, i) => (
+          <div key={i} className="flex items-center gap-2" data-testid={`output-field-${i}`}>
+            <Input
+              className="h-8 w-32 font-mono text-xs"
+              placeholder="key"
+              value={field.name}
+              onChange={(e) => updateField(i, { name: e.target.value })}
+            />
+            <Input
+              className="h-8 w-32 text-xs"
+              placeholder="Label"
+              value={field.label}
+              onChange={(e) => updateField(i, { label: e.target.value })}
+            />
+            <Select
+              value={field.kind}
+              onValueChange={(kind) => updateField(i, {
+                kind: kind as FieldKind,
+                properties: kind === "records" ? field.properties || ["item"] : undefined,
+              })}
+            >
+              <SelectTrigger className="h-8 w-40 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {FIELD_KINDS.map(kind => <SelectItem key={kind} value={kind}>{KIND_LABELS[kind]}</SelectItem>)}
+              </SelectContent>
+            </Select>
+            {field.kind === "records" && (
+              <Input
+                className="h-8 w-40 font-mono text-xs"
+                placeholder="property, property"
+                title="Properties of each record, separated by commas"
+                value={(field.properties || []).join(", ")}
+                onChange={(e) => updateField(i, { properties: e.target.value.split(",").map(p => p.trim()) })}
+              />
+            )}
+            <Input
+              className="h-8 flex-1 text-xs"
+              placeholder="What the model should put here (optional)"
+              value={field.description || ""}
+              onChange={(e) => updateField(i, { description: e.target.value || undefined })}
+            />
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7 shrink-0"
+              disabled={output.fields.length === 1}
+              onClick={() => onChange({ ...output, fields: output.fields.filter((_, j) => j !== i) })}
+              title="Remove field"
+            >
+              <X className="w-3.5 h-3.5" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-7 gap-1 text-xs"
+          onClick={() => onChange({ ...output, fields: [...output.fields, { name: "", label: "", kind: "list" }] })}
+        >
+          <Plus className="w-3.5 h-3.5" />
+          Add field
+        </Button>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Label className="text-xs shrink-0">Chunk merge</Label>
+        <Select value={output.merge} onValueChange={(merge) => onChange({ ...output, merge: merge as MergeStrategy })}>
+          <SelectTrigger className="h-8 w-72 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {MERGE_STRATEGIES.map(merge => <SelectItem key={merge} value={merge}>{MERGE_LABELS[merge]}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Display template</Label>
+        <Textarea
+          value={output.display}
+          onChange={(e) => onChange({ ...output, display: e.target.value })}
+          placeholder={`Leave empty to show every field:\n\n${defaultDisplay(output.fields.filter(f => f.name && f.label))}`}
+          className="h-32 font-mono text-xs resize-none"
+          data-testid="textarea-display"
+        />
+        <p className="text-xs text-muted-foreground">
+          {"{{field}}"} inserts a value; {"{{#field}}...{{/field}}"} repeats for each item, with {"{{.}}"} the item and {"{{property}}"} a record's property.
+        </p>
+      </div>
+    </div>
+  );
+}
+
+interface PromptTemplatesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  username: string | null;
+  templates: PromptTemplate[];
+  onTemplatesChange: (templates: PromptTemplate[]) => void;
+}
+
+export function PromptTemplatesDialog({ open, onOpenChange, username, templates, onTemplatesChange }: PromptTemplatesDialogProps) {
+  const [builtins, setBuiltins] = useState<BuiltinPrompt[]>([]);
+  const [variables, setVariables] = useState<string[]>([]);
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [versions, setVersions] = useState<PromptTemplateVersion[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open || builtins.length > 0) return;
+    listBuiltinPrompts()
+      .then(({ prompts, variables }) => {
+        // Only analysis prompts can back a custom function
+        setBuiltins(prompts.filter(p => p.id.startsWith("analysis.")));
+        setVariables(variables);
+      })
+      .catch(error => console.error("Failed to load prompts:", error));
+  }, [open]);
+
+  const handleClone = (prompt: BuiltinPrompt) => {
+    setVersions([]);
+    setDraft({
+      name: `My ${prompt.name}`,
+      description: "",
+      baseFunction: prompt.id.slice("analysis.".length) as Draft["baseFunction"],
+      clonedFrom: prompt.id,
+      template: prompt.template,
+    });
+  };
+
+  const handleNew = () => {
+    setVersions([]);
+    setDraft({
+      name: "New function",
+      description: "",
+      baseFunction: "custom",
+      template: NEW_FUNCTION_TEMPLATE,
+      output: { fields: [{ name: "items", label: "Items", kind: "list" }], merge: "concatenate", display: "" },
+    });
+  };
+
+  const handleEdit = async (template: PromptTemplate) => {
+    if (!username) return;
+    setDraft(toDraft(template));
+    try {
+      const { versions } = await getPromptTemplate(template.id);
+      setVersions(versions);
+    } catch (error) {
+      console.error("Failed to load template versions:", error);
+      setVersions([]);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!username || !draft) return;
+
+    setIsSaving(true);
+    try {
+      const details = { name: draft.name, description: draft.description.trim() || null, template: draft.template, output: draft.output };
+      const saved = draft.id
+        ? await updatePromptTemplate(draft.id, details)
+        : await createPromptTemplate({ ...details, baseFunction: draft.baseFunction, clonedFrom: draft.clonedFrom });
+      onTemplatesChange(draft.id
+        ? templates.map(t => t.id === saved.id ? saved : t)
+        : [...templates, saved].sort((a, b) => a.name.localeCompare(b.name)));
+      if (saved.version !== draft.version) {
+        setVersions((await getPromptTemplate(saved.id)).versions);
+      }
+      setDraft(toDraft(saved));
+      toast({ description: `Saved "${saved.name}" (version ${saved.version})` });
+    } catch (error: any) {
+      toast({
+        title: "Could not save",
+        description: error.message || "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: PromptTemplate) => {
+    if (!username) return;
+
+    try {
+      await deletePromptTemplate(template.id);
+      onTemplatesChange(templates.filter(t => t.id !== template.id));
+      if (draft?.id === template.id) setDraft(null);
+      toast({ description: `Deleted "${template.name}"` });
+    } catch (error: any) {
+      toast({
+        title: "Could not delete",
+        description: error.message || "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const outputErrors = draft?.output ? outputSpecErrors(draft.output) : [];
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-5xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="w-5 h-5 text-primary" />
+            Prompts & Custom Functions
+          </DialogTitle>
+          <DialogDescription>
+            Clone a built-in prompt and edit it into a custom function that keeps the output and display of the function it was cloned from, or create a new function with its own output fields. Each saved edit becomes a new version.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 h-[65vh]">
+          <ScrollArea className="w-72 shrink-0 border rounded-lg p-2">
+            <div className="flex items-center justify-between px-1 mb-2">
+              <p className="text-xs font-semibold uppercase text-muted-foreground">Your functions</p>
+              <Button variant="ghost" size="sm" className="h-6 px-2 gap-1 text-xs" onClick={handleNew} data-testid="button-new-function">
+                <Plus className="w-3.5 h-3.5" />
+                New
+              </Button>
+            </div>
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-1 mb-4">None yet. Create one or clone a built-in below.</p>
+            ) : (
+              <div className="space-y-2 mb-4">
+                {templates.map(template => (
+                  <Card
+                    key={template.id}
+                    className={`p-2 flex items-center justify-between gap-2 ${draft?.id === template.id ? 'ring-2 ring-primary' : ''}`}
+                    data-testid={`prompt-template-${template.id}`}
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium truncate">{template.name}</p>
+                      <p className="text-xs text-muted-foreground">{template.baseFunction} • v{template.version}</p>
+                    </div>
+                    <div className="flex shrink-0">
+                      <Button variant="ghost" size="icon" className="h-7 w-7" onClick={() => handleEdit(template)} title="Edit">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </Button>
+                      <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => handleDelete(template)} title="Delete">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs font-semibold uppercase text-muted-foreground px-1 mb-2">Built-in</p>
+            <div className="space-y-2">
+              {builtins.map(prompt => (
+                <Card key={prompt.id} className="p-2 flex items-center justify-between gap-2">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium truncate">{prompt.name}</p>
+                    <p className="text-xs text-muted-foreground">{prompt.id} • v{prompt.version}</p>
+                  </div>
+                  <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={() => handleClone(prompt)} title="Clone" data-testid={`button-clone-${prompt.id}`}>
+                    <Copy className="w-3.5 h-3.5" />
+                  </Button>
+                </Card>
+              ))}
+            </div>
+          </ScrollArea>
+
+          {draft ? (
+            <div className="flex-1 flex flex-col gap-3 min-w-0">
+              <div className="flex gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="template-name" className="text-xs">Name</Label>
+                  <Input
+                    id="template-name"
+                    value={draft.name}
+                    onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                    data-testid="input-template-name"
+                  />
+                </div>
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="template-description" className="text-xs">Description</Label>
+                  <Input
+                    id="template-description"
+                    placeholder="Optional"
+                    value={draft.description}
+                    onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="flex items-center gap-2 text-xs text-muted-foreground flex-wrap">
+                <Badge variant="outline">{draft.baseFunction}</Badge>
+                {draft.version !== undefined && <Badge variant="outline">v{draft.version}</Badge>}
+                <span>Variables: {variables.map(v => `{{${v}}}`).join(", ")}; {"{{minQuotes * 3}}"} multiplies</span>
+              </div>
+              <Textarea
+                value={draft.template}
+                onChange={(e) => setDraft({ ...draft, template: e.target.value })}
+                className={`${draft.output ? "h-40 shrink-0" : "flex-1"} font-mono text-xs resize-none`}
+                data-testid="textarea-template"
+              />
+              {draft.output && (
+                <ScrollArea className="flex-1 border rounded-lg p-3">
+                  <OutputEditor output={draft.output} onChange={(output) => setDraft({ ...draft, output })} />
+                </ScrollArea>
+              )}
+              {outputErrors.length > 0 && <p className="text-xs text-destructive">{outputErrors[0]}</p>}
+              <div className="flex items-center justify-between gap-2">
+                <div className="flex items-center gap-1 flex-wrap text-xs text-muted-foreground">
+                  {versions.length > 1 && <span>Versions:</span>}
+                  {versions.length > 1 && versions.map(version => (
+                    <Button
+                      key={version.id}
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      title={`Load the text of version ${version.version} (${new Date(version.createdAt).toLocaleString()})`}
+                      onClick={() => setDraft({ ...draft, template: version.template, output: version.output || undefined })}
+                    >
+                      v{version.version}
+                    </Button>
+                  ))}
+                </div>
+                <Button onClick={handleSave} disabled={isSaving || !draft.name.trim() || !draft.template.trim() || outputErrors.length > 0} className="gap-2" data-testid="button-save-template">
+                  <Save className="w-4 h-4" />
+                  {draft.id ? "Save" : "Create function"}
+                </Button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground border rounded-lg">
+              <Wand2 className="w-12 h-12 mb-2 opacity-50" />
+              <p>Select a function to edit, or clone a built-in prompt</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,179 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { createAligner, type QuoteLocation } from "@shared/alignment";
+import type { AnalysisResult } from "@/lib/llm";
+
+export type HighlightKind = "quote" | "annotated" | "evidence" | "argument" | "sharp";
+
+export interface Highlight {
+  id: string;
+  kind: HighlightKind;
+  start: number;
+  end: number;
+  label: string;  // shown when hovering the passage
+}
+
+const KIND_STYLES: Record<HighlightKind, string> = {
+  quote: "bg-yellow-200",
+  annotated: "bg-blue-200",
+  evidence: "bg-teal-200",
+  argument: "bg-orange-200",
+  sharp: "bg-purple-200",
+};
+
+const KIND_LABELS: Record<HighlightKind, string> = {
+  quote: "Quotes",
+  annotated: "Annotated quotes",
+  evidence: "View evidence",
+  argument: "Argument evidence",
+  sharp: "Sharp quotes",
+};
+
+// Uses the server's locations when they still fit the text; results saved
+// before verification, or a text edited since, are aligned again here
+function createLocator(text: string) {
+  let locate: ((quote: string) => QuoteLocation | null) | null = null;
+
+  return (quote: string, known: QuoteLocation | null | undefined): QuoteLocation | null => {
+    if (known === null) return null;
+    if (known && known.end <= text.length) return known;
+    if (!locate) locate = createAligner(text);
+    return locate(quote);
+  };
+}
+
+export function argumentHighlightId(nodeId: string, evidenceIndex: number): string {
+  return `argument-${nodeId}-${evidenceIndex}`;
+}
+
+export function highlightsForResult(text: string, result: AnalysisResult): Highlight[] {
+  const find = createLocator(text);
+  const highlights: Highlight[] = [];
+  const add = (id: string, kind: HighlightKind, location: QuoteLocation | null, label: string) => {
+    if (location) highlights.push({ id, kind, start: location.start, end: location.end, label });
+  };
+
+  result.quotes.forEach((quote, i) => {
+    add(`quote-${i}`, "quote", find(quote, result.locations?.quotes[i]), `Quote ${i + 1}`);
+  });
+  result.annotatedQuotes.forEach((item, i) => {
+    add(`annotated-${i}`, "annotated", find(item.quote, result.locations?.annotatedQuotes[i]), item.context);
+  });
+  (result.views || []).forEach((view, i) => {
+    view.evidence.forEach((quote, j) => {
+      add(`evidence-${i}-${j}`, "evidence", find(quote, result.locations?.views[i]?.[j]), `View ${i + 1}: ${view.view}`);
+    });
+  });
+  (result.argumentMap?.nodes || []).forEach((node, i) => {
+    node.evidence.forEach((quote, j) => {
+      const location = find(quote, result.locations?.argumentMap?.nodes[i]?.[j]);
+      add(argumentHighlightId(node.id, j), "argument", location, `${node.type.charAt(0).toUpperCase()}${node.type.slice(1)}: ${node.text}`);
+    });
+  });
+
+  return highlights;
+}
+
+export function highlightsForQuotes(text: string, quotes: string[], locations?: (QuoteLocation | null)[]): Highlight[] {
+  const find = createLocator(text);
+  return quotes.flatMap((quote, i) => {
+    const location = find(quote, locations?.[i]);
+    return location
+      ? [{ id: `sharp-${i}`, kind: "sharp" as const, start: location.start, end: location.end, label: `Sharp quote ${i + 1}` }]
+      : [];
+  });
+}
+
+interface Segment {
+  start: number;
+  end: number;
+  highlights: Highlight[];
+}
+
+// Cuts the text at every highlight boundary; overlapping highlights share a segment
+function segmentText(length: number, highlights: Highlight[]): Segment[] {
+  const points = new Set<number>([0, length]);
+  for (const h of highlights) {
+    points.add(Math.max(0, Math.min(h.start, length)));
+    points.add(Math.max(0, Math.min(h.end, length)));
+  }
+  const sorted = Array.from(points).sort((a, b) => a - b);
+
+  const segments: Segment[] = [];
+  for (let i = 0; i < sorted.length - 1; i++) {
+    const start = sorted[i];
+    const end = sorted[i + 1];
+    segments.push({ start, end, highlights: highlights.filter(h => h.start <= start && h.end >= end) });
+  }
+  return segments;
+}
+
+interface SourceViewerProps {
+  text: string;
+  highlights: Highlight[];
+  activeId?: string | null;
+  onSelect?: (id: string) => void;
+  className?: string;
+}
+
+export function SourceViewer({ text, highlights, activeId, onSelect, className }: SourceViewerProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const segments = useMemo(() => segmentText(text.length, highlights), [text, highlights]);
+  const counts = useMemo(() => {
+    const byKind = new Map<HighlightKind, number>();
+    highlights.forEach(h => byKind.set(h.kind, (byKind.get(h.kind) || 0) + 1));
+    return Array.from(byKind.entries());
+  }, [highlights]);
+
+  useEffect(() => {
+    if (!activeId) return;
+    const element = containerRef.current?.querySelector(`[data-highlight-ids~="${activeId}"]`);
+    element?.scrollIntoView({ behavior: "smooth", block: "center" });
+  }, [activeId, segments]);
+
+  return (
+    <div className={`flex flex-col min-h-0 ${className || ""}`}>
+      {counts.length > 0 && (
+        <div className="flex flex-wrap gap-3 px-6 py-2 border-b border-gray-200 text-xs text-muted-foreground">
+          {counts.map(([kind, count]) => (
+            <span key={kind} className="flex items-center gap-1.5">
+              <span className={`w-3 h-3 rounded-sm ${KIND_STYLES[kind]}`} />
+              {KIND_LABELS[kind]} ({count})
+            </span>
+          ))}
+        </div>
+      )}
+      <div ref={containerRef} className="flex-1 overflow-auto p-6 text-xl leading-relaxed font-serif whitespace-pre-wrap" data-testid="source-viewer">
+        {segments.map(segment => {
+          const slice = text.slice(segment.start, segment.end);
+          if (segment.highlights.length === 0) {
+            return <span key={segment.start}>{slice}</span>;
+          }
+
+          // The innermost (shortest) highlight decides the colour and the click target
+          const top = segment.highlights.reduce((a, b) => (b.end - b.start < a.end - a.start ? b : a));
+          const active = segment.highlights.some(h => h.id === activeId);
+
+          return (
+            <Tooltip key={segment.start}>
+              <TooltipTrigger asChild>
+                <mark
+                  data-highlight-ids={segment.highlights.map(h => h.id).join(" ")}
+                  onClick={() => onSelect?.(top.id)}
+                  className={`${KIND_STYLES[top.kind]} text-inherit rounded-sm cursor-pointer ${active ? "ring-2 ring-primary" : ""}`}
+                >
+                  {slice}
+                </mark>
+              </TooltipTrigger>
+              <TooltipContent className="max-w-sm whitespace-normal space-y-1">
+                {segment.highlights.map(h => (
+                  <p key={h.id}>{h.label}</p>
+                ))}
+              </TooltipContent>
+            </Tooltip>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
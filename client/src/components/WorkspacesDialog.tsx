@@ -0,0 +1,297 @@
+import { useEffect, useState } from "react";
+import { LogOut, Plus, Save, Trash2, UserPlus, Users, X } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Card } from "@/components/ui/card";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  getWorkspace,
+  createWorkspace,
+  renameWorkspace,
+  deleteWorkspace,
+  setWorkspaceMember,
+  removeWorkspaceMember,
+  type Workspace,
+  type WorkspaceMember,
+} from "@/lib/llm";
+import { WORKSPACE_ROLES, type WorkspaceRole } from "@shared/workspaces";
+
+const ROLE_LABELS: Record<WorkspaceRole, string> = {
+  owner: "Owner",
+  editor: "Editor",
+  viewer: "Viewer",
+};
+
+interface WorkspacesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  username: string | null;
+  workspaces: Workspace[];
+  onWorkspacesChange: (workspaces: Workspace[]) => void;
+}
+
+export function WorkspacesDialog({ open, onOpenChange, username, workspaces, onWorkspacesChange }: WorkspacesDialogProps) {
+  const [selected, setSelected] = useState<Workspace | null>(null);
+  const [members, setMembers] = useState<WorkspaceMember[]>([]);
+  const [newName, setNewName] = useState("");
+  const [rename, setRename] = useState("");
+  const [memberName, setMemberName] = useState("");
+  const [memberRole, setMemberRole] = useState<WorkspaceRole>("editor");
+  const { toast } = useToast();
+
+  const isOwner = selected?.role === "owner";
+
+  useEffect(() => {
+    if (!open) setSelected(null);
+  }, [open]);
+
+  const showError = (title: string, error: any) => {
+    toast({
+      title,
+      description: error.message || "Unknown error",
+      variant: "destructive",
+    });
+  };
+
+  const handleSelect = async (workspace: Workspace) => {
+    if (!username) return;
+    try {
+      const { workspace: loaded, members } = await getWorkspace(workspace.id);
+      setSelected(loaded);
+      setRename(loaded.name);
+      setMembers(members);
+    } catch (error: any) {
+      showError("Could not load workspace", error);
+    }
+  };
+
+  const handleCreate = async () => {
+    if (!username || !newName.trim()) return;
+    try {
+      const created = await createWorkspace(newName.trim());
+      onWorkspacesChange([...workspaces, created].sort((a, b) => a.name.localeCompare(b.name)));
+      setNewName("");
+      await handleSelect(created);
+      toast({ description: `Created "${created.name}"` });
+    } catch (error: any) {
+      showError("Could not create workspace", error);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!selected || !rename.trim()) return;
+    try {
+      const updated = await renameWorkspace(selected.id, rename.trim());
+      setSelected(updated);
+      onWorkspacesChange(workspaces.map(w => w.id === updated.id ? updated : w));
+    } catch (error: any) {
+      showError("Could not rename workspace", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    try {
+      await deleteWorkspace(selected.id);
+      onWorkspacesChange(workspaces.filter(w => w.id !== selected.id));
+      toast({ description: `Deleted "${selected.name}"; its items went back to whoever added them` });
+      setSelected(null);
+    } catch (error: any) {
+      showError("Could not delete workspace", error);
+    }
+  };
+
+  const handleSetMember = async (name: string, role: WorkspaceRole) => {
+    if (!selected || !name.trim()) return;
+    try {
+      const saved = await setWorkspaceMember(selected.id, name.trim(), role);
+      setMembers(prev => [...prev.filter(m => m.userId !== saved.userId), saved]
+        .sort((a, b) => a.username.localeCompare(b.username)));
+      setMemberName("");
+    } catch (error: any) {
+      showError("Could not update member", error);
+    }
+  };
+
+  const handleRemoveMember = async (member: WorkspaceMember) => {
+    if (!selected) return;
+    try {
+      await removeWorkspaceMember(selected.id, member.userId);
+      if (member.username === username) {
+        // Leaving: the workspace is no longer ours to see
+        onWorkspacesChange(workspaces.filter(w => w.id !== selected.id));
+        setSelected(null);
+        toast({ description: `Left "${selected.name}"` });
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.userId !== member.userId));
+    } catch (error: any) {
+      showError("Could not remove member", error);
+    }
+  };
+
+  const self = members.find(member => member.username === username);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh]">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="w-5 h-5 text-primary" />
+            Workspaces
+          </DialogTitle>
+          <DialogDescription>
+            Author profiles, documents and history saved to a workspace are visible to all of its members. Editors can add and delete them; viewers can only read them. Analyses of a shared document are shared too.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-4 h-[55vh]">
+          <ScrollArea className="w-64 shrink-0 border rounded-lg p-2">
+            <div className="flex gap-1 mb-3">
+              <Input
+                className="h-8 text-sm"
+                placeholder="New workspace"
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+                data-testid="input-new-workspace"
+              />
+              <Button variant="ghost" size="icon" className="h-8 w-8 shrink-0" onClick={handleCreate} disabled={!newName.trim()} title="Create">
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+            {workspaces.length === 0 ? (
+              <p className="text-sm text-muted-foreground px-1">You're not in any workspace yet.</p>
+            ) : (
+              <div className="space-y-2">
+                {workspaces.map(workspace => (
+                  <Card
+                    key={workspace.id}
+                    className={`p-2 cursor-pointer hover:bg-muted ${selected?.id === workspace.id ? 'ring-2 ring-primary' : ''}`}
+                    onClick={() => handleSelect(workspace)}
+                    data-testid={`workspace-${workspace.id}`}
+                  >
+                    <p className="text-sm font-medium truncate">{workspace.name}</p>
+                    <p className="text-xs text-muted-foreground">{ROLE_LABELS[workspace.role]}</p>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+
+          {selected ? (
+            <div className="flex-1 flex flex-col gap-3 min-w-0">
+              {isOwner ? (
+                <div className="flex items-end gap-2">
+                  <div className="flex-1 space-y-1">
+                    <Label htmlFor="workspace-name" className="text-xs">Name</Label>
+                    <Input id="workspace-name" value={rename} onChange={(e) => setRename(e.target.value)} />
+                  </div>
+                  <Button variant="outline" size="icon" onClick={handleRename} disabled={!rename.trim() || rename.trim() === selected.name} title="Rename">
+                    <Save className="w-4 h-4" />
+                  </Button>
+                </div>
+              ) : (
+                <div className="flex items-center gap-2">
+                  <p className="font-medium">{selected.name}</p>
+                  <Badge variant="outline">{ROLE_LABELS[selected.role]}</Badge>
+                </div>
+              )}
+
+              <ScrollArea className="flex-1 border rounded-lg p-2">
+                <div className="space-y-2">
+                  {members.map(member => (
+                    <div key={member.userId} className="flex items-center justify-between gap-2" data-testid={`workspace-member-${member.userId}`}>
+                      <span className="text-sm truncate">{member.username}</span>
+                      <div className="flex items-center gap-1 shrink-0">
+                        {isOwner ? (
+                          <Select value={member.role} onValueChange={(role) => handleSetMember(member.username, role as WorkspaceRole)}>
+                            <SelectTrigger className="h-7 w-28 text-xs">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {WORKSPACE_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                            </SelectContent>
+                          </Select>
+                        ) : (
+                          <Badge variant="secondary" className="text-xs">{ROLE_LABELS[member.role]}</Badge>
+                        )}
+                        {isOwner && member.username !== username && (
+                          <Button variant="ghost" size="icon" className="h-7 w-7 text-destructive hover:text-destructive" onClick={() => handleRemoveMember(member)} title="Remove">
+                            <X className="w-3.5 h-3.5" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+
+              {isOwner && (
+                <div className="flex gap-2">
+                  <Input
+                    className="h-9"
+                    placeholder="Username"
+                    value={memberName}
+                    onChange={(e) => setMemberName(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleSetMember(memberName, memberRole)}
+                    data-testid="input-member-username"
+                  />
+                  <Select value={memberRole} onValueChange={(role) => setMemberRole(role as WorkspaceRole)}>
+                    <SelectTrigger className="h-9 w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {WORKSPACE_ROLES.map(role => <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>)}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={() => handleSetMember(memberName, memberRole)} disabled={!memberName.trim()} className="gap-2 shrink-0" data-testid="button-add-member">
+                    <UserPlus className="w-4 h-4" />
+                    Add
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex justify-end gap-2">
+                {self && (
+                  <Button variant="outline" size="sm" className="gap-2" onClick={() => handleRemoveMember(self)}>
+                    <LogOut className="w-4 h-4" />
+                    Leave
+                  </Button>
+                )}
+                {isOwner && (
+                  <Button variant="destructive" size="sm" className="gap-2" onClick={handleDelete} data-testid="button-delete-workspace">
+                    <Trash2 className="w-4 h-4" />
+                    Delete workspace
+                  </Button>
+                )}
+              </div>
+            </div>
+          ) : (
+            <div className="flex-1 flex flex-col items-center justify-center text-muted-foreground border rounded-lg">
+              <Users className="w-12 h-12 mb-2 opacity-50" />
+              <p>Select a workspace, or create one to share with your team</p>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,3 +1,10 @@
+import type { QuoteLocation } from "@shared/alignment";
+import type { ChunkOptions } from "@shared/chunking";
+import type { DocumentFormat, DocumentPage, DocumentSection, IngestedDocument } from "@shared/documents";
+import type { CustomData, OutputSpec } from "@shared/functions";
+import type { ArgumentMap } from "@shared/argumentMap";
+import type { WorkspaceRole } from "@shared/workspaces";
+
 export type AnalysisResult = {
   quotes: string[];
   annotatedQuotes: { quote: string; context: string }[];
@@ -5,20 +12,39 @@ export type AnalysisResult = {
   database: string;
   analyzer: string;
   views?: { view: string; evidence: string[] }[];
+  argumentMap?: ArgumentMap;
+  // Chunked runs only: the chunks each list item was found in
+  sources?: { quotes: number[][]; annotatedQuotes: number[][]; views: number[][] };
+  // Where each quote (for views, each evidence quote) was found in the source; null if it was not
+  locations?: {
+    quotes: (QuoteLocation | null)[];
+    annotatedQuotes: (QuoteLocation | null)[];
+    views: (QuoteLocation | null)[][];
+    argumentMap?: { nodes: (QuoteLocation | null)[][]; edges: (QuoteLocation | null)[][] };
+  };
+  // Custom functions only: the output their spec declares and its rendered display
+  custom?: { data: CustomData; display: string };
+  // Set when the result was served from the server's cache: when it was first computed
+  cachedAt?: string;
 };
 
+// Requests carry an ordered failover list; responses name the provider that answered
+export type Answered<T> = T & { provider: string };
+
 export async function analyzeText(
   text: string, 
-  provider: string,
-  functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views',
-  username?: string
-): Promise<AnalysisResult> {
+  providers: string[],
+  functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views' | 'arguments' | 'custom',
+  documentId?: number,
+  forceRefresh?: boolean,
+  templateId?: number
+): Promise<Answered<AnalysisResult>> {
   const response = await fetch("/api/analyze", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ text, provider, functionType, username }),
+    body: JSON.stringify({ text, providers, functionType, documentId, forceRefresh, templateId }),
   });
 
   if (!response.ok) {
@@ -32,6 +58,7 @@ export async function analyzeText(
 export type IntelligenceResult = {
   wordCount: number;
   sharpQuotes: string[];
+  sharpQuoteLocations?: (QuoteLocation | null)[];
   quoteCount: number;
   density: number;
   score: number;
@@ -47,15 +74,15 @@ export type IntelligenceCompareResult = {
 
 export async function measureIntelligence(
   text: string,
-  provider: string,
-  username?: string
-): Promise<IntelligenceResult> {
+  providers: string[],
+  documentId?: number
+): Promise<Answered<IntelligenceResult>> {
   const response = await fetch("/api/intelligence", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ text, provider, username }),
+    body: JSON.stringify({ text, providers, documentId }),
   });
 
   if (!response.ok) {
@@ -69,15 +96,14 @@ export async function measureIntelligence(
 export async function compareIntelligence(
   textA: string,
   textB: string,
-  provider: string,
-  username?: string
-): Promise<IntelligenceCompareResult> {
+  providers: string[]
+): Promise<Answered<IntelligenceCompareResult>> {
   const response = await fetch("/api/intelligence/compare", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ textA, textB, provider, username }),
+    body: JSON.stringify({ textA, textB, providers }),
   });
 
   if (!response.ok) {
@@ -90,18 +116,20 @@ export async function compareIntelligence(
 
 export async function analyzeTextStreaming(
   text: string,
-  provider: string,
-  functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views',
+  providers: string[],
+  functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views' | 'arguments' | 'custom',
   onChunk: (chunk: string) => void,
-  onComplete?: () => void,
-  username?: string
+  onComplete?: (result: AnalysisResult, provider: string) => void,
+  documentId?: number,
+  forceRefresh?: boolean,
+  templateId?: number
 ): Promise<void> {
   const response = await fetch("/api/analyze/stream", {
     method: "POST",
     headers: {
       "Content-Type": "application/json",
     },
-    body: JSON.stringify({ text, provider, functionType, username }),
+    body: JSON.stringify({ text, providers, functionType, documentId, forceRefresh, templateId }),
   });
 
   if (!response.ok) {
@@ -133,7 +161,7 @@ export async function analyzeTextStreaming(
             throw new Error(parsed.error);
           }
           if (parsed.done) {
-            onComplete?.();
+            onComplete?.(parsed.result, parsed.provider);
             return;
           }
           if (parsed.content) {
@@ -147,6 +175,497 @@ export async function analyzeTextStreaming(
       }
     }
   }
-  
-  onComplete?.();
+
+  throw new Error("Stream ended before the analysis completed");
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type AnalysisJob = {
+  id: number;
+  functionType: string;
+  providers: string[];
+  status: JobStatus;
+  inputPreview: string | null;
+  totalChunks: number;
+  completedChunks: number;
+  synthesize: boolean;
+  result: AnalysisResult | null;
+  error: string | null;
+  historyId: number | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+};
+
+export type AnalysisJobChunk = {
+  id: number;
+  chunkNumber: number;
+  startWord: number;
+  endWord: number;
+  status: 'pending' | 'running' | 'completed' | 'failed';
+  provider: string | null;
+  output: AnalysisResult | null;
+  error: string | null;
+  completedAt: string | null;
+};
+
+export async function createAnalysisJob(
+  text: string,
+  providers: string[],
+  functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views' | 'arguments' | 'custom',
+  chunkIds: number[],
+  chunking: ChunkOptions,
+  synthesize: boolean,
+  documentId?: number,
+  templateId?: number
+): Promise<AnalysisJob> {
+  const response = await fetch("/api/jobs", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text, providers, functionType, chunkIds, chunking, synthesize, documentId, templateId }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to start job");
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+export async function getAnalysisJob(
+  id: number
+): Promise<{ job: AnalysisJob; chunks: AnalysisJobChunk[] }> {
+  const response = await fetch(`/api/jobs/${id}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load job");
+  }
+
+  return response.json();
+}
+
+export async function cancelAnalysisJob(id: number): Promise<AnalysisJob> {
+  const response = await fetch(`/api/jobs/${id}/cancel`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to cancel job");
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+export async function resumeAnalysisJob(id: number): Promise<AnalysisJob> {
+  const response = await fetch(`/api/jobs/${id}/resume`, {
+    method: "POST",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to resume job");
+  }
+
+  const data = await response.json();
+  return data.job;
+}
+
+export async function findAnalysisJobs(textHash: string): Promise<AnalysisJob[]> {
+  const response = await fetch(`/api/jobs?textHash=${textHash}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load jobs");
+  }
+
+  const data = await response.json();
+  return data.jobs;
+}
+
+// Same SHA-256 hex digest the server stores on each job
+export async function hashText(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
+
+export async function ingestFile(file: File): Promise<IngestedDocument> {
+  const response = await fetch(`/api/ingest?filename=${encodeURIComponent(file.name)}`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/octet-stream",
+    },
+    body: file,
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to read file");
+  }
+
+  const data = await response.json();
+  return data.document;
+}
+
+export type DocumentSummary = {
+  id: number;
+  userId: number;
+  // Set when the document is shared in a workspace
+  workspaceId: number | null;
+  title: string;
+  author: string | null;
+  wordCount: number;
+  format: DocumentFormat | null;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type SavedDocument = DocumentSummary & {
+  text: string;
+  sections: DocumentSection[] | null;
+  pages: DocumentPage[] | null;
+};
+
+export type DocumentHistoryItem = {
+  id: number;
+  userId: number | null;
+  workspaceId: number | null;
+  analysisType: string;
+  provider: string | null;
+  inputPreview: string | null;
+  documentId: number | null;
+  promptId: string | null;
+  promptVersion: number | null;
+  outputData: any;
+  createdAt: string;
+};
+
+export async function listDocuments(): Promise<DocumentSummary[]> {
+  const response = await fetch(`/api/documents`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load documents");
+  }
+
+  const data = await response.json();
+  return data.documents;
+}
+
+export async function getDocument(
+  id: number
+): Promise<{ document: SavedDocument; history: DocumentHistoryItem[] }> {
+  const response = await fetch(`/api/documents/${id}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load document");
+  }
+
+  return response.json();
+}
+
+export async function saveDocument(
+  text: string,
+  details: { title?: string; author?: string; format?: DocumentFormat; sections?: DocumentSection[]; pages?: DocumentPage[]; workspaceId?: number | null }
+): Promise<{ document: SavedDocument; created: boolean }> {
+  const response = await fetch("/api/documents", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ text, ...details }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to save document");
+  }
+
+  return response.json();
+}
+
+export async function updateDocument(
+  id: number,
+  details: { title?: string; author?: string | null; workspaceId?: number | null }
+): Promise<SavedDocument> {
+  const response = await fetch(`/api/documents/${id}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(details),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update document");
+  }
+
+  const data = await response.json();
+  return data.document;
+}
+
+export async function deleteDocument(id: number): Promise<void> {
+  const response = await fetch(`/api/documents/${id}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to delete document");
+  }
+}
+
+// Workspaces share authors, documents and history between their members
+export type Workspace = {
+  id: number;
+  name: string;
+  // The current user's role
+  role: WorkspaceRole;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type WorkspaceMember = {
+  id: number;
+  workspaceId: number;
+  userId: number;
+  username: string;
+  role: WorkspaceRole;
+  createdAt: string;
+};
+
+export async function listWorkspaces(): Promise<Workspace[]> {
+  const response = await fetch("/api/workspaces");
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load workspaces");
+  }
+
+  const data = await response.json();
+  return data.workspaces;
+}
+
+export async function getWorkspace(
+  id: number
+): Promise<{ workspace: Workspace; members: WorkspaceMember[] }> {
+  const response = await fetch(`/api/workspaces/${id}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load workspace");
+  }
+
+  return response.json();
+}
+
+export async function createWorkspace(name: string): Promise<Workspace> {
+  const response = await fetch("/api/workspaces", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to create workspace");
+  }
+
+  const data = await response.json();
+  return data.workspace;
+}
+
+export async function renameWorkspace(id: number, name: string): Promise<Workspace> {
+  const response = await fetch(`/api/workspaces/${id}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ name }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to rename workspace");
+  }
+
+  const data = await response.json();
+  return data.workspace;
+}
+
+export async function deleteWorkspace(id: number): Promise<void> {
+  const response = await fetch(`/api/workspaces/${id}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to delete workspace");
+  }
+}
+
+// Adds a member, or changes the role of one already in the workspace
+export async function setWorkspaceMember(
+  workspaceId: number,
+  username: string,
+  role: WorkspaceRole
+): Promise<WorkspaceMember> {
+  const response = await fetch(`/api/workspaces/${workspaceId}/members`, {
+    method: "PUT",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({ username, role }),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to update member");
+  }
+
+  const data = await response.json();
+  return data.member;
+}
+
+export async function removeWorkspaceMember(workspaceId: number, userId: number): Promise<void> {
+  const response = await fetch(`/api/workspaces/${workspaceId}/members/${userId}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to remove member");
+  }
+}
+
+// Built-in prompts are read-only; analysis prompts can be cloned into custom functions
+export type BuiltinPrompt = {
+  id: string;
+  version: number;
+  name: string;
+  template: string;
+};
+
+export type PromptTemplate = {
+  id: number;
+  name: string;
+  description: string | null;
+  baseFunction: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views' | 'arguments' | 'custom';
+  clonedFrom: string | null;
+  template: string;
+  // Functions with the 'custom' base declare their own output, merge and display
+  output: OutputSpec | null;
+  version: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type PromptTemplateVersion = {
+  id: number;
+  templateId: number;
+  version: number;
+  template: string;
+  output: OutputSpec | null;
+  createdAt: string;
+};
+
+export async function listBuiltinPrompts(): Promise<{ prompts: BuiltinPrompt[]; variables: string[] }> {
+  const response = await fetch("/api/prompts");
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load prompts");
+  }
+
+  return response.json();
+}
+
+export async function listPromptTemplates(): Promise<PromptTemplate[]> {
+  const response = await fetch(`/api/prompt-templates`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load custom functions");
+  }
+
+  const data = await response.json();
+  return data.templates;
+}
+
+export async function getPromptTemplate(
+  id: number
+): Promise<{ template: PromptTemplate; versions: PromptTemplateVersion[] }> {
+  const response = await fetch(`/api/prompt-templates/${id}`);
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to load custom function");
+  }
+
+  return response.json();
+}
+
+export async function createPromptTemplate(
+  details: { name: string; description?: string | null; baseFunction: PromptTemplate["baseFunction"]; clonedFrom?: string; template: string; output?: OutputSpec | null }
+): Promise<PromptTemplate> {
+  const response = await fetch("/api/prompt-templates", {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(details),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to save custom function");
+  }
+
+  const data = await response.json();
+  return data.template;
+}
+
+export async function updatePromptTemplate(
+  id: number,
+  details: { name?: string; description?: string | null; template?: string; output?: OutputSpec }
+): Promise<PromptTemplate> {
+  const response = await fetch(`/api/prompt-templates/${id}`, {
+    method: "PATCH",
+    headers: {
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(details),
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to save custom function");
+  }
+
+  const data = await response.json();
+  return data.template;
+}
+
+export async function deletePromptTemplate(id: number): Promise<void> {
+  const response = await fetch(`/api/prompt-templates/${id}`, {
+    method: "DELETE",
+  });
+
+  if (!response.ok) {
+    const error = await response.json();
+    throw new Error(error.error || "Failed to delete custom function");
+  }
 }
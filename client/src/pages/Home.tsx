@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { 
   Upload, 
@@ -32,7 +32,12 @@ import {
   GitCompare,
   History,
   Eye,
-  Clock
+  Clock,
+  Library,
+  RefreshCw,
+  Wand2,
+  Users,
+  Network
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
@@ -51,8 +56,8 @@ import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Card } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
-import { Switch } from "@/components/ui/switch";
 import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
 import { ResizablePanelGroup, ResizablePanel, ResizableHandle } from "@/components/ui/resizable";
 import {
   Dialog,
@@ -62,16 +67,20 @@ import {
   DialogTitle,
   DialogTrigger,
 } from "@/components/ui/dialog";
-import { analyzeText, analyzeTextStreaming, AnalysisResult, measureIntelligence, compareIntelligence, IntelligenceResult, IntelligenceCompareResult } from "@/lib/llm";
+import { analyzeText, analyzeTextStreaming, AnalysisResult, measureIntelligence, compareIntelligence, IntelligenceResult, IntelligenceCompareResult, createAnalysisJob, getAnalysisJob, cancelAnalysisJob, resumeAnalysisJob, findAnalysisJobs, hashText, ingestFile, listDocuments, getDocument, saveDocument, updateDocument, deleteDocument, listPromptTemplates, listWorkspaces, AnalysisJob, AnalysisJobChunk, DocumentSummary, SavedDocument, PromptTemplate, Workspace } from "@/lib/llm";
+import { VERIFIED_CONFIDENCE, type QuoteLocation } from "@shared/alignment";
+import { INGEST_ACCEPT, formatForFilename, pageAt, type DocumentPage, type IngestedDocument } from "@shared/documents";
+import { SourceViewer, highlightsForQuotes, highlightsForResult } from "@/components/SourceViewer";
+import { PromptTemplatesDialog } from "@/components/PromptTemplatesDialog";
+import { WorkspacesDialog } from "@/components/WorkspacesDialog";
+import { canEditWorkspace } from "@shared/workspaces";
+import { ArgumentMapDiagram } from "@/components/ArgumentMapDiagram";
+import { argumentMapToText } from "@shared/argumentMap";
+import { CHUNK_OVERLAP, CHUNK_SIZE, SYNTHESIS_FUNCTIONS, resolveChunkOptions, splitIntoChunks, type TextChunk } from "@shared/chunking";
 
-type LLM = "grok" | "openai" | "anthropic" | "perplexity" | "deepseek";
+type LLM = "grok" | "openai" | "anthropic" | "perplexity" | "deepseek" | "local" | "mock";
 
-interface Chunk {
-  id: number;
-  text: string;
-  wordCount: number;
-  startWord: number;
-  endWord: number;
+interface Chunk extends TextChunk {
   selected: boolean;
   processed?: boolean;  // Track if this chunk has been successfully processed
 }
@@ -86,37 +95,7 @@ interface StylometricAuthor {
   fullReport?: string;
 }
 
-const CHUNK_SIZE = 1000;
-
-function splitIntoChunks(text: string): Chunk[] {
-  const words = text.split(/\s+/).filter(Boolean);
-  const chunks: Chunk[] = [];
-  
-  for (let i = 0; i < words.length; i += CHUNK_SIZE) {
-    const chunkWords = words.slice(i, i + CHUNK_SIZE);
-    chunks.push({
-      id: chunks.length + 1,
-      text: chunkWords.join(' '),
-      wordCount: chunkWords.length,
-      startWord: i + 1,
-      endWord: Math.min(i + CHUNK_SIZE, words.length),
-      selected: true
-    });
-  }
-  
-  return chunks;
-}
-
-function combineResults(results: AnalysisResult[]): AnalysisResult {
-  return {
-    quotes: results.flatMap(r => r.quotes),
-    annotatedQuotes: results.flatMap(r => r.annotatedQuotes),
-    summary: results.map((r, i) => `[Chunk ${i + 1}]\n${r.summary}`).join('\n\n'),
-    database: results.map((r, i) => `═══ CHUNK ${i + 1} ═══\n${r.database}`).join('\n\n'),
-    analyzer: results.map((r, i) => `═══════════════════════════════════════\n           CHUNK ${i + 1} ANALYSIS\n═══════════════════════════════════════\n\n${r.analyzer}`).join('\n\n'),
-    views: results.flatMap(r => r.views || [])
-  };
-}
+const JOB_POLL_INTERVAL_MS = 2000;
 
 function buildAccumulatedDisplay(
   results: AnalysisResult[], 
@@ -141,6 +120,8 @@ function buildAccumulatedDisplay(
   if (errorMessage) {
     output += `⚠️ CHUNK ${currentChunk} FAILED: ${errorMessage}\n`;
     output += `✅ Results from ${results.length} completed chunks are saved below.\n\n`;
+  } else if (!chunkCompleted && currentChunk > totalChunks) {
+    output += `⏳ All chunks done - synthesizing the document-level result...\n\n`;
   } else if (!chunkCompleted) {
     output += `⏳ Processing chunk ${currentChunk}/${totalChunks}...\n\n`;
   }
@@ -199,32 +180,151 @@ function buildAccumulatedDisplay(
           output += `\n`;
         });
         break;
+
+      case 'arguments':
+        results.forEach((r, i) => {
+          output += `═══ CHUNK ${i + 1} ARGUMENT MAP ═══\n${r.argumentMap ? argumentMapToText(r.argumentMap) : ""}\n\n`;
+        });
+        break;
+
+      case 'custom':
+        results.forEach((r, i) => {
+          output += `═══ CHUNK ${i + 1} ═══\n${r.custom?.display || ""}\n\n`;
+        });
+        break;
     }
   }
   
   return output;
 }
 
+function SourceChunks({ chunks }: { chunks?: number[] }) {
+  if (!chunks || chunks.length === 0) return null;
+  return (
+    <span className="text-xs font-sans font-medium text-muted-foreground bg-gray-100 border border-gray-200 rounded px-2 py-0.5 whitespace-nowrap">
+      {chunks.length === 1 ? "Chunk" : "Chunks"} {chunks.join(", ")}
+    </span>
+  );
+}
+
+// Results saved before quote verification have no locations, so nothing is shown for them
+function QuoteCheck({ location, page, onLocate }: { location: QuoteLocation | null | undefined; page?: DocumentPage | null; onLocate?: () => void }) {
+  if (location === undefined) return null;
+
+  if (location === null) {
+    return (
+      <span
+        className="text-xs font-sans font-medium text-red-700 bg-red-50 border border-red-200 rounded px-2 py-0.5 whitespace-nowrap"
+        title="This quote could not be found in the source text"
+      >
+        Not in source
+      </span>
+    );
+  }
+
+  const verified = location.confidence >= VERIFIED_CONFIDENCE;
+  return (
+    <button
+      type="button"
+      onClick={onLocate}
+      disabled={!onLocate}
+      className={`text-xs font-sans font-medium rounded px-2 py-0.5 whitespace-nowrap border ${
+        verified ? 'text-green-700 bg-green-50 border-green-200' : 'text-amber-700 bg-amber-50 border-amber-200'
+      } ${onLocate ? 'hover:underline cursor-pointer' : 'cursor-default'}`}
+      title={verified
+        ? `Found in the source${onLocate ? "; click to show it" : ""}`
+        : `Closest match in the source is ${Math.round(location.confidence * 100)}% similar${onLocate ? "; click to show it" : ""}`}
+    >
+      {verified ? "Verified" : `Approximate ${Math.round(location.confidence * 100)}%`}
+      {page && ` · p. ${page.label || page.number}`}
+    </button>
+  );
+}
+
+// Who a saved item is for: the user alone, or one of the workspaces they can add to
+function WorkspaceSelect({ workspaces, value, onChange, className }: {
+  workspaces: Workspace[];
+  value: number | null;
+  onChange: (workspaceId: number | null) => void;
+  className?: string;
+}) {
+  return (
+    <Select value={value === null ? "personal" : String(value)} onValueChange={(v) => onChange(v === "personal" ? null : Number(v))}>
+      <SelectTrigger className={className || "w-40"} title="Who can see it">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="personal">Only me</SelectItem>
+        {workspaces.map(workspace => (
+          <SelectItem key={workspace.id} value={String(workspace.id)}>{workspace.name}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function WorkspaceBadge({ name }: { name?: string }) {
+  if (!name) return null;
+  return (
+    <Badge variant="outline" className="text-xs gap-1 border-blue-300 text-blue-800">
+      <Users className="w-3 h-3" />
+      {name}
+    </Badge>
+  );
+}
+
+// Providers that automatic failover may fall through to. Local and mock runs
+// are never silently rerouted to a hosted API.
+const HOSTED_LLMS: LLM[] = ["grok", "openai", "anthropic", "perplexity", "deepseek"];
+
 export default function Home() {
   const [text, setText] = useState("");
   const [selectedLLM, setSelectedLLM] = useState<LLM>("grok");
+  const [autoFailover, setAutoFailover] = useState(true);
+  const [answeredProvider, setAnsweredProvider] = useState<string | null>(null);
   const [isProcessing, setIsProcessing] = useState(false);
   const [hasResult, setHasResult] = useState(false);
+  const [reviewMode, setReviewMode] = useState(false);
+  const [ingestedDocument, setIngestedDocument] = useState<IngestedDocument | null>(null);
+  // The library document the input was loaded from or saved as
+  const [loadedDocument, setLoadedDocument] = useState<SavedDocument | null>(null);
+  const [showDocumentsDialog, setShowDocumentsDialog] = useState(false);
+  const [documents, setDocuments] = useState<DocumentSummary[]>([]);
+  const [isLoadingDocuments, setIsLoadingDocuments] = useState(false);
+  const [documentTitle, setDocumentTitle] = useState("");
+  const [documentAuthor, setDocumentAuthor] = useState("");
+  const [isIngesting, setIsIngesting] = useState(false);
+  // The user's custom functions, and the one the current result was produced with
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [activeTemplate, setActiveTemplate] = useState<PromptTemplate | null>(null);
+  const [showPromptsDialog, setShowPromptsDialog] = useState(false);
+  // Workspaces the user belongs to, and where new documents and profiles are saved
+  const [workspaces, setWorkspaces] = useState<Workspace[]>([]);
+  const [showWorkspacesDialog, setShowWorkspacesDialog] = useState(false);
+  const [saveWorkspaceId, setSaveWorkspaceId] = useState<number | null>(null);
+  const [activeHighlight, setActiveHighlight] = useState<string | null>(null);
+  const [showIntelSource, setShowIntelSource] = useState(false);
   const [isDragging, setIsDragging] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
   const [streamingOutput, setStreamingOutput] = useState("");
   
   const [chunks, setChunks] = useState<Chunk[]>([]);
+  const [chunkTargetWords, setChunkTargetWords] = useState(CHUNK_SIZE);
+  const [chunkOverlapWords, setChunkOverlapWords] = useState(CHUNK_OVERLAP);
+  const [synthesize, setSynthesize] = useState(true);
   const [showChunkSelector, setShowChunkSelector] = useState(false);
   const [currentChunkIndex, setCurrentChunkIndex] = useState(0);
   const [totalChunksToProcess, setTotalChunksToProcess] = useState(0);
-  const [chunkResults, setChunkResults] = useState<AnalysisResult[]>([]);
+  const [activeJobId, setActiveJobId] = useState<number | null>(null);
   const [lastFailedChunkIndex, setLastFailedChunkIndex] = useState<number | null>(null);
   const [lastFunctionType, setLastFunctionType] = useState<string | null>(null);
-  const [processedChunkIds, setProcessedChunkIds] = useState<Set<number>>(new Set());
+  const [resumableJob, setResumableJob] = useState<AnalysisJob | null>(null);
   
   const [username, setUsername] = useState<string | null>(null);
   const [loginInput, setLoginInput] = useState("");
+  const [passwordInput, setPasswordInput] = useState("");
+  const [claimCodeInput, setClaimCodeInput] = useState("");
+  const [authMode, setAuthMode] = useState<"login" | "register" | "claim">("login");
   const [showLoginDialog, setShowLoginDialog] = useState(false);
   const [isLoggingIn, setIsLoggingIn] = useState(false);
   
@@ -258,53 +358,113 @@ export default function Home() {
   const intelFileRefA = useRef<HTMLInputElement>(null);
   const intelFileRefB = useRef<HTMLInputElement>(null);
   
-  const [allDayMode, setAllDayMode] = useState(false);
-  const [allDayProgress, setAllDayProgress] = useState<{current: number, total: number, timeRemaining: string} | null>(null);
+  const [timeRemaining, setTimeRemaining] = useState<string | null>(null);
   
   const { toast } = useToast();
   
   const wordCount = text.split(/\s+/).filter(Boolean).length;
   const needsChunking = wordCount > CHUNK_SIZE;
+  // Page numbers only apply while the text is still exactly what was extracted
+  const sourceDocument = ingestedDocument && ingestedDocument.text === text ? ingestedDocument : null;
+  // Analyses are linked to the library document only while the text is unchanged
+  const activeDocumentId = loadedDocument && loadedDocument.text === text ? loadedDocument.id : undefined;
+  const editableWorkspaces = workspaces.filter(workspace => canEditWorkspace(workspace.role));
+  // Falls back to the user alone after leaving the chosen workspace
+  const saveTarget = editableWorkspaces.some(workspace => workspace.id === saveWorkspaceId) ? saveWorkspaceId : null;
+  const workspaceName = (workspaceId: number | null) => workspaces.find(workspace => workspace.id === workspaceId)?.name;
+  const pageFor = (location: QuoteLocation | null | undefined) =>
+    location && sourceDocument ? pageAt(sourceDocument, location.start) : null;
+
+  const sourceHighlights = useMemo(
+    () => (result && reviewMode ? highlightsForResult(text, result) : []),
+    [text, result, reviewMode]
+  );
+
+  const providerChain = (): string[] => {
+    if (!autoFailover || !HOSTED_LLMS.includes(selectedLLM)) return [selectedLLM];
+    return [selectedLLM, ...HOSTED_LLMS.filter(p => p !== selectedLLM)];
+  };
+
+  // The requested size is capped by the smallest context window in the chain
+  const chunkOptions = resolveChunkOptions(providerChain(), {
+    targetWords: chunkTargetWords,
+    overlapWords: chunkOverlapWords,
+  });
   
   useEffect(() => {
-    const savedUsername = localStorage.getItem('tis_username');
-    if (savedUsername) {
-      setUsername(savedUsername);
-      loadSavedAuthors(savedUsername);
+    // The session cookie says who is logged in
+    fetch('/api/auth/me')
+      .then(response => response.ok ? response.json() : null)
+      .then(data => {
+        if (data?.user) {
+          setUsername(data.user.username);
+          loadSavedAuthors();
+          loadPromptTemplates();
+          loadWorkspaces();
+        }
+      })
+      .catch(error => console.error("Failed to restore session:", error));
+    
+    // Pick up a job that was still running when the tab was closed
+    const activeJob = localStorage.getItem('tis_active_job');
+    if (activeJob) {
+      setIsProcessing(true);
+      setHasResult(true);
+      watchJob(parseInt(activeJob))
+        .catch(error => {
+          console.error("Failed to resume job:", error);
+          localStorage.removeItem('tis_active_job');
+        })
+        .finally(() => {
+          setIsProcessing(false);
+          setCurrentChunkIndex(0);
+          setTotalChunksToProcess(0);
+          setTimeRemaining(null);
+        });
     }
   }, []);
   
-  // Update chunks when text changes, preserving processed state
+  // Update chunks when text changes; progress is restored from the server below
   useEffect(() => {
     if (needsChunking) {
-      const newChunks = splitIntoChunks(text);
-      setChunks(prevChunks => {
-        // Build a lookup of previous processed state
-        const prevProcessed = new Set(prevChunks.filter(c => c.processed).map(c => c.id));
-        return newChunks.map(c => ({
-          ...c,
-          processed: processedChunkIds.has(c.id) || prevProcessed.has(c.id)
-        }));
-      });
+      setChunks(splitIntoChunks(text, chunkOptions).map(c => ({ ...c, selected: true, processed: false })));
       setShowChunkSelector(true);
     } else {
       setChunks([]);
       setShowChunkSelector(false);
     }
-  }, [text, needsChunking]);
+    setLastFailedChunkIndex(null);
+  }, [text, needsChunking, chunkOptions.targetWords, chunkOptions.overlapWords]);
   
-  // Separate effect to clear processed state when text changes significantly
+  // Look for an unfinished run of this exact document so it can be resumed
   useEffect(() => {
-    // Only clear when text becomes small enough to not need chunking
-    if (!needsChunking && processedChunkIds.size > 0) {
-      setProcessedChunkIds(new Set());
-      setLastFailedChunkIndex(null);
-    }
-  }, [needsChunking]);
+    setResumableJob(null);
+    if (!needsChunking || !username || isProcessing) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const [latest] = await findAnalysisJobs(await hashText(text));
+        if (cancelled || !latest || (latest.status !== "failed" && latest.status !== "cancelled")) return;
+
+        const { chunks: jobChunks } = await getAnalysisJob(latest.id);
+        if (cancelled) return;
+        setResumableJob(latest);
+        applyJobChunks(jobChunks);
+      } catch (error) {
+        console.error("Failed to look up previous runs:", error);
+      }
+    }, 500);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [text, needsChunking, username]);
 
-  const loadSavedAuthors = async (user: string) => {
+  const loadSavedAuthors = async () => {
     try {
-      const response = await fetch(`/api/stylometrics/authors?username=${encodeURIComponent(user)}`);
+      const response = await fetch('/api/stylometrics/authors');
       if (response.ok) {
         const data = await response.json();
         setSavedAuthors(data.authors || []);
@@ -314,6 +474,22 @@ export default function Home() {
     }
   };
 
+  const loadPromptTemplates = async () => {
+    try {
+      setPromptTemplates(await listPromptTemplates());
+    } catch (error) {
+      console.error("Failed to load custom functions:", error);
+    }
+  };
+
+  const loadWorkspaces = async () => {
+    try {
+      setWorkspaces(await listWorkspaces());
+    } catch (error) {
+      console.error("Failed to load workspaces:", error);
+    }
+  };
+
   const handleLogin = async () => {
     if (!loginInput.trim() || loginInput.trim().length < 2) {
       toast({
@@ -323,32 +499,61 @@ export default function Home() {
       });
       return;
     }
-    
+
+    if (!passwordInput) {
+      toast({
+        title: "Password required",
+        description: "Enter your password",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (authMode === "claim" && !claimCodeInput.trim()) {
+      toast({
+        title: "Claim code required",
+        description: "Enter the code your administrator gave you",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsLoggingIn(true);
     try {
-      const response = await fetch('/api/auth/login', {
+      const response = await fetch(`/api/auth/${authMode}`, {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ username: loginInput.trim() })
+        body: JSON.stringify({
+          username: loginInput.trim(),
+          password: passwordInput,
+          ...(authMode === "claim" && { code: claimCodeInput.trim() }),
+        })
       });
       
-      if (response.ok) {
-        const data = await response.json();
-        setUsername(data.user.username);
-        localStorage.setItem('tis_username', data.user.username);
-        setShowLoginDialog(false);
-        setLoginInput("");
-        loadSavedAuthors(data.user.username);
-        toast({
-          title: "Welcome!",
-          description: `Logged in as ${data.user.username}`,
-        });
-      } else {
-        throw new Error("Login failed");
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || "Login failed");
       }
+
+      setUsername(data.user.username);
+      setShowLoginDialog(false);
+      setLoginInput("");
+      setPasswordInput("");
+      setClaimCodeInput("");
+      loadSavedAuthors();
+      loadPromptTemplates();
+      loadWorkspaces();
+      toast({
+        title: "Welcome!",
+        description: authMode === "register"
+          ? `Account created for ${data.user.username}`
+          : authMode === "claim"
+            ? `Password set for ${data.user.username}`
+            : `Logged in as ${data.user.username}`,
+      });
     } catch (error: any) {
       toast({
-        title: "Login failed",
+        title: authMode === "register" ? "Registration failed" : authMode === "claim" ? "Claim failed" : "Login failed",
         description: error.message || "Please try again",
         variant: "destructive",
       });
@@ -357,11 +562,21 @@ export default function Home() {
     }
   };
 
-  const handleLogout = () => {
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (error) {
+      console.error("Failed to log out:", error);
+    }
     setUsername(null);
-    localStorage.removeItem('tis_username');
     setSavedAuthors([]);
     setHistoryItems([]);
+    setDocuments([]);
+    setLoadedDocument(null);
+    setPromptTemplates([]);
+    setActiveTemplate(null);
+    setWorkspaces([]);
+    setSaveWorkspaceId(null);
     toast({ description: "Logged out successfully" });
   };
   
@@ -371,8 +586,8 @@ export default function Home() {
     setIsLoadingHistory(true);
     try {
       const url = typeFilter && typeFilter !== "all" 
-        ? `/api/history?username=${encodeURIComponent(username)}&type=${typeFilter}`
-        : `/api/history?username=${encodeURIComponent(username)}`;
+        ? `/api/history?type=${typeFilter}`
+        : '/api/history';
       
       const response = await fetch(url);
       if (response.ok) {
@@ -403,7 +618,7 @@ export default function Home() {
     if (!username) return;
     
     try {
-      const response = await fetch(`/api/history/${itemId}?username=${encodeURIComponent(username)}`, {
+      const response = await fetch(`/api/history/${itemId}`, {
         method: 'DELETE'
       });
       
@@ -417,6 +632,119 @@ export default function Home() {
     }
   };
   
+  const loadDocuments = async () => {
+    if (!username) return;
+    
+    setIsLoadingDocuments(true);
+    try {
+      setDocuments(await listDocuments());
+    } catch (error) {
+      console.error("Failed to load documents:", error);
+    } finally {
+      setIsLoadingDocuments(false);
+    }
+  };
+  
+  const handleViewDocuments = () => {
+    if (!username) {
+      toast({
+        title: "Login required",
+        description: "Please log in to use the document library",
+        variant: "destructive",
+      });
+      return;
+    }
+    setDocumentTitle("");
+    setDocumentAuthor("");
+    setShowDocumentsDialog(true);
+    loadDocuments();
+  };
+  
+  const handleOpenDocument = async (documentId: number) => {
+    if (!username) return;
+    
+    try {
+      const { document } = await getDocument(documentId);
+      setText(document.text);
+      setLoadedDocument(document);
+      setIngestedDocument(document.sections || document.pages ? {
+        filename: document.title,
+        format: document.format || "text",
+        title: document.title,
+        text: document.text,
+        wordCount: document.wordCount,
+        sections: document.sections || [],
+        pages: document.pages || [],
+      } : null);
+      setReviewMode(false);
+      setShowDocumentsDialog(false);
+      setShowHistoryDialog(false);
+      toast({ description: `Loaded "${document.title}" (${document.wordCount} words)` });
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Could not load document",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleSaveDocument = async () => {
+    if (!username || !text.trim()) return;
+    
+    try {
+      const { document, created } = await saveDocument(text, {
+        title: documentTitle.trim() || undefined,
+        author: documentAuthor.trim() || undefined,
+        format: sourceDocument?.format,
+        sections: sourceDocument?.sections,
+        pages: sourceDocument?.pages,
+        workspaceId: saveTarget,
+      });
+      setLoadedDocument(document);
+      setDocumentTitle("");
+      setDocumentAuthor("");
+      toast({ description: created ? `Saved "${document.title}"` : `Already in the library as "${document.title}"` });
+      loadDocuments();
+    } catch (error: any) {
+      toast({
+        title: "Error",
+        description: error.message || "Could not save document",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleShareDocument = async (documentId: number, workspaceId: number | null) => {
+    if (!username) return;
+    
+    try {
+      const updated = await updateDocument(documentId, { workspaceId });
+      setDocuments(prev => prev.map(document => document.id === documentId ? { ...document, workspaceId: updated.workspaceId } : document));
+      if (loadedDocument?.id === documentId) setLoadedDocument(updated);
+      toast({ description: workspaceId === null ? `"${updated.title}" is now yours alone` : `Shared "${updated.title}" with ${workspaceName(workspaceId)}` });
+    } catch (error: any) {
+      toast({
+        title: "Could not share document",
+        description: error.message || "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+  
+  const handleDeleteDocument = async (documentId: number) => {
+    if (!username) return;
+    
+    try {
+      await deleteDocument(documentId);
+      setDocuments(prev => prev.filter(document => document.id !== documentId));
+      if (loadedDocument?.id === documentId) setLoadedDocument(null);
+      toast({ description: "Document deleted" });
+    } catch (error) {
+      console.error("Failed to delete document:", error);
+    }
+  };
+  
   const formatAnalysisType = (type: string): string => {
     const typeLabels: Record<string, string> = {
       quotes: "Quotes",
@@ -424,11 +752,23 @@ export default function Home() {
       rewrite: "Paragraph Compression",
       database: "Database",
       analyzer: "Text Analyzer",
-      views: "Major Views"
+      views: "Major Views",
+      arguments: "Argument Map",
+      custom: "Custom Function"
     };
     return typeLabels[type] || type;
   };
 
+  // History entries from a custom function are labelled with its name
+  const formatHistoryType = (item: { analysisType: string; promptId?: string | null; promptVersion?: number | null }): string => {
+    const template = item.promptId?.startsWith("user:")
+      ? promptTemplates.find(t => `user:${t.id}` === item.promptId)
+      : undefined;
+    if (template) return `${template.name} v${item.promptVersion}`;
+    if (item.promptId?.startsWith("user:")) return `${formatAnalysisType(item.analysisType)} (deleted custom function)`;
+    return formatAnalysisType(item.analysisType);
+  };
+
   const toggleChunk = (chunkId: number) => {
     setChunks(prev => prev.map(c => 
       c.id === chunkId ? { ...c, selected: !c.selected } : c
@@ -445,39 +785,153 @@ export default function Home() {
   
   const selectedChunks = chunks.filter(c => c.selected);
 
-  const processChunk = async (chunkText: string, functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views'): Promise<AnalysisResult> => {
-    return new Promise((resolve, reject) => {
-      let accumulatedOutput = "";
-      
-      analyzeTextStreaming(
-        chunkText,
-        selectedLLM,
-        functionType,
-        (chunk: string) => {
-          accumulatedOutput += chunk;
-          setStreamingOutput(accumulatedOutput);
-        },
-        () => {
-          try {
-            const parsed = JSON.parse(accumulatedOutput);
-            resolve(parsed);
-          } catch (e) {
-            resolve({
-              quotes: [],
-              annotatedQuotes: [],
-              summary: accumulatedOutput.substring(0, 1000),
-              database: accumulatedOutput,
-              analyzer: accumulatedOutput,
-              views: []
+  // Opens the source in review mode and scrolls to the passage a result came from
+  const showInSource = (id: string) => {
+    setReviewMode(true);
+    setActiveHighlight(id);
+  };
+
+  // The reverse direction: a highlight in the source scrolls to its result
+  const handleHighlightSelect = (id: string) => {
+    setActiveHighlight(id);
+    document.querySelector(`[data-result-id="${id}"]`)?.scrollIntoView({ behavior: "smooth", block: "center" });
+  };
+
+  const applyJobChunks = (jobChunks: AnalysisJobChunk[]) => {
+    const completedIds = new Set(jobChunks.filter(c => c.status === "completed").map(c => c.chunkNumber));
+    const failed = jobChunks.find(c => c.status === "failed");
+    setChunks(prev => prev.map(c => ({ ...c, processed: completedIds.has(c.id) })));
+    setLastFailedChunkIndex(failed ? failed.chunkNumber : null);
+  };
+
+  // Chunked runs execute server-side; this mirrors a job's progress into the
+  // chunk picker and output panel until it reaches a terminal state
+  const watchJob = async (jobId: number) => {
+    setActiveJobId(jobId);
+    localStorage.setItem('tis_active_job', String(jobId));
+
+    try {
+      while (true) {
+        const { job, chunks: jobChunks } = await getAnalysisJob(jobId);
+        const completed = jobChunks.filter(c => c.status === "completed");
+        const outputs = completed.map(c => c.output as AnalysisResult);
+        const failed = jobChunks.find(c => c.status === "failed");
+        const running = jobChunks.some(c => c.status === "running");
+        const finished = job.status !== "queued" && job.status !== "running";
+        const providersUsed = Array.from(new Set(completed.map(c => c.provider).filter(Boolean)));
+
+        setLastFunctionType(job.functionType);
+        setTotalChunksToProcess(job.totalChunks);
+        setCurrentChunkIndex(Math.min(completed.length + (running ? 1 : 0), job.totalChunks));
+        setStreamingOutput(buildAccumulatedDisplay(
+          outputs,
+          job.functionType,
+          failed ? failed.chunkNumber : completed.length + 1,
+          job.totalChunks,
+          finished,
+          failed?.error || undefined
+        ));
+        if (job.result) {
+          setResult(job.result);
+        }
+        if (providersUsed.length > 0) {
+          setAnsweredProvider(providersUsed.join(", "));
+        }
+
+        applyJobChunks(jobChunks);
+
+        // Estimate the remainder from the average time per chunk so far
+        const remainingChunks = job.totalChunks - completed.length;
+        if (completed.length > 0 && remainingChunks > 0) {
+          const averageMs = (Date.now() - new Date(job.createdAt).getTime()) / completed.length;
+          setTimeRemaining(`~${Math.ceil((remainingChunks * averageMs) / 60000)} min`);
+        }
+
+        if (finished) {
+          localStorage.removeItem('tis_active_job');
+          setResumableJob(job.status === "completed" ? null : job);
+
+          if (job.status === "completed") {
+            toast({
+              title: "Analysis Complete",
+              description: `Processed ${job.totalChunks} chunks using ${providersUsed.join(", ").toUpperCase()}.`,
+            });
+          } else if (job.status === "cancelled") {
+            toast({
+              title: "Job Cancelled",
+              description: `Stopped after ${completed.length}/${job.totalChunks} chunks.`,
+            });
+          } else if (completed.length > 0) {
+            toast({
+              title: "Partial Results Saved",
+              description: `Completed ${completed.length}/${job.totalChunks} chunks. ${job.error}`,
+              variant: "destructive",
+            });
+          } else {
+            toast({
+              title: "Processing Failed",
+              description: job.error || "Unknown error occurred",
+              variant: "destructive",
             });
           }
-        },
-        username || undefined
-      ).catch(reject);
-    });
+          return;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, JOB_POLL_INTERVAL_MS));
+      }
+    } finally {
+      setActiveJobId(null);
+    }
   };
 
-  const handleProcess = async (functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views') => {
+  const handleResumeJob = async () => {
+    if (!resumableJob) return;
+
+    setIsProcessing(true);
+    setHasResult(true);
+    setStreamingOutput("");
+    setLastFailedChunkIndex(null);
+    setAnsweredProvider(null);
+
+    try {
+      await resumeAnalysisJob(resumableJob.id);
+      setResumableJob(null);
+      await watchJob(resumableJob.id);
+    } catch (error: any) {
+      console.error(error);
+      toast({
+        title: "Resume Failed",
+        description: error.message || "Unknown error occurred",
+        variant: "destructive",
+      });
+    } finally {
+      setIsProcessing(false);
+      setCurrentChunkIndex(0);
+      setTotalChunksToProcess(0);
+      setTimeRemaining(null);
+    }
+  };
+
+  const handleCancelJob = async () => {
+    if (activeJobId === null) return;
+
+    try {
+      await cancelAnalysisJob(activeJobId);
+      toast({ description: "Cancelling after the current chunk finishes..." });
+    } catch (error: any) {
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleProcess = async (
+    functionType: 'quotes' | 'context' | 'rewrite' | 'database' | 'analyzer' | 'views' | 'arguments' | 'custom',
+    forceRefresh = false,
+    template: PromptTemplate | null = null
+  ) => {
     if (!text.trim()) {
       toast({
         title: "Input required",
@@ -487,159 +941,61 @@ export default function Home() {
       return;
     }
 
+    if (needsChunking && selectedChunks.length > 0 && !username) {
+      toast({
+        title: "Login required",
+        description: "Long texts run as server-side jobs, which are kept under your account. Log in to process them.",
+        variant: "destructive",
+      });
+      return;
+    }
+
     setIsProcessing(true);
     setHasResult(true);
     setStreamingOutput("");
-    setChunkResults([]);
     setLastFailedChunkIndex(null);
     setLastFunctionType(functionType);
+    setActiveTemplate(template);
+    setAnsweredProvider(null);
     
     try {
       if (needsChunking && selectedChunks.length > 0) {
-        const chunksToProcess = selectedChunks;
-        setTotalChunksToProcess(chunksToProcess.length);
-        const results: AnalysisResult[] = [];
-        let failedChunkIndex = -1;
-        let failureError = "";
-        const completedChunkIds: number[] = [];
-        
-        for (let i = 0; i < chunksToProcess.length; i++) {
-          setCurrentChunkIndex(i + 1);
-          
-          // Show accumulated results plus current processing status
-          const accumulatedDisplay = buildAccumulatedDisplay(results, functionType, i + 1, chunksToProcess.length);
-          setStreamingOutput(accumulatedDisplay);
-          
-          toast({
-            title: `Processing Chunk ${i + 1}/${chunksToProcess.length}`,
-            description: `Words ${chunksToProcess[i].startWord}-${chunksToProcess[i].endWord}`,
-          });
-          
-          try {
-            const chunkResult = await processChunk(chunksToProcess[i].text, functionType);
-            results.push(chunkResult);
-            completedChunkIds.push(chunksToProcess[i].id);
-            setChunkResults([...results]);
-            
-            // Mark this chunk as processed (in both the chunk object and the persistent set)
-            setChunks(prev => prev.map(c => 
-              c.id === chunksToProcess[i].id ? { ...c, processed: true } : c
-            ));
-            setProcessedChunkIds(prev => {
-              const newSet = new Set(Array.from(prev));
-              newSet.add(chunksToProcess[i].id);
-              return newSet;
-            });
-            
-            // Update display with new result immediately
-            const updatedDisplay = buildAccumulatedDisplay(results, functionType, i + 1, chunksToProcess.length, true);
-            setStreamingOutput(updatedDisplay);
-            
-            // Combine and set result after each chunk so it's always available
-            const combinedSoFar = combineResults(results);
-            setResult(combinedSoFar);
-            
-            // SAVE IMMEDIATELY after each chunk completes (not just at the end)
-            if (username) {
-              try {
-                const inputPreview = text.substring(0, 200) + (text.length > 200 ? "..." : "");
-                await fetch('/api/history/save-partial', {
-                  method: 'POST',
-                  headers: { 'Content-Type': 'application/json' },
-                  body: JSON.stringify({
-                    username,
-                    analysisType: functionType,
-                    provider: selectedLLM,
-                    inputPreview,
-                    outputData: combinedSoFar,
-                    chunksCompleted: results.length,
-                    totalChunks: chunksToProcess.length
-                  })
-                });
-              } catch (saveError) {
-                console.error("Failed to save chunk result:", saveError);
-              }
-            }
-            
-            // Wait between chunks to prevent API rate limiting (except after last chunk)
-            // All Day Mode: 60 seconds | Normal: 20 seconds
-            if (i < chunksToProcess.length - 1) {
-              const DELAY_SECONDS = allDayMode ? 60 : 20;
-              const remainingChunks = chunksToProcess.length - (i + 1);
-              const estimatedMinutes = Math.ceil((remainingChunks * (DELAY_SECONDS + 30)) / 60); // ~30s per chunk processing + delay
-              
-              for (let countdown = DELAY_SECONDS; countdown > 0; countdown--) {
-                const modeLabel = allDayMode ? "🌙 ALL DAY MODE" : "";
-                const waitDisplay = updatedDisplay + `\n\n---\n${modeLabel}\n⏳ **Waiting ${countdown} seconds before next chunk...**\n📊 Progress: ${i + 1}/${chunksToProcess.length} chunks complete\n⏱️ Estimated time remaining: ~${estimatedMinutes} minutes`;
-                setStreamingOutput(waitDisplay);
-                setAllDayProgress({
-                  current: i + 1,
-                  total: chunksToProcess.length,
-                  timeRemaining: `~${estimatedMinutes} min`
-                });
-                await new Promise(resolve => setTimeout(resolve, 1000));
-              }
-            }
-          } catch (chunkError: any) {
-            failedChunkIndex = i + 1;
-            failureError = chunkError.message || "Unknown error";
-            console.error(`Chunk ${i + 1} failed:`, chunkError);
-            setLastFailedChunkIndex(chunksToProcess[i].id);
-            break; // Stop processing but keep what we have
-          }
-        }
-        
-        // Show completion message
-        if (results.length > 0) {
-          if (failedChunkIndex > 0) {
-            toast({
-              title: `Partial Results Saved`,
-              description: `Completed ${results.length}/${chunksToProcess.length} chunks. Chunk ${failedChunkIndex} failed: ${failureError}`,
-              variant: "destructive",
-            });
-            
-            // Show final accumulated results with error info
-            const finalDisplay = buildAccumulatedDisplay(results, functionType, failedChunkIndex, chunksToProcess.length, true, failureError);
-            setStreamingOutput(finalDisplay);
-          } else {
-            // All chunks processed successfully
-            toast({
-              title: "Analysis Complete",
-              description: `Processed ${chunksToProcess.length} chunks using ${selectedLLM.toUpperCase()}.`,
-            });
-          }
-        } else if (failedChunkIndex > 0) {
-          toast({
-            title: "Processing Failed",
-            description: `First chunk failed: ${failureError}`,
-            variant: "destructive",
-          });
-        }
+        setTotalChunksToProcess(selectedChunks.length);
+        const job = await createAnalysisJob(
+          text,
+          providerChain(),
+          functionType,
+          selectedChunks.map(c => c.id),
+          chunkOptions,
+          synthesize && SYNTHESIS_FUNCTIONS.includes(functionType),
+          activeDocumentId,
+          template?.id
+        );
+        await watchJob(job.id);
       } else {
         let accumulatedOutput = "";
         
         await analyzeTextStreaming(
           text, 
-          selectedLLM, 
+          providerChain(), 
           functionType,
           (chunk: string) => {
             accumulatedOutput += chunk;
             setStreamingOutput(accumulatedOutput);
           },
-          () => {
-            try {
-              const parsed = JSON.parse(accumulatedOutput);
-              console.log("Parsed result:", parsed);
-              setResult(parsed);
-              toast({
-                title: "Analysis Complete",
-                description: `Generated ${functionType} using ${selectedLLM.toUpperCase()}.`,
-              });
-            } catch (e) {
-              console.error("Failed to parse streaming output:", e);
-            }
+          (result, provider) => {
+            setAnsweredProvider(provider);
+            setResult(result);
+            toast({
+              title: "Analysis Complete",
+              description: result.cachedAt
+                ? `Reused the cached ${template?.name || functionType} result from ${provider.toUpperCase()}.`
+                : `Generated ${template?.name || functionType} using ${provider.toUpperCase()}.`,
+            });
           },
-          username || undefined
+          activeDocumentId,
+          forceRefresh,
+          template?.id
         );
       }
     } catch (error: any) {
@@ -654,7 +1010,7 @@ export default function Home() {
       setIsProcessing(false);
       setCurrentChunkIndex(0);
       setTotalChunksToProcess(0);
-      setAllDayProgress(null);
+      setTimeRemaining(null);
     }
   };
 
@@ -684,6 +1040,7 @@ export default function Home() {
     setIsAnalyzingStylometrics(true);
     setStylometricsReport("");
     setStylometricsData(null);
+    setAnsweredProvider(null);
     
     try {
       if (stylometricsTab === "single") {
@@ -691,11 +1048,10 @@ export default function Home() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            username,
             authorName,
             sourceTitle: stylometricsSourceTitle,
             text: textToAnalyze,
-            provider: selectedLLM
+            providers: providerChain()
           })
         });
         
@@ -707,6 +1063,7 @@ export default function Home() {
         const data = await response.json();
         setStylometricsReport(data.report);
         setStylometricsData(data.data);
+        setAnsweredProvider(data.provider);
         
         toast({
           title: "Analysis Complete",
@@ -738,10 +1095,9 @@ export default function Home() {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({
-            username,
             textA: { text: stylometricsText, authorName },
             textB: { text: stylometricsTextB, authorName: authorNameB },
-            provider: selectedLLM
+            providers: providerChain()
           })
         });
         
@@ -753,6 +1109,7 @@ export default function Home() {
         const data = await response.json();
         setStylometricsReport(data.report);
         setStylometricsData(data.data);
+        setAnsweredProvider(data.provider);
         
         toast({
           title: "Comparison Complete",
@@ -785,12 +1142,19 @@ export default function Home() {
     
     setIsAnalyzingIntelligence(true);
     setIntelligenceResult(null);
+    setShowIntelSource(false);
     setIntelligenceCompareResult(null);
+    setAnsweredProvider(null);
     
     try {
       if (intelligenceTab === "single") {
-        const result = await measureIntelligence(textToAnalyze, selectedLLM, username || undefined);
+        const result = await measureIntelligence(
+          textToAnalyze,
+          providerChain(),
+          textToAnalyze === text ? activeDocumentId : undefined
+        );
         setIntelligenceResult(result);
+        setAnsweredProvider(result.provider);
         
         toast({
           title: "Intelligence Measured",
@@ -806,8 +1170,9 @@ export default function Home() {
           return;
         }
         
-        const result = await compareIntelligence(textToAnalyze, intelligenceTextB, selectedLLM, username || undefined);
+        const result = await compareIntelligence(textToAnalyze, intelligenceTextB, providerChain());
         setIntelligenceCompareResult(result);
+        setAnsweredProvider(result.provider);
         
         toast({
           title: "Comparison Complete",
@@ -852,11 +1217,11 @@ export default function Home() {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          username,
           authorName: authorNameToSave,
           sourceTitle: stylometricsSourceTitle,
           data: stylometricsData,
-          fullReport: stylometricsReport
+          fullReport: stylometricsReport,
+          workspaceId: saveTarget
         })
       });
       
@@ -871,7 +1236,7 @@ export default function Home() {
         description: `Saved profile for ${authorNameToSave}`,
       });
       
-      loadSavedAuthors(username);
+      loadSavedAuthors();
     } catch (error: any) {
       toast({
         title: "Save Failed",
@@ -883,22 +1248,35 @@ export default function Home() {
 
   const handleClearInput = () => {
     setText("");
+    setReviewMode(false);
     toast({ description: "Input cleared" });
   };
 
   const handleClearOutput = () => {
     setHasResult(false);
     setResult(null);
+    setReviewMode(false);
+    setActiveTemplate(null);
     toast({ description: "Results cleared" });
   };
 
   const generateReportContent = () => {
     if (!result) return "";
-    return `TEXT INTELLIGENCE REPORT
+    const header = `TEXT INTELLIGENCE REPORT
 Generated: ${new Date().toLocaleString()}
 Source Length: ${text.split(/\s+/).filter(Boolean).length} words
-LLM Used: ${selectedLLM}
+LLM Used: ${answeredProvider || selectedLLM}${activeTemplate ? `\nCustom Function: ${activeTemplate.name} (v${activeTemplate.version})` : ""}
+`;
+
+    // A custom function's output only exists in its own display
+    if (result.custom) {
+      return `${header}
+--- ${(activeTemplate?.name || "Custom function").toUpperCase()} ---
+${result.custom.display}
+`;
+    }
 
+    return `${header}
 --- KEY QUOTATIONS ---
 ${result.quotes.map((q, i) => `${i+1}. ${q}`).join('\n')}
 
@@ -916,7 +1294,10 @@ ${result.analyzer}
 
 --- MAJOR VIEWS ---
 ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}. VIEW: ${v.view}\n${v.evidence.map(e => `   EVIDENCE: "${e}"`).join('\n')}`).join('\n\n') : 'No views identified'}
-`;
+${result.argumentMap ? `
+--- ARGUMENT MAP ---
+${argumentMapToText(result.argumentMap)}
+` : ""}`;
   };
 
   const handleDownload = () => {
@@ -946,26 +1327,62 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
     });
   };
 
-  const handleFileUpload = (file: File) => {
+  // Plain text is read in the browser; every other format goes through the
+  // server, which extracts clean text and its chapter and page structure
+  const readUpload = async (file: File): Promise<{ content: string; document: IngestedDocument | null }> => {
+    if (formatForFilename(file.name) === "text" || (!formatForFilename(file.name) && file.type.startsWith("text/"))) {
+      return { content: await file.text(), document: null };
+    }
+    const document = await ingestFile(file);
+    return { content: document.text, document };
+  };
+
+  const describeUpload = (file: File, content: string, document: IngestedDocument | null) => {
+    const parts = [`${content.split(/\s+/).filter(Boolean).length} words`];
+    if (document && document.sections.filter(s => s.title).length > 0) {
+      parts.push(`${document.sections.filter(s => s.title).length} sections`);
+    }
+    if (document && document.pages.length > 0) parts.push(`${document.pages.length} pages`);
+    return `${file.name} loaded (${parts.join(", ")})`;
+  };
+
+  const handleFileUpload = async (file: File) => {
     if (!file) return;
-    
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
+
+    setIsIngesting(true);
+    try {
+      const { content, document } = await readUpload(file);
       setText(content);
+      setIngestedDocument(document);
+      setLoadedDocument(null);
       toast({
         title: "File Uploaded",
-        description: `${file.name} loaded (${content.split(/\s+/).filter(Boolean).length} words)`,
+        description: describeUpload(file, content, document),
       });
-    };
-    reader.onerror = () => {
+
+      // Uploads go straight into the library so their structure is kept
+      if (username && content.trim()) {
+        try {
+          const { document: saved } = await saveDocument(content, {
+            title: document?.title || file.name.replace(/\.[^.]+$/, ""),
+            format: document?.format,
+            sections: document?.sections,
+            pages: document?.pages,
+          });
+          setLoadedDocument(saved);
+        } catch (error) {
+          console.error("Failed to save document:", error);
+        }
+      }
+    } catch (error: any) {
       toast({
         title: "Error",
-        description: "Could not read file",
+        description: error.message || "Could not read file",
         variant: "destructive",
       });
-    };
-    reader.readAsText(file);
+    } finally {
+      setIsIngesting(false);
+    }
   };
 
   const onDragOver = (e: React.DragEvent) => {
@@ -1001,11 +1418,10 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
     setShowIntelligenceDialog(true);
   };
 
-  const handleIntelFileUpload = (file: File, target: 'A' | 'B') => {
+  const handleIntelFileUpload = async (file: File, target: 'A' | 'B') => {
     if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (e) => {
-      const content = e.target?.result as string;
+    try {
+      const { content, document } = await readUpload(file);
       if (target === 'A') {
         setIntelligenceTextA(content);
       } else {
@@ -1013,17 +1429,15 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
       }
       toast({
         title: "File Uploaded",
-        description: `${file.name} loaded to Text ${target} (${content.split(/\s+/).filter(Boolean).length} words)`,
+        description: `${describeUpload(file, content, document)} to Text ${target}`,
       });
-    };
-    reader.onerror = () => {
+    } catch (error: any) {
       toast({
         title: "Error",
-        description: "Could not read file",
+        description: error.message || "Could not read file",
         variant: "destructive",
       });
-    };
-    reader.readAsText(file);
+    }
   };
 
   const handleIntelDrop = (e: React.DragEvent, target: 'A' | 'B') => {
@@ -1073,8 +1487,20 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                   <SelectItem value="anthropic">Anthropic</SelectItem>
                   <SelectItem value="perplexity">Perplexity</SelectItem>
                   <SelectItem value="deepseek">DeepSeek</SelectItem>
+                  <SelectItem value="local">Local Model</SelectItem>
+                  {import.meta.env.DEV && <SelectItem value="mock">Mock (offline)</SelectItem>}
                 </SelectContent>
               </Select>
+              <div className="flex items-center gap-2 pl-3 border-l border-gray-300" title="Fall back to the other hosted providers if this one is unavailable">
+                <Switch
+                  id="auto-failover"
+                  checked={autoFailover}
+                  onCheckedChange={setAutoFailover}
+                  disabled={!HOSTED_LLMS.includes(selectedLLM)}
+                  data-testid="switch-auto-failover"
+                />
+                <Label htmlFor="auto-failover" className="text-sm font-medium cursor-pointer">Failover</Label>
+              </div>
             </div>
             
             {username ? (
@@ -1093,6 +1519,36 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                   <History className="w-4 h-4" />
                   History
                 </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={handleViewDocuments}
+                  className="h-8 gap-1 text-primary border-primary hover:bg-primary hover:text-white"
+                  data-testid="button-documents"
+                >
+                  <Library className="w-4 h-4" />
+                  Documents
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowPromptsDialog(true)}
+                  className="h-8 gap-1 text-primary border-primary hover:bg-primary hover:text-white"
+                  data-testid="button-prompts"
+                >
+                  <Wand2 className="w-4 h-4" />
+                  Prompts
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setShowWorkspacesDialog(true)}
+                  className="h-8 gap-1 text-primary border-primary hover:bg-primary hover:text-white"
+                  data-testid="button-workspaces"
+                >
+                  <Users className="w-4 h-4" />
+                  Workspaces
+                </Button>
                 <Button
                   variant="ghost"
                   size="sm"
@@ -1120,10 +1576,16 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                   <DialogHeader>
                     <DialogTitle className="flex items-center gap-2">
                       <User className="w-5 h-5 text-primary" />
-                      Login to Text Intelligence Studio
+                      {authMode === "register"
+                        ? "Create an account"
+                        : authMode === "claim" ? "Claim an existing account" : "Login to Text Intelligence Studio"}
                     </DialogTitle>
                     <DialogDescription>
-                      Enter a username to save your stylometric profiles and analysis history.
+                      {authMode === "register"
+                        ? "Choose a username and a password of at least 8 characters."
+                        : authMode === "claim"
+                          ? "Accounts from before passwords existed need a claim code from your administrator. Enter it with the password you want to use."
+                          : "Log in to save your stylometric profiles and analysis history."}
                     </DialogDescription>
                   </DialogHeader>
                   <div className="space-y-4 pt-4">
@@ -1135,17 +1597,65 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                         value={loginInput}
                         onChange={(e) => setLoginInput(e.target.value)}
                         onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                        autoComplete="username"
                         data-testid="input-username"
                       />
                     </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="password">Password</Label>
+                      <Input
+                        id="password"
+                        type="password"
+                        placeholder="Enter your password"
+                        value={passwordInput}
+                        onChange={(e) => setPasswordInput(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                        autoComplete={authMode === "login" ? "current-password" : "new-password"}
+                        data-testid="input-password"
+                      />
+                    </div>
+                    {authMode === "claim" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="claim-code">Claim code</Label>
+                        <Input
+                          id="claim-code"
+                          placeholder="Code from your administrator"
+                          value={claimCodeInput}
+                          onChange={(e) => setClaimCodeInput(e.target.value)}
+                          onKeyDown={(e) => e.key === 'Enter' && handleLogin()}
+                          autoComplete="one-time-code"
+                          data-testid="input-claim-code"
+                        />
+                      </div>
+                    )}
                     <Button
                       onClick={handleLogin}
                       disabled={isLoggingIn}
                       className="w-full"
                       data-testid="button-submit-login"
                     >
-                      {isLoggingIn ? "Logging in..." : "Continue"}
+                      {isLoggingIn
+                        ? (authMode === "register" ? "Creating account..." : authMode === "claim" ? "Claiming..." : "Logging in...")
+                        : (authMode === "register" ? "Create account" : authMode === "claim" ? "Claim account" : "Log in")}
                     </Button>
+                    <Button
+                      variant="link"
+                      onClick={() => setAuthMode(authMode === "login" ? "register" : "login")}
+                      className="w-full text-sm"
+                      data-testid="button-toggle-auth-mode"
+                    >
+                      {authMode === "login" ? "New here? Create an account" : "Already have an account? Log in"}
+                    </Button>
+                    {authMode !== "claim" && (
+                      <Button
+                        variant="link"
+                        onClick={() => setAuthMode("claim")}
+                        className="w-full text-sm -mt-3"
+                        data-testid="button-claim-account"
+                      >
+                        Account from before passwords? Claim it
+                      </Button>
+                    )}
                   </div>
                 </DialogContent>
               </Dialog>
@@ -1164,6 +1674,19 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                 Input Document
               </h2>
               <div className="flex gap-2">
+                {result && text && (
+                  <Button
+                    variant={reviewMode ? "default" : "outline"}
+                    size="sm"
+                    className="h-10 text-sm gap-2 border-2 transition-all"
+                    onClick={() => setReviewMode(!reviewMode)}
+                    title={reviewMode ? "Back to editing the text" : "Show the text with every extracted quote highlighted"}
+                    data-testid="button-review-mode"
+                  >
+                    <Eye className="w-4 h-4" />
+                    {reviewMode ? "Edit" : "Review"}
+                  </Button>
+                )}
                 {text && (
                   <Button 
                     variant="ghost" 
@@ -1181,15 +1704,16 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                   size="sm" 
                   className="h-10 text-sm gap-2 border-2 border-gray-300 hover:bg-gray-100 transition-all"
                   onClick={() => document.getElementById('file-upload')?.click()}
+                  disabled={isIngesting}
                 >
-                  <Upload className="w-4 h-4" />
-                  Upload
+                  <Upload className={`w-4 h-4 ${isIngesting ? 'animate-pulse' : ''}`} />
+                  {isIngesting ? "Reading..." : "Upload"}
                 </Button>
                 <input 
                   id="file-upload" 
                   type="file" 
                   className="hidden" 
-                  accept=".txt,.doc,.docx,.pdf,*"
+                  accept={INGEST_ACCEPT}
                   onChange={(e) => e.target.files?.[0] && handleFileUpload(e.target.files[0])}
                 />
               </div>
@@ -1202,13 +1726,23 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
               onDrop={onDrop}
               style={{minHeight: 'calc(100vh - 20rem)'}}
             >
-              <Textarea 
-                placeholder="Enter text, paste content, or drag files here to begin analysis..." 
-                className="flex-1 resize-none border-none focus-visible:ring-0 p-6 text-xl leading-relaxed font-serif bg-transparent placeholder:text-gray-400"
-                value={text}
-                onChange={(e) => setText(e.target.value)}
-                data-testid="input-text"
-              />
+              {reviewMode && result ? (
+                <SourceViewer
+                  text={text}
+                  highlights={sourceHighlights}
+                  activeId={activeHighlight}
+                  onSelect={handleHighlightSelect}
+                  className="flex-1 -m-6"
+                />
+              ) : (
+                <Textarea 
+                  placeholder="Enter text, paste content, or drag files here to begin analysis..." 
+                  className="flex-1 resize-none border-none focus-visible:ring-0 p-6 text-xl leading-relaxed font-serif bg-transparent placeholder:text-gray-400"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  data-testid="input-text"
+                />
+              )}
               
               {!text && (
                 <div className={`absolute inset-0 pointer-events-none flex items-center justify-center transition-opacity duration-200 ${isDragging ? 'opacity-80' : 'opacity-20'}`}>
@@ -1243,6 +1777,12 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                   <span className="text-base font-mono font-bold text-primary uppercase tracking-widest bg-blue-100 px-4 py-2 rounded-lg border-2 border-primary">
                     {wordCount} WORDS
                   </span>
+                  {activeDocumentId && loadedDocument && (
+                    <Badge variant="outline" className="text-sm px-3 py-1 max-w-[40%] truncate" title="Analyses of this text are linked to this library document">
+                      <Library className="w-4 h-4 mr-1 shrink-0" />
+                      <span className="truncate">{loadedDocument.title}</span>
+                    </Badge>
+                  )}
                   {needsChunking && (
                     <Badge variant="secondary" className="text-sm px-3 py-1 bg-orange-100 text-orange-800 border border-orange-300">
                       <Layers className="w-4 h-4 mr-1" />
@@ -1277,27 +1817,66 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                           <Square className="w-3 h-3 mr-1" />
                           None
                         </Button>
-                        {chunks.some(c => c.processed) && (
+                        {resumableJob && !isProcessing && (
                           <Button 
                             variant="default" 
                             size="sm" 
-                            onClick={() => {
-                              // Select all unprocessed chunks (including failed one)
-                              setChunks(prev => prev.map(c => ({ 
-                                ...c, 
-                                selected: !c.processed  // Select if NOT processed
-                              })));
-                            }}
+                            onClick={handleResumeJob}
                             className="h-7 text-xs bg-green-600 hover:bg-green-700 text-white"
-                            title="Select only unprocessed chunks to continue"
+                            title={`Continue the interrupted ${formatAnalysisType(resumableJob.functionType)} run with only its missing chunks`}
+                            data-testid="button-resume-job"
                           >
                             <Play className="w-3 h-3 mr-1" />
-                            Resume ({chunks.filter(c => !c.processed).length} left)
+                            Resume {formatAnalysisType(resumableJob.functionType)} ({resumableJob.completedChunks < resumableJob.totalChunks ? `${resumableJob.totalChunks - resumableJob.completedChunks} left` : "synthesis"})
                           </Button>
                         )}
                       </div>
                     </div>
                     
+                    <div className="flex items-center gap-4 mb-3 text-xs text-orange-800">
+                      <div className="flex items-center gap-1">
+                        <span className="font-semibold">Size:</span>
+                        <Select value={String(chunkTargetWords)} onValueChange={(v) => setChunkTargetWords(parseInt(v))} disabled={isProcessing}>
+                          <SelectTrigger className="h-7 w-[110px] text-xs bg-white" data-testid="select-chunk-size">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[500, 1000, 2000, 4000].map(size => (
+                              <SelectItem key={size} value={String(size)}>~{size} words</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center gap-1">
+                        <span className="font-semibold">Overlap:</span>
+                        <Select value={String(chunkOverlapWords)} onValueChange={(v) => setChunkOverlapWords(parseInt(v))} disabled={isProcessing}>
+                          <SelectTrigger className="h-7 w-[110px] text-xs bg-white" data-testid="select-chunk-overlap">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {[0, 50, 100, 200].map(size => (
+                              <SelectItem key={size} value={String(size)}>{size === 0 ? "None" : `${size} words`}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="flex items-center gap-1" title="Merge the per-chunk outputs of Analyzer, Database and Rewrite into one document-level result; the per-chunk outputs are kept as an appendix">
+                        <Checkbox
+                          id="synthesize"
+                          checked={synthesize}
+                          onCheckedChange={(checked) => setSynthesize(checked === true)}
+                          disabled={isProcessing}
+                          data-testid="checkbox-synthesize"
+                        />
+                        <Label htmlFor="synthesize" className="text-xs font-semibold cursor-pointer">Synthesize</Label>
+                      </div>
+                      {chunkOptions.targetWords < chunkTargetWords && (
+                        <span className="text-orange-600" title="The smallest context window in the provider chain limits the chunk size">
+                          Capped at {chunkOptions.targetWords} words for {selectedLLM}
+                        </span>
+                      )}
+                    </div>
+
                     <div className="grid grid-cols-2 gap-2 max-h-40 overflow-y-auto">
                       {chunks.map((chunk) => (
                         <div 
@@ -1354,56 +1933,37 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                         <span className="text-red-600 text-xs">Select at least one chunk</span>
                       )}
                     </div>
-                    
-                    <div className="mt-3 pt-3 border-t border-orange-200">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          <Switch
-                            id="all-day-mode"
-                            checked={allDayMode}
-                            onCheckedChange={setAllDayMode}
-                            data-testid="switch-all-day-mode"
-                          />
-                          <Label htmlFor="all-day-mode" className="font-bold text-orange-800 cursor-pointer">
-                            🌙 ALL DAY MODE
-                          </Label>
-                        </div>
-                        <span className="text-xs text-orange-600">
-                          {allDayMode ? "60s delay (stable)" : "20s delay (faster)"}
-                        </span>
-                      </div>
-                      {allDayMode && (
-                        <p className="text-xs text-orange-700 mt-2 bg-orange-100 p-2 rounded">
-                          All Day Mode: 60-second breaks between chunks to prevent crashes. 
-                          Perfect for processing entire books overnight.
-                          {selectedChunks.length > 0 && (
-                            <span className="block mt-1 font-semibold">
-                              Estimated time: ~{Math.ceil(selectedChunks.length * 1.5)} minutes for {selectedChunks.length} chunks
-                            </span>
-                          )}
-                        </p>
-                      )}
-                    </div>
                   </div>
                 )}
                 
                 {isProcessing && totalChunksToProcess > 0 && (
-                  <div className={`rounded-lg p-4 border-2 ${allDayMode ? 'bg-purple-50 border-purple-300' : 'bg-blue-50 border-blue-200'}`}>
+                  <div className="rounded-lg p-4 border-2 bg-blue-50 border-blue-200">
                     <div className="flex items-center justify-between mb-2">
-                      <span className={`font-semibold ${allDayMode ? 'text-purple-800' : 'text-blue-800'}`}>
-                        {allDayMode && '🌙 ALL DAY MODE - '}
+                      <span className="font-semibold text-blue-800">
                         Processing Chunk {currentChunkIndex} of {totalChunksToProcess}
                       </span>
-                      <span className={`text-sm ${allDayMode ? 'text-purple-600' : 'text-blue-600'}`}>
+                      <span className="text-sm text-blue-600">
                         {Math.round((currentChunkIndex / totalChunksToProcess) * 100)}%
                       </span>
                     </div>
                     <Progress value={(currentChunkIndex / totalChunksToProcess) * 100} className="h-2" />
-                    {allDayMode && allDayProgress && (
-                      <p className="text-xs text-purple-600 mt-2">
-                        ⏱️ Time remaining: {allDayProgress.timeRemaining} • Leave running - will complete automatically
+                    <div className="flex items-center justify-between mt-2">
+                      <p className="text-xs text-blue-600">
+                        {timeRemaining && <>⏱️ Time remaining: {timeRemaining} • </>}Runs on the server - safe to close this tab
                       </p>
-                    )}
+                      {activeJobId !== null && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={handleCancelJob}
+                          className="h-7 text-xs text-red-700 border-red-300 hover:bg-red-50"
+                          data-testid="button-cancel-job"
+                        >
+                          <X className="w-3 h-3 mr-1" />
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
                   </div>
                 )}
                 
@@ -1480,7 +2040,40 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                     <Eye className="w-5 h-5 mr-2" />
                     VIEWS
                   </Button>
+                  <Button 
+                    onClick={() => handleProcess('arguments')} 
+                    disabled={isProcessing || !text || (needsChunking && selectedChunks.length === 0)}
+                    className="h-12 text-sm font-semibold px-5 bg-gradient-to-r from-orange-600 to-rose-600 text-white hover:shadow-lg transition-all hover:scale-105"
+                    data-testid="button-arguments"
+                  >
+                    <Network className="w-5 h-5 mr-2" />
+                    ARGUMENTS
+                  </Button>
                 </div>
+
+                {promptTemplates.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">Custom functions</p>
+                    <div className="flex flex-wrap gap-2">
+                      {promptTemplates.map(template => (
+                        <Button
+                          key={template.id}
+                          variant="outline"
+                          onClick={() => handleProcess(template.baseFunction, false, template)}
+                          disabled={isProcessing || !text || (needsChunking && selectedChunks.length === 0)}
+                          className="h-10 text-sm font-semibold border-2 border-primary text-primary hover:bg-primary hover:text-white"
+                          title={template.description || (template.output
+                            ? `Custom function with its own output, version ${template.version}`
+                            : `Custom ${template.baseFunction} prompt, version ${template.version}`)}
+                          data-testid={`button-custom-${template.id}`}
+                        >
+                          <Wand2 className="w-4 h-4 mr-2" />
+                          {template.name}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                )}
               </div>
             </Card>
           </section>
@@ -1494,6 +2087,12 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
               <h2 className="text-2xl font-bold text-secondary flex items-center gap-2.5 uppercase tracking-wide">
                 <Sparkles className="w-6 h-6" />
                 Analysis Results
+                {hasResult && activeTemplate && (
+                  <Badge variant="outline" className="text-xs normal-case tracking-normal border-primary text-primary">
+                    <Wand2 className="w-3 h-3 mr-1" />
+                    {activeTemplate.name} v{activeTemplate.version}
+                  </Badge>
+                )}
               </h2>
               {hasResult && (
                 <div className="flex gap-2">
@@ -1535,7 +2134,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                       </div>
                       <div className="flex-1">
                         <h3 className="text-2xl font-bold text-primary uppercase tracking-wide">Processing Analysis</h3>
-                        <p className="text-base text-muted-foreground mt-1">Using {selectedLLM.toUpperCase()} • Streaming output in real-time</p>
+                        <p className="text-base text-muted-foreground mt-1">Using {(answeredProvider || selectedLLM).toUpperCase()} • Streaming output in real-time</p>
                       </div>
                     </div>
                     
@@ -1576,31 +2175,79 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                     className="h-full"
                   >
                     <Card className="border-4 border-gray-300 bg-white shadow-xl overflow-hidden flex flex-col" style={{minHeight: 'calc(100vh - 20rem)'}}>
-                      <Tabs defaultValue="quotes-list" className="w-full h-full flex flex-col">
+                      {result.cachedAt && (
+                        <div className="flex items-center justify-between gap-3 px-6 py-2 border-b bg-amber-50 text-sm">
+                          <span className="flex items-center gap-2">
+                            <Badge variant="outline" className="border-amber-400 text-amber-800">Cached</Badge>
+                            <span className="text-muted-foreground">First computed {new Date(result.cachedAt).toLocaleString()}</span>
+                          </span>
+                          {lastFunctionType && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleProcess(lastFunctionType as Parameters<typeof handleProcess>[0], true, activeTemplate)}
+                              disabled={isProcessing}
+                              data-testid="button-run-fresh"
+                            >
+                              <RefreshCw className="w-4 h-4 mr-1" />
+                              Run fresh
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                      {/* Keyed so that a result of another kind opens on its own tab */}
+                      <Tabs
+                        key={result.custom ? "custom" : result.argumentMap ? "argument-map" : "builtin"}
+                        defaultValue={result.custom ? "custom" : result.argumentMap ? "argument-map" : "quotes-list"}
+                        className="w-full h-full flex flex-col"
+                      >
                         <div className="border-b-4 border-gray-200 px-6 bg-gray-50 overflow-x-auto">
                           <TabsList className="h-14 bg-transparent p-0 gap-4 flex-nowrap min-w-max">
+                            {result.custom && (
+                              <TabTrigger value="custom" icon={<Wand2 className="w-4 h-4" />} label={activeTemplate?.name || "Custom"} />
+                            )}
                             <TabTrigger value="quotes-list" icon={<Quote className="w-4 h-4" />} label="Quotes" />
                             <TabTrigger value="quotes-context" icon={<AlignLeft className="w-4 h-4" />} label="Context" />
                             <TabTrigger value="summary" icon={<FileText className="w-4 h-4" />} label="Rewrite" />
                             <TabTrigger value="database" icon={<Database className="w-4 h-4" />} label="Database" />
                             <TabTrigger value="analyzer" icon={<Sparkles className="w-4 h-4" />} label="Text Analyzer" />
                             <TabTrigger value="views" icon={<Eye className="w-4 h-4" />} label="Major Views" />
+                            <TabTrigger value="argument-map" icon={<Network className="w-4 h-4" />} label="Argument Map" />
                           </TabsList>
                         </div>
 
                         <div className="flex-1 bg-card">
                           <ScrollArea className="h-full">
                             <div className="p-6">
+                              {result.custom && (
+                                <TabsContent value="custom" className="mt-0 outline-none h-full" data-testid="tab-custom">
+                                  <div className="p-6 bg-gray-50 rounded-lg border-2 border-gray-200 shadow-lg">
+                                    <pre className="font-sans text-base text-foreground whitespace-pre-wrap leading-relaxed">
+                                      {result.custom.display}
+                                    </pre>
+                                  </div>
+                                </TabsContent>
+                              )}
+
                               <TabsContent value="quotes-list" className="mt-0 space-y-4 outline-none">
                                 <ul className="space-y-4">
                                   {result.quotes.map((quote, i) => (
-                                    <li key={i} className="flex gap-4 group p-4 rounded-lg hover:bg-blue-50 transition-all border-2 border-gray-200 hover:border-primary hover:shadow-md">
+                                    <li
+                                      key={i}
+                                      data-result-id={`quote-${i}`}
+                                      onClick={() => showInSource(`quote-${i}`)}
+                                      className={`flex gap-4 group p-4 rounded-lg hover:bg-blue-50 transition-all border-2 hover:border-primary hover:shadow-md cursor-pointer ${activeHighlight === `quote-${i}` ? 'border-primary bg-blue-50' : 'border-gray-200'}`}
+                                    >
                                       <span className="flex-none w-10 h-10 rounded-full bg-gradient-to-br from-primary to-secondary text-white flex items-center justify-center text-base font-bold shadow-md">
                                         {i + 1}
                                       </span>
                                       <p className="font-serif text-lg leading-relaxed text-foreground">
                                         "{quote}"
                                       </p>
+                                      <div className="ml-auto self-start flex flex-col items-end gap-1">
+                                        <QuoteCheck location={result.locations?.quotes[i]} page={pageFor(result.locations?.quotes[i])} onLocate={() => showInSource(`quote-${i}`)} />
+                                        <SourceChunks chunks={result.sources?.quotes[i]} />
+                                      </div>
                                     </li>
                                   ))}
                                 </ul>
@@ -1609,7 +2256,12 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                               <TabsContent value="quotes-context" className="mt-0 space-y-5 outline-none">
                                 <div className="space-y-5">
                                   {result.annotatedQuotes.map((item, i) => (
-                                    <div key={i} className="group p-5 rounded-lg border-2 border-gray-200 hover:border-secondary transition-all bg-gray-50 hover:shadow-lg">
+                                    <div
+                                      key={i}
+                                      data-result-id={`annotated-${i}`}
+                                      onClick={() => showInSource(`annotated-${i}`)}
+                                      className={`group p-5 rounded-lg border-2 hover:border-secondary transition-all bg-gray-50 hover:shadow-lg cursor-pointer ${activeHighlight === `annotated-${i}` ? 'border-secondary' : 'border-gray-200'}`}
+                                    >
                                       <blockquote className="font-serif text-lg text-foreground border-l-4 border-secondary pl-5 py-2 mb-3">
                                         "{item.quote}"
                                       </blockquote>
@@ -1617,6 +2269,10 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                                         <span className="mt-2 w-2 h-2 rounded-full bg-accent shrink-0" />
                                         <p>{item.context}</p>
                                       </div>
+                                      <div className="pl-5 mt-2 flex items-center gap-2">
+                                        <QuoteCheck location={result.locations?.annotatedQuotes[i]} page={pageFor(result.locations?.annotatedQuotes[i])} onLocate={() => showInSource(`annotated-${i}`)} />
+                                        <SourceChunks chunks={result.sources?.annotatedQuotes[i]} />
+                                      </div>
                                     </div>
                                   ))}
                                 </div>
@@ -1670,14 +2326,23 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                                             <h3 className="text-lg font-semibold text-teal-800 leading-snug">
                                               {view.view}
                                             </h3>
+                                            <div className="ml-auto">
+                                              <SourceChunks chunks={result.sources?.views[i]} />
+                                            </div>
                                           </div>
                                           <div className="space-y-3 pl-11">
                                             {view.evidence.map((evidence, j) => (
-                                              <div key={j} className="flex items-start gap-2">
+                                              <div
+                                                key={j}
+                                                data-result-id={`evidence-${i}-${j}`}
+                                                onClick={() => showInSource(`evidence-${i}-${j}`)}
+                                                className={`flex items-start gap-2 cursor-pointer rounded ${activeHighlight === `evidence-${i}-${j}` ? 'bg-teal-50 ring-1 ring-teal-300' : ''}`}
+                                              >
                                                 <span className="text-cyan-600 font-medium text-sm mt-0.5">EVIDENCE:</span>
                                                 <blockquote className="font-serif text-gray-700 italic border-l-2 border-cyan-400 pl-3">
                                                   "{evidence}"
                                                 </blockquote>
+                                                <QuoteCheck location={result.locations?.views[i]?.[j]} page={pageFor(result.locations?.views[i]?.[j])} onLocate={() => showInSource(`evidence-${i}-${j}`)} />
                                               </div>
                                             ))}
                                           </div>
@@ -1694,6 +2359,19 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                                   )}
                                 </div>
                               </TabsContent>
+
+                              <TabsContent value="argument-map" className="mt-0 outline-none h-full" data-testid="tab-argument-map">
+                                {result.argumentMap && result.argumentMap.nodes.length > 0 ? (
+                                  <ArgumentMapDiagram map={result.argumentMap} onShowInSource={showInSource} />
+                                ) : (
+                                  <div className="text-center py-12">
+                                    <Network className="w-12 h-12 text-orange-300 mx-auto mb-4" />
+                                    <p className="text-lg text-muted-foreground">
+                                      No argument map yet. Click the ARGUMENTS button to map the claims, premises, objections and replies.
+                                    </p>
+                                  </div>
+                                )}
+                              </TabsContent>
                             </div>
                           </ScrollArea>
                         </div>
@@ -1779,6 +2457,14 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                     <div className="flex items-center justify-between">
                       <Label>Analysis Results</Label>
                       <div className="flex gap-2">
+                        {username && stylometricsData && editableWorkspaces.length > 0 && (
+                          <WorkspaceSelect
+                            workspaces={editableWorkspaces}
+                            value={saveTarget}
+                            onChange={setSaveWorkspaceId}
+                            className="h-9 w-36 text-xs"
+                          />
+                        )}
                         {username && stylometricsData && (
                           <Button
                             size="sm"
@@ -1895,7 +2581,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
           
           <div className="flex justify-between items-center pt-4 border-t mt-4">
             <div className="text-sm text-muted-foreground">
-              Using: <span className="font-semibold uppercase">{selectedLLM}</span>
+              Using: <span className="font-semibold uppercase">{answeredProvider || selectedLLM}</span>
             </div>
             <div className="flex gap-2">
               <Button
@@ -1969,7 +2655,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                       <input
                         type="file"
                         ref={intelFileRefA}
-                        accept=".txt,.md,.text"
+                        accept={INGEST_ACCEPT}
                         className="hidden"
                         onChange={(e) => e.target.files?.[0] && handleIntelFileUpload(e.target.files[0], 'A')}
                       />
@@ -2041,16 +2727,36 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                     
                     {intelligenceResult.sharpQuotes.length > 0 ? (
                       <div className="space-y-2">
-                        <Label>Sharp Quotes Found:</Label>
-                        <ScrollArea className="h-[200px] border rounded-lg p-3 bg-white/60">
-                          <ol className="list-decimal list-inside space-y-2">
-                            {intelligenceResult.sharpQuotes.map((quote, i) => (
-                              <li key={i} className="text-sm font-serif italic text-gray-700">
-                                "{quote}"
-                              </li>
-                            ))}
-                          </ol>
-                        </ScrollArea>
+                        <div className="flex items-center justify-between">
+                          <Label>Sharp Quotes Found:</Label>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            className="h-7 text-xs gap-1"
+                            onClick={() => setShowIntelSource(!showIntelSource)}
+                            data-testid="button-intelligence-source"
+                          >
+                            <Eye className="w-3 h-3" />
+                            {showIntelSource ? "Hide text" : "Show in text"}
+                          </Button>
+                        </div>
+                        {showIntelSource ? (
+                          <SourceViewer
+                            text={intelligenceTextA || text}
+                            highlights={highlightsForQuotes(intelligenceTextA || text, intelligenceResult.sharpQuotes, intelligenceResult.sharpQuoteLocations)}
+                            className="h-[300px] border rounded-lg bg-white/60"
+                          />
+                        ) : (
+                          <ScrollArea className="h-[200px] border rounded-lg p-3 bg-white/60">
+                            <ol className="list-decimal list-inside space-y-2">
+                              {intelligenceResult.sharpQuotes.map((quote, i) => (
+                                <li key={i} className="text-sm font-serif italic text-gray-700">
+                                  "{quote}" <QuoteCheck location={intelligenceResult.sharpQuoteLocations?.[i]} />
+                                </li>
+                              ))}
+                            </ol>
+                          </ScrollArea>
+                        )}
                       </div>
                     ) : (
                       <div className="text-center py-4 text-muted-foreground">
@@ -2161,7 +2867,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                 <input
                   type="file"
                   ref={intelFileRefB}
-                  accept=".txt,.md,.text"
+                  accept={INGEST_ACCEPT}
                   className="hidden"
                   onChange={(e) => e.target.files?.[0] && handleIntelFileUpload(e.target.files[0], 'B')}
                 />
@@ -2184,7 +2890,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                           <ScrollArea className="h-[120px]">
                             <ol className="list-decimal list-inside space-y-1 text-xs">
                               {intelligenceCompareResult.textA.sharpQuotes.map((q, i) => (
-                                <li key={i} className="italic">"{q}"</li>
+                                <li key={i} className="italic">"{q}" <QuoteCheck location={intelligenceCompareResult.textA.sharpQuoteLocations?.[i]} /></li>
                               ))}
                             </ol>
                           </ScrollArea>
@@ -2203,7 +2909,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                           <ScrollArea className="h-[120px]">
                             <ol className="list-decimal list-inside space-y-1 text-xs">
                               {intelligenceCompareResult.textB.sharpQuotes.map((q, i) => (
-                                <li key={i} className="italic">"{q}"</li>
+                                <li key={i} className="italic">"{q}" <QuoteCheck location={intelligenceCompareResult.textB.sharpQuoteLocations?.[i]} /></li>
                               ))}
                             </ol>
                           </ScrollArea>
@@ -2220,7 +2926,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
           
           <div className="flex justify-between items-center pt-4 border-t mt-4">
             <div className="text-sm text-muted-foreground">
-              Using: <span className="font-semibold uppercase">{selectedLLM}</span>
+              Using: <span className="font-semibold uppercase">{answeredProvider || selectedLLM}</span>
             </div>
             <div className="flex gap-2">
               <Button
@@ -2257,6 +2963,133 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
         </DialogContent>
       </Dialog>
       
+      {/* Documents Dialog */}
+      <Dialog open={showDocumentsDialog} onOpenChange={setShowDocumentsDialog}>
+        <DialogContent className="max-w-3xl max-h-[85vh]">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Library className="w-5 h-5 text-primary" />
+              Document Library
+            </DialogTitle>
+            <DialogDescription>
+              Saved source texts, yours and your workspaces'. Uploads and analyzed texts are added automatically; open one to run another function on it.
+            </DialogDescription>
+          </DialogHeader>
+          
+          {text.trim() && !activeDocumentId && (
+            <div className="flex gap-2 items-end p-3 border rounded-lg bg-muted/30">
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="document-title" className="text-xs">Title</Label>
+                <Input
+                  id="document-title"
+                  placeholder={text.trim().split("\n")[0].replace(/^#+\s*/, "").slice(0, 80)}
+                  value={documentTitle}
+                  onChange={(e) => setDocumentTitle(e.target.value)}
+                  data-testid="input-document-title"
+                />
+              </div>
+              <div className="flex-1 space-y-1">
+                <Label htmlFor="document-author" className="text-xs">Author</Label>
+                <Input
+                  id="document-author"
+                  placeholder="Optional"
+                  value={documentAuthor}
+                  onChange={(e) => setDocumentAuthor(e.target.value)}
+                  data-testid="input-document-author"
+                />
+              </div>
+              {editableWorkspaces.length > 0 && (
+                <WorkspaceSelect workspaces={editableWorkspaces} value={saveTarget} onChange={setSaveWorkspaceId} />
+              )}
+              <Button onClick={handleSaveDocument} className="gap-2" data-testid="button-save-document">
+                <Save className="w-4 h-4" />
+                Save current text
+              </Button>
+            </div>
+          )}
+          
+          <ScrollArea className="h-[55vh] border rounded-lg p-2">
+            {isLoadingDocuments ? (
+              <div className="flex items-center justify-center h-full text-muted-foreground">
+                Loading...
+              </div>
+            ) : documents.length === 0 ? (
+              <div className="flex flex-col items-center justify-center h-full py-16 text-muted-foreground">
+                <Library className="w-12 h-12 mb-2 opacity-50" />
+                <p>No documents yet</p>
+                <p className="text-sm">Uploaded and analyzed texts will appear here</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {documents.map((document) => (
+                  <Card 
+                    key={document.id}
+                    className={`p-3 flex items-center justify-between gap-3 hover:bg-muted/50 transition-colors ${activeDocumentId === document.id ? 'ring-2 ring-primary' : ''}`}
+                    data-testid={`document-item-${document.id}`}
+                  >
+                    <div className="min-w-0">
+                      <div className="flex items-center gap-2">
+                        <p className="font-medium truncate">{document.title}</p>
+                        <WorkspaceBadge name={workspaceName(document.workspaceId)} />
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {document.author && `${document.author} • `}
+                        {document.wordCount.toLocaleString()} words
+                        {document.format && ` • ${document.format.toUpperCase()}`}
+                        {` • ${new Date(document.updatedAt).toLocaleDateString()}`}
+                      </p>
+                    </div>
+                    <div className="flex gap-1 shrink-0">
+                      {editableWorkspaces.length > 0 && (document.workspaceId === null || editableWorkspaces.some(w => w.id === document.workspaceId)) && (
+                        <WorkspaceSelect
+                          workspaces={editableWorkspaces}
+                          value={document.workspaceId}
+                          onChange={(workspaceId) => handleShareDocument(document.id, workspaceId)}
+                          className="h-9 w-32 text-xs"
+                        />
+                      )}
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => handleOpenDocument(document.id)}
+                        data-testid={`button-open-document-${document.id}`}
+                      >
+                        Open
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-destructive hover:text-destructive"
+                        onClick={() => handleDeleteDocument(document.id)}
+                        data-testid={`button-delete-document-${document.id}`}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+        </DialogContent>
+      </Dialog>
+      
+      <PromptTemplatesDialog
+        open={showPromptsDialog}
+        onOpenChange={setShowPromptsDialog}
+        username={username}
+        templates={promptTemplates}
+        onTemplatesChange={setPromptTemplates}
+      />
+      
+      <WorkspacesDialog
+        open={showWorkspacesDialog}
+        onOpenChange={setShowWorkspacesDialog}
+        username={username}
+        workspaces={workspaces}
+        onWorkspacesChange={setWorkspaces}
+      />
+      
       {/* History Dialog */}
       <Dialog open={showHistoryDialog} onOpenChange={setShowHistoryDialog}>
         <DialogContent className="max-w-4xl max-h-[85vh]">
@@ -2266,7 +3099,7 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
               Analysis History
             </DialogTitle>
             <DialogDescription>
-              View your past analyses. All outputs are automatically saved when logged in.
+              View your past analyses and those shared in your workspaces. All outputs are automatically saved when logged in.
             </DialogDescription>
           </DialogHeader>
           
@@ -2317,11 +3150,17 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-2">
                           <Badge variant="outline" className="text-xs">
-                            {formatAnalysisType(item.analysisType)}
+                            {formatHistoryType(item)}
                           </Badge>
                           <span className="text-xs text-muted-foreground uppercase">
                             {item.provider}
                           </span>
+                          {item.outputData?.cachedAt && (
+                            <Badge variant="outline" className="text-xs border-amber-400 text-amber-800">
+                              Cached
+                            </Badge>
+                          )}
+                          <WorkspaceBadge name={workspaceName(item.workspaceId)} />
                         </div>
                         <div className="flex items-center gap-1 text-xs text-muted-foreground">
                           <Clock className="w-3 h-3" />
@@ -2342,12 +3181,25 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                 <>
                   <div className="p-3 border-b flex items-center justify-between bg-muted/30">
                     <div>
-                      <h4 className="font-semibold">{formatAnalysisType(selectedHistoryItem.analysisType)}</h4>
+                      <h4 className="font-semibold">{formatHistoryType(selectedHistoryItem)}</h4>
                       <p className="text-xs text-muted-foreground">
                         {new Date(selectedHistoryItem.createdAt).toLocaleString()} • {selectedHistoryItem.provider?.toUpperCase()}
+                        {selectedHistoryItem.promptId && ` • prompt ${selectedHistoryItem.promptId} v${selectedHistoryItem.promptVersion}`}
+                        {selectedHistoryItem.outputData?.cachedAt && ` • cached result from ${new Date(selectedHistoryItem.outputData.cachedAt).toLocaleString()}`}
                       </p>
                     </div>
                     <div className="flex gap-2">
+                      {selectedHistoryItem.documentId && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleOpenDocument(selectedHistoryItem.documentId)}
+                          title="Load the text this analysis was run on"
+                          data-testid="button-open-history-document"
+                        >
+                          <FileText className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         variant="ghost"
                         size="sm"
@@ -2399,6 +3251,14 @@ ${result.views && result.views.length > 0 ? result.views.map((v, i) => `${i + 1}
                         if (selectedHistoryItem.analysisType === "analyzer" && data.analyzer) {
                           return data.analyzer;
                         }
+                        // Handle argument maps
+                        if (selectedHistoryItem.analysisType === "arguments" && data.argumentMap) {
+                          return argumentMapToText(data.argumentMap);
+                        }
+                        // Handle custom function output
+                        if (data.custom) {
+                          return data.custom.display;
+                        }
                         
                         // Fallback for rawContent (from streaming when JSON parse fails)
                         if (data.rawContent) {
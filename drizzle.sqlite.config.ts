@@ -0,0 +1,11 @@
+import { defineConfig } from "drizzle-kit";
+
+// Migrations for the SQLite backend; the server applies them on start
+export default defineConfig({
+  out: "./migrations/sqlite",
+  schema: "./shared/sqliteSchema.ts",
+  dialect: "sqlite",
+  dbCredentials: {
+    url: process.env.SQLITE_PATH || "data/studio.db",
+  },
+});
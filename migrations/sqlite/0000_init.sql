@@ -0,0 +1,145 @@
+CREATE TABLE `analysis_history` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer,
+	`analysis_type` text(50) NOT NULL,
+	`provider` text(50),
+	`input_preview` text,
+	`document_id` integer,
+	`prompt_id` text(100),
+	`prompt_version` integer,
+	`output_data` text,
+	`created_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+CREATE TABLE `analysis_job_chunks` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`job_id` integer NOT NULL,
+	`chunk_number` integer NOT NULL,
+	`start_word` integer NOT NULL,
+	`end_word` integer NOT NULL,
+	`start_offset` integer DEFAULT 0 NOT NULL,
+	`text` text NOT NULL,
+	`status` text(20) DEFAULT 'pending' NOT NULL,
+	`provider` text(50),
+	`output` text,
+	`error` text,
+	`completed_at` integer,
+	FOREIGN KEY (`job_id`) REFERENCES `analysis_jobs`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `analysis_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer,
+	`function_type` text(50) NOT NULL,
+	`providers` text NOT NULL,
+	`text_hash` text(64),
+	`document_id` integer,
+	`prompt_id` text(100),
+	`prompt_version` integer,
+	`status` text(20) DEFAULT 'queued' NOT NULL,
+	`input_preview` text,
+	`total_chunks` integer NOT NULL,
+	`completed_chunks` integer DEFAULT 0 NOT NULL,
+	`synthesize` integer DEFAULT false NOT NULL,
+	`result` text,
+	`error` text,
+	`history_id` integer,
+	`created_at` integer,
+	`updated_at` integer,
+	`completed_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`history_id`) REFERENCES `analysis_history`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `documents` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`title` text(500) NOT NULL,
+	`author` text(255),
+	`text` text NOT NULL,
+	`content_hash` text(64) NOT NULL,
+	`word_count` integer NOT NULL,
+	`format` text(20),
+	`sections` text,
+	`pages` text,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `llm_cache` (
+	`key` text(64) PRIMARY KEY NOT NULL,
+	`text_hash` text(64) NOT NULL,
+	`function_type` text(50) NOT NULL,
+	`provider` text(50) NOT NULL,
+	`model` text(100) NOT NULL,
+	`prompt_version` text(64) NOT NULL,
+	`value` text NOT NULL,
+	`created_at` integer NOT NULL,
+	`expires_at` integer
+);
+--> statement-breakpoint
+CREATE TABLE `prompt_template_versions` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`template_id` integer NOT NULL,
+	`version` integer NOT NULL,
+	`template` text NOT NULL,
+	`output` text,
+	`created_at` integer,
+	FOREIGN KEY (`template_id`) REFERENCES `prompt_templates`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE TABLE `prompt_templates` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`name` text(100) NOT NULL,
+	`description` text,
+	`base_function` text(50) NOT NULL,
+	`cloned_from` text(100),
+	`template` text NOT NULL,
+	`output` text,
+	`version` integer DEFAULT 1 NOT NULL,
+	`created_at` integer,
+	`updated_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `sessions` (
+	`sid` text PRIMARY KEY NOT NULL,
+	`sess` text NOT NULL,
+	`expire` integer NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE `stylometric_authors` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer,
+	`author_name` text(255) NOT NULL,
+	`source_title` text(500),
+	`word_count` integer,
+	`verticality_score` text,
+	`created_at` integer,
+	`updated_at` integer,
+	`raw_features` text,
+	`signature_phrases` text,
+	`negative_markers` text,
+	`sample_sentences` text,
+	`closest_author_match` text(255),
+	`match_explanation` text,
+	`psychological_profile` text,
+	`narrative_summary` text,
+	`clustering` text,
+	`full_report` text,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action
+);
+--> statement-breakpoint
+CREATE TABLE `users` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`username` text NOT NULL,
+	`password_hash` text,
+	`created_at` integer
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `users_username_unique` ON `users` (`username`);
\ No newline at end of file
@@ -0,0 +1,21 @@
+CREATE TABLE `workspace_members` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`workspace_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`role` text(20) NOT NULL,
+	`created_at` integer,
+	FOREIGN KEY (`workspace_id`) REFERENCES `workspaces`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `workspace_members_workspace_id_user_id_unique` ON `workspace_members` (`workspace_id`,`user_id`);--> statement-breakpoint
+CREATE TABLE `workspaces` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`name` text(100) NOT NULL,
+	`created_at` integer,
+	`updated_at` integer
+);
+--> statement-breakpoint
+ALTER TABLE `analysis_history` ADD `workspace_id` integer REFERENCES workspaces(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `documents` ADD `workspace_id` integer REFERENCES workspaces(id) ON DELETE set null;--> statement-breakpoint
+ALTER TABLE `stylometric_authors` ADD `workspace_id` integer REFERENCES workspaces(id) ON DELETE set null;
\ No newline at end of file
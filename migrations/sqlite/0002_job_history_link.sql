@@ -0,0 +1,30 @@
+PRAGMA foreign_keys=OFF;--> statement-breakpoint
+CREATE TABLE `__new_analysis_jobs` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer,
+	`function_type` text(50) NOT NULL,
+	`providers` text NOT NULL,
+	`text_hash` text(64),
+	`document_id` integer,
+	`prompt_id` text(100),
+	`prompt_version` integer,
+	`status` text(20) DEFAULT 'queued' NOT NULL,
+	`input_preview` text,
+	`total_chunks` integer NOT NULL,
+	`completed_chunks` integer DEFAULT 0 NOT NULL,
+	`synthesize` integer DEFAULT false NOT NULL,
+	`result` text,
+	`error` text,
+	`history_id` integer,
+	`created_at` integer,
+	`updated_at` integer,
+	`completed_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE no action,
+	FOREIGN KEY (`document_id`) REFERENCES `documents`(`id`) ON UPDATE no action ON DELETE set null,
+	FOREIGN KEY (`history_id`) REFERENCES `analysis_history`(`id`) ON UPDATE no action ON DELETE set null
+);
+--> statement-breakpoint
+INSERT INTO `__new_analysis_jobs`("id", "user_id", "function_type", "providers", "text_hash", "document_id", "prompt_id", "prompt_version", "status", "input_preview", "total_chunks", "completed_chunks", "synthesize", "result", "error", "history_id", "created_at", "updated_at", "completed_at") SELECT "id", "user_id", "function_type", "providers", "text_hash", "document_id", "prompt_id", "prompt_version", "status", "input_preview", "total_chunks", "completed_chunks", "synthesize", "result", "error", "history_id", "created_at", "updated_at", "completed_at" FROM `analysis_jobs`;--> statement-breakpoint
+DROP TABLE `analysis_jobs`;--> statement-breakpoint
+ALTER TABLE `__new_analysis_jobs` RENAME TO `analysis_jobs`;--> statement-breakpoint
+PRAGMA foreign_keys=ON;
\ No newline at end of file
@@ -0,0 +1,94 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { storage } from "./storage";
+import { issueClaimCode, verifyClaimCode } from "./claims";
+import { startTestApp, type TestApp } from "./testing";
+
+let app: TestApp;
+
+beforeAll(async () => {
+  vi.stubEnv("ACCOUNT_CLAIM_SECRET", "test-claim-secret");
+  app = await startTestApp();
+});
+
+afterAll(async () => {
+  await app.close();
+  vi.unstubAllEnvs();
+});
+
+describe("POST /api/auth/register", () => {
+  it("creates an account and logs it in", async () => {
+    const user = app.client();
+    const registered = await user.request("POST", "/api/auth/register", { username: "Ada", password: "correct horse" });
+
+    expect(registered.status).toBe(201);
+    expect(registered.body.user).toEqual({ id: expect.any(Number), username: "ada" });
+    expect((await user.request("GET", "/api/auth/me")).body.user.username).toBe("ada");
+  });
+
+  it("refuses a name that is taken", async () => {
+    await app.register("grace");
+    const response = await app.client().request("POST", "/api/auth/register", { username: "Grace", password: "another password" });
+
+    expect(response.status).toBe(409);
+  });
+
+  it("refuses the name of an account from before passwords existed", async () => {
+    const legacy = await storage.createUser({ username: "legacy-register" });
+    const response = await app.client().request("POST", "/api/auth/register", { username: "legacy-register", password: "taken over" });
+
+    expect(response.status).toBe(409);
+    expect((await storage.getUser(legacy.id))?.passwordHash).toBeNull();
+  });
+});
+
+describe("POST /api/auth/login", () => {
+  it("rejects a wrong password", async () => {
+    await app.register("linus", "right password");
+    const response = await app.client().request("POST", "/api/auth/login", { username: "linus", password: "wrong password" });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("does not log in to a passwordless account", async () => {
+    await storage.createUser({ username: "legacy-login" });
+    const response = await app.client().request("POST", "/api/auth/login", { username: "legacy-login", password: "anything at all" });
+
+    expect(response.status).toBe(401);
+  });
+});
+
+describe("POST /api/auth/claim", () => {
+  it("sets the first password with an operator's code, once", async () => {
+    await storage.createUser({ username: "legacy-claim" });
+    const code = issueClaimCode("legacy-claim");
+
+    const owner = app.client();
+    const claimed = await owner.request("POST", "/api/auth/claim", { username: "legacy-claim", code, password: "finally mine" });
+    expect(claimed.status).toBe(200);
+    expect((await owner.request("GET", "/api/auth/me")).body.user.username).toBe("legacy-claim");
+
+    const replay = await app.client().request("POST", "/api/auth/claim", { username: "legacy-claim", code, password: "mine instead" });
+    expect(replay.status).toBe(403);
+
+    const login = await app.client().request("POST", "/api/auth/login", { username: "legacy-claim", password: "finally mine" });
+    expect(login.status).toBe(200);
+  });
+
+  it("rejects a code issued for another account", async () => {
+    await storage.createUser({ username: "legacy-victim" });
+    const response = await app.client().request("POST", "/api/auth/claim", {
+      username: "legacy-victim",
+      code: issueClaimCode("legacy-other"),
+      password: "taken over",
+    });
+
+    expect(response.status).toBe(403);
+  });
+
+  it("rejects an expired code", () => {
+    const code = issueClaimCode("legacy-late", Date.now() - 8 * 24 * 60 * 60 * 1000);
+
+    expect(verifyClaimCode("legacy-late", code)).toBe(false);
+    expect(verifyClaimCode("legacy-late", issueClaimCode("legacy-late"))).toBe(true);
+  });
+});
@@ -0,0 +1,205 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { User as SelectUser } from "@shared/schema";
+import { storage } from "./storage";
+import { verifyClaimCode } from "./claims";
+
+// Accounts are a username and a scrypt-hashed password; a login is kept in a
+// server-side session (the "connect.sid" cookie only carries its id). Routes
+// read the user from req.user and never from request parameters.
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const MIN_USERNAME_LENGTH = 2;
+const MIN_PASSWORD_LENGTH = 8;
+const SESSION_DAYS = 30;
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const expected = Buffer.from(hashed, "hex");
+  const actual = (await scryptAsync(password, salt, 64)) as Buffer;
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+// What the client is told about a user; never the password hash
+function publicUser(user: SelectUser) {
+  return { id: user.id, username: user.username };
+}
+
+function sessionSecret(): string {
+  if (process.env.SESSION_SECRET) return process.env.SESSION_SECRET;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET is not set");
+  }
+  // Development only: sessions do not survive a restart
+  console.warn("SESSION_SECRET is not set; using a random secret");
+  return randomBytes(32).toString("hex");
+}
+
+export function setupAuth(app: Express) {
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: sessionSecret(),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: process.env.NODE_ENV === "production",
+      maxAge: SESSION_DAYS * 24 * 60 * 60 * 1000,
+    },
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      if (!user || !user.passwordHash || !(await verifyPassword(password, user.passwordHash))) {
+        return done(null, false, { message: "Invalid username or password" });
+      }
+      return done(null, user);
+    } catch (error) {
+      return done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      // A deleted account ends its sessions
+      done(null, (await storage.getUser(id)) || false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/auth/register", async (req, res, next) => {
+    try {
+      const { username, password } = req.body;
+
+      if (!username || typeof username !== "string" || username.trim().length < MIN_USERNAME_LENGTH) {
+        return res.status(400).json({
+          error: `Username must be at least ${MIN_USERNAME_LENGTH} characters`
+        });
+      }
+
+      if (!password || typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({
+          error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+        });
+      }
+
+      const cleanUsername = username.trim().toLowerCase();
+      // Including accounts from before passwords existed: those are claimed
+      // through /api/auth/claim, never by registering their name
+      if (await storage.getUserByUsername(cleanUsername)) {
+        return res.status(409).json({ error: "Username is already taken" });
+      }
+
+      const user = await storage.createUser({ username: cleanUsername, passwordHash: await hashPassword(password) });
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.status(201).json({ success: true, user: publicUser(user) });
+      });
+    } catch (error: any) {
+      console.error("Registration error:", error);
+      res.status(500).json({
+        error: error.message || "Registration failed"
+      });
+    }
+  });
+
+  // Sets the first password of an account from before passwords existed,
+  // given the claim code an operator issued for it (see claims.ts)
+  app.post("/api/auth/claim", async (req, res, next) => {
+    try {
+      const { username, password, code } = req.body;
+
+      if (!username || typeof username !== "string" || !code || typeof code !== "string") {
+        return res.status(400).json({
+          error: "Missing 'username' or 'code' field in request body"
+        });
+      }
+
+      if (!password || typeof password !== "string" || password.length < MIN_PASSWORD_LENGTH) {
+        return res.status(400).json({
+          error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters`
+        });
+      }
+
+      const cleanUsername = username.trim().toLowerCase();
+      const existing = await storage.getUserByUsername(cleanUsername);
+      // One answer for every failure, so the route can't be used to probe accounts
+      if (!existing || existing.passwordHash || !verifyClaimCode(cleanUsername, code)) {
+        return res.status(403).json({ error: "Invalid or expired claim code" });
+      }
+
+      const user = await storage.claimUser(existing.id, await hashPassword(password));
+      if (!user) {
+        return res.status(403).json({ error: "Invalid or expired claim code" });
+      }
+
+      req.login(user, (error) => {
+        if (error) return next(error);
+        res.json({ success: true, user: publicUser(user) });
+      });
+    } catch (error: any) {
+      console.error("Claim error:", error);
+      res.status(500).json({
+        error: error.message || "Claiming the account failed"
+      });
+    }
+  });
+
+  app.post("/api/auth/login", (req, res, next) => {
+    passport.authenticate("local", (error: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (error) {
+        console.error("Login error:", error);
+        return res.status(500).json({ error: error.message || "Login failed" });
+      }
+      if (!user) {
+        return res.status(401).json({ error: info?.message || "Invalid username or password" });
+      }
+      req.login(user, (loginError) => {
+        if (loginError) return next(loginError);
+        res.json({ success: true, user: publicUser(user) });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/auth/logout", (req, res, next) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.json({ success: true });
+      });
+    });
+  });
+
+  app.get("/api/auth/me", (req, res) => {
+    if (!req.user) {
+      return res.status(401).json({ error: "Not logged in" });
+    }
+    res.json({ user: publicUser(req.user) });
+  });
+}
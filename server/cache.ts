@@ -0,0 +1,89 @@
+import { createHash } from "crypto";
+
+// Result cache in front of the LLM calls. A cached value is only reused when
+// the text, function, provider, model and prompt are all unchanged, so editing
+// a prompt retires its old entries without any manual step. The cache is best
+// effort: if it cannot be read or written the call simply goes to the provider.
+
+// LLM_CACHE_TTL_HOURS=0 turns the cache off
+const TTL_HOURS = parseFloat(process.env.LLM_CACHE_TTL_HOURS || "168");
+
+export interface CacheKey {
+  textHash: string;
+  functionType: string;
+  provider: string;
+  model: string;
+  promptVersion: string;
+}
+
+export interface CacheOptions {
+  forceRefresh?: boolean;  // skip the lookup and overwrite whatever is stored
+}
+
+export type CacheFilter = Partial<Pick<CacheKey, "textHash" | "functionType" | "provider">>;
+
+export function sha256(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+// Prompts are versioned by content; the short hash is enough to tell versions apart
+export function promptVersion(prompt: string): string {
+  return sha256(prompt).slice(0, 16);
+}
+
+function storageKey(key: CacheKey): string {
+  return sha256(JSON.stringify([key.textHash, key.functionType, key.provider, key.model, key.promptVersion]));
+}
+
+// Loaded on first use so that modules calling the LLM do not need a database
+// just to be imported
+async function cacheStorage() {
+  const { storage } = await import("./storage");
+  return storage;
+}
+
+export async function withCache<T>(
+  key: CacheKey,
+  options: CacheOptions,
+  compute: () => Promise<T>
+): Promise<{ value: T; cachedAt: Date | null }> {
+  if (TTL_HOURS <= 0) {
+    return { value: await compute(), cachedAt: null };
+  }
+
+  const id = storageKey(key);
+
+  if (!options.forceRefresh) {
+    try {
+      const entry = await (await cacheStorage()).getLlmCacheEntry(id);
+      if (entry && (!entry.expiresAt || entry.expiresAt > new Date())) {
+        return { value: entry.value as T, cachedAt: entry.createdAt };
+      }
+    } catch (error) {
+      console.error("LLM cache lookup failed:", error);
+    }
+  }
+
+  const value = await compute();
+
+  try {
+    await (await cacheStorage()).setLlmCacheEntry({
+      key: id,
+      ...key,
+      value: value as object,
+      expiresAt: new Date(Date.now() + TTL_HOURS * 3600 * 1000),
+    });
+  } catch (error) {
+    console.error("LLM cache write failed:", error);
+  }
+
+  return { value, cachedAt: null };
+}
+
+export async function invalidateCache(filter: CacheFilter): Promise<number> {
+  return (await cacheStorage()).deleteLlmCacheEntries(filter);
+}
+
+export async function purgeExpiredCache(): Promise<number> {
+  return (await cacheStorage()).deleteExpiredLlmCacheEntries();
+}
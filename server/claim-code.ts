@@ -0,0 +1,35 @@
+import { storage } from "./storage";
+import { issueClaimCode } from "./claims";
+
+// Prints a claim code for an account from before passwords existed:
+//   npm run auth:claim-code -- <username>
+// Run it with the server's environment (database and ACCOUNT_CLAIM_SECRET)
+// and hand the code to the account's owner.
+
+async function main(): Promise<number> {
+  const username = process.argv[2]?.trim().toLowerCase();
+  if (!username) {
+    console.error("Usage: npm run auth:claim-code -- <username>");
+    return 1;
+  }
+
+  const user = await storage.getUserByUsername(username);
+  if (!user) {
+    console.error(`No account named '${username}'`);
+    return 1;
+  }
+  if (user.passwordHash) {
+    console.error(`'${username}' already has a password; it can't be claimed`);
+    return 1;
+  }
+
+  console.log(issueClaimCode(username));
+  return 0;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+// Accounts from before passwords existed have no password. Registering their
+// username does not hand them over; the owner claims the account with a code
+// an operator issues (`npm run auth:claim-code -- <username>`). A code is an
+// HMAC of the username and its expiry under ACCOUNT_CLAIM_SECRET, so nothing
+// is stored, and it is single-use because claiming sets a password.
+
+const CLAIM_DAYS = 7;
+
+function claimSecret(): string | null {
+  return process.env.ACCOUNT_CLAIM_SECRET || null;
+}
+
+function sign(secret: string, username: string, expires: number): string {
+  return createHmac("sha256", secret).update(`${username}\n${expires}`).digest("base64url");
+}
+
+export function issueClaimCode(username: string, now = Date.now()): string {
+  const secret = claimSecret();
+  if (!secret) {
+    throw new Error("ACCOUNT_CLAIM_SECRET is not set");
+  }
+  const expires = Math.floor(now / 1000) + CLAIM_DAYS * 24 * 60 * 60;
+  return `${expires}.${sign(secret, username, expires)}`;
+}
+
+export function verifyClaimCode(username: string, code: string, now = Date.now()): boolean {
+  const secret = claimSecret();
+  const [expiresPart, signature] = code.trim().split(".");
+  const expires = Number(expiresPart);
+  if (!secret || !signature || !Number.isInteger(expires) || expires * 1000 < now) return false;
+
+  const expected = Buffer.from(sign(secret, username, expires));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
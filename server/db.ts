@@ -2,9 +2,11 @@ import { drizzle } from "drizzle-orm/neon-serverless";
 import { Pool } from "@neondatabase/serverless";
 import * as schema from "@shared/schema";
 
-if (!process.env.DATABASE_URL) {
-  throw new Error("DATABASE_URL is not set");
+// Connecting is left to the storage layer, which falls back to memory when
+// DATABASE_URL is not set
+export function connectDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return { pool, db: drizzle(pool, { schema }) };
 }
 
-const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
+export type Database = ReturnType<typeof connectDatabase>["db"];
@@ -0,0 +1,71 @@
+import type { InsertSavedDocument, SavedDocument } from "@shared/schema";
+import { sha256 } from "./cache";
+import { storage } from "./storage";
+import { canAccess } from "./workspaces";
+
+// Every text a logged-in user analyzes is kept as a document, so a run can be
+// repeated with another function, its quotes checked again, or compared with
+// other runs on the same text. Identical texts are stored once per user, or
+// once per workspace for documents shared with one.
+
+// First non-empty line, without Markdown heading marks, cut at a word boundary
+export function defaultTitle(text: string): string {
+  const line = text.split("\n").map(l => l.replace(/^#+\s*/, "").trim()).find(Boolean) || "Untitled";
+  if (line.length <= 80) return line;
+  const cut = line.slice(0, 80);
+  return `${cut.slice(0, cut.lastIndexOf(" ") > 40 ? cut.lastIndexOf(" ") : 80)}...`;
+}
+
+export async function saveDocument(
+  userId: number,
+  text: string,
+  details: Partial<Pick<InsertSavedDocument, "title" | "author" | "format" | "sections" | "pages" | "workspaceId">> = {}
+): Promise<{ document: SavedDocument; created: boolean }> {
+  const contentHash = sha256(text);
+  const existing = await storage.getDocumentByHash(userId, contentHash, details.workspaceId ?? null);
+  if (existing) {
+    // A re-upload of the same text may bring structure that a paste did not have
+    if (!existing.sections && details.sections) {
+      const updated = await storage.updateDocument(existing.id, {
+        format: details.format,
+        sections: details.sections,
+        pages: details.pages,
+      });
+      return { document: updated || existing, created: false };
+    }
+    return { document: existing, created: false };
+  }
+
+  const document = await storage.createDocument({
+    userId,
+    workspaceId: details.workspaceId ?? null,
+    title: details.title?.trim() || defaultTitle(text),
+    author: details.author?.trim() || null,
+    text,
+    contentHash,
+    wordCount: text.split(/\s+/).filter(Boolean).length,
+    format: details.format || null,
+    sections: details.sections || null,
+    pages: details.pages || null,
+  });
+  return { document, created: true };
+}
+
+// Where an analysis of `text` is filed: with the document the client named if
+// it holds exactly this text and the user may add to it (history then joins
+// the document's workspace), otherwise with the user's own saved copy of the
+// text, which is created on first use
+export async function documentForAnalysis(
+  userId: number,
+  text: string,
+  documentId?: unknown
+): Promise<{ documentId: number; workspaceId: number | null }> {
+  if (typeof documentId === "number" && Number.isInteger(documentId)) {
+    const document = await storage.getDocument(documentId);
+    if (document && document.contentHash === sha256(text) && await canAccess(userId, document, "write")) {
+      return { documentId: document.id, workspaceId: document.workspaceId };
+    }
+  }
+  const { document } = await saveDocument(userId, text);
+  return { documentId: document.id, workspaceId: null };
+}
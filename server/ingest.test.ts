@@ -0,0 +1,44 @@
+import JSZip from "jszip";
+import { describe, expect, it } from "vitest";
+import { ingestDocument, UnreadableFileError, UnsupportedFormatError } from "./ingest";
+
+async function epub(chapter: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file("mimetype", "application/epub+zip");
+  zip.file("META-INF/container.xml", '<container><rootfiles><rootfile full-path="OEBPS/content.opf"/></rootfiles></container>');
+  zip.file("OEBPS/content.opf", [
+    "<package><metadata><dc:title>Minutes</dc:title></metadata>",
+    '<manifest><item id="c1" href="c1.xhtml"/></manifest>',
+    '<spine><itemref idref="c1"/></spine></package>',
+  ].join(""));
+  zip.file("OEBPS/c1.xhtml", `<html><body>${chapter}</body></html>`);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("ingestDocument", () => {
+  it("reads an EPUB's chapters and title", async () => {
+    const document = await ingestDocument(await epub("<h1>Tuesday</h1><p>The committee decided nothing.</p>"), "minutes.epub");
+
+    expect(document.title).toBe("Minutes");
+    expect(document.text).toContain("# Tuesday");
+    expect(document.text).toContain("The committee decided nothing.");
+  });
+
+  it("reports a truncated EPUB as unreadable", async () => {
+    const buffer = await epub("<p>The committee decided nothing.</p>");
+    const truncated = buffer.subarray(0, Math.floor(buffer.length / 2));
+
+    await expect(ingestDocument(truncated, "minutes.epub")).rejects.toBeInstanceOf(UnreadableFileError);
+  });
+
+  it("reports a corrupt DOCX as unreadable", async () => {
+    const corrupt = Buffer.concat([Buffer.from("PK\u0003\u0004"), Buffer.alloc(64, 7)]);
+
+    await expect(ingestDocument(corrupt, "minutes.docx")).rejects.toThrow(/^Could not read minutes\.docx: /);
+    await expect(ingestDocument(corrupt, "minutes.docx")).rejects.toBeInstanceOf(UnreadableFileError);
+  });
+
+  it("still rejects legacy Office files as unsupported", async () => {
+    await expect(ingestDocument(Buffer.from("whatever"), "minutes.doc")).rejects.toBeInstanceOf(UnsupportedFormatError);
+  });
+});
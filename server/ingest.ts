@@ -0,0 +1,699 @@
+import JSZip from "jszip";
+import mammoth from "mammoth";
+import { parse as parseHTML, HTMLElement, NodeType, type Node } from "node-html-parser";
+import { extractTextItems, getDocumentProxy, getMeta } from "unpdf";
+import {
+  formatForFilename,
+  type DocumentFormat,
+  type DocumentPage,
+  type DocumentSection,
+  type IngestedDocument,
+} from "@shared/documents";
+
+// Turns uploaded files into clean text plus the structure the rest of the app
+// can use: headings become Markdown "#" lines (which the chunker prefers to
+// break before), and sections and pages are recorded as character ranges of
+// the final text.
+
+export class UnsupportedFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnsupportedFormatError";
+  }
+}
+
+// A file of a supported type that its parser could not make sense of: a
+// truncated download, a corrupt archive, a renamed file of another type
+export class UnreadableFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UnreadableFileError";
+  }
+}
+
+// Soft hyphens, zero-width characters and runs of spaces inside a paragraph
+function cleanInline(text: string): string {
+  return text
+    .replace(/[\u00AD\u200B-\u200D\uFEFF]/g, "")
+    .replace(/[ \t\u00A0]+/g, " ")
+    .replace(/ *\n */g, "\n")
+    .trim();
+}
+
+interface PageMark {
+  page: number;
+  at: number;  // offset within the paragraph where the page begins
+}
+
+class DocumentBuilder {
+  private parts: string[] = [];
+  private length = 0;
+  private sections: DocumentSection[] = [];
+  private pageStarts = new Map<number, number>();
+  private firstHeading: string | null = null;
+
+  private append(block: string): number {
+    if (this.parts.length > 0) {
+      this.parts.push("\n\n");
+      this.length += 2;
+    }
+    const start = this.length;
+    this.parts.push(block);
+    this.length += block.length;
+    return start;
+  }
+
+  heading(title: string, level: number, page?: number) {
+    const clean = cleanInline(title).replace(/\n/g, " ");
+    if (!clean) return;
+    const depth = Math.min(Math.max(level, 1), 6);
+    const start = this.append(`${"#".repeat(depth)} ${clean}`);
+    if (this.sections.length === 0 && start > 0) {
+      this.sections.push({ title: null, level: 0, start: 0, end: start });
+    }
+    this.sections.push({ title: clean, level: depth, start, end: start });
+    if (page !== undefined && !this.pageStarts.has(page)) this.pageStarts.set(page, start);
+    if (this.firstHeading === null) this.firstHeading = clean;
+  }
+
+  // Callers clean the text themselves so that page marks stay accurate
+  paragraph(text: string, marks: PageMark[] = []) {
+    if (!text) return;
+    const start = this.append(text);
+    for (const mark of marks) {
+      if (!this.pageStarts.has(mark.page)) this.pageStarts.set(mark.page, start + mark.at);
+    }
+  }
+
+  build(filename: string, format: DocumentFormat, title: string | null, pageCount = 0): IngestedDocument {
+    const text = this.parts.join("");
+    const sections = this.sections.map((section, i) => ({
+      ...section,
+      end: i + 1 < this.sections.length ? this.sections[i + 1].start : text.length,
+    }));
+    if (sections.length === 0 && text.length > 0) {
+      sections.push({ title: null, level: 0, start: 0, end: text.length });
+    }
+
+    // Pages that contributed no text (blank or image-only) get an empty range
+    // at the point where the next page starts
+    const pages: DocumentPage[] = [];
+    let next = text.length;
+    for (let number = pageCount; number >= 1; number--) {
+      const start = this.pageStarts.has(number) ? this.pageStarts.get(number)! : next;
+      pages.unshift({ number, label: null, start, end: next });
+      next = start;
+    }
+    if (pages.length > 0) pages[0].start = 0;
+
+    return {
+      filename,
+      format,
+      title: title || this.firstHeading,
+      text,
+      wordCount: text.split(/\s+/).filter(Boolean).length,
+      sections,
+      pages,
+    };
+  }
+}
+
+// HTML extraction also serves DOCX (through mammoth) and EPUB chapters
+const SKIPPED_TAGS = new Set([
+  "HEAD", "SCRIPT", "STYLE", "NOSCRIPT", "TEMPLATE", "SVG", "NAV", "HEADER", "FOOTER", "ASIDE", "FORM", "BUTTON", "IFRAME",
+]);
+const BLOCK_TAGS = new Set([
+  "P", "DIV", "SECTION", "ARTICLE", "MAIN", "BLOCKQUOTE", "LI", "UL", "OL", "DL", "DT", "DD", "PRE", "TABLE", "TR",
+  "TD", "TH", "FIGURE", "FIGCAPTION", "HR", "BODY", "HTML",
+]);
+const HEADING_TAG = /^H([1-6])$/;
+
+function appendHTML(builder: DocumentBuilder, root: HTMLElement) {
+  let inline = "";
+
+  const flush = () => {
+    builder.paragraph(cleanInline(inline));
+    inline = "";
+  };
+
+  const walk = (node: Node) => {
+    if (node.nodeType === NodeType.TEXT_NODE) {
+      inline += node.text;
+      return;
+    }
+    if (node.nodeType !== NodeType.ELEMENT_NODE) return;
+
+    const element = node as HTMLElement;
+    const tag = element.tagName ? element.tagName.toUpperCase() : "";
+    if (SKIPPED_TAGS.has(tag) || element.getAttribute("hidden") !== undefined) return;
+    // EPUB page-break markers and footnote back-links carry no prose
+    const type = element.getAttribute("epub:type") || element.getAttribute("role") || "";
+    if (/pagebreak|doc-pagebreak|noteref|doc-noteref|doc-backlink/.test(type)) return;
+
+    const heading = tag.match(HEADING_TAG);
+    if (heading) {
+      flush();
+      builder.heading(element.text, Number(heading[1]));
+      return;
+    }
+    if (tag === "BR") {
+      inline += "\n";
+      return;
+    }
+
+    const block = BLOCK_TAGS.has(tag);
+    if (block) flush();
+    element.childNodes.forEach(walk);
+    if (block) flush();
+  };
+
+  walk(root);
+  flush();
+}
+
+function htmlTitle(root: HTMLElement): string | null {
+  const title = root.querySelector("title");
+  return title ? cleanInline(title.text) || null : null;
+}
+
+function ingestHTML(source: string, builder: DocumentBuilder): string | null {
+  const root = parseHTML(source, { comment: false });
+  const body = root.querySelector("body") || root;
+  appendHTML(builder, body);
+  return htmlTitle(root);
+}
+
+async function ingestDOCX(buffer: Buffer, builder: DocumentBuilder) {
+  // Word headers and footers are not part of the document body, so mammoth
+  // leaves them out; images are replaced with nothing rather than inlined
+  const { value } = await mammoth.convertToHtml(
+    { buffer },
+    { convertImage: mammoth.images.imgElement(() => Promise.resolve({ src: "" })) }
+  );
+  appendHTML(builder, parseHTML(value));
+}
+
+function attribute(tag: string, name: string): string | null {
+  const match = tag.match(new RegExp(`\\s${name}\\s*=\\s*("([^"]*)"|'([^']*)')`, "i"));
+  return match ? (match[2] ?? match[3]) : null;
+}
+
+function resolvePath(base: string, href: string): string {
+  const parts = base.split("/").slice(0, -1);
+  for (const part of decodeURIComponent(href.split("#")[0]).split("/")) {
+    if (part === "..") parts.pop();
+    else if (part && part !== ".") parts.push(part);
+  }
+  return parts.join("/");
+}
+
+async function ingestEPUB(buffer: Buffer, builder: DocumentBuilder): Promise<string | null> {
+  const zip = await JSZip.loadAsync(buffer);
+  const container = await zip.file("META-INF/container.xml")?.async("string");
+  const rootfile = container?.match(/<(?:\w+:)?rootfile\b[^>]*>/i)?.[0];
+  const opfPath = rootfile ? attribute(rootfile, "full-path") : null;
+  const opf = opfPath ? await zip.file(opfPath)?.async("string") : undefined;
+  if (!opfPath || !opf) {
+    throw new Error("EPUB is missing its package document");
+  }
+
+  const manifest = new Map<string, string>();
+  for (const item of Array.from(opf.matchAll(/<(?:\w+:)?item\b[^>]*>/gi), m => m[0])) {
+    const id = attribute(item, "id");
+    const href = attribute(item, "href");
+    if (id && href) manifest.set(id, resolvePath(opfPath, href));
+  }
+
+  const spine = Array.from(opf.matchAll(/<(?:\w+:)?itemref\b[^>]*>/gi), m => m[0])
+    .filter(ref => attribute(ref, "linear") !== "no")
+    .map(ref => manifest.get(attribute(ref, "idref") || ""))
+    .filter((path): path is string => !!path);
+
+  for (const path of spine) {
+    const chapter = await zip.file(path)?.async("string");
+    if (chapter) ingestHTML(chapter, builder);
+  }
+
+  const title = opf.match(/<dc:title\b[^>]*>([\s\S]*?)<\/dc:title>/i)?.[1];
+  return title ? cleanInline(parseHTML(title).text) || null : null;
+}
+
+// Destinations whose content is formatting data, metadata or page furniture
+const RTF_SKIPPED = new Set([
+  "fonttbl", "colortbl", "stylesheet", "info", "pict", "header", "headerl", "headerr", "headerf", "footer", "footerl",
+  "footerr", "footerf", "footnote", "fldinst", "themedata", "colorschememapping", "datastore", "latentstyles",
+  "listtable", "listoverridetable", "rsidtbl", "generator", "xmlnstbl", "mmathPr", "object", "filetbl", "revtbl",
+]);
+const RTF_SYMBOLS: Record<string, string> = {
+  emdash: "—", endash: "–", lquote: "‘", rquote: "’", ldblquote: "“", rdblquote: "”",
+  bullet: "•", tab: "\t", line: "\n", emspace: " ", enspace: " ", qmspace: " ",
+};
+const CP1252 = new TextDecoder("windows-1252");
+
+function ingestRTF(source: string, builder: DocumentBuilder) {
+  const stack: { skip: boolean; uc: number }[] = [];
+  let state = { skip: false, uc: 1 };
+  let paragraph = "";
+  let outline = -1;
+  let pendingSkip = 0;  // fallback characters still to drop after a \u escape
+  let bytes: number[] = [];
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      paragraph += CP1252.decode(new Uint8Array(bytes));
+      bytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    if (state.skip) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    flushBytes();
+    paragraph += text;
+  };
+  const endParagraph = () => {
+    flushBytes();
+    if (outline >= 0) builder.heading(paragraph, outline + 1);
+    else builder.paragraph(cleanInline(paragraph));
+    paragraph = "";
+  };
+
+  let i = 0;
+  while (i < source.length) {
+    const char = source[i];
+
+    if (char === "{") {
+      stack.push(state);
+      state = { ...state };
+      i++;
+      // {\*\destination ...} groups are optional extensions a reader may ignore
+      if (source.startsWith("\\*", i)) state.skip = true;
+      continue;
+    }
+    if (char === "}") {
+      flushBytes();
+      state = stack.pop() || { skip: false, uc: 1 };
+      i++;
+      continue;
+    }
+    if (char === "\r" || char === "\n") {
+      i++;
+      continue;
+    }
+    if (char !== "\\") {
+      emit(char);
+      i++;
+      continue;
+    }
+
+    const next = source[i + 1];
+    if (next === "'") {
+      if (!state.skip) {
+        if (pendingSkip > 0) pendingSkip--;
+        else bytes.push(parseInt(source.slice(i + 2, i + 4), 16));
+      }
+      i += 4;
+      continue;
+    }
+    if (next === "\\" || next === "{" || next === "}") {
+      emit(next);
+      i += 2;
+      continue;
+    }
+    if (next === "~") {
+      emit(" ");
+      i += 2;
+      continue;
+    }
+    if (next === "_") {
+      emit("-");
+      i += 2;
+      continue;
+    }
+    if (next === "\n" || next === "\r") {
+      if (!state.skip) endParagraph();
+      i += 2;
+      continue;
+    }
+
+    const control = source.slice(i).match(/^\\([a-zA-Z]+)(-?\d+)? ?/);
+    if (!control) {
+      // \- (optional hyphen), \* and other symbols carry no text
+      i += 2;
+      continue;
+    }
+    i += control[0].length;
+    const word = control[1];
+    const parameter = control[2] !== undefined ? Number(control[2]) : null;
+
+    if (RTF_SKIPPED.has(word)) {
+      state.skip = true;
+    } else if (word === "uc" && parameter !== null) {
+      state.uc = parameter;
+    } else if (word === "u" && parameter !== null) {
+      emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+      pendingSkip = state.uc;
+    } else if (word === "par" || word === "sect" || word === "page") {
+      if (!state.skip) endParagraph();
+    } else if (word === "pard") {
+      outline = -1;
+    } else if (word === "outlinelevel" && parameter !== null) {
+      outline = parameter;
+    } else if (RTF_SYMBOLS[word]) {
+      emit(RTF_SYMBOLS[word]);
+    }
+  }
+  endParagraph();
+}
+
+function cleanMarkdownInline(text: string): string {
+  return cleanInline(
+    text
+      .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\([^)]*\)/g, "$1")
+      .replace(/\[([^\]]+)\]\[[^\]]*\]/g, "$1")
+      .replace(/<\/?[a-zA-Z][^>]*>/g, "")
+      .replace(/(\*\*|__)(?=\S)([\s\S]*?\S)\1/g, "$2")
+      .replace(/(\*|_)(?=\S)([\s\S]*?\S)\1/g, "$2")
+      .replace(/`([^`]+)`/g, "$1")
+      .replace(/\\([\\`*_{}\[\]()#+\-.!])/g, "$1")
+  );
+}
+
+function ingestMarkdown(source: string, builder: DocumentBuilder) {
+  let lines = source.split("\n");
+  // YAML front matter
+  if (lines[0]?.trim() === "---") {
+    const end = lines.findIndex((line, i) => i > 0 && /^(---|\.\.\.)\s*$/.test(line));
+    if (end > 0) lines = lines.slice(end + 1);
+  }
+
+  let paragraph: string[] = [];
+  const flush = () => {
+    builder.paragraph(cleanMarkdownInline(paragraph.join(" ")));
+    paragraph = [];
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (/^\s*(```|~~~)/.test(line)) {
+      flush();
+      const fence = line.trim().slice(0, 3);
+      const code: string[] = [];
+      while (++i < lines.length && !lines[i].trim().startsWith(fence)) code.push(lines[i]);
+      builder.paragraph(code.join("\n").trim());
+      continue;
+    }
+
+    const atx = line.match(/^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/);
+    if (atx) {
+      flush();
+      builder.heading(cleanMarkdownInline(atx[2]), atx[1].length);
+      continue;
+    }
+
+    const underline = lines[i + 1]?.match(/^\s{0,3}(=+|-+)\s*$/);
+    if (underline && line.trim() && paragraph.length === 0) {
+      builder.heading(cleanMarkdownInline(line), underline[1][0] === "=" ? 1 : 2);
+      i++;
+      continue;
+    }
+
+    if (!line.trim() || /^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flush();
+      continue;
+    }
+
+    // List items are paragraphs of their own; quotation markers are dropped
+    const item = line.match(/^\s*(?:[-*+]|\d+[.)])\s+(.*)$/);
+    if (item) {
+      flush();
+      paragraph.push(item[1]);
+      continue;
+    }
+    paragraph.push(line.replace(/^\s*(>\s?)+/, ""));
+  }
+  flush();
+}
+
+interface PdfLine {
+  text: string;
+  x: number;
+  y: number;
+  fontSize: number;
+}
+
+const PAGE_NUMBER = /^(?:page\s+)?(\d{1,4}|[ivxlcdm]{1,7})(?:\s+of\s+\d+)?$/i;
+
+function pdfLines(items: { str: string; x: number; y: number; width: number; fontSize: number; hasEOL: boolean }[]): PdfLine[] {
+  const lines: PdfLine[] = [];
+  let current: PdfLine | null = null;
+  let right = 0;
+  let breakAfter = false;
+
+  for (const item of items) {
+    if (!item.str && !item.hasEOL) continue;
+    const sameLine = current && !breakAfter && Math.abs(item.y - current.y) < Math.max(current.fontSize, 1) * 0.5;
+    if (current && sameLine) {
+      // Items are positioned independently; a visible gap between them is a space
+      const gap = item.x - right;
+      if (gap > item.fontSize * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str)) current.text += " ";
+      current.text += item.str;
+      current.fontSize = Math.max(current.fontSize, item.fontSize);
+    } else if (item.str.trim()) {
+      current = { text: item.str, x: item.x, y: item.y, fontSize: item.fontSize };
+      lines.push(current);
+    }
+    right = item.x + item.width;
+    breakAfter = item.hasEOL;
+  }
+
+  return lines
+    .map(line => ({ ...line, text: cleanInline(line.text) }))
+    .filter(line => line.text.length > 0);
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+function edgeKey(text: string): string {
+  return text.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+}
+
+// Running heads and folios: short lines at the top or bottom of a page that
+// repeat (digits aside) on many pages, or that are nothing but a page number.
+// Lines are peeled from each edge inwards, at most two per edge.
+function stripPageFurniture(pages: PdfLine[][]): { lines: PdfLine[][]; labels: (string | null)[] } {
+  const edges = pages.map(lines => {
+    const byHeight = lines.slice().sort((a, b) => b.y - a.y);
+    return [byHeight.slice(0, 2), byHeight.slice(-2).reverse()];
+  });
+
+  const counts = new Map<string, number>();
+  edges.forEach(edge => {
+    Array.from(new Set(edge.flat().map(line => edgeKey(line.text)))).forEach(key => {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    });
+  });
+  const repeatThreshold = Math.max(3, Math.ceil(pages.length * 0.3));
+
+  const labels: (string | null)[] = [];
+  const lines = pages.map((page, p) => {
+    let label: string | null = null;
+    const removed = new Set<PdfLine>();
+
+    for (const edge of edges[p]) {
+      for (const line of edge) {
+        if (removed.has(line)) break;
+        const folio = line.text.match(PAGE_NUMBER);
+        const repeated = pages.length >= 3 &&
+          line.text.split(/\s+/).length <= 12 &&
+          (counts.get(edgeKey(line.text)) || 0) >= repeatThreshold;
+        if (!folio && !repeated) break;
+
+        if (folio) label = label || folio[1];
+        else {
+          const numbers = line.text.match(/\b\d{1,4}\b/g);
+          if (numbers && numbers.length === 1) label = label || numbers[0];
+        }
+        removed.add(line);
+      }
+    }
+
+    labels.push(label);
+    return page.filter(line => !removed.has(line));
+  });
+
+  return { lines, labels };
+}
+
+// Joins a line onto the paragraph so far, undoing end-of-line hyphenation
+function joinLine(paragraph: string, line: string): string {
+  if (!paragraph) return line;
+  if (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line)) return paragraph.slice(0, -1) + line;
+  return `${paragraph} ${line}`;
+}
+
+const SENTENCE_END = /[.!?:…]["'”’)\]]*$/;
+
+async function ingestPDF(buffer: Buffer, builder: DocumentBuilder): Promise<{ title: string | null; pageCount: number; labels: (string | null)[] }> {
+  const pdf = await getDocumentProxy(new Uint8Array(buffer));
+  const { totalPages, items } = await extractTextItems(pdf);
+  let title: string | null = null;
+  try {
+    const { info } = await getMeta(pdf);
+    title = typeof info?.Title === "string" && info.Title.trim() ? info.Title.trim() : null;
+  } catch {
+    // Metadata is optional
+  }
+
+  const { lines: pages, labels } = stripPageFurniture(items.map(pdfLines));
+  const all = pages.flat();
+  if (all.length === 0) {
+    throw new Error("No text found in the PDF; scanned documents need OCR first");
+  }
+
+  // Body text is whatever size most characters are set in
+  const sizeWeights = new Map<number, number>();
+  all.forEach(line => {
+    const size = Math.round(line.fontSize * 2) / 2;
+    sizeWeights.set(size, (sizeWeights.get(size) || 0) + line.text.length);
+  });
+  const bodySize = Array.from(sizeWeights.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  const isHeading = (line: PdfLine) =>
+    line.fontSize >= bodySize * 1.2 && line.text.split(/\s+/).length <= 15 && !/[.,;]$/.test(line.text);
+  const headingSizes = Array.from(new Set(all.filter(isHeading).map(line => Math.round(line.fontSize)))).sort((a, b) => b - a);
+  const headingLevel = (line: PdfLine) => Math.min(headingSizes.indexOf(Math.round(line.fontSize)) + 1, 3);
+
+  const spacings: number[] = [];
+  pages.forEach(lines => {
+    for (let i = 1; i < lines.length; i++) {
+      const delta = lines[i - 1].y - lines[i].y;
+      if (delta > 0 && Math.abs(lines[i].fontSize - bodySize) < 1) spacings.push(delta);
+    }
+  });
+  const lineSpacing = median(spacings) || bodySize * 1.2;
+  const lineLength = median(all.filter(line => !isHeading(line)).map(line => line.text.length));
+  const margin = median(all.map(line => Math.round(line.x)));
+
+  let paragraph = "";
+  let previousLength = 0;
+  let marks: PageMark[] = [];
+  let heading: { text: string; size: number; page: number } | null = null;
+  const flushParagraph = () => {
+    builder.paragraph(paragraph, marks);
+    paragraph = "";
+    marks = [];
+  };
+  const flushHeading = () => {
+    if (heading) builder.heading(heading.text, headingLevel({ text: heading.text, x: 0, y: 0, fontSize: heading.size }), heading.page);
+    heading = null;
+  };
+
+  pages.forEach((lines, p) => {
+    lines.forEach((line, i) => {
+      if (isHeading(line)) {
+        flushParagraph();
+        // Multi-line titles arrive as consecutive lines in the same size
+        if (heading && Math.abs(heading.size - line.fontSize) < 0.5) heading.text += ` ${line.text}`;
+        else {
+          flushHeading();
+          heading = { text: line.text, size: line.fontSize, page: p + 1 };
+        }
+        return;
+      }
+      flushHeading();
+
+      const previous = i > 0 ? lines[i - 1] : null;
+      const endsShort = SENTENCE_END.test(paragraph) && previousLength < lineLength * 0.7;
+      const newParagraph = !paragraph ||
+        (previous && previous.y - line.y > lineSpacing * 1.4) ||
+        line.x > margin + bodySize * 0.8 ||
+        endsShort;
+      if (newParagraph) flushParagraph();
+
+      if (marks.length === 0 || marks[marks.length - 1].page !== p + 1) {
+        const at = paragraph ? paragraph.length + (/[a-z]-$/.test(paragraph) && /^[a-z]/.test(line.text) ? -1 : 1) : 0;
+        marks.push({ page: p + 1, at });
+      }
+      paragraph = joinLine(paragraph, line.text);
+      previousLength = line.text.length;
+    });
+  });
+  flushParagraph();
+  flushHeading();
+
+  return { title, pageCount: totalPages, labels };
+}
+
+function detectFormat(buffer: Buffer, filename: string): DocumentFormat | null {
+  const byName = formatForFilename(filename);
+  if (byName) return byName;
+
+  const head = buffer.subarray(0, 512).toString("latin1");
+  if (head.startsWith("%PDF")) return "pdf";
+  if (head.startsWith("{\\rtf")) return "rtf";
+  if (head.startsWith("PK")) {
+    if (head.includes("mimetypeapplication/epub+zip")) return "epub";
+    return "docx";
+  }
+  if (/^\s*(<!doctype html|<html|<\?xml)/i.test(head)) return "html";
+  return null;
+}
+
+function decodeText(buffer: Buffer): string {
+  return buffer.toString("utf8").replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n");
+}
+
+export async function ingestDocument(buffer: Buffer, filename: string): Promise<IngestedDocument> {
+  if (/\.(doc|ppt|xls)$/i.test(filename)) {
+    throw new UnsupportedFormatError("Legacy Office files are not supported; save the file as .docx or PDF first");
+  }
+  const format = detectFormat(buffer, filename);
+  if (!format) {
+    throw new UnsupportedFormatError(`Unsupported file type: ${filename}`);
+  }
+
+  try {
+    return await parseDocument(buffer, filename, format);
+  } catch (error: any) {
+    throw new UnreadableFileError(`Could not read ${filename}: ${error.message || "the file is damaged"}`);
+  }
+}
+
+async function parseDocument(buffer: Buffer, filename: string, format: DocumentFormat): Promise<IngestedDocument> {
+  const builder = new DocumentBuilder();
+  switch (format) {
+    case "pdf": {
+      const { title, pageCount, labels } = await ingestPDF(buffer, builder);
+      const document = builder.build(filename, format, title, pageCount);
+      document.pages.forEach((page, i) => (page.label = labels[i] || null));
+      return document;
+    }
+    case "docx":
+      await ingestDOCX(buffer, builder);
+      return builder.build(filename, format, null);
+    case "epub":
+      return builder.build(filename, format, await ingestEPUB(buffer, builder));
+    case "html":
+      return builder.build(filename, format, ingestHTML(decodeText(buffer), builder));
+    case "rtf":
+      ingestRTF(buffer.toString("latin1"), builder);
+      return builder.build(filename, format, null);
+    case "markdown":
+      ingestMarkdown(decodeText(buffer), builder);
+      return builder.build(filename, format, null);
+    case "text": {
+      // Plain text is already what the analyzers take; only line endings are normalized
+      const text = decodeText(buffer);
+      builder.paragraph(text.trim());
+      return builder.build(filename, format, null);
+    }
+  }
+}
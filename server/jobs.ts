@@ -0,0 +1,309 @@
+import type { AnalysisJob, AnalysisJobChunk } from "@shared/schema";
+import { SYNTHESIS_FUNCTIONS, resolveChunkOptions, splitIntoChunks, type ChunkOptions } from "@shared/chunking";
+import { storage } from "./storage";
+import { sha256 } from "./cache";
+import { analyzeText, minQuotesForWords, withFailover, type AnalysisResult } from "./llm";
+import { mergeArgumentMaps, mergeChunkLists, mergeCustomOutputs, type ChunkOutput } from "./merge";
+import { synthesizeDocument } from "./synthesis";
+import { promptForRun } from "./templates";
+import type { PromptTemplate } from "./prompts";
+
+// Background worker for chunked analyses. All state lives in the database, so a
+// restart only loses the chunk that was in flight, which is simply run again.
+
+const MAX_ACTIVE_JOBS = parseInt(process.env.JOB_CONCURRENCY || "2", 10);
+
+const activeJobs = new Set<number>();
+let draining = false;
+let drainRequested = false;
+
+export function combineResults(outputs: ChunkOutput[], minQuotes: number, prompt?: PromptTemplate): AnalysisResult {
+  const lists = mergeChunkLists(outputs, minQuotes);
+  const argumentMap = outputs.some(({ result }) => result.argumentMap) ? mergeArgumentMaps(outputs) : undefined;
+  return {
+    ...lists,
+    ...(argumentMap && {
+      argumentMap: argumentMap.map,
+      locations: { ...lists.locations, argumentMap: argumentMap.locations },
+    }),
+    ...(prompt?.output && { custom: mergeCustomOutputs(prompt.output, outputs) }),
+    summary: outputs.map(({ chunkNumber, result }) => `[Chunk ${chunkNumber}]\n${result.summary}`).join('\n\n'),
+    database: outputs.map(({ chunkNumber, result }) => `═══ CHUNK ${chunkNumber} ═══\n${result.database}`).join('\n\n'),
+    analyzer: outputs.map(({ chunkNumber, result }) => `═══════════════════════════════════════\n           CHUNK ${chunkNumber} ANALYSIS\n═══════════════════════════════════════\n\n${result.analyzer}`).join('\n\n'),
+  };
+}
+
+export async function createJob(options: {
+  userId: number;
+  documentId?: number | null;
+  text: string;
+  functionType: string;
+  providers: string[];
+  chunkIds?: number[];
+  chunking?: ChunkOptions;
+  synthesize?: boolean;
+  prompt?: PromptTemplate;
+}): Promise<AnalysisJob> {
+  // Resolved the same way as in the chunk picker so chunk ids line up
+  const allChunks = splitIntoChunks(options.text, resolveChunkOptions(options.providers, options.chunking));
+  const chunks = options.chunkIds
+    ? allChunks.filter(chunk => options.chunkIds!.includes(chunk.id))
+    : allChunks;
+
+  if (chunks.length === 0) {
+    throw new Error("No chunks selected");
+  }
+
+  const job = await storage.createAnalysisJob(
+    {
+      userId: options.userId,
+      functionType: options.functionType,
+      providers: options.providers,
+      textHash: sha256(options.text),
+      documentId: options.documentId ?? null,
+      promptId: options.prompt?.id ?? null,
+      promptVersion: options.prompt?.version ?? null,
+      synthesize: Boolean(options.synthesize) && SYNTHESIS_FUNCTIONS.includes(options.functionType) && chunks.length > 1,
+      inputPreview: options.text.substring(0, 200) + (options.text.length > 200 ? "..." : ""),
+      totalChunks: chunks.length,
+    },
+    chunks.map(chunk => ({
+      chunkNumber: chunk.id,
+      startWord: chunk.startWord,
+      endWord: chunk.endWord,
+      startOffset: chunk.startOffset,
+      text: chunk.text,
+    }))
+  );
+
+  drainQueue();
+  return job;
+}
+
+export async function cancelJob(id: number): Promise<AnalysisJob | undefined> {
+  // A running job notices this before its next chunk; the chunk in flight still completes
+  return await storage.updateAnalysisJob(id, { status: "cancelled", completedAt: new Date() });
+}
+
+export function isJobActive(id: number): boolean {
+  return activeJobs.has(id);
+}
+
+// Re-queues a failed or cancelled job; chunks that already completed are kept
+// and only the missing ones are processed
+export async function resumeJob(id: number): Promise<AnalysisJob | undefined> {
+  const chunks = await storage.getAnalysisJobChunks(id);
+  for (const chunk of chunks.filter(c => c.status !== "completed" && c.status !== "pending")) {
+    await storage.updateAnalysisJobChunk(chunk.id, { status: "pending", error: null });
+  }
+
+  const job = await storage.updateAnalysisJob(id, { status: "queued", error: null, completedAt: null });
+  drainQueue();
+  return job;
+}
+
+// Called once at startup: jobs that were running when the process died go back
+// on the queue and their interrupted chunk is retried
+export async function resumeJobs(): Promise<void> {
+  const interrupted = await storage.getAnalysisJobsByStatus(["running"]);
+
+  for (const job of interrupted) {
+    const chunks = await storage.getAnalysisJobChunks(job.id);
+    for (const chunk of chunks.filter(c => c.status === "running")) {
+      await storage.updateAnalysisJobChunk(chunk.id, { status: "pending" });
+    }
+    await storage.updateAnalysisJob(job.id, { status: "queued" });
+  }
+
+  if (interrupted.length > 0) {
+    console.log(`Resuming ${interrupted.length} interrupted analysis job(s)`);
+  }
+  drainQueue();
+}
+
+function drainQueue() {
+  drain().catch(error => console.error("Job queue error:", error));
+}
+
+async function drain() {
+  if (draining) {
+    drainRequested = true;
+    return;
+  }
+  draining = true;
+
+  try {
+    do {
+      drainRequested = false;
+      const queued = await storage.getAnalysisJobsByStatus(["queued"]);
+
+      for (const job of queued) {
+        if (activeJobs.size >= MAX_ACTIVE_JOBS) break;
+        if (activeJobs.has(job.id)) continue;
+
+        activeJobs.add(job.id);
+        runJob(job)
+          .catch(error => console.error(`Job ${job.id} crashed:`, error))
+          .finally(() => {
+            activeJobs.delete(job.id);
+            drainQueue();
+          });
+      }
+    } while (drainRequested);
+  } finally {
+    draining = false;
+  }
+}
+
+async function isCancelled(jobId: number): Promise<boolean> {
+  const job = await storage.getAnalysisJob(jobId);
+  return !job || job.status === "cancelled";
+}
+
+function completedOutputs(chunks: AnalysisJobChunk[]): ChunkOutput[] {
+  return chunks
+    .filter(chunk => chunk.status === "completed")
+    .map(chunk => ({ chunkNumber: chunk.chunkNumber, offset: chunk.startOffset, result: chunk.output as AnalysisResult }));
+}
+
+// The floor the prompts asked for, applied to everything analyzed so far
+function combineCompleted(chunks: AnalysisJobChunk[], prompt: PromptTemplate): AnalysisResult {
+  const completed = chunks.filter(chunk => chunk.status === "completed");
+  const wordCount = completed.reduce((sum, chunk) => sum + chunk.endWord - chunk.startWord + 1, 0);
+  return combineResults(completedOutputs(chunks), minQuotesForWords(wordCount), prompt);
+}
+
+async function runJob(queued: AnalysisJob) {
+  const job = await storage.claimAnalysisJob(queued.id);
+  if (!job) return;
+
+  const chunks = await storage.getAnalysisJobChunks(job.id);
+
+  let prompt: PromptTemplate;
+  try {
+    prompt = await promptForRun(job.promptId, job.promptVersion, job.functionType);
+  } catch (error: any) {
+    await storage.updateAnalysisJob(job.id, { status: "failed", error: error.message, completedAt: new Date() });
+    return;
+  }
+
+  // History records the prompt that actually ran
+  if (prompt.id !== job.promptId || prompt.version !== job.promptVersion) {
+    Object.assign(job, { promptId: prompt.id, promptVersion: prompt.version });
+    await storage.updateAnalysisJob(job.id, { promptId: prompt.id, promptVersion: prompt.version });
+  }
+
+  for (const chunk of chunks) {
+    if (chunk.status === "completed") continue;
+
+    if (await isCancelled(job.id)) {
+      await saveToHistory(job, chunks, prompt);
+      return;
+    }
+
+    await storage.updateAnalysisJobChunk(chunk.id, { status: "running", error: null });
+
+    try {
+      const { value, provider } = await withFailover(
+        job.providers,
+        p => analyzeText(chunk.text, p, job.functionType, { prompt })
+      );
+
+      Object.assign(chunk, { status: "completed", provider, output: value, error: null, completedAt: new Date() });
+      await storage.updateAnalysisJobChunk(chunk.id, {
+        status: "completed",
+        provider,
+        output: value,
+        completedAt: chunk.completedAt,
+      });
+
+      await storage.updateAnalysisJob(job.id, {
+        completedChunks: completedOutputs(chunks).length,
+        result: combineCompleted(chunks, prompt),
+      });
+    } catch (error: any) {
+      const message = error.message || "Chunk failed";
+      console.error(`Job ${job.id} chunk ${chunk.chunkNumber} failed:`, error);
+
+      Object.assign(chunk, { status: "failed", error: message });
+      await storage.updateAnalysisJobChunk(chunk.id, { status: "failed", error: message });
+      await storage.updateAnalysisJob(job.id, {
+        status: "failed",
+        error: `Chunk ${chunk.chunkNumber} failed: ${message}`,
+        completedAt: new Date(),
+      });
+      await saveToHistory(job, chunks, prompt);
+      return;
+    }
+  }
+
+  if (await isCancelled(job.id)) {
+    await saveToHistory(job, chunks, prompt);
+    return;
+  }
+
+  let result: AnalysisResult | undefined;
+  if (job.synthesize) {
+    // A failed synthesis leaves every chunk completed, so resuming the job
+    // only re-runs this step
+    try {
+      const outputs = completedOutputs(chunks).map(output => output.result);
+      result = await synthesizeDocument(job.functionType, outputs, combineCompleted(chunks, prompt), job.providers);
+      await storage.updateAnalysisJob(job.id, { result });
+    } catch (error: any) {
+      console.error(`Job ${job.id} synthesis failed:`, error);
+      await storage.updateAnalysisJob(job.id, {
+        status: "failed",
+        error: `Synthesis failed: ${error.message || "unknown error"}`,
+        completedAt: new Date(),
+      });
+      await saveToHistory(job, chunks, prompt);
+      return;
+    }
+
+    if (await isCancelled(job.id)) {
+      await saveToHistory(job, chunks, prompt);
+      return;
+    }
+  }
+
+  await storage.updateAnalysisJob(job.id, { status: "completed", completedAt: new Date() });
+  await saveToHistory(job, chunks, prompt, result);
+}
+
+async function saveToHistory(job: AnalysisJob, chunks: AnalysisJobChunk[], prompt: PromptTemplate, result?: AnalysisResult) {
+  const outputs = completedOutputs(chunks);
+  if (!job.userId || outputs.length === 0) return;
+
+  const partial = outputs.length < chunks.length;
+  const providers = Array.from(new Set(chunks.map(chunk => chunk.provider).filter(Boolean)));
+
+  const entry = {
+    userId: job.userId,
+    analysisType: job.functionType,
+    provider: providers.join(","),
+    inputPreview: partial
+      ? `[${outputs.length}/${chunks.length} chunks] ${job.inputPreview || ""}`
+      : job.inputPreview,
+    documentId: job.documentId,
+    promptId: job.promptId,
+    promptVersion: job.promptVersion,
+    outputData: partial
+      ? { ...combineCompleted(chunks, prompt), _chunkProgress: { completed: outputs.length, total: chunks.length, partial } }
+      : result || combineCompleted(chunks, prompt),
+  };
+
+  // A resumed run keeps updating the history entry from its earlier attempt
+  try {
+    // Like other history, the entry is shared in its document's workspace
+    const document = job.documentId ? await storage.getDocument(job.documentId) : undefined;
+    const filed = { ...entry, workspaceId: document?.workspaceId ?? null };
+    if (job.historyId && await storage.updateAnalysisHistory(job.historyId, filed)) {
+      return;
+    }
+    const history = await storage.createAnalysisHistory(filed);
+    await storage.updateAnalysisJob(job.id, { historyId: history.id });
+  } catch (saveError) {
+    console.error(`Failed to save job ${job.id} to history:`, saveError);
+  }
+}
@@ -0,0 +1,203 @@
+import { createServer, type IncomingMessage, type Server } from "http";
+import { readFileSync } from "fs";
+import path from "path";
+import type { AddressInfo } from "net";
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { analyzeTextStreaming, callLLM, LLMRequestError, readStream } from "./llm";
+import { providers, type ProviderAdapter } from "./providers";
+
+// Recorded provider SSE transcripts are replayed by a local stub server in
+// small, unaligned pieces, so events and lines arrive split across reads the
+// way they do over a real connection. A comma-separated list of transcripts
+// serves them in turn to repeated requests for the same URL, the last one
+// from then on.
+
+const FIXTURES = path.resolve(import.meta.dirname, "__fixtures__", "sse");
+const SUMMARY = '{"summary": "The committee met, decided nothing and adjourned."}';
+
+let server: Server;
+let baseUrl: string;
+const requests: { url: string; headers: IncomingMessage["headers"]; body: any }[] = [];
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = "";
+    req.on("data", chunk => body += chunk);
+    req.on("end", async () => {
+      requests.push({ url: req.url!, headers: req.headers, body: body ? JSON.parse(body) : null });
+      const sequence = path.basename(req.url!).split(",");
+      const served = requests.filter(request => request.url === req.url).length;
+      const transcript = readFileSync(path.join(FIXTURES, sequence[Math.min(served, sequence.length) - 1]));
+      res.writeHead(200, { "Content-Type": "text/event-stream" });
+      for (let i = 0; i < transcript.length; i += 37) {
+        res.write(transcript.subarray(i, i + 37));
+        await new Promise(resolve => setImmediate(resolve));
+      }
+      res.end();
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+// What `run` returned, and the requests the stub server received meanwhile
+async function captureRequests<T>(run: () => Promise<T>): Promise<[T, typeof requests]> {
+  const start = requests.length;
+  const value = await run();
+  return [value, requests.slice(start)];
+}
+
+async function replay(provider: ProviderAdapter, transcript: string) {
+  const chunks: string[] = [];
+  const response = await fetch(`${baseUrl}/${transcript}`, { method: "POST" });
+  await readStream(provider, response, chunk => chunks.push(chunk));
+  return chunks;
+}
+
+describe("readStream", () => {
+  it("relays Anthropic text deltas and stops at message_stop", async () => {
+    const chunks = await replay(providers.anthropic, "anthropic.sse");
+    expect(chunks).toEqual(['{"summary": "The committee', " met, decided nothing", ' and adjourned."}']);
+  });
+
+  it("raises Anthropic error events after output as a plain error", async () => {
+    const chunks: string[] = [];
+    const response = await fetch(`${baseUrl}/anthropic-error.sse`, { method: "POST" });
+    const failure = readStream(providers.anthropic, response, chunk => chunks.push(chunk));
+
+    await expect(failure).rejects.toThrow("Anthropic stream error: Overloaded");
+    await expect(failure).rejects.not.toBeInstanceOf(LLMRequestError);
+    expect(chunks).toEqual(['{"summary": "The']);
+  });
+
+  it("raises an error event before any output as a transient request error", async () => {
+    const response = await fetch(`${baseUrl}/anthropic-overloaded.sse`, { method: "POST" });
+    const error = await readStream(providers.anthropic, response, () => {}).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ message: "Anthropic stream error: Overloaded", provider: "anthropic", status: 529, transient: true });
+  });
+
+  it("relays OpenAI-style deltas up to [DONE]", async () => {
+    const chunks = await replay(providers.openai, "openai.sse");
+    expect(chunks.join("")).toBe(SUMMARY);
+    expect(chunks).toHaveLength(3);
+  });
+
+  it("skips keep-alive comments and handles CRLF line endings", async () => {
+    const chunks = await replay(providers.deepseek, "deepseek-crlf.sse");
+    expect(chunks.join("")).toBe(SUMMARY);
+  });
+
+  it("keeps the last delta when it arrives with finish_reason and no [DONE]", async () => {
+    const chunks = await replay(providers.perplexity, "perplexity.sse");
+    expect(chunks.join("")).toBe(SUMMARY);
+  });
+
+  it("raises OpenAI-style error payloads", async () => {
+    const response = await fetch(`${baseUrl}/openai-error.sse`, { method: "POST" });
+    await expect(readStream(providers.grok, response, () => {}))
+      .rejects.toThrow("Grok stream error: The server had an error while processing your request.");
+  });
+});
+
+describe("parseStreamEvent", () => {
+  it("ignores Anthropic bookkeeping events", () => {
+    expect(providers.anthropic.parseStreamEvent({ type: "ping" })).toBeNull();
+    expect(providers.anthropic.parseStreamEvent({ type: "content_block_start", index: 0 })).toBeNull();
+    expect(providers.anthropic.parseStreamEvent({
+      type: "content_block_delta",
+      delta: { type: "input_json_delta", partial_json: "{" },
+    })).toBeNull();
+  });
+
+  it("normalizes OpenAI-style chunks", () => {
+    expect(providers.openai.parseStreamEvent({ choices: [{ delta: { role: "assistant", content: "" } }] })).toBeNull();
+    expect(providers.openai.parseStreamEvent({ choices: [{ delta: { content: "Hi" } }] })).toEqual({ type: "delta", text: "Hi" });
+    expect(providers.openai.parseStreamEvent({ choices: [{ delta: {}, finish_reason: "stop" }] })).toEqual({ type: "done" });
+    expect(providers.openai.parseStreamEvent({ error: { code: 500 } })).toEqual({ type: "error", message: '{"code":500}', status: 500 });
+  });
+});
+
+describe("retries", () => {
+  afterAll(() => {
+    delete providers["stub-busy"];
+  });
+
+  it("gives up at once when asked to wait longer than allowed", async () => {
+    const fetchBusy = vi.fn(async () => new Response("Busy", { status: 429, headers: { "retry-after": "86400" } }));
+    providers["stub-busy"] = { ...providers.mock, id: "stub-busy", fetch: fetchBusy };
+
+    const error = await callLLM("stub-busy", "Hi", undefined, { forceRefresh: true }).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(LLMRequestError);
+    expect(error).toMatchObject({ status: 429, transient: true });
+    expect(error.message).toContain("asked to wait 86400s");
+    expect(fetchBusy).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("buildBody", () => {
+  const request = { messages: [{ role: "user" as const, content: "Hi" }] };
+
+  it.each(["anthropic", "openai"])("caps %s output at the adapter's configured max tokens", (id) => {
+    const adapter = { ...providers[id], maxTokens: 1234 };
+
+    expect(adapter.buildBody(request, false).max_tokens).toBe(1234);
+    expect(adapter.buildBody({ ...request, maxTokens: 99 }, false).max_tokens).toBe(99);
+  });
+});
+
+describe("analyzeTextStreaming", () => {
+  const text = "The committee met on Tuesday. It decided nothing, as usual, and adjourned.";
+
+  beforeAll(() => {
+    vi.stubEnv("ANTHROPIC_API_KEY", "test-key");
+    vi.stubEnv("GROK_API_KEY", "test-key");
+    providers["stub-anthropic"] = { ...providers.anthropic, id: "stub-anthropic", endpoint: `${baseUrl}/anthropic.sse` };
+    providers["stub-grok"] = { ...providers.grok, id: "stub-grok", endpoint: `${baseUrl}/openai.sse` };
+    providers["stub-overloaded"] = { ...providers.anthropic, id: "stub-overloaded", endpoint: `${baseUrl}/anthropic-overloaded.sse,anthropic.sse` };
+  });
+
+  afterAll(() => {
+    vi.unstubAllEnvs();
+    delete providers["stub-anthropic"];
+    delete providers["stub-grok"];
+    delete providers["stub-overloaded"];
+  });
+
+  it.each(["stub-anthropic", "stub-grok"])("streams %s tokens and returns the validated result", async (provider) => {
+    const chunks: string[] = [];
+    const [result, [request]] = await captureRequests(() =>
+      analyzeTextStreaming(text, provider, "rewrite", chunk => chunks.push(chunk), { forceRefresh: true })
+    );
+
+    expect(chunks.join("")).toBe(SUMMARY);
+    expect(result.summary).toBe("The committee met, decided nothing and adjourned.");
+    expect(request.body.stream).toBe(true);
+    expect(request.body.messages.some((m: any) => m.role === "user" && m.content === text)).toBe(true);
+  });
+
+  it("sends Anthropic's system prompt and key the way its API expects", async () => {
+    const [, [request]] = await captureRequests(() =>
+      analyzeTextStreaming(text, "stub-anthropic", "rewrite", () => {}, { forceRefresh: true })
+    );
+
+    expect(request.headers["x-api-key"]).toBe("test-key");
+    expect(request.headers["anthropic-version"]).toBe("2023-06-01");
+    expect(typeof request.body.system).toBe("string");
+    expect(request.body.messages.every((m: any) => m.role !== "system")).toBe(true);
+  });
+
+  it("retries a stream that fails before its first token", async () => {
+    const chunks: string[] = [];
+    const [, sent] = await captureRequests(() =>
+      analyzeTextStreaming(text, "stub-overloaded", "rewrite", chunk => chunks.push(chunk), { forceRefresh: true })
+    );
+
+    expect(sent).toHaveLength(2);
+    expect(chunks.join("")).toBe(SUMMARY);
+  });
+});
@@ -1,3 +1,15 @@
+import type { ZodType, ZodTypeDef } from "zod";
+import type { QuoteLocation } from "@shared/alignment";
+import type { ArgumentMap } from "@shared/argumentMap";
+import { SYNTHESIS_FUNCTIONS } from "@shared/chunking";
+import { getProvider, type ChatRequest, type LLMTask, type ProviderAdapter } from "./providers";
+import { getAnalysisSchema, getCustomAnalysisSchema } from "./schemas";
+import { verifyAnalysis } from "./verification";
+import { promptVersion, sha256, withCache, type CacheOptions } from "./cache";
+import { analysisPrompt, builtinPrompt, outputInstructions, renderPrompt, type PromptTemplate } from "./prompts";
+import { renderOutput, type CustomData } from "@shared/functions";
+import { RateLimiter, backoffDelay, estimateTokens, parseRetryAfter, sleep } from "./ratelimit";
+
 export type AnalysisResult = {
   quotes: string[];
   annotatedQuotes: { quote: string; context: string }[];
@@ -5,266 +17,34 @@ export type AnalysisResult = {
   database: string;
   analyzer: string;
   views?: { view: string; evidence: string[] }[];
-};
-
-function getSystemPrompt(functionType: string, minQuotes: number): string {
-  const prompts = {
-    quotes: `Extract THE MOST INTELLIGENT AND PROFOUND QUOTATIONS from the text.
-
-⚠️ CRITICAL REQUIREMENT: You MUST extract AT LEAST ${minQuotes} quotes. This is a MINIMUM, not a target.
-⚠️ For longer texts, extract MORE quotes than the minimum. The minimum is based on 3 quotes per 600 words.
-⚠️ DO NOT stop after a few quotes - continue extracting until you have provided at least ${minQuotes} high-quality quotations.
-
-INTELLIGENCE CRITERIA - Prioritize quotes that demonstrate:
-1. CONCEPTUAL DEPTH: Complex ideas, nuanced distinctions, or sophisticated reasoning
-2. ORIGINALITY: Novel insights, unique perspectives, or paradigm-shifting claims
-3. PHILOSOPHICAL WEIGHT: Statements that grapple with fundamental questions of truth, existence, knowledge, ethics, or meaning
-4. ARGUMENTATIVE POWER: Compelling logical moves, devastating critiques, or synthesis of opposing views
-5. EPISTEMIC SIGNIFICANCE: Claims about how we know, what we can know, or the limits of understanding
-6. THEORETICAL INNOVATION: New frameworks, reconceptualizations, or challenge to conventional thinking
-7. APHORISTIC BRILLIANCE: Dense, memorable formulations that pack maximum insight into minimal words
-8. COUNTERINTUITIVE TRUTH: Insights that challenge common assumptions yet prove illuminating
-
-AVOID: Mundane observations, simple factual statements, transitional sentences, rhetorical filler, or obvious claims.
-
-SEEK: The passages a careful reader would underline, the sentences worth memorizing, the ideas that change how one thinks.
-
-Output valid JSON: {"quotes": ["quote 1", "quote 2", ...], "annotatedQuotes": [], "summary": "", "database": "", "analyzer": ""}`,
-    
-    context: `Extract THE MOST INTELLIGENT AND PROFOUND QUOTATIONS with scholarly contextual commentary.
-
-⚠️ CRITICAL REQUIREMENT: You MUST extract AT LEAST ${minQuotes} quotes. This is a MINIMUM, not a target.
-⚠️ For longer texts, extract MORE quotes than the minimum. The minimum is based on 3 quotes per 600 words.
-⚠️ DO NOT stop after a few quotes - continue extracting until you have provided at least ${minQuotes} annotated quotations.
-
-INTELLIGENCE CRITERIA - Prioritize quotes that demonstrate:
-1. CONCEPTUAL DEPTH: Complex ideas, nuanced distinctions, or sophisticated reasoning
-2. ORIGINALITY: Novel insights, unique perspectives, or paradigm-shifting claims
-3. PHILOSOPHICAL WEIGHT: Statements that grapple with fundamental questions
-4. ARGUMENTATIVE POWER: Compelling logical moves or devastating critiques
-5. APHORISTIC BRILLIANCE: Dense, memorable formulations with maximum insight
-6. COUNTERINTUITIVE TRUTH: Insights that challenge assumptions yet prove illuminating
-
-For each quote, provide:
-1. The exact quotation (most intellectually significant passage)
-2. A one-line contextual commentary explaining WHY this quote is intellectually significant - what insight it offers, what problem it addresses, or what conceptual work it performs
-
-AVOID: Mundane observations, simple factual statements, transitional sentences, or obvious claims.
-
-Output valid JSON: {"quotes": [], "annotatedQuotes": [{"quote": "...", "context": "..."}, ...], "summary": "", "database": "", "analyzer": ""}`,
-    
-    rewrite: `Compress each paragraph into maximum 2 sentences. Do NOT skip any paragraphs.
-Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "Full compressed text...", "database": "", "analyzer": ""}`,
-    
-    database: `Generate an extremely detailed, fine-grained text-file database of the document. Include ALL of the following sections with comprehensive detail:
-
-1. DOCUMENT METADATA: Title (inferred), word count, character count, paragraph count, sentence count, average sentence length, reading level estimate, dominant language/style
-
-2. EXECUTIVE SUMMARY: Comprehensive 3-5 paragraph summary of the entire work, including:
-   - Overview of the document's purpose and scope
-   - Main thesis or central argument
-   - Key points and supporting arguments (numbered list)
-   - Primary conclusions and implications
-   - Overall significance and contribution
-
-3. REPRESENTATIVE QUOTATIONS (Minimum ${minQuotes} quotations):
-   Extract the most significant quotations that capture:
-   - The main thesis or central claims
-   - Key supporting arguments
-   - Important evidence or examples
-   - Crucial definitions or distinctions
-   - Memorable or powerful statements
-   For each quote: provide the quotation and a brief note on its significance
-
-4. KEY POINTS & ARGUMENTS ANALYSIS:
-   - Main argument/thesis statement
-   - Primary supporting arguments (numbered, with detailed explanations)
-   - Secondary arguments and claims
-   - Evidence and examples used
-   - Logical structure and progression
-   - Conclusions reached
-
-5. NAMED ENTITIES: Extract and categorize all people, places, organizations, dates, times, numbers, and proper nouns with frequency counts
-
-6. KEY CONCEPTS & THEMES: Identify major themes, topics, and concepts with detailed descriptions and occurrence frequencies
-
-7. STRUCTURAL ANALYSIS: Paragraph-by-paragraph breakdown with type classification (introduction, argument, evidence, transition, conclusion), topic sentences, and structural relationships
-
-8. SENTENCE INDEX: Complete sentence-by-sentence listing with classification (declarative, interrogative, imperative), complexity scores, and key information
-
-9. ENTITY RELATIONSHIPS: Map relationships between identified entities (who relates to whom, what connects to what)
-
-10. SEMANTIC ANALYSIS: Identify semantic fields, word families, recurring patterns, and linguistic features
-
-11. STATISTICAL BREAKDOWN: Vocabulary richness, lexical density, type-token ratio, most frequent words (excluding common words)
-
-12. CITATION & REFERENCE EXTRACTION: Any quotes, citations, references, or allusions to external sources
-
-13. TEMPORAL & SPATIAL MARKERS: Timeline of events mentioned, geographical references, temporal sequences
-
-14. RHETORICAL DEVICES: Metaphors, analogies, rhetorical questions, and persuasive techniques identified
-
-15. ARGUMENTATIVE STRUCTURE: Claims, evidence, warrants, counterarguments if present
-
-Format as a highly structured, detailed database in plain text with clear section headers and hierarchical organization.
-Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "Comprehensive database text...", "analyzer": ""}`,
-
-    analyzer: `Perform an EXTREMELY COMPREHENSIVE scholarly analysis of this text. This analysis should be approximately THREE TIMES as detailed and in-depth as a standard academic analysis. Include ALL of the following sections with exhaustive detail:
-
-═══════════════════════════════════════════════════════════════════
-
-SECTION 1: DOMAIN & DISCIPLINARY CONTEXT
-- Primary academic domain(s) and subdomain(s)
-- Interdisciplinary connections and influences
-- Historical positioning within the field
-- Relationship to major schools of thought
-- Target audience and scholarly community
-
-SECTION 2: MAIN THESIS & CENTRAL ARGUMENTS
-- Core thesis statement (multiple formulations if complex)
-- Primary arguments supporting the thesis (numbered, with detailed explanations)
-- Secondary arguments and subsidiary claims
-- Implicit assumptions underlying the arguments
-- Logical structure of the overall argument
-- Argument progression and development throughout the text
-
-SECTION 3: REPRESENTATIVE QUOTATIONS (Minimum ${minQuotes * 2} quotations)
-- Extract the most philosophically/intellectually significant passages
-- Include direct quotations that capture:
-  * The author's main position
-  * Key supporting arguments
-  * Crucial definitions or conceptual distinctions
-  * Positions being criticized or refuted
-  * Methodological statements
-  * Pivotal turns in the argument
-- For EACH quotation, provide: the exact quote, its location/context in the text, and its significance
-
-SECTION 4: ANALYTICAL MOVES DEPLOYED
-Identify and explain IN DETAIL every major analytical technique used:
-- Conceptual analysis and distinctions drawn
-- Argumentation strategies (reductio ad absurdum, modus tollens, etc.)
-- Category error detection
-- Counterfactual reasoning
-- Thought experiments
-- Analogies and comparisons
-- Appeals to intuition
-- Inference to best explanation
-- Transcendental arguments
-- Dialectical moves
-- Deconstructive strategies
-- Hermeneutical approaches
-- For each move: explain what it is, where it appears, how it functions in the argument
-
-SECTION 5: THEORETICAL FRAMEWORK & METHODOLOGY
-- Philosophical or theoretical commitments
-- Methodological approach (analytical, continental, empirical, etc.)
-- Epistemological assumptions
-- Ontological commitments
-- Use of formal logic or informal reasoning
-- Relationship to empirical evidence
-
-SECTION 6: INTELLECTUAL GENEALOGY
-- Thinkers and theories explicitly referenced
-- Implicit influences and philosophical heritage
-- Positions being argued against (with named opponents if present)
-- Historical debates the text engages with
-- Canonical texts or ideas invoked
-
-SECTION 7: CONCEPTUAL APPARATUS
-- Key terms and their definitions
-- Technical vocabulary introduced or employed
-- Distinctions drawn between related concepts
-- Theoretical innovations or neologisms
-- Repurposing of existing concepts
-
-SECTION 8: ARGUMENTATIVE STRUCTURE
-- Overall organization of the argument
-- Logical dependencies between claims
-- Progression from premises to conclusions
-- Use of examples, illustrations, or case studies
-- Anticipation and response to objections
-- Dialectical structure (if present)
-
-SECTION 9: CRITICAL EVALUATION INDICATORS
-- Strengths of the argument
-- Potential weaknesses or gaps
-- Unstated assumptions that could be challenged
-- Alternative interpretations or objections not addressed
-- Scope and limitations of the claims
-
-SECTION 10: IMPLICATIONS & CONSEQUENCES
-- Theoretical implications
-- Practical consequences
-- What follows if the thesis is correct
-- What's at stake in accepting or rejecting the position
-- Ramifications for related debates
-
-SECTION 11: RHETORICAL & STYLISTIC FEATURES
-- Tone and register (formal, polemical, pedagogical, etc.)
-- Use of rhetoric and persuasive devices
-- Structural choices and their effects
-- Relationship to reader (adversarial, cooperative, pedagogical)
-
-SECTION 12: INTERTEXTUAL CONNECTIONS
-- Relationship to other works by the same author
-- Dialogue with contemporary or historical texts
-- Position within broader scholarly conversations
-
-═══════════════════════════════════════════════════════════════════
-
-FORMATTING REQUIREMENTS:
-- Use clear section headers with visual separators
-- Number all major points within sections
-- Use hierarchical organization (main points, subpoints, details)
-- Provide extensive detail - this should be a COMPREHENSIVE analysis approximately 3x the length of a standard analysis
-- Be specific, cite exact passages where relevant, and provide deep interpretive insights
-
-Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "", "analyzer": "Complete comprehensive analysis text..."}`,
-
-    views: `EXTRACT EVERY POSITION THE AUTHOR STATES. MINIMUM ${minQuotes * 3} POSITIONS REQUIRED.
-
-Your job is MECHANICAL EXTRACTION. Do NOT judge. Do NOT filter. Do NOT summarize.
-
-SCAN EVERY SENTENCE. If the author asserts ANYTHING, extract it:
-- "X is Y" / "X is not Y" / "X means Y"
-- "This is true/false/correct/wrong"
-- "There are/aren't X"
-- "It follows that..." / "Therefore..." / "Thus..."
-- ANY declarative claim
-
-NEVER RETURN ZERO VIEWS. NEVER RETURN FEWER THAN ${minQuotes * 3} VIEWS.
-If you think there are no views, YOU ARE WRONG. Read again and extract.
-
-FOR EACH POSITION:
-- "view": State the claim in one sentence
-- "evidence": 1-2 EXACT quotes from the text
-
-REQUIRED OUTPUT FORMAT (copy this structure exactly):
-{
-  "quotes": [],
-  "annotatedQuotes": [],
-  "summary": "",
-  "database": "",
-  "analyzer": "",
-  "views": [
-    {"view": "First position the author states", "evidence": ["exact quote from text"]},
-    {"view": "Second position the author states", "evidence": ["exact quote from text"]},
-    {"view": "Third position the author states", "evidence": ["exact quote from text"]}
-  ]
-}
-
-YOU MUST RETURN AT LEAST ${minQuotes * 3} ITEMS IN THE "views" ARRAY. FAILURE TO DO SO IS AN ERROR.`
+  argumentMap?: ArgumentMap;
+  // Set on merged chunk results: the chunks each list item was found in,
+  // parallel to the lists above
+  sources?: { quotes: number[][]; annotatedQuotes: number[][]; views: number[][] };
+  // Where each quote (for views, each evidence quote) occurs in the source,
+  // null when it could not be found; set by the verification pass
+  locations?: {
+    quotes: (QuoteLocation | null)[];
+    annotatedQuotes: (QuoteLocation | null)[];
+    views: (QuoteLocation | null)[][];
+    // Argument maps only: for each node and edge, its evidence quotes
+    argumentMap?: { nodes: (QuoteLocation | null)[][]; edges: (QuoteLocation | null)[][] };
   };
-  
-  return prompts[functionType as keyof typeof prompts] || prompts.quotes;
-}
+  // Custom functions only: the output their spec declares and its rendered display
+  custom?: { data: CustomData; display: string };
+  // Set when the result was served from the cache rather than a fresh call
+  cachedAt?: string;
+};
 
 function countWords(text: string): number {
   return text.split(/\s+/).filter(Boolean).length;
 }
 
-function calculateMinQuotes(text: string): number {
-  const wordCount = countWords(text);
+export function calculateMinQuotes(text: string): number {
+  return minQuotesForWords(countWords(text));
+}
+
+export function minQuotesForWords(wordCount: number): number {
   return Math.max(3, Math.ceil((wordCount / 600) * 3));
 }
 
@@ -283,430 +63,519 @@ function sanitizeJSON(str: string): string {
     });
 }
 
-function parseJSON(content: string): AnalysisResult {
-  // First, try to extract JSON from markdown code blocks
-  const jsonMatch = content.match(/```json\s*\n([\s\S]*?)\n```/) || content.match(/```\s*\n([\s\S]*?)\n```/);
-  let jsonString = jsonMatch ? jsonMatch[1] : content;
-  
-  // Remove any trailing/leading whitespace
-  jsonString = jsonString.trim();
-  
-  // Sanitize the JSON string to handle special characters
-  jsonString = sanitizeJSON(jsonString);
-  
+function parseObject(jsonString: string): unknown {
   try {
     return JSON.parse(jsonString);
-  } catch (e) {
-    // If direct parsing fails, try to extract just the JSON object
+  } catch (error) {
+    // Tolerate prose around the object, but nothing else
     const objectMatch = jsonString.match(/\{[\s\S]*\}/);
-    if (objectMatch) {
-      let cleanedJson = sanitizeJSON(objectMatch[0]);
-      
-      try {
-        return JSON.parse(cleanedJson);
-      } catch (e2) {
-        // Try a more aggressive cleanup - remove unescaped quotes inside strings
-        // This is a last resort attempt
-        try {
-          // Find and fix broken string arrays
-          cleanedJson = cleanedJson.replace(/"\s*,\s*\n\s*"/g, '",\n"');
-          return JSON.parse(cleanedJson);
-        } catch (e3) {
-          // Log the error for debugging
-          console.error("JSON parse error:", e2);
-          console.error("Content length:", cleanedJson.length);
-          console.error("First 500 chars:", cleanedJson.substring(0, 500));
-          
-          // Return the raw content as plain text since JSON parsing failed
-          // Put it in the appropriate field based on what we can detect
-          const rawContent = objectMatch[0];
-          
-          return {
-            quotes: [],
-            annotatedQuotes: [],
-            summary: "",
-            database: rawContent,  // Put raw content in database field
-            analyzer: "",
-            views: []
-          };
-        }
-      }
+    if (!objectMatch) throw error;
+    return JSON.parse(objectMatch[0]);
+  }
+}
+
+// Strips markdown fences; throws if no JSON object can be read. Typographic
+// quotes are legal inside JSON strings and part of verbatim quotations, so
+// they are only rewritten when the raw text does not parse.
+function extractJSON(content: string): unknown {
+  const fenced = content.match(/```(?:json)?\s*\n([\s\S]*?)\n```/);
+  const raw = (fenced ? fenced[1] : content).trim();
+
+  try {
+    return parseObject(raw);
+  } catch {
+    return parseObject(sanitizeJSON(raw));
+  }
+}
+
+type ValidationOutcome<T> =
+  | { success: true; data: T }
+  | { success: false; issues: string[] };
+
+function validateContent<T>(content: string, schema: ZodType<T, ZodTypeDef, unknown>): ValidationOutcome<T> {
+  let data: unknown;
+  try {
+    data = extractJSON(content);
+  } catch (error: any) {
+    return { success: false, issues: [`Response is not valid JSON: ${error.message}`] };
+  }
+
+  const parsed = schema.safeParse(data);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+  return {
+    success: false,
+    issues: parsed.error.issues.map(issue => `${issue.path.join(".") || "(root)"}: ${issue.message}`),
+  };
+}
+
+function buildRepairPrompt(issues: string[]): string {
+  return `Your previous response did not match the required JSON format:
+${issues.map(issue => `- ${issue}`).join("\n")}
+
+Return the complete corrected response as a single valid JSON object. Do not add commentary or markdown.`;
+}
+
+export class LLMValidationError extends Error {
+  code = "invalid_output";
+
+  constructor(message: string, public provider: string, public issues: string[]) {
+    super(message);
+    this.name = "LLMValidationError";
+  }
+}
+
+export class LLMConfigError extends Error {
+  constructor(message: string, public provider: string) {
+    super(message);
+    this.name = "LLMConfigError";
+  }
+}
+
+function getApiKey(provider: ProviderAdapter): string {
+  // API keys come from environment variables (Replit Secrets)
+  const apiKey = process.env[provider.apiKeyEnv] || "";
+  if (!apiKey && !provider.apiKeyOptional) {
+    throw new LLMConfigError(`${provider.apiKeyEnv} not configured in Replit Secrets`, provider.id);
+  }
+  return apiKey;
+}
+
+function resolveProvider(id: string): ProviderAdapter {
+  try {
+    return getProvider(id);
+  } catch (error: any) {
+    throw new LLMConfigError(error.message, id);
+  }
+}
+
+const MAX_REPAIRS = parseInt(process.env.LLM_MAX_REPAIRS || "2", 10);
+const MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || "4", 10);
+// A provider asking for a longer wait than this is treated as unavailable
+// rather than holding the request or job chunk for that long
+const MAX_RETRY_AFTER_MS = parseFloat(process.env.LLM_MAX_RETRY_AFTER_SECONDS || "60") * 1000;
+
+const TRANSIENT_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+
+export class LLMRequestError extends Error {
+  constructor(
+    message: string,
+    public provider: string,
+    public status?: number,
+    public retryAfterMs?: number | null,
+  ) {
+    super(message);
+    this.name = "LLMRequestError";
+  }
+
+  // Network failures carry no status and are worth retrying too
+  get transient(): boolean {
+    return this.status === undefined || TRANSIENT_STATUSES.has(this.status);
+  }
+
+  get auth(): boolean {
+    return this.status === 401 || this.status === 403;
+  }
+}
+
+// Errors that say "this provider can't serve you right now" rather than "this
+// request is bad". Transient errors only get here after withRetries gave up.
+function shouldFailOver(error: unknown): boolean {
+  if (error instanceof LLMConfigError) return true;
+  if (error instanceof LLMRequestError) return error.transient || error.auth;
+  return false;
+}
+
+export async function withFailover<T>(
+  providerChain: string[],
+  run: (provider: string) => Promise<T>,
+  canFailOver: () => boolean = () => true
+): Promise<{ value: T; provider: string }> {
+  let lastError: unknown = new Error("No provider specified");
+
+  for (let index = 0; index < providerChain.length; index++) {
+    const provider = providerChain[index];
+    try {
+      return { value: await run(provider), provider };
+    } catch (error: any) {
+      lastError = error;
+      if (!shouldFailOver(error) || !canFailOver() || index === providerChain.length - 1) throw error;
+      console.warn(`Provider ${provider} unavailable (${error.message}), trying ${providerChain[index + 1]}`);
     }
-    
-    // Last resort - return the raw content
-    return {
-      quotes: [],
-      annotatedQuotes: [],
-      summary: "",
-      database: content,  // Put raw content in database field  
-      analyzer: "",
-      views: []
-    };
   }
+
+  throw lastError;
 }
 
-async function callOpenAI(text: string, apiKey: string, functionType: string): Promise<AnalysisResult> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: prompt },
-        { role: "user", content: text }
-      ],
-      max_tokens: 16384,
-      temperature: 0,
-      response_format: { type: "json_object" }
-    })
-  });
+const limiters = new Map<string, RateLimiter>();
+
+function getLimiter(provider: ProviderAdapter): RateLimiter {
+  let limiter = limiters.get(provider.id);
+  if (!limiter) {
+    const prefix = provider.id.toUpperCase();
+    const maxConcurrency = parseInt(process.env[`${prefix}_MAX_CONCURRENCY`] || "", 10) || provider.maxConcurrency;
+    const tokensPerMinute = parseInt(process.env[`${prefix}_TOKENS_PER_MINUTE`] || "", 10) || provider.tokensPerMinute;
+    limiter = new RateLimiter(maxConcurrency, tokensPerMinute);
+    limiters.set(provider.id, limiter);
+  }
+  return limiter;
+}
+
+async function sendRequest(provider: ProviderAdapter, apiKey: string, request: ChatRequest, stream: boolean): Promise<Response> {
+  let response: Response;
+  try {
+    response = provider.fetch
+      ? await provider.fetch(request, stream)
+      : await fetch(provider.endpoint, {
+          method: "POST",
+          headers: provider.buildHeaders(apiKey),
+          body: JSON.stringify(provider.buildBody(request, stream))
+        });
+  } catch (error: any) {
+    throw new LLMRequestError(`${provider.label} request failed: ${error.message}`, provider.id);
+  }
 
   if (!response.ok) {
-    const err = await response.json();
-    throw new Error(err.error?.message || "OpenAI API Error");
+    const errorText = await response.text();
+    throw new LLMRequestError(
+      `${provider.label} API Error: ${response.status} - ${errorText}`,
+      provider.id,
+      response.status,
+      parseRetryAfter(response.headers)
+    );
+  }
+
+  return response;
+}
+
+// Sends a request through the provider's limiter, retrying 429s, 5xx and network
+// failures with backoff. `consume` runs while the limiter slot is still held;
+// it fails with an LLMRequestError only before a stream has emitted output, so
+// output is never replayed.
+async function withRetries<T>(
+  provider: ProviderAdapter,
+  request: ChatRequest,
+  stream: boolean,
+  consume: (response: Response) => Promise<T>
+): Promise<T> {
+  const apiKey = getApiKey(provider);
+  const limiter = getLimiter(provider);
+  const estimatedTokens = estimateTokens(request.messages.map(m => m.content).join("\n"));
+
+  for (let attempt = 0; ; attempt++) {
+    const release = await limiter.acquire(estimatedTokens);
+    let error: unknown;
+    try {
+      return await consume(await sendRequest(provider, apiKey, request, stream));
+    } catch (caught) {
+      error = caught;
+    } finally {
+      release();
+    }
+
+    if (!(error instanceof LLMRequestError) || !error.transient || attempt >= MAX_RETRIES) {
+      throw error;
+    }
+    if (error.retryAfterMs && error.retryAfterMs > MAX_RETRY_AFTER_MS) {
+      throw new LLMRequestError(
+        `${error.message} (asked to wait ${Math.round(error.retryAfterMs / 1000)}s, longer than the ${MAX_RETRY_AFTER_MS / 1000}s allowed)`,
+        error.provider,
+        error.status,
+        error.retryAfterMs
+      );
+    }
+
+    const delay = error.retryAfterMs ?? backoffDelay(attempt);
+    if (error.status === 429) {
+      limiter.pause(delay);
+    }
+    console.warn(`${error.message} - retrying in ${Math.round(delay / 1000)}s (attempt ${attempt + 2}/${MAX_RETRIES + 1})`);
+    await sleep(delay);
   }
+}
 
-  const data = await response.json();
-  return parseJSON(data.choices[0].message.content);
-}
-
-async function callOpenAIStreaming(text: string, apiKey: string, functionType: string, onChunk: (chunk: string) => void): Promise<void> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.openai.com/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "gpt-4o",
-      messages: [
-        { role: "system", content: prompt },
-        { role: "user", content: text }
-      ],
-      max_tokens: 16384,
-      temperature: 0,
-      stream: true
-    })
+async function complete(provider: ProviderAdapter, request: ChatRequest): Promise<string> {
+  return withRetries(provider, request, false, async (response) => {
+    const data = await response.json();
+    const content = provider.extractContent(data);
+    getLimiter(provider).record(estimateTokens(content || ""));
+    return content;
   });
+}
 
-  if (!response.ok) {
-    const err = await response.json();
-    throw new Error(err.error?.message || "OpenAI API Error");
+async function completeStreaming(provider: ProviderAdapter, request: ChatRequest, onChunk: (chunk: string) => void): Promise<void> {
+  let emitted = 0;
+  const emit = (chunk: string) => {
+    emitted += chunk.length;
+    onChunk(chunk);
+  };
+
+  try {
+    await withRetries(provider, request, true, (response) => readStream(provider, response, emit));
+  } finally {
+    getLimiter(provider).record(Math.ceil(emitted / 4));
   }
+}
 
+export async function readStream(provider: ProviderAdapter, response: Response, onChunk: (chunk: string) => void): Promise<void> {
   const reader = response.body?.getReader();
   if (!reader) throw new Error("No response body");
 
   const decoder = new TextDecoder();
   let buffer = '';
+  let started = false;
+
+  const handleLine = (line: string): boolean => {
+    // Only data lines carry payloads; "event:" lines are redundant with the JSON type field
+    if (!line.startsWith('data:')) return false;
+    const data = line.slice(5).trim();
+    if (!data) return false;
+    if (data === '[DONE]') return true;
+
+    let parsed;
+    try {
+      parsed = JSON.parse(data);
+    } catch (e) {
+      // Skip parse errors
+      return false;
+    }
+
+    const event = provider.parseStreamEvent(parsed);
+    if (!event) return false;
+    if (event.type === "error") {
+      // Before the first token this is no different from an error response,
+      // so it is retried or failed over the same way; after it, output has
+      // already been relayed and the request can't be replayed
+      const message = `${provider.label} stream error: ${event.message}`;
+      throw started ? new Error(message) : new LLMRequestError(message, provider.id, event.status);
+    }
+    if (event.type === "delta") {
+      started = true;
+      onChunk(event.text);
+      return false;
+    }
+    return true;
+  };
 
   while (true) {
     const { done, value } = await reader.read();
     if (done) break;
 
     buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split('\n');
+    const lines = buffer.split(/\r?\n/);
     buffer = lines.pop() || '';
 
     for (const line of lines) {
-      if (line.startsWith('data: ')) {
-        const data = line.slice(6);
-        if (data === '[DONE]') continue;
-        
-        try {
-          const parsed = JSON.parse(data);
-          const content = parsed.choices[0]?.delta?.content;
-          if (content) {
-            onChunk(content);
-          }
-        } catch (e) {
-          // Skip parse errors
-        }
+      if (handleLine(line)) {
+        await reader.cancel();
+        return;
       }
     }
   }
+
+  buffer += decoder.decode();
+  if (buffer) handleLine(buffer);
 }
 
-async function callAnthropic(text: string, apiKey: string, functionType: string): Promise<AnalysisResult> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.anthropic.com/v1/messages", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "x-api-key": apiKey,
-      "anthropic-version": "2023-06-01"
-    },
-    body: JSON.stringify({
-      model: "claude-sonnet-4-5",
-      max_tokens: 16384,
-      temperature: 0,
-      system: prompt,
-      messages: [
-        { role: "user", content: text }
-      ]
-    })
-  });
+// Invalid output gets a bounded number of follow-up turns that quote the
+// validation errors back to the model before we give up
+async function validateWithRepair<T>(
+  adapter: ProviderAdapter,
+  request: ChatRequest,
+  content: string,
+  schema: ZodType<T, ZodTypeDef, unknown>
+): Promise<T> {
+  let messages = request.messages;
+
+  for (let attempt = 0; ; attempt++) {
+    const outcome = validateContent(content, schema);
+    if (outcome.success) return outcome.data;
+
+    if (attempt >= MAX_REPAIRS) {
+      throw new LLMValidationError(
+        `${adapter.label} returned output that failed validation after ${MAX_REPAIRS} repair attempts`,
+        adapter.id,
+        outcome.issues
+      );
+    }
 
-  if (!response.ok) {
-    const err = await response.json();
-    throw new Error(err.error?.message || "Anthropic API Error");
+    console.warn(`${adapter.label} output failed validation (${outcome.issues.length} issues), requesting repair ${attempt + 1}/${MAX_REPAIRS}`);
+    messages = [
+      ...messages,
+      { role: "assistant", content },
+      { role: "user", content: buildRepairPrompt(outcome.issues) }
+    ];
+    content = await complete(adapter, { ...request, messages });
   }
+}
 
-  const data = await response.json();
-  const content = data.content[0].text;
-  return parseJSON(content);
-}
-
-async function callGrok(text: string, apiKey: string, functionType: string): Promise<AnalysisResult> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.x.ai/v1/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "grok-2-latest",
-      messages: [
-        { role: "system", content: prompt },
-        { role: "user", content: text }
-      ],
-      max_tokens: 16384,
-      temperature: 0,
-      response_format: { type: "json_object" }
-    })
-  });
+// Everything a response depends on: the system prompt carries the function's
+// instructions and quote floor, the user turn carries the text
+function requestCacheKey(adapter: ProviderAdapter, request: ChatRequest, functionType: string) {
+  const system = request.messages.find(message => message.role === "system")?.content || "";
+  const input = request.messages.filter(message => message.role !== "system").map(message => message.content).join("\n\n");
+  return {
+    textHash: sha256(input),
+    functionType,
+    provider: adapter.id,
+    model: adapter.model,
+    promptVersion: promptVersion(system),
+  };
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Grok API Error: ${response.status} - ${errorText}`);
+function markCached<T extends object>(value: T, cachedAt: Date | null): T {
+  return cachedAt ? { ...value, cachedAt: cachedAt.toISOString() } : value;
+}
+
+// Used when there are no live tokens to relay: the adapter cannot stream or
+// the result came from the cache
+async function replayAsStream(result: AnalysisResult, onChunk: (chunk: string) => void) {
+  const fullText = JSON.stringify(result, null, 2);
+  for (let i = 0; i < fullText.length; i += 50) {
+    onChunk(fullText.slice(i, i + 50));
+    await new Promise(resolve => setTimeout(resolve, 10));
   }
+}
 
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  return parseJSON(content);
-}
-
-async function callPerplexity(text: string, apiKey: string, functionType: string): Promise<AnalysisResult> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.perplexity.ai/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "llama-3.1-sonar-large-128k-online",
-      messages: [
-        { role: "system", content: prompt },
-        { role: "user", content: text }
-      ],
-      max_tokens: 16384,
-      temperature: 0
-    })
-  });
+export interface AnalysisOptions extends CacheOptions {
+  prompt?: PromptTemplate;  // a user template to run in place of the function's built-in prompt
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`Perplexity API Error: ${response.status} - ${errorText}`);
+function buildAnalysisRequest(text: string, functionType: string, template?: PromptTemplate): ChatRequest {
+  let prompt = renderPrompt(template || analysisPrompt(functionType), {
+    minQuotes: calculateMinQuotes(text),
+    wordCount: countWords(text),
+  });
+  if (template?.output) {
+    prompt += `\n\n${outputInstructions(template.output.fields)}`;
   }
 
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  return parseJSON(content);
-}
-
-async function callDeepSeek(text: string, apiKey: string, functionType: string): Promise<AnalysisResult> {
-  const minQuotes = calculateMinQuotes(text);
-  const prompt = getSystemPrompt(functionType, minQuotes);
-
-  const response = await fetch("https://api.deepseek.com/chat/completions", {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      "Authorization": `Bearer ${apiKey}`,
-    },
-    body: JSON.stringify({
-      model: "deepseek-chat",
-      messages: [
-        { role: "system", content: prompt },
-        { role: "user", content: text }
-      ],
-      max_tokens: 16384,
-      temperature: 0,
-      response_format: { type: "json_object" }
-    })
-  });
+  return {
+    messages: [
+      { role: "system", content: prompt },
+      { role: "user", content: text }
+    ],
+    temperature: 0,
+    jsonMode: true,
+    task: { type: functionType, texts: [text], fields: template?.output?.fields }
+  };
+}
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    throw new Error(`DeepSeek API Error: ${response.status} - ${errorText}`);
-  }
+function analysisSchema(functionType: string, template?: PromptTemplate) {
+  return template?.output ? getCustomAnalysisSchema(template.output) : getAnalysisSchema(functionType);
+}
 
-  const data = await response.json();
-  const content = data.choices[0].message.content;
-  return parseJSON(content);
+// The display is not part of the prompt, so a cached output is shown with the
+// display of the function version that asked for it
+function withDisplay(result: AnalysisResult, template?: PromptTemplate): AnalysisResult {
+  if (!template?.output || !result.custom) return result;
+  return { ...result, custom: { ...result.custom, display: renderOutput(template.output, result.custom.data) } };
 }
 
-export async function analyzeText(text: string, provider: string, functionType: string): Promise<AnalysisResult> {
-  // Get API keys from environment variables (Replit Secrets)
-  const apiKeys = {
-    openai: process.env.OPENAI_API_KEY || "",
-    anthropic: process.env.ANTHROPIC_API_KEY || "",
-    grok: process.env.GROK_API_KEY || "",
-    perplexity: process.env.PERPLEXITY_API_KEY || "",
-    deepseek: process.env.DEEPSEEK_API_KEY || "",
-  };
+export async function analyzeText(text: string, provider: string, functionType: string, options: AnalysisOptions = {}): Promise<AnalysisResult> {
+  const adapter = resolveProvider(provider);
+  const request = buildAnalysisRequest(text, functionType, options.prompt);
+  const { value, cachedAt } = await withCache(requestCacheKey(adapter, request, functionType), options, async () => {
+    const content = await complete(adapter, request);
+    const result = await validateWithRepair(adapter, request, content, analysisSchema(functionType, options.prompt));
+    return verifyAnalysis(text, result);
+  });
+  return markCached(withDisplay(value, options.prompt), cachedAt);
+}
 
-  switch (provider) {
-    case "openai":
-      if (!apiKeys.openai) throw new Error("OPENAI_API_KEY not configured in Replit Secrets");
-      return callOpenAI(text, apiKeys.openai, functionType);
-    
-    case "anthropic":
-      if (!apiKeys.anthropic) throw new Error("ANTHROPIC_API_KEY not configured in Replit Secrets");
-      return callAnthropic(text, apiKeys.anthropic, functionType);
-    
-    case "grok":
-      if (!apiKeys.grok) throw new Error("GROK_API_KEY not configured in Replit Secrets");
-      return callGrok(text, apiKeys.grok, functionType);
-    
-    case "perplexity":
-      if (!apiKeys.perplexity) throw new Error("PERPLEXITY_API_KEY not configured in Replit Secrets");
-      return callPerplexity(text, apiKeys.perplexity, functionType);
-    
-    case "deepseek":
-      if (!apiKeys.deepseek) throw new Error("DEEPSEEK_API_KEY not configured in Replit Secrets");
-      return callDeepSeek(text, apiKeys.deepseek, functionType);
-    
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+// Tokens are relayed as they arrive; the validated (and if necessary repaired)
+// result is returned once the stream ends
+export async function analyzeTextStreaming(
+  text: string,
+  provider: string,
+  functionType: string,
+  onChunk: (chunk: string) => void,
+  options: AnalysisOptions = {}
+): Promise<AnalysisResult> {
+  const adapter = resolveProvider(provider);
+
+  if (!adapter.supportsStreaming) {
+    // Fallback to non-streaming for adapters that cannot stream
+    const result = await analyzeText(text, provider, functionType, options);
+    await replayAsStream(result, onChunk);
+    return result;
   }
-}
 
-export async function analyzeTextStreaming(text: string, provider: string, functionType: string, onChunk: (chunk: string) => void): Promise<void> {
-  // Get API keys from environment variables (Replit Secrets)
-  const apiKeys = {
-    openai: process.env.OPENAI_API_KEY || "",
-    anthropic: process.env.ANTHROPIC_API_KEY || "",
-    grok: process.env.GROK_API_KEY || "",
-    perplexity: process.env.PERPLEXITY_API_KEY || "",
-    deepseek: process.env.DEEPSEEK_API_KEY || "",
-  };
+  const request = buildAnalysisRequest(text, functionType, options.prompt);
+  const { value, cachedAt } = await withCache(requestCacheKey(adapter, request, functionType), options, async () => {
+    let content = "";
+    await completeStreaming(adapter, request, chunk => {
+      content += chunk;
+      onChunk(chunk);
+    });
+    const result = await validateWithRepair(adapter, request, content, analysisSchema(functionType, options.prompt));
+    return verifyAnalysis(text, result);
+  });
 
-  switch (provider) {
-    case "openai":
-      if (!apiKeys.openai) throw new Error("OPENAI_API_KEY not configured in Replit Secrets");
-      return callOpenAIStreaming(text, apiKeys.openai, functionType, onChunk);
-    
-    case "anthropic":
-    case "grok":
-    case "perplexity":
-    case "deepseek":
-      // Fallback to non-streaming for providers without streaming support yet
-      const result = await analyzeText(text, provider, functionType);
-      const fullText = JSON.stringify(result, null, 2);
-      // Simulate streaming by chunking the response
-      for (let i = 0; i < fullText.length; i += 50) {
-        onChunk(fullText.slice(i, i + 50));
-        await new Promise(resolve => setTimeout(resolve, 10));
-      }
-      break;
-    
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
+  const result = withDisplay(value, options.prompt);
+  if (cachedAt) {
+    await replayAsStream(result, onChunk);
   }
+  return markCached(result, cachedAt);
 }
 
-export async function callLLM(provider: string, prompt: string): Promise<string> {
-  const apiKeys = {
-    openai: process.env.OPENAI_API_KEY || "",
-    anthropic: process.env.ANTHROPIC_API_KEY || "",
-    grok: process.env.GROK_API_KEY || "",
-    perplexity: process.env.PERPLEXITY_API_KEY || "",
-    deepseek: process.env.DEEPSEEK_API_KEY || "",
-  };
-
-  const makeRequest = async (url: string, apiKey: string, model: string) => {
-    const response = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages: [
-          { role: "user", content: prompt }
-        ],
-        max_tokens: 16384,
-      })
-    });
+// One reduce step: merges the outputs of consecutive parts of a document into
+// a single result of the same function type
+export async function synthesizeResults(parts: string[], provider: string, functionType: string): Promise<AnalysisResult> {
+  if (!SYNTHESIS_FUNCTIONS.includes(functionType)) {
+    throw new Error(`No synthesis pass for function type: ${functionType}`);
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`API Error: ${response.status} - ${errorText}`);
-    }
+  const adapter = resolveProvider(provider);
+  const request: ChatRequest = {
+    messages: [
+      { role: "system", content: renderPrompt(builtinPrompt(`synthesis.${functionType}`), {}) },
+      { role: "user", content: parts.map((part, i) => `═══ PART ${i + 1} OF ${parts.length} ═══\n\n${part}`).join("\n\n") }
+    ],
+    temperature: 0,
+    jsonMode: true,
+    task: { type: `synthesis_${functionType}`, texts: parts }
+  };
+  // Resuming a job whose synthesis failed repeats the reduce steps that had
+  // already succeeded; those come from the cache
+  const { value, cachedAt } = await withCache(requestCacheKey(adapter, request, `synthesis_${functionType}`), {}, async () => {
+    const content = await complete(adapter, request);
+    return validateWithRepair(adapter, request, content, getAnalysisSchema(functionType));
+  });
+  return markCached(value, cachedAt);
+}
 
-    const data = await response.json();
-    return data.choices[0].message.content;
+export async function callLLM(provider: string, prompt: string, task?: LLMTask, options: CacheOptions = {}): Promise<string> {
+  const adapter = resolveProvider(provider);
+  const request: ChatRequest = {
+    messages: [
+      { role: "user", content: prompt }
+    ],
+    task
   };
+  const { value } = await withCache(requestCacheKey(adapter, request, task?.type || "prompt"), options, () => complete(adapter, request));
+  return value;
+}
 
-  switch (provider) {
-    case "openai":
-      if (!apiKeys.openai) throw new Error("OPENAI_API_KEY not configured");
-      return makeRequest("https://api.openai.com/v1/chat/completions", apiKeys.openai, "gpt-4o");
-    
-    case "anthropic":
-      if (!apiKeys.anthropic) throw new Error("ANTHROPIC_API_KEY not configured");
-      const anthropicResponse = await fetch("https://api.anthropic.com/v1/messages", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "x-api-key": apiKeys.anthropic,
-          "anthropic-version": "2023-06-01",
-        },
-        body: JSON.stringify({
-          model: "claude-sonnet-4-20250514",
-          max_tokens: 16384,
-          messages: [{ role: "user", content: prompt }]
-        })
-      });
-      if (!anthropicResponse.ok) {
-        const err = await anthropicResponse.text();
-        throw new Error(`Anthropic API Error: ${err}`);
-      }
-      const anthropicData = await anthropicResponse.json();
-      return anthropicData.content[0].text;
-    
-    case "grok":
-      if (!apiKeys.grok) throw new Error("GROK_API_KEY not configured");
-      return makeRequest("https://api.x.ai/v1/chat/completions", apiKeys.grok, "grok-3-latest");
-    
-    case "perplexity":
-      if (!apiKeys.perplexity) throw new Error("PERPLEXITY_API_KEY not configured");
-      return makeRequest("https://api.perplexity.ai/chat/completions", apiKeys.perplexity, "sonar-pro");
-    
-    case "deepseek":
-      if (!apiKeys.deepseek) throw new Error("DEEPSEEK_API_KEY not configured");
-      return makeRequest("https://api.deepseek.com/chat/completions", apiKeys.deepseek, "deepseek-chat");
-    
-    default:
-      throw new Error(`Unknown provider: ${provider}`);
-  }
+export async function callLLMJSON<T>(
+  provider: string,
+  prompt: string,
+  schema: ZodType<T, ZodTypeDef, unknown>,
+  task?: LLMTask,
+  options: CacheOptions = {}
+): Promise<T> {
+  const adapter = resolveProvider(provider);
+  const request: ChatRequest = {
+    messages: [
+      { role: "user", content: prompt }
+    ],
+    jsonMode: true,
+    task
+  };
+  const { value } = await withCache(requestCacheKey(adapter, request, task?.type || "json"), options, async () => {
+    const content = await complete(adapter, request);
+    return validateWithRepair(adapter, request, content, schema);
+  });
+  return value;
 }
@@ -0,0 +1,76 @@
+import { describe, expect, it } from "vitest";
+import { mergeChunkLists, type ChunkOutput } from "./merge";
+import type { AnalysisResult } from "./llm";
+
+function chunk(chunkNumber: number, quotes: string[], views: AnalysisResult["views"] = []): ChunkOutput {
+  return {
+    chunkNumber,
+    offset: 0,
+    result: { quotes, annotatedQuotes: [], summary: "", database: "", analyzer: "", views },
+  };
+}
+
+const first = [
+  "The committee met on Tuesday and decided nothing at all.",
+  "Every proposal was tabled until the spring session began.",
+  "The chairman spoke for an hour about the price of coal.",
+  "Nobody asked what the new bridge would actually cost.",
+  "The minutes were approved without anyone having read them.",
+];
+// The chunk overlap repeats the last two quotes of the first chunk
+const second = [
+  "Nobody asked what the new bridge would actually cost.",
+  "The minutes were approved without anyone having read them.",
+  "Outside, the river had already flooded the lower town.",
+  "The treasurer resigned by letter the following morning.",
+  "A second committee was formed to review the first one.",
+];
+
+describe("mergeChunkLists", () => {
+  it("merges verbatim repeats even when that goes below the floor", () => {
+    const merged = mergeChunkLists([chunk(1, first), chunk(2, second)], 10);
+
+    expect(merged.quotes).toHaveLength(8);
+    expect(new Set(merged.quotes).size).toBe(8);
+    const repeat = merged.quotes.indexOf("Nobody asked what the new bridge would actually cost.");
+    expect(merged.sources.quotes[repeat]).toEqual([1, 2]);
+  });
+
+  it("treats quotes that differ only in case and punctuation as repeats", () => {
+    const merged = mergeChunkLists([
+      chunk(1, ["“The minutes were approved without anyone having read them.”"]),
+      chunk(2, ["the minutes were approved without anyone having read them"]),
+    ], 2);
+
+    expect(merged.quotes).toHaveLength(1);
+  });
+
+  it("ranks items found in several chunks first", () => {
+    const merged = mergeChunkLists([chunk(1, first), chunk(2, second)], 0);
+
+    expect(merged.sources.quotes[0]).toEqual([1, 2]);
+    expect(merged.sources.quotes[1]).toEqual([1, 2]);
+  });
+
+  it("stops fuzzy merging at the floor", () => {
+    const near = [
+      "The committee met on Tuesday and decided nothing at all",
+      "Every proposal was tabled until the spring session began again.",
+    ];
+    const floor = mergeChunkLists([chunk(1, first.slice(0, 2)), chunk(2, near)], 4);
+    expect(floor.quotes).toHaveLength(3);
+
+    const noFloor = mergeChunkLists([chunk(1, first.slice(0, 2)), chunk(2, near)], 0);
+    expect(noFloor.quotes).toHaveLength(2);
+  });
+
+  it("merges restated views", () => {
+    const merged = mergeChunkLists([
+      chunk(1, [], [{ view: "The committee exists to avoid making decisions", evidence: ["decided nothing"] }]),
+      chunk(2, [], [{ view: "The committee exists mainly to avoid making decisions", evidence: ["tabled", "formed"] }]),
+    ], 0);
+
+    expect(merged.views).toHaveLength(1);
+    expect(merged.views[0].evidence).toEqual(["tabled", "formed"]);
+  });
+});
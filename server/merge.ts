@@ -0,0 +1,301 @@
+import type { QuoteLocation } from "@shared/alignment";
+import { renderOutput, type CustomData, type CustomValue, type OutputSpec } from "@shared/functions";
+import { ARGUMENT_NODE_TYPES, type ArgumentEdge, type ArgumentMap, type ArgumentNode } from "@shared/argumentMap";
+import type { AnalysisResult } from "./llm";
+
+// Merges the list outputs (quotes, annotated quotes, views) of a chunked run.
+// Near-duplicates are clustered by word overlap, each cluster keeps its best
+// instance plus every chunk it was found in, and the survivors are ranked by a
+// salience heuristic. Copies with the same normalized text are always merged;
+// fuzzy merging stops early rather than go below the floor the prompts asked
+// for, so the minQuotes contract survives the merge wherever it can.
+
+export interface ChunkOutput {
+  chunkNumber: number;
+  offset: number;  // where the chunk's text starts in the document
+  result: AnalysisResult;
+}
+
+interface Candidate<T> {
+  item: T;
+  key: string;
+  words: Set<string>;
+  chunkNumber: number;
+  order: number;
+}
+
+interface Merged<T> {
+  item: T;
+  members: T[];  // every instance that was merged into `item`, including it
+  chunks: number[];
+  score: number;
+}
+
+// Quotes must be near-verbatim to count as one; views are paraphrases, so
+// restatements with somewhat different wording are merged too
+const QUOTE_SIMILARITY = 0.8;
+const VIEW_SIMILARITY = 0.7;
+
+function normalizeItem(text: string): string {
+  return text.toLowerCase().replace(/[\s"'“”‘’«».,;:!?()\[\]…—–-]+/g, " ").trim();
+}
+
+// Dice coefficient over word sets
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const word of Array.from(a)) {
+    if (b.has(word)) shared++;
+  }
+  return (2 * shared) / (a.size + b.size);
+}
+
+function lengthScore(text: string): number {
+  const words = text.split(/\s+/).filter(Boolean).length;
+  if (words >= 8 && words <= 40) return 1;
+  if (words >= 5 && words <= 60) return 0.5;
+  return 0;
+}
+
+function clusterItems<T>(
+  outputs: ChunkOutput[],
+  select: (output: ChunkOutput) => T[],
+  textOf: (item: T) => string,
+  quality: (item: T, key: string) => number,
+  threshold: number,
+  floor: number
+): Merged<T>[] {
+  const candidates: Candidate<T>[] = [];
+  for (const output of outputs) {
+    for (const item of select(output)) {
+      const key = normalizeItem(textOf(item));
+      if (!key) continue;
+      candidates.push({ item, key, words: new Set(key.split(" ")), chunkNumber: output.chunkNumber, order: candidates.length });
+    }
+  }
+
+  // Candidate pairs, exact copies first and then most similar first; set
+  // sizes bound the best possible score, which skips most comparisons
+  const pairs: { a: number; b: number; score: number; exact: boolean }[] = [];
+  const minRatio = threshold / (2 - threshold);
+  for (let a = 0; a < candidates.length; a++) {
+    for (let b = a + 1; b < candidates.length; b++) {
+      const sizeA = candidates[a].words.size;
+      const sizeB = candidates[b].words.size;
+      if (Math.min(sizeA, sizeB) / Math.max(sizeA, sizeB) < minRatio) continue;
+
+      const exact = candidates[a].key === candidates[b].key;
+      const score = exact ? 1 : similarity(candidates[a].words, candidates[b].words);
+      if (score >= threshold) pairs.push({ a, b, score, exact });
+    }
+  }
+  pairs.sort((x, y) => Number(y.exact) - Number(x.exact) || y.score - x.score);
+
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  let clusters = candidates.length;
+
+  for (const { a, b, exact } of pairs) {
+    // A verbatim repeat (typically from the chunk overlap) never counts towards the floor
+    if (!exact && clusters <= floor) break;
+    const rootA = find(a);
+    const rootB = find(b);
+    if (rootA === rootB) continue;
+    parent[rootB] = rootA;
+    clusters--;
+  }
+
+  const groups = new Map<number, Candidate<T>[]>();
+  for (let i = 0; i < candidates.length; i++) {
+    const root = find(i);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(candidates[i]);
+  }
+
+  return Array.from(groups.values())
+    .map(members => {
+      const best = members.reduce((x, y) => (quality(y.item, y.key) > quality(x.item, x.key) ? y : x));
+      const chunks = Array.from(new Set(members.map(m => m.chunkNumber))).sort((x, y) => x - y);
+      // Material that several chunks independently picked out is what the
+      // document keeps coming back to
+      const score = (chunks.length - 1) * 2 + lengthScore(textOf(best.item));
+      return { item: best.item, members: members.map(m => m.item), chunks, score, order: members[0].order };
+    })
+    .sort((x, y) => y.score - x.score || x.order - y.order)
+    .map(({ item, members, chunks, score }) => ({ item, members, chunks, score }));
+}
+
+// Chunk outputs locate quotes within the chunk; merged results are document-relative
+function shift(location: QuoteLocation | null | undefined, offset: number): QuoteLocation | null {
+  return location ? { ...location, start: location.start + offset, end: location.end + offset } : null;
+}
+
+export function mergeChunkLists(outputs: ChunkOutput[], minQuotes: number) {
+  const quotes = clusterItems(
+    outputs,
+    ({ result, offset }) => result.quotes.map((quote, i) => ({
+      quote,
+      location: shift(result.locations?.quotes[i], offset),
+    })),
+    q => q.quote,
+    // A quote found in the source beats one that was not; after that a fuller
+    // quotation beats a truncated copy of it
+    (q, key) => (q.location ? q.location.confidence * 10000 : 0) + key.length,
+    QUOTE_SIMILARITY,
+    minQuotes
+  );
+  const annotatedQuotes = clusterItems(
+    outputs,
+    ({ result, offset }) => result.annotatedQuotes.map((item, i) => ({
+      item,
+      location: shift(result.locations?.annotatedQuotes[i], offset),
+    })),
+    a => a.item.quote,
+    (a, key) => (a.location ? a.location.confidence * 10000 : 0) + key.length + a.item.context.length,
+    QUOTE_SIMILARITY,
+    minQuotes
+  );
+  const views = clusterItems(
+    outputs,
+    ({ result, offset }) => (result.views || []).map((view, i) => ({
+      view,
+      locations: view.evidence.map((_, j) => shift(result.locations?.views[i]?.[j], offset)),
+    })),
+    v => v.view.view,
+    (v, key) => v.locations.filter(Boolean).length * 1000 + v.view.evidence.length * 100 + key.length,
+    VIEW_SIMILARITY,
+    minQuotes * 3
+  );
+
+  return {
+    quotes: quotes.map(m => m.item.quote),
+    annotatedQuotes: annotatedQuotes.map(m => m.item.item),
+    views: views.map(m => m.item.view),
+    sources: {
+      quotes: quotes.map(m => m.chunks),
+      annotatedQuotes: annotatedQuotes.map(m => m.chunks),
+      views: views.map(m => m.chunks),
+    },
+    locations: {
+      quotes: quotes.map(m => m.item.location),
+      annotatedQuotes: annotatedQuotes.map(m => m.item.location),
+      views: views.map(m => m.item.locations),
+    },
+  };
+}
+
+// Custom function outputs, field by field. Texts are always concatenated under
+// chunk headers; lists follow the function's merge strategy.
+export function mergeCustomOutputs(spec: OutputSpec, outputs: ChunkOutput[]): { data: CustomData; display: string } {
+  const data: CustomData = {};
+
+  for (const field of spec.fields) {
+    const valueOf = (output: ChunkOutput): CustomValue | undefined => output.result.custom?.data[field.name];
+
+    if (field.kind === "text") {
+      data[field.name] = outputs
+        .filter(output => typeof valueOf(output) === "string" && (valueOf(output) as string).trim())
+        .map(output => `[Chunk ${output.chunkNumber}]\n${valueOf(output)}`)
+        .join("\n\n");
+      continue;
+    }
+
+    const select = (output: ChunkOutput) => {
+      const value = valueOf(output);
+      return Array.isArray(value) ? value as (string | Record<string, string>)[] : [];
+    };
+    const textOf = (item: string | Record<string, string>) =>
+      typeof item === "string" ? item : (field.properties || []).map(p => item[p] || "").join(" ");
+
+    data[field.name] = (spec.merge === "deduplicate"
+      ? clusterItems(outputs, select, textOf, (_, key) => key.length, QUOTE_SIMILARITY, 0).map(m => m.item)
+      : outputs.flatMap(select)) as CustomValue;
+  }
+
+  return { data, display: renderOutput(spec, data) };
+}
+
+type LocatedQuote = { quote: string; location: QuoteLocation | null };
+
+// Evidence of merged nodes and edges: each quote once, keeping a found copy
+// over one that was not found
+function unionEvidence(lists: LocatedQuote[][]): LocatedQuote[] {
+  const byKey = new Map<string, LocatedQuote>();
+  for (const evidence of lists.flat()) {
+    const key = normalizeItem(evidence.quote);
+    if (!key) continue;
+    const existing = byKey.get(key);
+    if (!existing || (!existing.location && evidence.location)) byKey.set(key, evidence);
+  }
+  return Array.from(byKey.values());
+}
+
+// One graph for the whole document. Nodes of the same type that restate each
+// other are merged like views; edges are redirected to the merged nodes, and
+// an edge found in several chunks is kept once.
+export function mergeArgumentMaps(outputs: ChunkOutput[]): {
+  map: ArgumentMap;
+  locations: { nodes: (QuoteLocation | null)[][]; edges: (QuoteLocation | null)[][] };
+} {
+  const located = (evidence: string[], locations: (QuoteLocation | null)[] | undefined, offset: number): LocatedQuote[] =>
+    evidence.map((quote, i) => ({ quote, location: shift(locations?.[i], offset) }));
+
+  const mergedNodes: { node: ArgumentNode; evidence: LocatedQuote[] }[] = [];
+  const nodeIds = new Map<string, string>();  // "<chunk>:<id in chunk>" -> merged id
+
+  for (const type of ARGUMENT_NODE_TYPES) {
+    const clusters = clusterItems(
+      outputs,
+      ({ result, offset, chunkNumber }) => (result.argumentMap?.nodes || [])
+        .map((node, i) => ({ node, chunkNumber, evidence: located(node.evidence, result.locations?.argumentMap?.nodes[i], offset) }))
+        .filter(n => n.node.type === type),
+      n => n.node.text,
+      (n, key) => n.evidence.filter(e => e.location).length * 1000 + n.evidence.length * 100 + key.length,
+      VIEW_SIMILARITY,
+      0
+    );
+
+    for (const cluster of clusters) {
+      const id = `n${mergedNodes.length + 1}`;
+      for (const member of cluster.members) {
+        nodeIds.set(`${member.chunkNumber}:${member.node.id}`, id);
+      }
+      mergedNodes.push({
+        node: { id, type, text: cluster.item.node.text, evidence: [], chunks: cluster.chunks },
+        evidence: unionEvidence(cluster.members.map(m => m.evidence)),
+      });
+    }
+  }
+
+  const mergedEdges = new Map<string, { edge: ArgumentEdge; evidence: LocatedQuote[][] }>();
+  for (const { result, offset, chunkNumber } of outputs) {
+    (result.argumentMap?.edges || []).forEach((edge, i) => {
+      const from = nodeIds.get(`${chunkNumber}:${edge.from}`);
+      const to = nodeIds.get(`${chunkNumber}:${edge.to}`);
+      // Two steps of one chunk can merge into the same node; the edge between them goes
+      if (!from || !to || from === to) return;
+
+      const key = `${from}|${to}|${edge.type}`;
+      const evidence = located(edge.evidence, result.locations?.argumentMap?.edges[i], offset);
+      const existing = mergedEdges.get(key);
+      if (existing) {
+        existing.evidence.push(evidence);
+      } else {
+        mergedEdges.set(key, { edge: { from, to, type: edge.type, evidence: [] }, evidence: [evidence] });
+      }
+    });
+  }
+
+  const edges = Array.from(mergedEdges.values()).map(({ edge, evidence }) => ({ edge, evidence: unionEvidence(evidence) }));
+
+  return {
+    map: {
+      nodes: mergedNodes.map(({ node, evidence }) => ({ ...node, evidence: evidence.map(e => e.quote) })),
+      edges: edges.map(({ edge, evidence }) => ({ ...edge, evidence: evidence.map(e => e.quote) })),
+    },
+    locations: {
+      nodes: mergedNodes.map(({ evidence }) => evidence.map(e => e.location)),
+      edges: edges.map(({ evidence }) => evidence.map(e => e.location)),
+    },
+  };
+}
@@ -0,0 +1,281 @@
+import { calculateMinQuotes } from "./llm";
+import type { LLMTask } from "./providers";
+import type { OutputField } from "@shared/functions";
+
+// Deterministic, offline stand-in for a real model. Every fixture is derived
+// from the input text so that routes, chunking and history can be exercised
+// end-to-end without network access or API keys.
+
+function hashText(text: string): number {
+  let hash = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(options: T[], seed: number): T {
+  return options[seed % options.length];
+}
+
+function splitSentences(text: string): string[] {
+  return text
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(s => s.split(/\s+/).length >= 3);
+}
+
+function splitParagraphs(text: string): string[] {
+  return text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean);
+}
+
+function wordsOf(text: string): string[] {
+  return text.split(/\s+/).filter(Boolean);
+}
+
+function topWords(text: string, count: number): string[] {
+  const frequencies = new Map<string, number>();
+  for (const word of wordsOf(text)) {
+    const clean = word.toLowerCase().replace(/[^a-z'-]/g, "");
+    if (clean.length < 6) continue;
+    frequencies.set(clean, (frequencies.get(clean) || 0) + 1);
+  }
+  return Array.from(frequencies.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, count)
+    .map(([word]) => word);
+}
+
+// The first sentence is the claim; sentences that push back object to it,
+// the sentence after an objection replies to it, and the rest are premises
+function buildArgumentMap(sentences: string[]) {
+  const nodes = sentences.map((sentence, i) => {
+    const previous = i > 0 && /\b(but|however|yet|although)\b/i.test(sentences[i - 1]);
+    const type = i === 0 ? "claim"
+      : /\b(but|however|yet|although)\b/i.test(sentence) ? "objection"
+      : previous ? "reply"
+      : "premise";
+    return { id: `n${i + 1}`, type, text: `Mock ${type}: ${sentence}`, evidence: [sentence] };
+  });
+  const edges = nodes.slice(1).map((node, i) => ({
+    from: node.id,
+    to: node.type === "reply" ? nodes[i].id : "n1",
+    type: node.type === "premise" ? "supports" : "attacks",
+    evidence: [] as string[],
+  }));
+  return { nodes, edges };
+}
+
+function buildAnalysisFixture(functionType: string, text: string) {
+  const minQuotes = calculateMinQuotes(text);
+  const sentences = splitSentences(text);
+  const words = wordsOf(text);
+  const themes = topWords(text, 5);
+  const result = {
+    quotes: [] as string[],
+    annotatedQuotes: [] as { quote: string; context: string }[],
+    summary: "",
+    database: "",
+    analyzer: "",
+    views: [] as { view: string; evidence: string[] }[],
+  };
+
+  switch (functionType) {
+    case "context":
+      result.annotatedQuotes = sentences.slice(0, minQuotes).map((quote, i) => ({
+        quote,
+        context: `Mock annotation for sentence ${i + 1} of ${sentences.length} (${wordsOf(quote).length} words).`,
+      }));
+      break;
+
+    case "rewrite":
+      result.summary = splitParagraphs(text)
+        .map(paragraph => splitSentences(paragraph).slice(0, 2).join(" ") || paragraph)
+        .join("\n\n");
+      break;
+
+    case "database":
+      result.database = [
+        "1. DOCUMENT METADATA",
+        `Word count: ${words.length}`,
+        `Character count: ${text.length}`,
+        `Paragraph count: ${splitParagraphs(text).length}`,
+        `Sentence count: ${sentences.length}`,
+        "",
+        "2. EXECUTIVE SUMMARY",
+        sentences.slice(0, 3).join(" "),
+        "",
+        "3. REPRESENTATIVE QUOTATIONS",
+        ...sentences.slice(0, minQuotes).map((s, i) => `${i + 1}. "${s}"`),
+        "",
+        "6. KEY CONCEPTS & THEMES",
+        ...themes.map(theme => `- ${theme}`),
+      ].join("\n");
+      break;
+
+    case "analyzer":
+      result.analyzer = [
+        "SECTION 1: DOMAIN & DISCIPLINARY CONTEXT",
+        `Mock analysis of a ${words.length}-word text.`,
+        "",
+        "SECTION 2: MAIN THESIS & CENTRAL ARGUMENTS",
+        sentences[0] || "",
+        "",
+        "SECTION 3: REPRESENTATIVE QUOTATIONS",
+        ...sentences.slice(0, minQuotes * 2).map((s, i) => `${i + 1}. "${s}"`),
+        "",
+        "SECTION 7: CONCEPTUAL APPARATUS",
+        ...themes.map(theme => `- ${theme}`),
+      ].join("\n");
+      break;
+
+    case "views":
+      result.views = sentences.slice(0, minQuotes * 3).map(sentence => ({
+        view: `The author holds that ${sentence.charAt(0).toLowerCase()}${sentence.slice(1)}`,
+        evidence: [sentence],
+      }));
+      break;
+
+    case "arguments":
+      return { ...result, argumentMap: buildArgumentMap(sentences.slice(0, Math.max(minQuotes, 2))) };
+
+    default:
+      result.quotes = sentences.slice(0, minQuotes);
+  }
+
+  return result;
+}
+
+function buildStylometricProfile(text: string, authorName: string) {
+  const seed = hashText(text);
+  const sentences = splitSentences(text);
+  const level = pick(["low", "moderate", "high"], seed);
+
+  return {
+    metaphorDensity: pick(["none", "low", "moderate", "high"], seed),
+    anecdoteFrequency: pick(["none", "rare", "occasional", "frequent"], seed >>> 3),
+    classification: "Mock classification",
+    signaturePhrases: topWords(text, 3),
+    negativeMarkers: [],
+    sampleSentences: sentences.slice(0, 3).map(s => ({ text: s, source: authorName })),
+    representativeQuote: sentences[0] || "",
+    quoteAnalysis: "Mock quote analysis.",
+    closestAuthorMatch: "Mock Author",
+    matchExplanation: "Deterministic mock match derived from the input text.",
+    psychologicalProfile: {
+      cognitiveEmpathy: level,
+      affectiveEmpathy: level,
+      needForClosure: level,
+      schizoidFeatures: level,
+      socialOrientation: level,
+      bodySensation: level,
+      consensusAttitude: level,
+      humorStyle: level,
+    },
+    narrativeSummary: `Mock portrait of a ${wordsOf(text).length}-word sample.`,
+    clustering: { veryCloseTo: ["Mock Author"], moderatelyCloseTo: [], farFrom: [] },
+  };
+}
+
+// Custom functions: sentences of the text in whatever shape each field declares
+function buildCustomFixture(fields: OutputField[], text: string) {
+  const sentences = splitSentences(text);
+  const items = sentences.slice(0, Math.max(1, Math.min(5, sentences.length)));
+  return Object.fromEntries(fields.map(field => {
+    switch (field.kind) {
+      case "text":
+        return [field.name, `Mock ${field.label.toLowerCase()}: ${items[0] || text.slice(0, 80)}`];
+      case "list":
+        return [field.name, items];
+      case "records":
+        return [field.name, items.map((sentence, i) => Object.fromEntries(
+          (field.properties || []).map((p, j) => [p, j === 0 ? sentence : `Mock ${p} ${i + 1}`])
+        ))];
+    }
+  }));
+}
+
+function sharpQuotesOf(text: string): string[] {
+  // Short declaratives stand in for "sharp" lines
+  return splitSentences(text).filter(s => wordsOf(s).length <= 12);
+}
+
+function buildTaskFixture(task: LLMTask): unknown {
+  const [textA, textB = ""] = task.texts;
+
+  if (task.fields) {
+    return buildCustomFixture(task.fields, textA);
+  }
+
+  switch (task.type) {
+    case "stylometrics":
+      return buildStylometricProfile(textA, "Author X");
+
+    case "stylometrics_compare":
+      return {
+        textA: buildStylometricProfile(textA, "Text A"),
+        textB: buildStylometricProfile(textB, "Text B"),
+        comparison: {
+          keyDivergences: [
+            {
+              feature: "Word count",
+              textA: String(wordsOf(textA).length),
+              textB: String(wordsOf(textB).length),
+              analysis: "Mock divergence.",
+            },
+          ],
+          sameRoomScenario: "Mock scenario.",
+          collaborativePotential: "Mock assessment.",
+        },
+        verdict: "Mock verdict.",
+      };
+
+    case "intelligence":
+      return {
+        sharpQuotes: sharpQuotesOf(textA),
+        analysis: "Mock analysis: short declarative sentences were treated as sharp.",
+      };
+
+    case "intelligence_compare":
+      return {
+        textA: { sharpQuotes: sharpQuotesOf(textA), analysis: "Mock analysis." },
+        textB: { sharpQuotes: sharpQuotesOf(textB), analysis: "Mock analysis." },
+        verdict: "Mock verdict.",
+      };
+
+    default:
+      // Synthesis passes get the fixture of their function over all parts at once
+      if (task.type.startsWith("synthesis_")) {
+        return buildAnalysisFixture(task.type.slice("synthesis_".length), task.texts.join("\n\n"));
+      }
+      return buildAnalysisFixture(task.type, textA);
+  }
+}
+
+export function buildMockContent(task: LLMTask | undefined, fallbackText: string): string {
+  const fixture = buildTaskFixture(task || { type: "quotes", texts: [fallbackText] });
+  return JSON.stringify(fixture, null, 2);
+}
+
+export function mockResponse(content: string, stream: boolean): Response {
+  if (!stream) {
+    return new Response(JSON.stringify({ choices: [{ message: { content } }] }), {
+      headers: { "Content-Type": "application/json" },
+    });
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream({
+    start(controller) {
+      for (let i = 0; i < content.length; i += 40) {
+        const event = { choices: [{ delta: { content: content.slice(i, i + 40) } }] };
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      }
+      controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+      controller.close();
+    },
+  });
+
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
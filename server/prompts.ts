@@ -0,0 +1,777 @@
+// Every prompt sent to a model, in one registry so that each one has a name
+// and a version. Templates use {{name}} placeholders: dotted names reach into
+// objects and {{name * 3}} multiplies a number. Bump a built-in's version
+// whenever its text changes, because history rows record the id and version of
+// the prompt that produced them.
+
+import type { OutputField, OutputSpec } from "@shared/functions";
+
+export interface PromptTemplate {
+  id: string;
+  version: number;
+  name: string;
+  template: string;
+  output?: OutputSpec;  // set for custom functions, whose output is user-defined
+}
+
+// The built-in functions a user template can be based on. The base function
+// decides the output shape, how chunks are merged and how the result is
+// displayed, unless it is "custom" and the template declares its own.
+export const ANALYSIS_FUNCTIONS = ["quotes", "context", "rewrite", "database", "analyzer", "views", "arguments"];
+
+// Variables every analysis prompt, built-in or custom, is rendered with
+export const ANALYSIS_VARIABLES = ["minQuotes", "wordCount"];
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][\w.]*)\s*(?:\*\s*(\d+)\s*)?\}\}/g;
+
+const BUILTIN_PROMPTS: PromptTemplate[] = [
+  {
+    id: "analysis.quotes",
+    version: 1,
+    name: "Quotes",
+    template: `Extract THE MOST INTELLIGENT AND PROFOUND QUOTATIONS from the text.
+
+⚠️ CRITICAL REQUIREMENT: You MUST extract AT LEAST {{minQuotes}} quotes. This is a MINIMUM, not a target.
+⚠️ For longer texts, extract MORE quotes than the minimum. The minimum is based on 3 quotes per 600 words.
+⚠️ DO NOT stop after a few quotes - continue extracting until you have provided at least {{minQuotes}} high-quality quotations.
+
+INTELLIGENCE CRITERIA - Prioritize quotes that demonstrate:
+1. CONCEPTUAL DEPTH: Complex ideas, nuanced distinctions, or sophisticated reasoning
+2. ORIGINALITY: Novel insights, unique perspectives, or paradigm-shifting claims
+3. PHILOSOPHICAL WEIGHT: Statements that grapple with fundamental questions of truth, existence, knowledge, ethics, or meaning
+4. ARGUMENTATIVE POWER: Compelling logical moves, devastating critiques, or synthesis of opposing views
+5. EPISTEMIC SIGNIFICANCE: Claims about how we know, what we can know, or the limits of understanding
+6. THEORETICAL INNOVATION: New frameworks, reconceptualizations, or challenge to conventional thinking
+7. APHORISTIC BRILLIANCE: Dense, memorable formulations that pack maximum insight into minimal words
+8. COUNTERINTUITIVE TRUTH: Insights that challenge common assumptions yet prove illuminating
+
+AVOID: Mundane observations, simple factual statements, transitional sentences, rhetorical filler, or obvious claims.
+
+SEEK: The passages a careful reader would underline, the sentences worth memorizing, the ideas that change how one thinks.
+
+Output valid JSON: {"quotes": ["quote 1", "quote 2", ...], "annotatedQuotes": [], "summary": "", "database": "", "analyzer": ""}`,
+  },
+  {
+    id: "analysis.context",
+    version: 1,
+    name: "Context",
+    template: `Extract THE MOST INTELLIGENT AND PROFOUND QUOTATIONS with scholarly contextual commentary.
+
+⚠️ CRITICAL REQUIREMENT: You MUST extract AT LEAST {{minQuotes}} quotes. This is a MINIMUM, not a target.
+⚠️ For longer texts, extract MORE quotes than the minimum. The minimum is based on 3 quotes per 600 words.
+⚠️ DO NOT stop after a few quotes - continue extracting until you have provided at least {{minQuotes}} annotated quotations.
+
+INTELLIGENCE CRITERIA - Prioritize quotes that demonstrate:
+1. CONCEPTUAL DEPTH: Complex ideas, nuanced distinctions, or sophisticated reasoning
+2. ORIGINALITY: Novel insights, unique perspectives, or paradigm-shifting claims
+3. PHILOSOPHICAL WEIGHT: Statements that grapple with fundamental questions
+4. ARGUMENTATIVE POWER: Compelling logical moves or devastating critiques
+5. APHORISTIC BRILLIANCE: Dense, memorable formulations with maximum insight
+6. COUNTERINTUITIVE TRUTH: Insights that challenge assumptions yet prove illuminating
+
+For each quote, provide:
+1. The exact quotation (most intellectually significant passage)
+2. A one-line contextual commentary explaining WHY this quote is intellectually significant - what insight it offers, what problem it addresses, or what conceptual work it performs
+
+AVOID: Mundane observations, simple factual statements, transitional sentences, or obvious claims.
+
+Output valid JSON: {"quotes": [], "annotatedQuotes": [{"quote": "...", "context": "..."}, ...], "summary": "", "database": "", "analyzer": ""}`,
+  },
+  {
+    id: "analysis.rewrite",
+    version: 1,
+    name: "Rewrite",
+    template: `Compress each paragraph into maximum 2 sentences. Do NOT skip any paragraphs.
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "Full compressed text...", "database": "", "analyzer": ""}`,
+  },
+  {
+    id: "analysis.database",
+    version: 1,
+    name: "Database",
+    template: `Generate an extremely detailed, fine-grained text-file database of the document. Include ALL of the following sections with comprehensive detail:
+
+1. DOCUMENT METADATA: Title (inferred), word count, character count, paragraph count, sentence count, average sentence length, reading level estimate, dominant language/style
+
+2. EXECUTIVE SUMMARY: Comprehensive 3-5 paragraph summary of the entire work, including:
+   - Overview of the document's purpose and scope
+   - Main thesis or central argument
+   - Key points and supporting arguments (numbered list)
+   - Primary conclusions and implications
+   - Overall significance and contribution
+
+3. REPRESENTATIVE QUOTATIONS (Minimum {{minQuotes}} quotations):
+   Extract the most significant quotations that capture:
+   - The main thesis or central claims
+   - Key supporting arguments
+   - Important evidence or examples
+   - Crucial definitions or distinctions
+   - Memorable or powerful statements
+   For each quote: provide the quotation and a brief note on its significance
+
+4. KEY POINTS & ARGUMENTS ANALYSIS:
+   - Main argument/thesis statement
+   - Primary supporting arguments (numbered, with detailed explanations)
+   - Secondary arguments and claims
+   - Evidence and examples used
+   - Logical structure and progression
+   - Conclusions reached
+
+5. NAMED ENTITIES: Extract and categorize all people, places, organizations, dates, times, numbers, and proper nouns with frequency counts
+
+6. KEY CONCEPTS & THEMES: Identify major themes, topics, and concepts with detailed descriptions and occurrence frequencies
+
+7. STRUCTURAL ANALYSIS: Paragraph-by-paragraph breakdown with type classification (introduction, argument, evidence, transition, conclusion), topic sentences, and structural relationships
+
+8. SENTENCE INDEX: Complete sentence-by-sentence listing with classification (declarative, interrogative, imperative), complexity scores, and key information
+
+9. ENTITY RELATIONSHIPS: Map relationships between identified entities (who relates to whom, what connects to what)
+
+10. SEMANTIC ANALYSIS: Identify semantic fields, word families, recurring patterns, and linguistic features
+
+11. STATISTICAL BREAKDOWN: Vocabulary richness, lexical density, type-token ratio, most frequent words (excluding common words)
+
+12. CITATION & REFERENCE EXTRACTION: Any quotes, citations, references, or allusions to external sources
+
+13. TEMPORAL & SPATIAL MARKERS: Timeline of events mentioned, geographical references, temporal sequences
+
+14. RHETORICAL DEVICES: Metaphors, analogies, rhetorical questions, and persuasive techniques identified
+
+15. ARGUMENTATIVE STRUCTURE: Claims, evidence, warrants, counterarguments if present
+
+Format as a highly structured, detailed database in plain text with clear section headers and hierarchical organization.
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "Comprehensive database text...", "analyzer": ""}`,
+  },
+  {
+    id: "analysis.analyzer",
+    version: 1,
+    name: "Text Analyzer",
+    template: `Perform an EXTREMELY COMPREHENSIVE scholarly analysis of this text. This analysis should be approximately THREE TIMES as detailed and in-depth as a standard academic analysis. Include ALL of the following sections with exhaustive detail:
+
+═══════════════════════════════════════════════════════════════════
+
+SECTION 1: DOMAIN & DISCIPLINARY CONTEXT
+- Primary academic domain(s) and subdomain(s)
+- Interdisciplinary connections and influences
+- Historical positioning within the field
+- Relationship to major schools of thought
+- Target audience and scholarly community
+
+SECTION 2: MAIN THESIS & CENTRAL ARGUMENTS
+- Core thesis statement (multiple formulations if complex)
+- Primary arguments supporting the thesis (numbered, with detailed explanations)
+- Secondary arguments and subsidiary claims
+- Implicit assumptions underlying the arguments
+- Logical structure of the overall argument
+- Argument progression and development throughout the text
+
+SECTION 3: REPRESENTATIVE QUOTATIONS (Minimum {{minQuotes * 2}} quotations)
+- Extract the most philosophically/intellectually significant passages
+- Include direct quotations that capture:
+  * The author's main position
+  * Key supporting arguments
+  * Crucial definitions or conceptual distinctions
+  * Positions being criticized or refuted
+  * Methodological statements
+  * Pivotal turns in the argument
+- For EACH quotation, provide: the exact quote, its location/context in the text, and its significance
+
+SECTION 4: ANALYTICAL MOVES DEPLOYED
+Identify and explain IN DETAIL every major analytical technique used:
+- Conceptual analysis and distinctions drawn
+- Argumentation strategies (reductio ad absurdum, modus tollens, etc.)
+- Category error detection
+- Counterfactual reasoning
+- Thought experiments
+- Analogies and comparisons
+- Appeals to intuition
+- Inference to best explanation
+- Transcendental arguments
+- Dialectical moves
+- Deconstructive strategies
+- Hermeneutical approaches
+- For each move: explain what it is, where it appears, how it functions in the argument
+
+SECTION 5: THEORETICAL FRAMEWORK & METHODOLOGY
+- Philosophical or theoretical commitments
+- Methodological approach (analytical, continental, empirical, etc.)
+- Epistemological assumptions
+- Ontological commitments
+- Use of formal logic or informal reasoning
+- Relationship to empirical evidence
+
+SECTION 6: INTELLECTUAL GENEALOGY
+- Thinkers and theories explicitly referenced
+- Implicit influences and philosophical heritage
+- Positions being argued against (with named opponents if present)
+- Historical debates the text engages with
+- Canonical texts or ideas invoked
+
+SECTION 7: CONCEPTUAL APPARATUS
+- Key terms and their definitions
+- Technical vocabulary introduced or employed
+- Distinctions drawn between related concepts
+- Theoretical innovations or neologisms
+- Repurposing of existing concepts
+
+SECTION 8: ARGUMENTATIVE STRUCTURE
+- Overall organization of the argument
+- Logical dependencies between claims
+- Progression from premises to conclusions
+- Use of examples, illustrations, or case studies
+- Anticipation and response to objections
+- Dialectical structure (if present)
+
+SECTION 9: CRITICAL EVALUATION INDICATORS
+- Strengths of the argument
+- Potential weaknesses or gaps
+- Unstated assumptions that could be challenged
+- Alternative interpretations or objections not addressed
+- Scope and limitations of the claims
+
+SECTION 10: IMPLICATIONS & CONSEQUENCES
+- Theoretical implications
+- Practical consequences
+- What follows if the thesis is correct
+- What's at stake in accepting or rejecting the position
+- Ramifications for related debates
+
+SECTION 11: RHETORICAL & STYLISTIC FEATURES
+- Tone and register (formal, polemical, pedagogical, etc.)
+- Use of rhetoric and persuasive devices
+- Structural choices and their effects
+- Relationship to reader (adversarial, cooperative, pedagogical)
+
+SECTION 12: INTERTEXTUAL CONNECTIONS
+- Relationship to other works by the same author
+- Dialogue with contemporary or historical texts
+- Position within broader scholarly conversations
+
+═══════════════════════════════════════════════════════════════════
+
+FORMATTING REQUIREMENTS:
+- Use clear section headers with visual separators
+- Number all major points within sections
+- Use hierarchical organization (main points, subpoints, details)
+- Provide extensive detail - this should be a COMPREHENSIVE analysis approximately 3x the length of a standard analysis
+- Be specific, cite exact passages where relevant, and provide deep interpretive insights
+
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "", "analyzer": "Complete comprehensive analysis text..."}`,
+  },
+  {
+    id: "analysis.views",
+    version: 1,
+    name: "Major Views",
+    template: `EXTRACT EVERY POSITION THE AUTHOR STATES. MINIMUM {{minQuotes * 3}} POSITIONS REQUIRED.
+
+Your job is MECHANICAL EXTRACTION. Do NOT judge. Do NOT filter. Do NOT summarize.
+
+SCAN EVERY SENTENCE. If the author asserts ANYTHING, extract it:
+- "X is Y" / "X is not Y" / "X means Y"
+- "This is true/false/correct/wrong"
+- "There are/aren't X"
+- "It follows that..." / "Therefore..." / "Thus..."
+- ANY declarative claim
+
+NEVER RETURN ZERO VIEWS. NEVER RETURN FEWER THAN {{minQuotes * 3}} VIEWS.
+If you think there are no views, YOU ARE WRONG. Read again and extract.
+
+FOR EACH POSITION:
+- "view": State the claim in one sentence
+- "evidence": 1-2 EXACT quotes from the text
+
+REQUIRED OUTPUT FORMAT (copy this structure exactly):
+{
+  "quotes": [],
+  "annotatedQuotes": [],
+  "summary": "",
+  "database": "",
+  "analyzer": "",
+  "views": [
+    {"view": "First position the author states", "evidence": ["exact quote from text"]},
+    {"view": "Second position the author states", "evidence": ["exact quote from text"]},
+    {"view": "Third position the author states", "evidence": ["exact quote from text"]}
+  ]
+}
+
+YOU MUST RETURN AT LEAST {{minQuotes * 3}} ITEMS IN THE "views" ARRAY. FAILURE TO DO SO IS AN ERROR.`,
+  },
+  {
+    id: "analysis.arguments",
+    version: 1,
+    name: "Argument Map",
+    template: `MAP THE ARGUMENTS IN THIS TEXT AS A GRAPH.
+
+NODES - every distinct step of reasoning the text makes or reports:
+- "claim": a conclusion the text argues for, including intermediate conclusions
+- "premise": a reason offered for a claim
+- "objection": a reason offered against a claim or premise, by the author or by an opponent the author discusses
+- "reply": a response to an objection
+
+EDGES - how the nodes bear on each other:
+- "supports": the "from" node is a reason for the "to" node
+- "attacks": the "from" node is a reason against the "to" node (objections attack claims or premises; replies attack objections)
+
+RULES:
+- Give every node a short unique id ("n1", "n2", ...) and restate it in ONE sentence in "text"
+- "evidence" on a node: 1-2 EXACT quotes from the text that state it
+- "evidence" on an edge: the EXACT words that signal the relation ("therefore", "but this ignores..."), or [] if it is implicit
+- Every edge must connect two ids from "nodes"
+- Every premise, objection and reply must have at least one outgoing edge
+- Extract AT LEAST {{minQuotes}} nodes
+
+REQUIRED OUTPUT FORMAT (copy this structure exactly):
+{
+  "quotes": [],
+  "annotatedQuotes": [],
+  "summary": "",
+  "database": "",
+  "analyzer": "",
+  "views": [],
+  "argumentMap": {
+    "nodes": [
+      {"id": "n1", "type": "claim", "text": "The conclusion the text argues for", "evidence": ["exact quote from text"]},
+      {"id": "n2", "type": "premise", "text": "A reason given for it", "evidence": ["exact quote from text"]},
+      {"id": "n3", "type": "objection", "text": "A reason given against it", "evidence": ["exact quote from text"]},
+      {"id": "n4", "type": "reply", "text": "The response to the objection", "evidence": ["exact quote from text"]}
+    ],
+    "edges": [
+      {"from": "n2", "to": "n1", "type": "supports", "evidence": ["exact signalling words"]},
+      {"from": "n3", "to": "n1", "type": "attacks", "evidence": []},
+      {"from": "n4", "to": "n3", "type": "attacks", "evidence": []}
+    ]
+  }
+}`,
+  },
+  {
+    id: "synthesis.analyzer",
+    version: 1,
+    name: "Text Analyzer synthesis",
+    template: `You are given scholarly analyses of consecutive parts of ONE document, in order. Write a SINGLE document-level analysis of the whole work.
+
+- Keep the same 12-section structure as the part analyses
+- Treat the document as one argument: trace how the thesis is introduced, developed and concluded across the parts
+- Merge repeated points instead of listing them once per part, and resolve apparent contradictions between parts
+- Keep the strongest representative quotations from across the whole document
+- Do not refer to "parts", "chunks" or "sections of the input"
+
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "", "analyzer": "Complete document-level analysis text..."}`,
+  },
+  {
+    id: "synthesis.database",
+    version: 1,
+    name: "Database synthesis",
+    template: `You are given 15-section databases built from consecutive parts of ONE document, in order. Merge them into a SINGLE database for the whole document with the same 15 sections.
+
+- ENTITIES: list each person, place, organization and concept once, with frequencies summed across all parts
+- TIMELINE: one chronological timeline combining every temporal marker
+- THEMES: one consolidated theme list, merging themes that are the same under different names
+- METADATA and STATISTICS: recompute totals for the whole document (sum word, sentence and paragraph counts)
+- EXECUTIVE SUMMARY: one summary of the whole document, not one per part
+- Do not refer to "parts" or "chunks"
+
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "", "database": "Merged database text...", "analyzer": ""}`,
+  },
+  {
+    id: "synthesis.rewrite",
+    version: 1,
+    name: "Rewrite synthesis",
+    template: `You are given compressed rewrites of consecutive parts of ONE document, in order. Produce a SINGLE coherent compressed rewrite of the whole document.
+
+- Keep the document's order and paragraph structure
+- Smooth the joins between parts and remove material repeated across neighbouring parts
+- Preserve every distinct claim; do not add anything that is not in the input
+- Do not refer to "parts" or "chunks"
+
+Output valid JSON: {"quotes": [], "annotatedQuotes": [], "summary": "Complete compressed rewrite...", "database": "", "analyzer": ""}`,
+  },
+  {
+    id: "intelligence",
+    version: 1,
+    name: "Intelligence",
+    template: `You are an expert at identifying sharp, quotable insights. Extract ALL the genuinely sharp lines from this text. Be thorough — a well-written text can contain dozens of sharp quotes.
+
+WHAT COUNTS AS SHARP (extract liberally):
+- Punchy formulations: "Religions are degenerate cults." "All worship is projection."
+- Reversals that reframe: "Thoughts are taught by being elicited, not by being deposited."
+- Precise distinctions: "Superhuman is not supernatural."
+- Dark wit: "The people who should commit suicide don't."
+- Compressed insights: "Projection is unconscious LARPing."
+- Memorable metaphors: "His categories don't cut nature at the joints."
+- Paradoxes stated sharply: "The lower you are in a hierarchy, the more fiercely you will defend it."
+
+WHAT DOES NOT COUNT (reject these):
+- Dissertation/abstract framing: "In this dissertation, I critically examine..."
+- Signposting: "This chapter is divided into five parts..."
+- Bland scholarly prose: "I argue that McDowell's direct realism is problematic."
+- Promises without payoff: "By answering the question X, philosopher Y reveals Z..."
+- Throat-clearing: "It is important to consider..."
+
+CALIBRATION - SHARP TEXT (extract many quotes):
+"To worship something is to regard it as supernatural. If you worship it, it's a fiction. All worship is projection. Projection is unconscious LARPing. A cult leader is someone on whom people believe they can project a great fiction."
+→ Extract ALL of these: each is a standalone insight.
+
+CALIBRATION - BLAND TEXT (extract zero):  
+"In this dissertation, I critically examine the philosophy of transcendental empiricism. I argue that Gaskin's critiques are faulty and that Gaskin's minimalist empiricism is very dubious."
+→ Extract ZERO. This is academic framing, not insight.
+
+Be generous with genuinely sharp writing. A good essay might have 20-50 sharp quotes. Only reject text that is genuinely bland, transitional, or merely descriptive.
+
+TEXT TO ANALYZE:
+{{text}}
+
+Respond with valid JSON only:
+{
+  "sharpQuotes": ["quote1", "quote2", ...],
+  "analysis": "Brief explanation of why these quotes are sharp (or why none were found)"
+}`,
+  },
+  {
+    id: "intelligence.compare",
+    version: 1,
+    name: "Intelligence comparison",
+    template: `Extract ALL sharp, quotable insights from TWO texts and compare them. Be thorough.
+
+SHARP (extract liberally):
+- Punchy formulations: "Religions are degenerate cults."
+- Reversals: "Thoughts are taught by being elicited, not by being deposited."
+- Dark wit: "The people who should commit suicide don't."
+- Compressed insights: "Projection is unconscious LARPing."
+- Paradoxes: "The lower you are in a hierarchy, the more fiercely you will defend it."
+
+NOT SHARP (reject):
+- "In this dissertation, I critically examine..." (academic framing)
+- "I argue that X is problematic." (bland scholarly prose)
+- Transitions, signposting, throat-clearing
+
+Be generous. A good essay might have 20-50 sharp quotes.
+
+TEXT A:
+{{textA}}
+
+---
+
+TEXT B:
+{{textB}}
+
+Respond with valid JSON only:
+{
+  "textA": {
+    "sharpQuotes": ["quote1", "quote2", ...],
+    "analysis": "Brief explanation"
+  },
+  "textB": {
+    "sharpQuotes": ["quote1", "quote2", ...],
+    "analysis": "Brief explanation"
+  },
+  "verdict": "One-sentence comparative verdict"
+}`,
+  },
+  {
+    id: "stylometrics",
+    version: 1,
+    name: "Stylometrics",
+    template: `You are a stylometric analyst. Analyze the following text and produce a detailed stylometric report.
+
+AUTHOR NAME: {{authorName}}
+SOURCE/TITLE: {{sourceTitle}}
+WORD COUNT: {{features.wordCount}}
+
+TEXT:
+"""
+{{text}}
+"""
+
+PRE-COMPUTED FEATURES (use these exact values):
+- Ego-pronoun rate: {{features.egoPronounRate}} per 1000 words
+- Average sentence length: {{features.avgSentenceLength}} words
+- Max sentence length: {{features.maxSentenceLength}} words
+- Subordination depth: {{features.subordinationDepth}} (1-7 scale)
+- Semicolon frequency: {{features.semicolonFreq}} per 1000 words
+- Colon frequency: {{features.colonFreq}} per 1000 words
+- Dash frequency: {{features.dashFreq}} per 1000 words
+- Rhetorical question rate: {{features.questionFreq}} per 1000 words
+- Impersonal construction rate: {{features.impersonalRate}} per 1000 words
+
+YOUR TASK:
+
+1. CLASSIFY metaphor density as: none / low / moderate / high
+   - none = zero metaphors or figurative language
+   - low = 1-2 instances per 1000 words
+   - moderate = 3-5 instances per 1000 words
+   - high = 6+ instances per 1000 words
+
+2. CLASSIFY anecdote frequency as: none / rare / occasional / frequent
+   - none = zero personal stories or concrete narrative examples
+   - rare = 1 brief anecdote
+   - occasional = 2-3 anecdotes
+   - frequent = anecdotes throughout, narrative-driven
+
+3. COMPUTE verticality score using this formula:
+   verticality = (
+     0.25 × (1 - ego_pronoun_rate/80) +
+     0.15 × (impersonal_rate/20) +
+     0.15 × (subordination_depth/7) +
+     0.10 × (semicolon_freq/15) +
+     0.10 × (1 - dash_freq/20) +
+     0.10 × (1 - question_freq/10) +
+     0.075 × metaphor_score +
+     0.075 × anecdote_score
+   )
+   where metaphor_score: none=1.0, low=0.75, moderate=0.5, high=0.0
+   and anecdote_score: none=1.0, rare=0.75, occasional=0.5, frequent=0.0
+   Clamp result to [0.00, 1.00]
+
+4. DETERMINE abstraction level based on verticality score:
+   - 0.85-1.00 = "Extreme Abstraction" — Prose operates at the level of pure logical relations. No particulars survive.
+   - 0.60-0.84 = "High Abstraction" — Conceptual architecture dominates. Concrete examples subordinated to structure.
+   - 0.40-0.59 = "Mixed" — Abstraction and particularity in tension.
+   - 0.20-0.39 = "Low Abstraction" — Concrete particulars dominate. Concepts emerge from stories.
+   - 0.00-0.19 = "Extreme Concreteness" — Pure sensory/narrative immersion. Abstraction dissolved into experience.
+
+5. IDENTIFY 8-15 signature phrases and constructions (verbal tics, scaffolding phrases, characteristic patterns)
+
+6. IDENTIFY 5-10 negative markers (things this author NEVER or almost never does)
+
+7. SELECT 3-5 sample sentences that best exemplify the author's style
+
+8. IDENTIFY closest author match from this reference list:
+   EXTREME VERTICAL (0.85-1.00): Gottlob Frege, Ernest Nagel, John-Michael Kuczynski, Arthur Schopenhauer, Carl Hempel, Timothy Williamson, Wittgenstein (Tractatus)
+   HIGH VERTICAL (0.70-0.84): Bertrand Russell (technical), W.V.O. Quine, Saul Kripke, Donald Davidson, Kit Fine
+   MID-RANGE (0.40-0.69): David Hume, Adam Smith, John Stuart Mill, Sigmund Freud, Gilbert Ryle, J.L. Austin, Joan Didion, Annie Dillard, George Orwell
+   LOW VERTICAL (0.20-0.39): William James, Voltaire, Wittgenstein (Investigations), David Foster Wallace, Henry James, Virginia Woolf
+   EXTREME HORIZONTAL (0.00-0.19): James Joyce (Finnegans Wake), Jack Kerouac, William S. Burroughs
+   
+   Explain WHY this author is the closest match (specific shared features).
+
+9. GENERATE psychological profile:
+   - Cognitive empathy: none / low / moderate / high / extreme
+   - Affective empathy: none / low / moderate / high / extreme
+   - Need for closure: low / moderate / high / extreme
+   - Schizoid features: absent / mild / moderate / marked / extreme
+   - Social orientation: solitary / reserved / moderate / social / highly_social
+   - Body/sensation: disembodied / low / moderate / embodied / hyper_embodied
+   - Consensus attitude: respectful / neutral / skeptical / dismissive / contemptuous
+   - Humor style: none / dry_rare / ironic / warm / frequent_performative
+
+10. WRITE a 3-5 sentence narrative psychological summary. Be BLUNT and SPECIFIC. Do not hedge.
+
+11. IDENTIFY clustering:
+    - Very close to: (1-3 authors from reference list)
+    - Moderately close to: (2-4 authors)
+    - Far from: (2-4 authors)
+
+OUTPUT FORMAT - Your response must be valid JSON with this exact structure:
+{
+  "metaphorDensity": "none|low|moderate|high",
+  "anecdoteFrequency": "none|rare|occasional|frequent",
+  "verticalityScore": 0.00,
+  "classification": "string",
+  "abstractionLevel": "string",
+  "abstractionDescription": "string",
+  "signaturePhrases": ["phrase1", "phrase2", ...],
+  "negativeMarkers": ["marker1", "marker2", ...],
+  "sampleSentences": [
+    {"text": "sentence text", "source": "source attribution"},
+    ...
+  ],
+  "closestAuthorMatch": "Author Name",
+  "matchExplanation": "explanation",
+  "secondaryMatch": "Author Name or null",
+  "farFrom": ["Author1", "Author2", ...],
+  "psychologicalProfile": {
+    "cognitiveEmpathy": "level",
+    "affectiveEmpathy": "level",
+    "needForClosure": "level",
+    "schizoidFeatures": "level",
+    "socialOrientation": "level",
+    "bodySensation": "level",
+    "consensusAttitude": "level",
+    "humorStyle": "level"
+  },
+  "narrativeSummary": "3-5 sentence blunt psychological portrait",
+  "clustering": {
+    "veryCloseTo": ["author1", "author2"],
+    "moderatelyCloseTo": ["author1", "author2", "author3"],
+    "farFrom": ["author1", "author2"]
+  }
+}`,
+  },
+  {
+    id: "stylometrics.compare",
+    version: 1,
+    name: "Stylometric comparison",
+    template: `You are a stylometric analyst. Compare the following two texts and produce a detailed comparative stylometric report.
+
+TEXT A:
+Author/Label: {{textA.authorName}}
+Word Count: {{textA.features.wordCount}}
+"""
+{{textA.text}}
+"""
+
+TEXT A PRE-COMPUTED FEATURES:
+- Ego-pronoun rate: {{textA.features.egoPronounRate}} per 1000 words
+- Average sentence length: {{textA.features.avgSentenceLength}} words
+- Max sentence length: {{textA.features.maxSentenceLength}} words
+- Subordination depth: {{textA.features.subordinationDepth}}
+- Semicolon frequency: {{textA.features.semicolonFreq}} per 1000 words
+- Colon frequency: {{textA.features.colonFreq}} per 1000 words
+- Dash frequency: {{textA.features.dashFreq}} per 1000 words
+- Rhetorical question rate: {{textA.features.questionFreq}} per 1000 words
+- Impersonal construction rate: {{textA.features.impersonalRate}} per 1000 words
+
+TEXT B:
+Author/Label: {{textB.authorName}}
+Word Count: {{textB.features.wordCount}}
+"""
+{{textB.text}}
+"""
+
+TEXT B PRE-COMPUTED FEATURES:
+- Ego-pronoun rate: {{textB.features.egoPronounRate}} per 1000 words
+- Average sentence length: {{textB.features.avgSentenceLength}} words
+- Max sentence length: {{textB.features.maxSentenceLength}} words
+- Subordination depth: {{textB.features.subordinationDepth}}
+- Semicolon frequency: {{textB.features.semicolonFreq}} per 1000 words
+- Colon frequency: {{textB.features.colonFreq}} per 1000 words
+- Dash frequency: {{textB.features.dashFreq}} per 1000 words
+- Rhetorical question rate: {{textB.features.questionFreq}} per 1000 words
+- Impersonal construction rate: {{textB.features.impersonalRate}} per 1000 words
+
+YOUR TASK:
+
+1. For EACH text, classify metaphor density and anecdote frequency
+2. Compute verticality score for EACH text using the formula provided
+3. Determine abstraction level for EACH text
+4. Identify signature phrases for EACH text
+5. Identify negative markers for EACH text
+6. Select representative quote for EACH text
+7. Identify closest author match for EACH text
+8. Generate psychological profile for EACH text
+9. Write comparative analysis:
+   - Key stylistic differences (3-5 major divergences with specific evidence)
+   - "If these authors were in the same room" scenario (vivid, specific, entertaining)
+   - Collaborative potential assessment
+10. Identify clustering for each text
+
+OUTPUT FORMAT - Your response must be valid JSON with this exact structure:
+{
+  "textA": {
+    "metaphorDensity": "none|low|moderate|high",
+    "anecdoteFrequency": "none|rare|occasional|frequent",
+    "verticalityScore": 0.00,
+    "classification": "string",
+    "abstractionLevel": "string",
+    "abstractionDescription": "string",
+    "signaturePhrases": ["phrase1", "phrase2"],
+    "negativeMarkers": ["marker1", "marker2"],
+    "representativeQuote": "quote text",
+    "quoteAnalysis": "what this quote shows",
+    "closestAuthorMatch": "Author Name",
+    "matchExplanation": "why",
+    "psychologicalProfile": {...},
+    "narrativeSummary": "3-4 sentence portrait",
+    "clustering": {...}
+  },
+  "textB": {
+    ... same structure as textA ...
+  },
+  "comparison": {
+    "verticalityDifference": 0.00,
+    "keyDivergences": [
+      {"feature": "feature name", "textA": "value/description", "textB": "value/description", "analysis": "what this means"}
+    ],
+    "sameRoomScenario": "vivid, specific, entertaining paragraph",
+    "collaborativePotential": "specific assessment"
+  },
+  "verdict": "2-3 sentence summary of the fundamental difference"
+}`,
+  },
+];
+
+export function builtinPrompts(): PromptTemplate[] {
+  return BUILTIN_PROMPTS;
+}
+
+export function builtinPrompt(id: string): PromptTemplate {
+  const prompt = BUILTIN_PROMPTS.find(p => p.id === id);
+  if (!prompt) {
+    throw new Error(`Unknown prompt: ${id}`);
+  }
+  return prompt;
+}
+
+export function analysisPrompt(functionType: string): PromptTemplate {
+  // Unknown function types have always been given the quotes prompt
+  return BUILTIN_PROMPTS.find(p => p.id === `analysis.${functionType}`) || builtinPrompt("analysis.quotes");
+}
+
+function lookup(variables: Record<string, unknown>, path: string): unknown {
+  return path.split(".").reduce<unknown>(
+    (value, key) => value !== null && typeof value === "object" ? (value as Record<string, unknown>)[key] : undefined,
+    variables
+  );
+}
+
+export function renderPrompt(prompt: PromptTemplate, variables: Record<string, unknown>): string {
+  return prompt.template.replace(PLACEHOLDER, (_, path: string, factor?: string) => {
+    const value = lookup(variables, path);
+    if (value === undefined || value === null) {
+      throw new Error(`Prompt ${prompt.id} v${prompt.version} uses unknown variable {{${path}}}`);
+    }
+    if (factor) {
+      if (typeof value !== "number") {
+        throw new Error(`Prompt ${prompt.id} v${prompt.version} multiplies {{${path}}}, which is not a number`);
+      }
+      return String(value * Number(factor));
+    }
+    return String(value);
+  });
+}
+
+const FIELD_SHAPES = {
+  text: "text",
+  list: "list of strings",
+  records: "list of objects",
+};
+
+// Appended to a custom function's prompt: the JSON object its output spec declares
+export function outputInstructions(fields: OutputField[]): string {
+  const keys = fields.map(field => {
+    const shape = field.kind === "records"
+      ? `${FIELD_SHAPES.records} with keys ${field.properties!.map(p => `"${p}"`).join(", ")}`
+      : FIELD_SHAPES[field.kind];
+    return `- "${field.name}" (${shape}): ${field.description?.trim() || field.label}`;
+  });
+
+  const example = Object.fromEntries(fields.map(field => {
+    const placeholder = field.description?.trim() || field.label;
+    switch (field.kind) {
+      case "text":
+        return [field.name, placeholder];
+      case "list":
+        return [field.name, [placeholder, "..."]];
+      case "records":
+        return [field.name, [Object.fromEntries(field.properties!.map(p => [p, "..."]))]];
+    }
+  }));
+
+  return `OUTPUT FORMAT - Return ONLY a JSON object with exactly these keys:
+${keys.join("\n")}
+
+${JSON.stringify(example, null, 2)}`;
+}
+
+// What would stop a user template from rendering, checked when it is saved
+export function templateErrors(template: string, variables: string[]): string[] {
+  const errors: string[] = [];
+  if (!template.trim()) {
+    errors.push("Template is empty");
+  }
+  for (const match of Array.from(template.matchAll(PLACEHOLDER))) {
+    if (!variables.includes(match[1])) {
+      errors.push(`Unknown variable {{${match[1]}}}; available: ${variables.map(v => `{{${v}}}`).join(", ")}`);
+    }
+  }
+  return errors;
+}
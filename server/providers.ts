@@ -0,0 +1,269 @@
+import type { OutputField } from "@shared/functions";
+import { buildMockContent, mockResponse } from "./mock";
+
+export type ChatMessage = {
+  role: "system" | "user" | "assistant";
+  content: string;
+};
+
+// What a request is for and which source texts it covers. Real providers only
+// see the prompt; the mock provider builds its fixtures from this.
+export type LLMTask = {
+  type: string;
+  texts: string[];
+  fields?: OutputField[];  // custom functions: the output the prompt asks for
+};
+
+export type ChatRequest = {
+  messages: ChatMessage[];
+  task?: LLMTask;
+  jsonMode?: boolean;
+  temperature?: number;
+  maxTokens?: number;
+};
+
+// Provider SSE payloads differ, so adapters translate each one into this shape.
+// An error carries the HTTP status the same failure would have had as a
+// response, when the provider says what kind of error it is.
+export type StreamEvent =
+  | { type: "delta"; text: string }
+  | { type: "error"; message: string; status?: number }
+  | { type: "done" };
+
+export interface ProviderAdapter {
+  id: string;
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKeyEnv: string;
+  apiKeyOptional?: boolean;
+  maxTokens?: number;
+  // Defaults for the per-provider limiter; <ID>_MAX_CONCURRENCY and
+  // <ID>_TOKENS_PER_MINUTE environment variables override them
+  maxConcurrency: number;
+  tokensPerMinute: number | null;
+  supportsJsonMode: boolean;
+  supportsStreaming: boolean;
+  buildHeaders(apiKey: string): Record<string, string>;
+  buildBody(request: ChatRequest, stream: boolean): Record<string, unknown>;
+  extractContent(data: any): string;
+  parseStreamEvent(event: any): StreamEvent | null;
+  // Replaces the HTTP call for adapters that answer in-process
+  fetch?(request: ChatRequest, stream: boolean): Promise<Response>;
+}
+
+const DEFAULT_MAX_TOKENS = 16384;
+
+// Error types sent inside a stream, by the status they stand for
+const OPENAI_ERROR_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  insufficient_quota: 429,
+  rate_limit_exceeded: 429,
+  server_error: 500,
+};
+
+const ANTHROPIC_ERROR_STATUSES: Record<string, number> = {
+  invalid_request_error: 400,
+  authentication_error: 401,
+  permission_error: 403,
+  not_found_error: 404,
+  request_too_large: 413,
+  rate_limit_error: 429,
+  api_error: 500,
+  overloaded_error: 529,
+};
+
+// Most providers speak the OpenAI chat completions dialect, so they only differ
+// in endpoint, model and whether response_format is honoured.
+function openAICompatible(config: {
+  id: string;
+  label: string;
+  endpoint: string;
+  model: string;
+  apiKeyEnv: string;
+  apiKeyOptional?: boolean;
+  maxTokens?: number;
+  maxConcurrency: number;
+  tokensPerMinute: number | null;
+  supportsJsonMode: boolean;
+  supportsStreaming: boolean;
+}): ProviderAdapter {
+  return {
+    ...config,
+    buildHeaders(apiKey) {
+      return {
+        "Content-Type": "application/json",
+        ...(apiKey && { "Authorization": `Bearer ${apiKey}` }),
+      };
+    },
+    buildBody(request, stream) {
+      return {
+        model: this.model,
+        messages: request.messages,
+        max_tokens: request.maxTokens ?? this.maxTokens ?? DEFAULT_MAX_TOKENS,
+        ...(request.temperature !== undefined && { temperature: request.temperature }),
+        ...(request.jsonMode && this.supportsJsonMode && { response_format: { type: "json_object" } }),
+        ...(stream && { stream: true }),
+      };
+    },
+    extractContent(data) {
+      return data.choices[0].message.content;
+    },
+    parseStreamEvent(event) {
+      if (event.error) {
+        const status = typeof event.error.code === "number"
+          ? event.error.code
+          : OPENAI_ERROR_STATUSES[event.error.code] ?? OPENAI_ERROR_STATUSES[event.error.type];
+        return { type: "error", message: event.error.message || JSON.stringify(event.error), status };
+      }
+      const choice = event.choices?.[0];
+      if (choice?.delta?.content) {
+        return { type: "delta", text: choice.delta.content };
+      }
+      if (choice?.finish_reason) {
+        return { type: "done" };
+      }
+      return null;
+    },
+  };
+}
+
+const anthropic: ProviderAdapter = {
+  id: "anthropic",
+  label: "Anthropic",
+  endpoint: "https://api.anthropic.com/v1/messages",
+  model: "claude-sonnet-4-5",
+  apiKeyEnv: "ANTHROPIC_API_KEY",
+  maxConcurrency: 2,
+  tokensPerMinute: 30000,
+  supportsJsonMode: false,
+  supportsStreaming: true,
+  buildHeaders(apiKey) {
+    return {
+      "Content-Type": "application/json",
+      "x-api-key": apiKey,
+      "anthropic-version": "2023-06-01",
+    };
+  },
+  buildBody(request, stream) {
+    // Anthropic takes the system prompt as a top-level field, not a message
+    const system = request.messages
+      .filter(m => m.role === "system")
+      .map(m => m.content)
+      .join("\n\n");
+
+    return {
+      model: this.model,
+      max_tokens: request.maxTokens ?? this.maxTokens ?? DEFAULT_MAX_TOKENS,
+      ...(request.temperature !== undefined && { temperature: request.temperature }),
+      ...(system && { system }),
+      messages: request.messages.filter(m => m.role !== "system"),
+      ...(stream && { stream: true }),
+    };
+  },
+  extractContent(data) {
+    return data.content[0].text;
+  },
+  parseStreamEvent(event) {
+    switch (event.type) {
+      case "content_block_delta":
+        return event.delta?.type === "text_delta" ? { type: "delta", text: event.delta.text } : null;
+      case "message_stop":
+        return { type: "done" };
+      case "error":
+        return { type: "error", message: event.error?.message || "Anthropic stream error", status: ANTHROPIC_ERROR_STATUSES[event.error?.type] };
+      default:
+        return null;
+    }
+  },
+};
+
+export const providers: Record<string, ProviderAdapter> = {
+  openai: openAICompatible({
+    id: "openai",
+    label: "OpenAI",
+    endpoint: "https://api.openai.com/v1/chat/completions",
+    model: "gpt-4o",
+    apiKeyEnv: "OPENAI_API_KEY",
+    maxConcurrency: 2,
+    tokensPerMinute: 30000,
+    supportsJsonMode: true,
+    supportsStreaming: true,
+  }),
+  anthropic,
+  grok: openAICompatible({
+    id: "grok",
+    label: "Grok",
+    endpoint: "https://api.x.ai/v1/chat/completions",
+    model: "grok-3-latest",
+    apiKeyEnv: "GROK_API_KEY",
+    maxConcurrency: 2,
+    tokensPerMinute: 100000,
+    supportsJsonMode: true,
+    supportsStreaming: true,
+  }),
+  perplexity: openAICompatible({
+    id: "perplexity",
+    label: "Perplexity",
+    endpoint: "https://api.perplexity.ai/chat/completions",
+    model: "sonar-pro",
+    apiKeyEnv: "PERPLEXITY_API_KEY",
+    maxConcurrency: 2,
+    tokensPerMinute: 50000,
+    supportsJsonMode: false,
+    supportsStreaming: true,
+  }),
+  deepseek: openAICompatible({
+    id: "deepseek",
+    label: "DeepSeek",
+    endpoint: "https://api.deepseek.com/chat/completions",
+    model: "deepseek-chat",
+    apiKeyEnv: "DEEPSEEK_API_KEY",
+    maxConcurrency: 4,
+    tokensPerMinute: null,
+    supportsJsonMode: true,
+    supportsStreaming: true,
+  }),
+  // Any OpenAI-compatible server (Ollama, llama.cpp, vLLM) so that confidential
+  // manuscripts never leave the machine. Configured entirely via environment.
+  local: openAICompatible({
+    id: "local",
+    label: "Local Model",
+    endpoint: `${(process.env.LOCAL_LLM_BASE_URL || "http://localhost:11434/v1").replace(/\/+$/, "")}/chat/completions`,
+    model: process.env.LOCAL_LLM_MODEL || "llama3.1",
+    apiKeyEnv: "LOCAL_LLM_API_KEY",
+    apiKeyOptional: true,
+    maxTokens: parseInt(process.env.LOCAL_LLM_MAX_TOKENS || "8192", 10),
+    maxConcurrency: 1,
+    tokensPerMinute: null,
+    supportsJsonMode: process.env.LOCAL_LLM_JSON_MODE !== "false",
+    supportsStreaming: true,
+  }),
+  mock: {
+    ...openAICompatible({
+      id: "mock",
+      label: "Mock",
+      endpoint: "mock://local",
+      model: "mock-fixtures",
+      apiKeyEnv: "MOCK_API_KEY",
+      apiKeyOptional: true,
+      maxConcurrency: 8,
+      tokensPerMinute: null,
+      supportsJsonMode: true,
+      supportsStreaming: true,
+    }),
+    async fetch(request, stream) {
+      const userText = request.messages.filter(m => m.role === "user").map(m => m.content).join("\n\n");
+      return mockResponse(buildMockContent(request.task, userText), stream);
+    },
+  },
+};
+
+export function getProvider(id: string): ProviderAdapter {
+  const provider = providers[id];
+  if (!provider) {
+    throw new Error(`Unknown provider: ${id}`);
+  }
+  return provider;
+}
@@ -0,0 +1,107 @@
+const WINDOW_MS = 60_000;
+
+type UsageEntry = { at: number; tokens: number };
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// Rough token estimate; providers report exact usage only after the fact
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+// Per-provider gate: at most `maxConcurrency` requests in flight and at most
+// `tokensPerMinute` tokens spent over any sliding 60-second window.
+export class RateLimiter {
+  private active = 0;
+  private waiters: (() => void)[] = [];
+  private usage: UsageEntry[] = [];
+  private pausedUntil = 0;
+
+  constructor(
+    private maxConcurrency: number,
+    private tokensPerMinute: number | null,
+  ) {}
+
+  async acquire(estimatedTokens: number): Promise<() => void> {
+    while (this.active >= this.maxConcurrency) {
+      await new Promise<void>(resolve => this.waiters.push(resolve));
+    }
+    this.active++;
+
+    try {
+      await this.waitForBudget(estimatedTokens);
+    } catch (error) {
+      this.release();
+      throw error;
+    }
+    this.record(estimatedTokens);
+
+    let released = false;
+    return () => {
+      if (released) return;
+      released = true;
+      this.release();
+    };
+  }
+
+  record(tokens: number) {
+    if (tokens > 0) {
+      this.usage.push({ at: Date.now(), tokens });
+    }
+  }
+
+  // Called on a 429 so that every queued request backs off, not just the one that was rejected
+  pause(ms: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+
+  private release() {
+    this.active--;
+    this.waiters.shift()?.();
+  }
+
+  private async waitForBudget(tokens: number) {
+    while (true) {
+      const now = Date.now();
+      if (this.pausedUntil > now) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      this.usage = this.usage.filter(entry => now - entry.at < WINDOW_MS);
+      if (this.tokensPerMinute === null || this.usage.length === 0) return;
+
+      const used = this.usage.reduce((sum, entry) => sum + entry.tokens, 0);
+      // A single request larger than the whole budget is let through on an empty window
+      if (used + tokens <= this.tokensPerMinute) return;
+
+      await sleep(this.usage[0].at + WINDOW_MS - now);
+    }
+  }
+}
+
+// Accepts both delta-seconds and HTTP-date forms, plus OpenAI's retry-after-ms
+export function parseRetryAfter(headers: Headers): number | null {
+  const ms = headers.get("retry-after-ms");
+  if (ms && !isNaN(Number(ms))) {
+    return Number(ms);
+  }
+
+  const value = headers.get("retry-after");
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return seconds * 1000;
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+// Exponential backoff with full jitter
+export function backoffDelay(attempt: number, baseMs = 1000, maxMs = 60_000): number {
+  return Math.random() * Math.min(maxMs, baseMs * 2 ** attempt);
+}
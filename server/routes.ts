@@ -1,6 +1,7 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { setupAuth } from "./auth";
 import { 
   computeRawFeatures, 
   computeVerticalityScore, 
@@ -10,13 +11,74 @@ import {
   formatSingleTextReport,
   formatComparisonReport
 } from "./stylometrics";
+import {
+  stylometricSchema,
+  stylometricComparisonSchema,
+  intelligenceSchema,
+  intelligenceComparisonSchema
+} from "./schemas";
+import { verifyQuotes } from "./verification";
+import { ingestDocument, UnreadableFileError, UnsupportedFormatError } from "./ingest";
+import { documentForAnalysis, saveDocument } from "./documents";
+import { ANALYSIS_VARIABLES, builtinPrompt, builtinPrompts, renderPrompt } from "./prompts";
+import { PromptTemplateError, resolveAnalysisPrompt, validateTemplate } from "./templates";
+import { WorkspaceError, canAccess, listingScope, targetWorkspace, workspaceRole } from "./workspaces";
+import { insertSavedDocumentSchema } from "@shared/schema";
+import { CUSTOM_FUNCTION } from "@shared/functions";
+import { WORKSPACE_ROLES, type WorkspaceRole } from "@shared/workspaces";
+
+// Client-supplied metadata for a saved document; the server derives the rest
+const documentDetailsSchema = insertSavedDocumentSchema
+  .pick({ title: true, author: true, format: true, sections: true, pages: true })
+  .partial();
+
+// Accepts either a single `provider` or an ordered `providers` failover list
+function parseProviderChain(body: any, fallback?: string): string[] | null {
+  const { provider, providers } = body;
+
+  if (providers !== undefined) {
+    const valid = Array.isArray(providers) && providers.length > 0 &&
+      providers.every((p: unknown) => typeof p === "string" && p.length > 0);
+    return valid ? providers : null;
+  }
+
+  if (provider && typeof provider === "string") {
+    return [provider];
+  }
+
+  return fallback ? [fallback] : null;
+}
+
+// Whether the user is the only owner left, who can't be demoted or removed
+async function isLastOwner(workspaceId: number, userId: number): Promise<boolean> {
+  const owners = (await storage.getWorkspaceMembers(workspaceId)).filter(member => member.role === "owner");
+  return owners.length === 1 && owners[0].userId === userId;
+}
+
+// Whether a text hash belongs to the user: one of their documents, one in a
+// workspace they belong to, or the source of one of their jobs
+async function ownsTextHash(userId: number, textHash: string): Promise<boolean> {
+  const workspaceIds = (await storage.getUserWorkspaces(userId)).map(workspace => workspace.id);
+  for (const workspaceId of [null, ...workspaceIds]) {
+    if (await storage.getDocumentByHash(userId, textHash, workspaceId)) return true;
+  }
+  return (await storage.getAnalysisJobsByTextHash(userId, textHash)).length > 0;
+}
+
+// Usernames allowed to clear the cache for a whole provider or function type
+const CACHE_ADMINS = (process.env.CACHE_ADMINS || "").split(",").map(name => name.trim()).filter(Boolean);
 
 export async function registerRoutes(app: Express): Promise<Server> {
-  const { analyzeText, analyzeTextStreaming, callLLM } = await import("./llm");
+  // Sessions first: every route below reads the logged-in user from req.user
+  setupAuth(app);
+
+  const { analyzeText, analyzeTextStreaming, callLLMJSON, withFailover, LLMValidationError } = await import("./llm");
+  const { createJob, cancelJob, resumeJob, resumeJobs, isJobActive } = await import("./jobs");
+  const { invalidateCache, purgeExpiredCache, sha256 } = await import("./cache");
 
   app.post("/api/analyze", async (req, res) => {
     try {
-      const { text, provider, functionType, username } = req.body;
+      const { text, documentId, forceRefresh, templateId } = req.body;
 
       if (!text || typeof text !== "string") {
         return res.status(400).json({ 
@@ -24,29 +86,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (!provider || typeof provider !== "string") {
+      const providerChain = parseProviderChain(req.body);
+      if (!providerChain) {
         return res.status(400).json({ 
-          error: "Missing or invalid 'provider' field in request body" 
+          error: "Missing or invalid 'provider' or 'providers' field in request body" 
         });
       }
 
-      if (!functionType || typeof functionType !== "string") {
+      if (!req.body.functionType || typeof req.body.functionType !== "string") {
         return res.status(400).json({ 
           error: "Missing or invalid 'functionType' field in request body" 
         });
       }
 
-      const result = await analyzeText(text, provider, functionType);
+      if (forceRefresh !== undefined && typeof forceRefresh !== "boolean") {
+        return res.status(400).json({ error: "'forceRefresh' must be a boolean" });
+      }
+
+      // A custom function runs its template with its base function's output shape
+      const { functionType, prompt } = await resolveAnalysisPrompt(req.user, req.body.functionType, templateId);
+
+      const { value: result, provider } = await withFailover(
+        providerChain,
+        p => analyzeText(text, p, functionType, { forceRefresh, prompt })
+      );
       
       // Save to history if user is logged in
-      if (username && typeof username === "string" && username.trim().length >= 2) {
+      if (req.user) {
         try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
+          const user = req.user;
           const inputPreview = text.substring(0, 200) + (text.length > 200 ? "..." : "");
           
           await storage.createAnalysisHistory({
@@ -54,6 +122,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
             analysisType: functionType,
             provider: provider,
             inputPreview: inputPreview,
+            ...await documentForAnalysis(user.id, text, documentId),
+            promptId: prompt.id,
+            promptVersion: prompt.version,
             outputData: result
           });
         } catch (saveError) {
@@ -62,9 +133,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      res.json(result);
+      res.json({ ...result, provider });
     } catch (error: any) {
       console.error("Analysis error:", error);
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      if (error instanceof LLMValidationError) {
+        return res.status(422).json({ error: error.message, code: error.code, issues: error.issues });
+      }
       res.status(500).json({ 
         error: error.message || "Analysis failed" 
       });
@@ -73,7 +150,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/analyze/stream", async (req, res) => {
     try {
-      const { text, provider, functionType, username } = req.body;
+      const { text, documentId, forceRefresh, templateId } = req.body;
 
       if (!text || typeof text !== "string") {
         return res.status(400).json({ 
@@ -81,112 +158,80 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      if (!provider || typeof provider !== "string") {
+      const providerChain = parseProviderChain(req.body);
+      if (!providerChain) {
         return res.status(400).json({ 
-          error: "Missing or invalid 'provider' field in request body" 
+          error: "Missing or invalid 'provider' or 'providers' field in request body" 
         });
       }
 
-      if (!functionType || typeof functionType !== "string") {
+      if (!req.body.functionType || typeof req.body.functionType !== "string") {
         return res.status(400).json({ 
           error: "Missing or invalid 'functionType' field in request body" 
         });
       }
 
+      if (forceRefresh !== undefined && typeof forceRefresh !== "boolean") {
+        return res.status(400).json({ error: "'forceRefresh' must be a boolean" });
+      }
+
+      // A custom function runs its template with its base function's output shape
+      const { functionType, prompt } = await resolveAnalysisPrompt(req.user, req.body.functionType, templateId);
+
       res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
         'Connection': 'keep-alive'
       });
 
-      let fullContent = '';
-      await analyzeTextStreaming(text, provider, functionType, (chunk: string) => {
-        fullContent += chunk;
-        res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
-      });
+      // Once tokens have reached the client we can no longer switch providers
+      let streamed = false;
+      const { value: result, provider } = await withFailover(
+        providerChain,
+        p => analyzeTextStreaming(text, p, functionType, (chunk: string) => {
+          streamed = true;
+          res.write(`data: ${JSON.stringify({ content: chunk })}\n\n`);
+        }, { forceRefresh, prompt }),
+        () => !streamed
+      );
 
       // Save to history if user is logged in
-      if (username && typeof username === "string" && username.trim().length >= 2) {
+      if (req.user) {
         try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
+          const user = req.user;
           const inputPreview = text.substring(0, 200) + (text.length > 200 ? "..." : "");
           
-          // Structure the output data based on function type
-          let outputData: any;
-          try {
-            outputData = JSON.parse(fullContent);
-          } catch {
-            // For text-based outputs, structure them properly based on type
-            if (functionType === "analyzer") {
-              outputData = { analyzer: fullContent };
-            } else if (functionType === "database") {
-              outputData = { database: fullContent };
-            } else if (functionType === "rewrite") {
-              outputData = { summary: fullContent };
-            } else {
-              outputData = { rawContent: fullContent };
-            }
-          }
-          
           await storage.createAnalysisHistory({
             userId: user.id,
             analysisType: functionType,
             provider: provider,
             inputPreview: inputPreview,
-            outputData: outputData
+            ...await documentForAnalysis(user.id, text, documentId),
+            promptId: prompt.id,
+            promptVersion: prompt.version,
+            outputData: result
           });
         } catch (saveError) {
           console.error("Failed to save streaming result to history:", saveError);
         }
       }
 
-      res.write(`data: ${JSON.stringify({ done: true })}\n\n`);
+      res.write(`data: ${JSON.stringify({ done: true, provider, result })}\n\n`);
       res.end();
     } catch (error: any) {
       console.error("Streaming analysis error:", error);
-      res.write(`data: ${JSON.stringify({ error: error.message || "Analysis failed" })}\n\n`);
-      res.end();
-    }
-  });
-
-  app.post("/api/auth/login", async (req, res) => {
-    try {
-      const { username } = req.body;
-
-      if (!username || typeof username !== "string" || username.trim().length < 2) {
-        return res.status(400).json({ 
-          error: "Username must be at least 2 characters" 
-        });
-      }
-
-      const cleanUsername = username.trim().toLowerCase();
-      
-      let user = await storage.getUserByUsername(cleanUsername);
-      
-      if (!user) {
-        user = await storage.createUser({ username: cleanUsername });
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
       }
-      
-      res.json({ 
-        success: true, 
-        user: { id: user.id, username: user.username } 
-      });
-    } catch (error: any) {
-      console.error("Login error:", error);
-      res.status(500).json({ 
-        error: error.message || "Login failed" 
-      });
+      const issues = error instanceof LLMValidationError ? { code: error.code, issues: error.issues } : {};
+      res.write(`data: ${JSON.stringify({ error: error.message || "Analysis failed", ...issues })}\n\n`);
+      res.end();
     }
   });
 
   app.post("/api/stylometrics/analyze", async (req, res) => {
     try {
-      const { username, authorName, sourceTitle, text, provider } = req.body;
+      const { authorName, sourceTitle, text } = req.body;
 
       if (!text || typeof text !== "string") {
         return res.status(400).json({ error: "Missing text" });
@@ -203,33 +248,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const providerChain = parseProviderChain(req.body, "grok");
+      if (!providerChain) {
+        return res.status(400).json({ error: "Invalid 'providers' field" });
+      }
+
       const rawFeatures = computeRawFeatures(text);
       const prompt = buildSingleTextPrompt(authorName, sourceTitle || '', text, rawFeatures);
       
-      const llmResponse = await callLLM(provider || 'grok', prompt);
+      const { value: llmResult, provider } = await withFailover(
+        providerChain,
+        p => callLLMJSON(p, prompt, stylometricSchema, { type: "stylometrics", texts: [text] })
+      );
       
-      let llmResult;
-      try {
-        const jsonMatch = llmResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          llmResult = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error("No JSON found in response");
-        }
-      } catch (e) {
-        console.error("Failed to parse LLM response:", e);
-        llmResult = {
-          metaphorDensity: 'moderate',
-          anecdoteFrequency: 'occasional',
-          signaturePhrases: [],
-          negativeMarkers: [],
-          sampleSentences: [],
-          psychologicalProfile: {},
-          narrativeSummary: "Analysis could not be completed.",
-          clustering: { veryCloseTo: [], moderatelyCloseTo: [], farFrom: [] }
-        };
-      }
-
       const verticalityScore = computeVerticalityScore(
         rawFeatures, 
         llmResult.metaphorDensity, 
@@ -245,6 +276,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const responseData = {
         success: true,
+        provider,
         report: fullReport,
         data: {
           authorName,
@@ -258,21 +290,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       };
 
       // Auto-save to history if user is logged in
-      if (username && typeof username === "string" && username.trim().length >= 2) {
+      if (req.user) {
         try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
+          const user = req.user;
           const inputPreview = `Stylometrics: ${authorName} - ${text.substring(0, 150)}...`;
           
           await storage.createAnalysisHistory({
             userId: user.id,
             analysisType: "stylometrics",
-            provider: provider || "grok",
+            provider,
             inputPreview: inputPreview,
+            promptId: "stylometrics",
+            promptVersion: builtinPrompt("stylometrics").version,
             outputData: responseData.data
           });
         } catch (saveError) {
@@ -283,6 +312,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(responseData);
     } catch (error: any) {
       console.error("Stylometrics analysis error:", error);
+      if (error instanceof LLMValidationError) {
+        return res.status(422).json({ error: error.message, code: error.code, issues: error.issues });
+      }
       res.status(500).json({ 
         error: error.message || "Stylometric analysis failed" 
       });
@@ -291,7 +323,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/stylometrics/analyze/stream", async (req, res) => {
     try {
-      const { username, authorName, sourceTitle, text, provider } = req.body;
+      const { authorName, sourceTitle, text } = req.body;
 
       if (!text || typeof text !== "string") {
         return res.status(400).json({ error: "Missing text" });
@@ -308,6 +340,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const providerChain = parseProviderChain(req.body, "grok");
+      if (!providerChain) {
+        return res.status(400).json({ error: "Invalid 'providers' field" });
+      }
+
       res.writeHead(200, {
         'Content-Type': 'text/event-stream',
         'Cache-Control': 'no-cache',
@@ -324,35 +361,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const prompt = buildSingleTextPrompt(authorName, sourceTitle || '', text, rawFeatures);
       
-      const llmResponse = await callLLM(provider || 'grok', prompt);
+      const { value: llmResult, provider } = await withFailover(
+        providerChain,
+        p => callLLMJSON(p, prompt, stylometricSchema, { type: "stylometrics", texts: [text] })
+      );
       
+      const llmResponse = JSON.stringify(llmResult, null, 2);
       for (let i = 0; i < llmResponse.length; i += 100) {
         const chunk = llmResponse.slice(i, i + 100);
         res.write(`data: ${JSON.stringify({ type: 'chunk', content: chunk })}\n\n`);
         await new Promise(resolve => setTimeout(resolve, 10));
       }
 
-      let llmResult;
-      try {
-        const jsonMatch = llmResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          llmResult = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error("No JSON found");
-        }
-      } catch (e) {
-        llmResult = {
-          metaphorDensity: 'moderate',
-          anecdoteFrequency: 'occasional',
-          signaturePhrases: [],
-          negativeMarkers: [],
-          sampleSentences: [],
-          psychologicalProfile: {},
-          narrativeSummary: "Analysis could not be completed.",
-          clustering: { veryCloseTo: [], moderatelyCloseTo: [], farFrom: [] }
-        };
-      }
-
       const verticalityScore = computeVerticalityScore(
         rawFeatures, 
         llmResult.metaphorDensity, 
@@ -368,6 +388,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       res.write(`data: ${JSON.stringify({ 
         type: 'complete',
+        provider,
         report: fullReport,
         data: {
           authorName,
@@ -392,14 +413,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.end();
     } catch (error: any) {
       console.error("Stylometrics streaming error:", error);
-      res.write(`data: ${JSON.stringify({ type: 'error', error: error.message })}\n\n`);
+      const issues = error instanceof LLMValidationError ? { code: error.code, issues: error.issues } : {};
+      res.write(`data: ${JSON.stringify({ type: 'error', error: error.message, ...issues })}\n\n`);
       res.end();
     }
   });
 
   app.post("/api/stylometrics/compare", async (req, res) => {
     try {
-      const { username, textA, textB, provider } = req.body;
+      const { textA, textB } = req.body;
 
       if (!textA?.text || !textA?.authorName) {
         return res.status(400).json({ error: "Missing Text A" });
@@ -418,6 +440,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
+      const providerChain = parseProviderChain(req.body, "grok");
+      if (!providerChain) {
+        return res.status(400).json({ error: "Invalid 'providers' field" });
+      }
+
       const rawFeaturesA = computeRawFeatures(textA.text);
       const rawFeaturesB = computeRawFeatures(textB.text);
 
@@ -426,47 +453,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
         { authorName: textB.authorName, text: textB.text, rawFeatures: rawFeaturesB }
       );
 
-      const llmResponse = await callLLM(provider || 'grok', prompt);
+      const { value: llmResult, provider } = await withFailover(
+        providerChain,
+        p => callLLMJSON(p, prompt, stylometricComparisonSchema, { type: "stylometrics_compare", texts: [textA.text, textB.text] })
+      );
       
-      let llmResult;
-      try {
-        const jsonMatch = llmResponse.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          llmResult = JSON.parse(jsonMatch[0]);
-        } else {
-          throw new Error("No JSON found");
-        }
-      } catch (e) {
-        console.error("Failed to parse comparison response:", e);
-        llmResult = {
-          textA: { metaphorDensity: 'moderate', anecdoteFrequency: 'occasional' },
-          textB: { metaphorDensity: 'moderate', anecdoteFrequency: 'occasional' },
-          comparison: { keyDivergences: [], sameRoomScenario: '', collaborativePotential: '' },
-          verdict: 'Comparison could not be completed.'
-        };
-      }
+      const scoreA = computeVerticalityScore(rawFeaturesA, llmResult.textA.metaphorDensity, llmResult.textA.anecdoteFrequency);
+      llmResult.textA.verticalityScore = scoreA;
+      const absA = getAbstractionLevel(scoreA);
+      llmResult.textA.abstractionLevel = absA.level;
+      llmResult.textA.abstractionDescription = absA.description;
 
-      if (llmResult.textA) {
-        const scoreA = computeVerticalityScore(rawFeaturesA, llmResult.textA.metaphorDensity, llmResult.textA.anecdoteFrequency);
-        llmResult.textA.verticalityScore = scoreA;
-        const absA = getAbstractionLevel(scoreA);
-        llmResult.textA.abstractionLevel = absA.level;
-        llmResult.textA.abstractionDescription = absA.description;
-      }
-      
-      if (llmResult.textB) {
-        const scoreB = computeVerticalityScore(rawFeaturesB, llmResult.textB.metaphorDensity, llmResult.textB.anecdoteFrequency);
-        llmResult.textB.verticalityScore = scoreB;
-        const absB = getAbstractionLevel(scoreB);
-        llmResult.textB.abstractionLevel = absB.level;
-        llmResult.textB.abstractionDescription = absB.description;
-      }
+      const scoreB = computeVerticalityScore(rawFeaturesB, llmResult.textB.metaphorDensity, llmResult.textB.anecdoteFrequency);
+      llmResult.textB.verticalityScore = scoreB;
+      const absB = getAbstractionLevel(scoreB);
+      llmResult.textB.abstractionLevel = absB.level;
+      llmResult.textB.abstractionDescription = absB.description;
 
-      if (llmResult.comparison) {
-        llmResult.comparison.verticalityDifference = Math.abs(
-          (llmResult.textA?.verticalityScore || 0) - (llmResult.textB?.verticalityScore || 0)
-        );
-      }
+      llmResult.comparison.verticalityDifference = Math.abs(scoreA - scoreB);
 
       const fullReport = formatComparisonReport(
         { authorName: textA.authorName, rawFeatures: rawFeaturesA },
@@ -476,26 +480,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const responseData = {
         success: true,
+        provider,
         report: fullReport,
         data: llmResult
       };
 
       // Auto-save to history if user is logged in
-      if (username && typeof username === "string" && username.trim().length >= 2) {
+      if (req.user) {
         try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
+          const user = req.user;
           const inputPreview = `Stylometrics Compare: ${textA.authorName} vs ${textB.authorName}`;
           
           await storage.createAnalysisHistory({
             userId: user.id,
             analysisType: "stylometrics_compare",
-            provider: provider || "grok",
+            provider,
             inputPreview: inputPreview,
+            promptId: "stylometrics.compare",
+            promptVersion: builtinPrompt("stylometrics.compare").version,
             outputData: responseData.data
           });
         } catch (saveError) {
@@ -506,6 +508,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json(responseData);
     } catch (error: any) {
       console.error("Comparison error:", error);
+      if (error instanceof LLMValidationError) {
+        return res.status(422).json({ error: error.message, code: error.code, issues: error.issues });
+      }
       res.status(500).json({ 
         error: error.message || "Comparison failed" 
       });
@@ -514,9 +519,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post("/api/stylometrics/save", async (req, res) => {
     try {
-      const { username, authorName, sourceTitle, data, fullReport } = req.body;
+      const { authorName, sourceTitle, data, fullReport } = req.body;
 
-      if (!username || typeof username !== "string" || username.trim().length < 2) {
+      const user = req.user;
+      if (!user) {
         return res.status(401).json({ error: "Login required to save profiles" });
       }
 
@@ -524,16 +530,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Author name required" });
       }
 
-      const cleanUsername = username.trim().toLowerCase();
-      let user = await storage.getUserByUsername(cleanUsername);
-      if (!user) {
-        user = await storage.createUser({ username: cleanUsername });
-      }
-
-      const existingAuthor = await storage.getStylometricAuthorByName(user.id, authorName.trim());
+      // A profile saved to a workspace replaces the workspace's profile of the same name
+      const workspaceId = await targetWorkspace(user.id, req.body.workspaceId);
+      const existingAuthor = await storage.getStylometricAuthorByName(user.id, authorName.trim(), workspaceId);
       
       const authorData = {
-        userId: user.id,
+        userId: existingAuthor?.userId ?? user.id,
+        workspaceId,
         authorName,
         sourceTitle: sourceTitle || null,
         wordCount: data?.wordCount || null,
@@ -564,6 +567,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     } catch (error: any) {
       console.error("Save error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: error.message || "Failed to save author" 
       });
@@ -572,21 +578,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/stylometrics/authors", async (req, res) => {
     try {
-      const { username } = req.query;
-
-      if (!username || typeof username !== "string") {
-        return res.status(400).json({ error: "Username required" });
-      }
-
-      const user = await storage.getUserByUsername(username);
+      const user = req.user;
       if (!user) {
-        return res.json({ authors: [] });
+        return res.status(401).json({ error: "Login required" });
       }
 
-      const authors = await storage.getStylometricAuthors(user.id);
+      const scope = await listingScope(user.id, req.query.workspaceId);
+      const authors = (await storage.getStylometricAuthors(user.id, scope.workspaceIds)).filter(scope.includes);
       res.json({ authors });
     } catch (error: any) {
       console.error("Get authors error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: error.message || "Failed to get authors" 
       });
@@ -596,11 +600,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/stylometrics/author/:id", async (req, res) => {
     try {
       const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
       const author = await storage.getStylometricAuthor(parseInt(id));
       
       if (!author) {
         return res.status(404).json({ error: "Author not found" });
       }
+      
+      // Verify access: the user's own, or shared in one of their workspaces
+      if (!(await canAccess(user.id, author))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
 
       res.json({ author });
     } catch (error: any) {
@@ -614,7 +628,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/stylometrics/author/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      await storage.deleteStylometricAuthor(parseInt(id));
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const author = await storage.getStylometricAuthor(parseInt(id));
+      
+      if (!author) {
+        return res.status(404).json({ error: "Author not found" });
+      }
+      
+      // Verify access; workspace viewers can't delete
+      if (!(await canAccess(user.id, author, "write"))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // Someone else may have deleted it in the meantime
+      if (!(await storage.deleteStylometricAuthor(author.id))) {
+        return res.status(404).json({ error: "Author not found" });
+      }
       res.json({ success: true, message: "Author deleted" });
     } catch (error: any) {
       console.error("Delete error:", error);
@@ -626,29 +659,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.get("/api/stylometrics/export", async (req, res) => {
     try {
-      const { username } = req.query;
-
-      if (!username || typeof username !== "string") {
-        return res.status(400).json({ error: "Username required" });
-      }
-
-      const user = await storage.getUserByUsername(username);
+      const user = req.user;
       if (!user) {
-        return res.json({ authors: [] });
+        return res.status(401).json({ error: "Login required" });
       }
 
-      const authors = await storage.getStylometricAuthors(user.id);
+      const scope = await listingScope(user.id, req.query.workspaceId);
+      const authors = (await storage.getStylometricAuthors(user.id, scope.workspaceIds)).filter(scope.includes);
       
       res.setHeader('Content-Type', 'application/json');
-      res.setHeader('Content-Disposition', `attachment; filename="stylometric-database-${username}.json"`);
+      res.setHeader('Content-Disposition', `attachment; filename="stylometric-database-${user.username}.json"`);
       res.json({
         exportedAt: new Date().toISOString(),
-        username,
+        username: user.username,
         authorCount: authors.length,
         authors
       });
     } catch (error: any) {
       console.error("Export error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: error.message || "Export failed" 
       });
@@ -656,70 +687,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // History API endpoints
-  
-  // Save partial results from multi-chunk processing
-  app.post("/api/history/save-partial", async (req, res) => {
-    try {
-      const { username, analysisType, provider, inputPreview, outputData, chunksCompleted, totalChunks } = req.body;
-      
-      if (!username || typeof username !== "string") {
-        return res.status(400).json({ error: "Username required" });
-      }
-      
-      const cleanUsername = username.trim().toLowerCase();
-      let user = await storage.getUserByUsername(cleanUsername);
-      if (!user) {
-        user = await storage.createUser({ username: cleanUsername });
-      }
-      
-      // Add chunk progress info to the output
-      const enrichedOutput = {
-        ...outputData,
-        _chunkProgress: {
-          completed: chunksCompleted,
-          total: totalChunks,
-          partial: chunksCompleted < totalChunks
-        }
-      };
-      
-      await storage.createAnalysisHistory({
-        userId: user.id,
-        analysisType,
-        provider,
-        inputPreview: `[${chunksCompleted}/${totalChunks} chunks] ${inputPreview}`,
-        outputData: enrichedOutput
-      });
-      
-      res.json({ success: true, message: `Saved results for ${chunksCompleted}/${totalChunks} chunks` });
-    } catch (error: any) {
-      console.error("Save partial results error:", error);
-      res.status(500).json({ error: error.message || "Failed to save partial results" });
-    }
-  });
-  
   app.get("/api/history", async (req, res) => {
     try {
-      const { username, type } = req.query;
-
-      if (!username || typeof username !== "string") {
-        return res.status(400).json({ error: "Username required" });
-      }
+      const { type } = req.query;
 
-      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      const user = req.user;
       if (!user) {
-        return res.json({ history: [] });
+        return res.status(401).json({ error: "Login required" });
       }
 
+      const scope = await listingScope(user.id, req.query.workspaceId);
       let history;
       if (type && typeof type === "string") {
-        history = await storage.getAnalysisHistoryByType(user.id, type);
+        history = await storage.getAnalysisHistoryByType(user.id, type, scope.workspaceIds);
       } else {
-        history = await storage.getAnalysisHistory(user.id);
+        history = await storage.getAnalysisHistory(user.id, scope.workspaceIds);
       }
 
-      res.json({ history });
+      res.json({ history: history.filter(scope.includes) });
     } catch (error: any) {
       console.error("Get history error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
       res.status(500).json({ 
         error: error.message || "Failed to get history" 
       });
@@ -729,15 +719,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/history/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const { username } = req.query;
-      
-      if (!username || typeof username !== "string") {
-        return res.status(401).json({ error: "Login required" });
-      }
-      
-      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      const user = req.user;
       if (!user) {
-        return res.status(401).json({ error: "User not found" });
+        return res.status(401).json({ error: "Login required" });
       }
       
       const item = await storage.getAnalysisHistoryItem(parseInt(id));
@@ -746,8 +730,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "History item not found" });
       }
       
-      // Verify ownership
-      if (item.userId !== user.id) {
+      // Verify access: the user's own, or shared in one of their workspaces
+      if (!(await canAccess(user.id, item))) {
         return res.status(403).json({ error: "Access denied" });
       }
 
@@ -763,15 +747,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete("/api/history/:id", async (req, res) => {
     try {
       const { id } = req.params;
-      const { username } = req.query;
-      
-      if (!username || typeof username !== "string") {
-        return res.status(401).json({ error: "Login required" });
-      }
-      
-      const user = await storage.getUserByUsername(username.trim().toLowerCase());
+      const user = req.user;
       if (!user) {
-        return res.status(401).json({ error: "User not found" });
+        return res.status(401).json({ error: "Login required" });
       }
       
       const item = await storage.getAnalysisHistoryItem(parseInt(id));
@@ -780,8 +758,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "History item not found" });
       }
       
-      // Verify ownership
-      if (item.userId !== user.id) {
+      // Verify access; workspace viewers can't delete
+      if (!(await canAccess(user.id, item, "write"))) {
         return res.status(403).json({ error: "Access denied" });
       }
       
@@ -795,219 +773,724 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/intelligence", async (req, res) => {
+  // Document library
+  
+  app.get("/api/documents", async (req, res) => {
     try {
-      const { text, provider, username } = req.body;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
 
-      if (!text || typeof text !== "string") {
+      const scope = await listingScope(user.id, req.query.workspaceId);
+      const documents = (await storage.getDocuments(user.id, scope.workspaceIds)).filter(scope.includes);
+      res.json({ documents });
+    } catch (error: any) {
+      console.error("Get documents error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ 
+        error: error.message || "Failed to get documents" 
+      });
+    }
+  });
+
+  app.post("/api/documents", async (req, res) => {
+    try {
+      const { text } = req.body;
+
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      if (!text || typeof text !== "string" || !text.trim()) {
         return res.status(400).json({ 
           error: "Missing or invalid 'text' field in request body" 
         });
       }
 
-      if (!provider || typeof provider !== "string") {
-        return res.status(400).json({ 
-          error: "Missing or invalid 'provider' field in request body" 
-        });
+      const details = documentDetailsSchema.safeParse(req.body);
+      if (!details.success) {
+        return res.status(400).json({ error: "Invalid document details", issues: details.error.issues });
       }
 
-      const wordCount = text.split(/\s+/).filter(Boolean).length;
-      
-      const prompt = `You are an expert at identifying sharp, quotable insights. Extract ALL the genuinely sharp lines from this text. Be thorough — a well-written text can contain dozens of sharp quotes.
-
-WHAT COUNTS AS SHARP (extract liberally):
-- Punchy formulations: "Religions are degenerate cults." "All worship is projection."
-- Reversals that reframe: "Thoughts are taught by being elicited, not by being deposited."
-- Precise distinctions: "Superhuman is not supernatural."
-- Dark wit: "The people who should commit suicide don't."
-- Compressed insights: "Projection is unconscious LARPing."
-- Memorable metaphors: "His categories don't cut nature at the joints."
-- Paradoxes stated sharply: "The lower you are in a hierarchy, the more fiercely you will defend it."
-
-WHAT DOES NOT COUNT (reject these):
-- Dissertation/abstract framing: "In this dissertation, I critically examine..."
-- Signposting: "This chapter is divided into five parts..."
-- Bland scholarly prose: "I argue that McDowell's direct realism is problematic."
-- Promises without payoff: "By answering the question X, philosopher Y reveals Z..."
-- Throat-clearing: "It is important to consider..."
-
-CALIBRATION - SHARP TEXT (extract many quotes):
-"To worship something is to regard it as supernatural. If you worship it, it's a fiction. All worship is projection. Projection is unconscious LARPing. A cult leader is someone on whom people believe they can project a great fiction."
-→ Extract ALL of these: each is a standalone insight.
-
-CALIBRATION - BLAND TEXT (extract zero):  
-"In this dissertation, I critically examine the philosophy of transcendental empiricism. I argue that Gaskin's critiques are faulty and that Gaskin's minimalist empiricism is very dubious."
-→ Extract ZERO. This is academic framing, not insight.
-
-Be generous with genuinely sharp writing. A good essay might have 20-50 sharp quotes. Only reject text that is genuinely bland, transitional, or merely descriptive.
-
-TEXT TO ANALYZE:
-${text}
-
-Respond with valid JSON only:
-{
-  "sharpQuotes": ["quote1", "quote2", ...],
-  "analysis": "Brief explanation of why these quotes are sharp (or why none were found)"
-}`;
-
-      const result = await callLLM(provider, prompt);
-      
-      let parsed;
-      try {
-        const jsonMatch = result.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsed = JSON.parse(jsonMatch[0]);
-        } else {
-          parsed = { sharpQuotes: [], analysis: "Failed to parse response" };
-        }
-      } catch {
-        parsed = { sharpQuotes: [], analysis: "Failed to parse response" };
+      // Saving a text that is already in the library returns the existing document
+      const workspaceId = await targetWorkspace(user.id, req.body.workspaceId);
+      const { document, created } = await saveDocument(user.id, text, { ...details.data, workspaceId });
+      res.status(created ? 201 : 200).json({ document, created });
+    } catch (error: any) {
+      console.error("Save document error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
       }
+      res.status(500).json({ 
+        error: error.message || "Failed to save document" 
+      });
+    }
+  });
 
-      const sharpQuotes = Array.isArray(parsed.sharpQuotes) ? parsed.sharpQuotes.filter((q: any) => typeof q === 'string' && q.trim()) : [];
-      const density = wordCount > 0 ? (sharpQuotes.length * 1000) / wordCount : 0;
+  app.get("/api/documents/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
       
-      let score: number;
-      if (density <= 1) {
-        score = Math.round(density * 30);
-      } else if (density <= 3) {
-        score = Math.round(30 + ((density - 1) / 2) * 35);
-      } else if (density <= 6) {
-        score = Math.round(65 + ((density - 3) / 3) * 25);
-      } else {
-        score = Math.min(100, Math.round(90 + ((density - 6) / 4) * 10));
+      const document = await storage.getDocument(parseInt(id));
+      
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
       }
-
-      const response = {
-        wordCount,
-        sharpQuotes,
-        quoteCount: sharpQuotes.length,
-        density: parseFloat(density.toFixed(2)),
-        score,
-        analysis: parsed.analysis || ""
-      };
-
-      if (username && typeof username === "string" && username.trim().length >= 2) {
-        try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
-          const inputPreview = text.substring(0, 200) + (text.length > 200 ? "..." : "");
-          
-          await storage.createAnalysisHistory({
-            userId: user.id,
-            analysisType: "intelligence",
-            provider: provider,
-            inputPreview: inputPreview,
-            outputData: response
-          });
-        } catch (saveError) {
-          console.error("Failed to save to history:", saveError);
-        }
+      
+      // Verify access: the user's own, or shared in one of their workspaces
+      if (!(await canAccess(user.id, document))) {
+        return res.status(403).json({ error: "Access denied" });
       }
 
-      res.json(response);
+      // Runs from before the document was shared stay with whoever made them
+      const history = (await storage.getAnalysisHistoryByDocument(document.id))
+        .filter(item => item.workspaceId !== null ? item.workspaceId === document.workspaceId : item.userId === user.id);
+      res.json({ document, history });
     } catch (error: any) {
-      console.error("Intelligence analysis error:", error);
+      console.error("Get document error:", error);
       res.status(500).json({ 
-        error: error.message || "Intelligence analysis failed" 
+        error: error.message || "Failed to get document" 
       });
     }
   });
 
-  app.post("/api/intelligence/compare", async (req, res) => {
+  // Only the title, author and workspace can change; a different text is a
+  // different document
+  app.patch("/api/documents/:id", async (req, res) => {
     try {
-      const { textA, textB, provider, username } = req.body;
-
-      if (!textA || typeof textA !== "string" || !textB || typeof textB !== "string") {
-        return res.status(400).json({ 
-          error: "Missing or invalid text fields in request body" 
-        });
+      const { id } = req.params;
+      const { title, author, workspaceId } = req.body;
+      
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
       }
-
-      if (!provider || typeof provider !== "string") {
-        return res.status(400).json({ 
-          error: "Missing or invalid 'provider' field in request body" 
-        });
+      
+      if (title !== undefined && (typeof title !== "string" || !title.trim())) {
+        return res.status(400).json({ error: "'title' must be a non-empty string" });
       }
-
-      const wordCountA = textA.split(/\s+/).filter(Boolean).length;
-      const wordCountB = textB.split(/\s+/).filter(Boolean).length;
       
-      const prompt = `Extract ALL sharp, quotable insights from TWO texts and compare them. Be thorough.
-
-SHARP (extract liberally):
-- Punchy formulations: "Religions are degenerate cults."
-- Reversals: "Thoughts are taught by being elicited, not by being deposited."
-- Dark wit: "The people who should commit suicide don't."
-- Compressed insights: "Projection is unconscious LARPing."
-- Paradoxes: "The lower you are in a hierarchy, the more fiercely you will defend it."
-
-NOT SHARP (reject):
-- "In this dissertation, I critically examine..." (academic framing)
-- "I argue that X is problematic." (bland scholarly prose)
-- Transitions, signposting, throat-clearing
-
-Be generous. A good essay might have 20-50 sharp quotes.
-
-TEXT A:
-${textA}
-
----
-
-TEXT B:
-${textB}
-
-Respond with valid JSON only:
-{
-  "textA": {
-    "sharpQuotes": ["quote1", "quote2", ...],
-    "analysis": "Brief explanation"
-  },
-  "textB": {
-    "sharpQuotes": ["quote1", "quote2", ...],
-    "analysis": "Brief explanation"
-  },
-  "verdict": "One-sentence comparative verdict"
-}`;
-
-      const result = await callLLM(provider, prompt);
-      
-      let parsed;
-      try {
-        const jsonMatch = result.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          parsed = JSON.parse(jsonMatch[0]);
-        } else {
-          parsed = { textA: { sharpQuotes: [], analysis: "" }, textB: { sharpQuotes: [], analysis: "" }, verdict: "" };
-        }
-      } catch {
-        parsed = { textA: { sharpQuotes: [], analysis: "" }, textB: { sharpQuotes: [], analysis: "" }, verdict: "" };
+      if (author !== undefined && author !== null && typeof author !== "string") {
+        return res.status(400).json({ error: "'author' must be a string or null" });
       }
-
-      const quotesA = Array.isArray(parsed.textA?.sharpQuotes) ? parsed.textA.sharpQuotes.filter((q: any) => typeof q === 'string' && q.trim()) : [];
-      const quotesB = Array.isArray(parsed.textB?.sharpQuotes) ? parsed.textB.sharpQuotes.filter((q: any) => typeof q === 'string' && q.trim()) : [];
       
-      const densityA = wordCountA > 0 ? (quotesA.length * 1000) / wordCountA : 0;
-      const densityB = wordCountB > 0 ? (quotesB.length * 1000) / wordCountB : 0;
+      const document = await storage.getDocument(parseInt(id));
       
-      const calculateScore = (density: number): number => {
-        if (density <= 1) return Math.round(density * 30);
-        if (density <= 3) return Math.round(30 + ((density - 1) / 2) * 35);
-        if (density <= 6) return Math.round(65 + ((density - 3) / 3) * 25);
-        return Math.min(100, Math.round(90 + ((density - 6) / 4) * 10));
-      };
-
-      const scoreA = calculateScore(densityA);
-      const scoreB = calculateScore(densityB);
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
       
-      let winner: string;
-      const densityDiff = Math.abs(densityA - densityB);
-      if (densityDiff <= 0.3) {
-        winner = "Essentially equal";
+      // Verify access; workspace viewers can't edit
+      if (!(await canAccess(user.id, document, "write"))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // Sharing moves the document into a workspace the user can add to. Editors
+      // can't carry a colleague's shared document off to another workspace: a
+      // move is for its creator or an owner of the workspace it is in. Taking it
+      // back out returns it to its creator, so only they may do that
+      if (workspaceId !== undefined && workspaceId !== document.workspaceId) {
+        const mayMove = document.userId === user.id ||
+          (document.workspaceId !== null && await workspaceRole(user.id, document.workspaceId) === "owner");
+        if (!mayMove) {
+          return res.status(403).json({ error: "Only the document's creator or a workspace owner can move it" });
+        }
+        const target = await targetWorkspace(user.id, workspaceId);
+        if (target === null && document.userId !== user.id) {
+          return res.status(403).json({ error: "Only the document's creator can take it out of the workspace" });
+        }
+        const duplicate = await storage.getDocumentByHash(document.userId, document.contentHash, target);
+        if (duplicate) {
+          return res.status(409).json({ error: "The same text is already saved there", document: duplicate });
+        }
+      }
+      
+      const updated = await storage.updateDocument(document.id, {
+        title: title !== undefined ? title.trim().slice(0, 500) : undefined,
+        author: author !== undefined ? (author?.trim().slice(0, 255) || null) : undefined,
+        workspaceId,
+      });
+      res.json({ document: updated });
+    } catch (error: any) {
+      console.error("Update document error:", error);
+      if (error instanceof WorkspaceError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ 
+        error: error.message || "Failed to update document" 
+      });
+    }
+  });
+
+  app.delete("/api/documents/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const document = await storage.getDocument(parseInt(id));
+      
+      if (!document) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      // Verify access; workspace viewers can't delete
+      if (!(await canAccess(user.id, document, "write"))) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // History entries stay; they just lose their link to the source text
+      await storage.deleteDocument(document.id);
+      res.json({ success: true, message: "Document deleted" });
+    } catch (error: any) {
+      console.error("Delete document error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to delete document" 
+      });
+    }
+  });
+
+  // Workspaces: teams that share stylometric authors, documents and history.
+  // Owners rename and delete them and manage members.
+  
+  app.get("/api/workspaces", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const workspaces = await storage.getUserWorkspaces(user.id);
+      res.json({ workspaces });
+    } catch (error: any) {
+      console.error("Get workspaces error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get workspaces" 
+      });
+    }
+  });
+
+  app.post("/api/workspaces", async (req, res) => {
+    try {
+      const { name } = req.body;
+
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      if (!name || typeof name !== "string" || !name.trim()) {
+        return res.status(400).json({ error: "'name' must be a non-empty string" });
+      }
+
+      const workspace = await storage.createWorkspace({ name: name.trim().slice(0, 100) }, user.id);
+      res.status(201).json({ workspace: { ...workspace, role: "owner" } });
+    } catch (error: any) {
+      console.error("Create workspace error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to create workspace" 
+      });
+    }
+  });
+
+  app.get("/api/workspaces/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const workspace = await storage.getWorkspace(parseInt(id));
+      
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      
+      // Verify membership
+      const role = await workspaceRole(user.id, workspace.id);
+      if (!role) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      res.json({ workspace: { ...workspace, role }, members });
+    } catch (error: any) {
+      console.error("Get workspace error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get workspace" 
+      });
+    }
+  });
+
+  app.patch("/api/workspaces/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { name } = req.body;
+      
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      if (!name || typeof name !== "string" || !name.trim()) {
+        return res.status(400).json({ error: "'name' must be a non-empty string" });
+      }
+      
+      const workspace = await storage.getWorkspace(parseInt(id));
+      
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      
+      // Verify ownership
+      if (await workspaceRole(user.id, workspace.id) !== "owner") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const updated = await storage.updateWorkspace(workspace.id, { name: name.trim().slice(0, 100) });
+      res.json({ workspace: { ...updated, role: "owner" } });
+    } catch (error: any) {
+      console.error("Update workspace error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to update workspace" 
+      });
+    }
+  });
+
+  app.delete("/api/workspaces/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const workspace = await storage.getWorkspace(parseInt(id));
+      
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      
+      // Verify ownership
+      if (await workspaceRole(user.id, workspace.id) !== "owner") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // Its authors, documents and history go back to whoever created them
+      await storage.deleteWorkspace(workspace.id);
+      res.json({ success: true, message: "Workspace deleted" });
+    } catch (error: any) {
+      console.error("Delete workspace error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to delete workspace" 
+      });
+    }
+  });
+
+  // Adds a member by username, or changes the role of an existing one
+  app.put("/api/workspaces/:id/members", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { username, role } = req.body;
+      
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      if (!username || typeof username !== "string") {
+        return res.status(400).json({ error: "'username' is required" });
+      }
+      
+      if (!WORKSPACE_ROLES.includes(role)) {
+        return res.status(400).json({ error: `'role' must be one of ${WORKSPACE_ROLES.join(", ")}` });
+      }
+      
+      const workspace = await storage.getWorkspace(parseInt(id));
+      
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      
+      // Verify ownership
+      if (await workspaceRole(user.id, workspace.id) !== "owner") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const member = await storage.getUserByUsername(username.trim().toLowerCase());
+      if (!member) {
+        return res.status(404).json({ error: "User not found" });
+      }
+      
+      if (role !== "owner" && await isLastOwner(workspace.id, member.id)) {
+        return res.status(400).json({ error: "A workspace needs at least one owner" });
+      }
+      
+      const saved = await storage.setWorkspaceMember({ workspaceId: workspace.id, userId: member.id, role: role as WorkspaceRole });
+      res.json({ member: { ...saved, username: member.username } });
+    } catch (error: any) {
+      console.error("Set workspace member error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to set workspace member" 
+      });
+    }
+  });
+
+  // Owners remove members; any member can remove themselves to leave
+  app.delete("/api/workspaces/:id/members/:userId", async (req, res) => {
+    try {
+      const { id, userId } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const workspace = await storage.getWorkspace(parseInt(id));
+      
+      if (!workspace) {
+        return res.status(404).json({ error: "Workspace not found" });
+      }
+      
+      // Verify ownership
+      const memberId = parseInt(userId);
+      if (memberId !== user.id && await workspaceRole(user.id, workspace.id) !== "owner") {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      if (await isLastOwner(workspace.id, memberId)) {
+        return res.status(400).json({ error: "A workspace needs at least one owner; delete it instead" });
+      }
+      
+      // What they added stays in the workspace
+      if (!(await storage.removeWorkspaceMember(workspace.id, memberId))) {
+        return res.status(404).json({ error: "Member not found" });
+      }
+      res.json({ success: true, message: "Member removed" });
+    } catch (error: any) {
+      console.error("Remove workspace member error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to remove workspace member" 
+      });
+    }
+  });
+
+  // The built-in prompt registry, read-only. Analysis prompts can be cloned
+  // into custom functions.
+  app.get("/api/prompts", async (_req, res) => {
+    res.json({ prompts: builtinPrompts(), variables: ANALYSIS_VARIABLES });
+  });
+
+  app.get("/api/prompt-templates", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const templates = await storage.getPromptTemplates(user.id);
+      res.json({ templates });
+    } catch (error: any) {
+      console.error("Get prompt templates error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get prompt templates" 
+      });
+    }
+  });
+
+  app.post("/api/prompt-templates", async (req, res) => {
+    try {
+      const { name, description, baseFunction, clonedFrom, template, output } = req.body;
+
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      if (name === undefined || baseFunction === undefined || template === undefined) {
+        return res.status(400).json({ error: "'name', 'baseFunction' and 'template' are required" });
+      }
+
+      const errors = validateTemplate({ name, baseFunction, template, output });
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors[0], issues: errors });
+      }
+
+      if (description !== undefined && description !== null && typeof description !== "string") {
+        return res.status(400).json({ error: "'description' must be a string or null" });
+      }
+
+      if (clonedFrom !== undefined && clonedFrom !== null && !builtinPrompts().some(p => p.id === clonedFrom)) {
+        return res.status(400).json({ error: "'clonedFrom' must name a built-in prompt" });
+      }
+
+      const created = await storage.createPromptTemplate({
+        userId: user.id,
+        name: name.trim().slice(0, 100),
+        description: description?.trim() || null,
+        baseFunction,
+        clonedFrom: clonedFrom || null,
+        template,
+        output: output || null,
+      });
+      res.status(201).json({ template: created });
+    } catch (error: any) {
+      console.error("Create prompt template error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to create prompt template" 
+      });
+    }
+  });
+
+  app.get("/api/prompt-templates/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const template = await storage.getPromptTemplate(parseInt(id));
+      
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      
+      // Verify ownership
+      if (template.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const versions = await storage.getPromptTemplateVersions(template.id);
+      res.json({ template, versions });
+    } catch (error: any) {
+      console.error("Get prompt template error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get prompt template" 
+      });
+    }
+  });
+
+  // A changed template text or output spec is saved as a new version; the base
+  // function is fixed
+  app.patch("/api/prompt-templates/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const { name, description, template, output } = req.body;
+      
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const errors = validateTemplate({ name, template, output });
+      if (errors.length > 0) {
+        return res.status(400).json({ error: errors[0], issues: errors });
+      }
+
+      if (description !== undefined && description !== null && typeof description !== "string") {
+        return res.status(400).json({ error: "'description' must be a string or null" });
+      }
+      
+      const existing = await storage.getPromptTemplate(parseInt(id));
+      
+      if (!existing) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      
+      // Verify ownership
+      if (existing.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (output !== undefined && existing.baseFunction !== CUSTOM_FUNCTION) {
+        return res.status(400).json({ error: `Only a '${CUSTOM_FUNCTION}' function can define its 'output'` });
+      }
+      
+      const updated = await storage.updatePromptTemplate(existing.id, {
+        name: name !== undefined ? name.trim().slice(0, 100) : undefined,
+        description: description !== undefined ? (description?.trim() || null) : undefined,
+        template,
+        output,
+      });
+      res.json({ template: updated });
+    } catch (error: any) {
+      console.error("Update prompt template error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to update prompt template" 
+      });
+    }
+  });
+
+  app.delete("/api/prompt-templates/:id", async (req, res) => {
+    try {
+      const { id } = req.params;
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+      
+      const template = await storage.getPromptTemplate(parseInt(id));
+      
+      if (!template) {
+        return res.status(404).json({ error: "Prompt template not found" });
+      }
+      
+      // Verify ownership
+      if (template.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      // History entries keep their "user:<id>" prompt reference
+      await storage.deletePromptTemplate(template.id);
+      res.json({ success: true, message: "Prompt template deleted" });
+    } catch (error: any) {
+      console.error("Delete prompt template error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to delete prompt template" 
+      });
+    }
+  });
+
+  app.post("/api/intelligence", async (req, res) => {
+    try {
+      const { text, documentId } = req.body;
+
+      if (!text || typeof text !== "string") {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'text' field in request body" 
+        });
+      }
+
+      const providerChain = parseProviderChain(req.body);
+      if (!providerChain) {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'provider' or 'providers' field in request body" 
+        });
+      }
+
+      const wordCount = text.split(/\s+/).filter(Boolean).length;
+      
+      const prompt = builtinPrompt("intelligence");
+
+      const { value: parsed, provider } = await withFailover(
+        providerChain,
+        p => callLLMJSON(p, renderPrompt(prompt, { text }), intelligenceSchema, { type: "intelligence", texts: [text] })
+      );
+      
+      const { quotes: sharpQuotes, locations: sharpQuoteLocations } = verifyQuotes(text, parsed.sharpQuotes.filter(q => q.trim()));
+      const density = wordCount > 0 ? (sharpQuotes.length * 1000) / wordCount : 0;
+      
+      let score: number;
+      if (density <= 1) {
+        score = Math.round(density * 30);
+      } else if (density <= 3) {
+        score = Math.round(30 + ((density - 1) / 2) * 35);
+      } else if (density <= 6) {
+        score = Math.round(65 + ((density - 3) / 3) * 25);
+      } else {
+        score = Math.min(100, Math.round(90 + ((density - 6) / 4) * 10));
+      }
+
+      const response = {
+        wordCount,
+        sharpQuotes,
+        sharpQuoteLocations,
+        quoteCount: sharpQuotes.length,
+        density: parseFloat(density.toFixed(2)),
+        score,
+        analysis: parsed.analysis
+      };
+
+      if (req.user) {
+        try {
+          const user = req.user;
+          const inputPreview = text.substring(0, 200) + (text.length > 200 ? "..." : "");
+          
+          await storage.createAnalysisHistory({
+            userId: user.id,
+            analysisType: "intelligence",
+            provider: provider,
+            inputPreview: inputPreview,
+            ...await documentForAnalysis(user.id, text, documentId),
+            promptId: prompt.id,
+            promptVersion: prompt.version,
+            outputData: response
+          });
+        } catch (saveError) {
+          console.error("Failed to save to history:", saveError);
+        }
+      }
+
+      res.json({ ...response, provider });
+    } catch (error: any) {
+      console.error("Intelligence analysis error:", error);
+      if (error instanceof LLMValidationError) {
+        return res.status(422).json({ error: error.message, code: error.code, issues: error.issues });
+      }
+      res.status(500).json({ 
+        error: error.message || "Intelligence analysis failed" 
+      });
+    }
+  });
+
+  app.post("/api/intelligence/compare", async (req, res) => {
+    try {
+      const { textA, textB } = req.body;
+
+      if (!textA || typeof textA !== "string" || !textB || typeof textB !== "string") {
+        return res.status(400).json({ 
+          error: "Missing or invalid text fields in request body" 
+        });
+      }
+
+      const providerChain = parseProviderChain(req.body);
+      if (!providerChain) {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'provider' or 'providers' field in request body" 
+        });
+      }
+
+      const wordCountA = textA.split(/\s+/).filter(Boolean).length;
+      const wordCountB = textB.split(/\s+/).filter(Boolean).length;
+      
+      const prompt = builtinPrompt("intelligence.compare");
+
+      const { value: parsed, provider } = await withFailover(
+        providerChain,
+        p => callLLMJSON(p, renderPrompt(prompt, { textA, textB }), intelligenceComparisonSchema, { type: "intelligence_compare", texts: [textA, textB] })
+      );
+      
+      const { quotes: quotesA, locations: locationsA } = verifyQuotes(textA, parsed.textA.sharpQuotes.filter(q => q.trim()));
+      const { quotes: quotesB, locations: locationsB } = verifyQuotes(textB, parsed.textB.sharpQuotes.filter(q => q.trim()));
+      
+      const densityA = wordCountA > 0 ? (quotesA.length * 1000) / wordCountA : 0;
+      const densityB = wordCountB > 0 ? (quotesB.length * 1000) / wordCountB : 0;
+      
+      const calculateScore = (density: number): number => {
+        if (density <= 1) return Math.round(density * 30);
+        if (density <= 3) return Math.round(30 + ((density - 1) / 2) * 35);
+        if (density <= 6) return Math.round(65 + ((density - 3) / 3) * 25);
+        return Math.min(100, Math.round(90 + ((density - 6) / 4) * 10));
+      };
+
+      const scoreA = calculateScore(densityA);
+      const scoreB = calculateScore(densityB);
+      
+      let winner: string;
+      const densityDiff = Math.abs(densityA - densityB);
+      if (densityDiff <= 0.3) {
+        winner = "Essentially equal";
       } else if (densityA > densityB) {
         winner = "Text A is sharper";
       } else {
@@ -1018,31 +1501,28 @@ Respond with valid JSON only:
         textA: {
           wordCount: wordCountA,
           sharpQuotes: quotesA,
+          sharpQuoteLocations: locationsA,
           quoteCount: quotesA.length,
           density: parseFloat(densityA.toFixed(2)),
           score: scoreA,
-          analysis: parsed.textA?.analysis || ""
+          analysis: parsed.textA.analysis
         },
         textB: {
           wordCount: wordCountB,
           sharpQuotes: quotesB,
+          sharpQuoteLocations: locationsB,
           quoteCount: quotesB.length,
           density: parseFloat(densityB.toFixed(2)),
           score: scoreB,
-          analysis: parsed.textB?.analysis || ""
+          analysis: parsed.textB.analysis
         },
         winner,
-        verdict: parsed.verdict || ""
+        verdict: parsed.verdict
       };
 
-      if (username && typeof username === "string" && username.trim().length >= 2) {
+      if (req.user) {
         try {
-          const cleanUsername = username.trim().toLowerCase();
-          let user = await storage.getUserByUsername(cleanUsername);
-          if (!user) {
-            user = await storage.createUser({ username: cleanUsername });
-          }
-          
+          const user = req.user;
           const inputPreview = `Text A: ${textA.substring(0, 100)}... vs Text B: ${textB.substring(0, 100)}...`;
           
           await storage.createAnalysisHistory({
@@ -1050,6 +1530,8 @@ Respond with valid JSON only:
             analysisType: "intelligence_compare",
             provider: provider,
             inputPreview: inputPreview,
+            promptId: prompt.id,
+            promptVersion: prompt.version,
             outputData: response
           });
         } catch (saveError) {
@@ -1057,15 +1539,274 @@ Respond with valid JSON only:
         }
       }
 
-      res.json(response);
+      res.json({ ...response, provider });
     } catch (error: any) {
       console.error("Intelligence comparison error:", error);
+      if (error instanceof LLMValidationError) {
+        return res.status(422).json({ error: error.message, code: error.code, issues: error.issues });
+      }
       res.status(500).json({ 
         error: error.message || "Intelligence comparison failed" 
       });
     }
   });
 
+  // Drops cached results matching every given filter: the text (or its hash),
+  // the function type and the provider. The cache is shared by all users, so
+  // a user may only clear entries for texts of their own documents and jobs;
+  // clearing a whole provider or function type is left to CACHE_ADMINS.
+  app.delete("/api/cache", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const { text, textHash, functionType, provider } = req.body || {};
+      const filter = {
+        textHash: typeof text === "string" && text ? sha256(text) : (typeof textHash === "string" ? textHash : undefined),
+        functionType: typeof functionType === "string" ? functionType : undefined,
+        provider: typeof provider === "string" ? provider : undefined,
+      };
+
+      if (!filter.textHash && !filter.functionType && !filter.provider) {
+        return res.status(400).json({ error: "Give at least one of 'text', 'textHash', 'functionType' or 'provider'" });
+      }
+
+      if (!filter.textHash) {
+        if (!CACHE_ADMINS.includes(user.username)) {
+          return res.status(403).json({ error: "Only cache administrators can clear a whole provider or function type; give 'text' or 'textHash'" });
+        }
+      } else if (!CACHE_ADMINS.includes(user.username) && !await ownsTextHash(user.id, filter.textHash)) {
+        return res.status(404).json({ error: "None of your documents or jobs has this text" });
+      }
+
+      const removed = await invalidateCache(filter);
+      res.json({ removed });
+    } catch (error: any) {
+      console.error("Cache invalidation error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to clear cache" 
+      });
+    }
+  });
+
+  // The file is the raw request body so binary formats arrive intact
+  app.post("/api/ingest", express.raw({ type: () => true, limit: "50mb" }), async (req, res) => {
+    try {
+      const filename = req.query.filename;
+
+      if (!filename || typeof filename !== "string") {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'filename' query parameter" 
+        });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ error: "The uploaded file is empty" });
+      }
+
+      const document = await ingestDocument(req.body, filename);
+      if (!document.text.trim()) {
+        return res.status(422).json({ error: `No text could be extracted from ${filename}` });
+      }
+
+      res.json({ document });
+    } catch (error: any) {
+      console.error("Ingest error:", error);
+      if (error instanceof UnsupportedFormatError) {
+        return res.status(415).json({ error: error.message });
+      }
+      if (error instanceof UnreadableFileError) {
+        return res.status(422).json({ error: error.message });
+      }
+      res.status(500).json({ 
+        error: error.message || "Failed to read file" 
+      });
+    }
+  });
+
+  app.post("/api/jobs", async (req, res) => {
+    try {
+      const { text, chunkIds, chunking, synthesize, templateId } = req.body;
+
+      if (!text || typeof text !== "string") {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'text' field in request body" 
+        });
+      }
+
+      const providerChain = parseProviderChain(req.body);
+      if (!providerChain) {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'provider' or 'providers' field in request body" 
+        });
+      }
+
+      if (!req.body.functionType || typeof req.body.functionType !== "string") {
+        return res.status(400).json({ 
+          error: "Missing or invalid 'functionType' field in request body" 
+        });
+      }
+
+      if (chunkIds !== undefined && (!Array.isArray(chunkIds) || !chunkIds.every((id: unknown) => Number.isInteger(id)))) {
+        return res.status(400).json({ error: "'chunkIds' must be an array of chunk numbers" });
+      }
+
+      if (chunking !== undefined && (
+        typeof chunking !== "object" || chunking === null ||
+        ![chunking.targetWords, chunking.overlapWords].every(value => value === undefined || Number.isInteger(value))
+      )) {
+        return res.status(400).json({ error: "'chunking' must be { targetWords?, overlapWords? } in words" });
+      }
+
+      if (synthesize !== undefined && typeof synthesize !== "boolean") {
+        return res.status(400).json({ error: "'synthesize' must be a boolean" });
+      }
+
+      // Job ids are sequential, so a job is only reachable by its owner's session
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const { functionType, prompt } = await resolveAnalysisPrompt(user, req.body.functionType, templateId);
+      const { documentId } = await documentForAnalysis(user.id, text, req.body.documentId);
+      const job = await createJob({ userId: user.id, documentId, text, functionType, prompt, providers: providerChain, chunkIds, chunking, synthesize });
+      res.status(202).json({ job });
+    } catch (error: any) {
+      console.error("Create job error:", error);
+      if (error instanceof PromptTemplateError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      res.status(500).json({ 
+        error: error.message || "Failed to create job" 
+      });
+    }
+  });
+
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const { textHash } = req.query;
+
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const jobs = textHash && typeof textHash === "string"
+        ? await storage.getAnalysisJobsByTextHash(user.id, textHash)
+        : await storage.getAnalysisJobs(user.id);
+      // The combined result can be large; fetch a single job for it
+      res.json({ jobs: jobs.map(({ result, ...job }) => job) });
+    } catch (error: any) {
+      console.error("Get jobs error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get jobs" 
+      });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const job = await storage.getAnalysisJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Verify ownership
+      if (job.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      const chunks = await storage.getAnalysisJobChunks(job.id);
+      res.json({ 
+        job, 
+        chunks: chunks.map(({ text, ...chunk }) => chunk) 
+      });
+    } catch (error: any) {
+      console.error("Get job error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to get job" 
+      });
+    }
+  });
+
+  app.post("/api/jobs/:id/cancel", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const job = await storage.getAnalysisJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Verify ownership
+      if (job.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (job.status !== "queued" && job.status !== "running") {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
+
+      const cancelled = await cancelJob(job.id);
+      res.json({ job: cancelled });
+    } catch (error: any) {
+      console.error("Cancel job error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to cancel job" 
+      });
+    }
+  });
+
+  app.post("/api/jobs/:id/resume", async (req, res) => {
+    try {
+      const user = req.user;
+      if (!user) {
+        return res.status(401).json({ error: "Login required" });
+      }
+
+      const job = await storage.getAnalysisJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+
+      // Verify ownership
+      if (job.userId !== user.id) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+
+      if (job.status !== "failed" && job.status !== "cancelled") {
+        return res.status(409).json({ error: `Only failed or cancelled jobs can be resumed (job is ${job.status})` });
+      }
+
+      // A cancelled job finishes its in-flight chunk before it actually stops
+      if (isJobActive(job.id)) {
+        return res.status(409).json({ error: "Job is still stopping; try again in a moment" });
+      }
+
+      const resumed = await resumeJob(job.id);
+      res.json({ job: resumed });
+    } catch (error: any) {
+      console.error("Resume job error:", error);
+      res.status(500).json({ 
+        error: error.message || "Failed to resume job" 
+      });
+    }
+  });
+
+  resumeJobs().catch(error => console.error("Failed to resume analysis jobs:", error));
+  purgeExpiredCache().catch(error => console.error("Failed to purge the LLM cache:", error));
+
   const httpServer = createServer(app);
 
   return httpServer;
@@ -0,0 +1,176 @@
+import { z } from "zod";
+import { renderOutput, type CustomData, type OutputField, type OutputSpec } from "@shared/functions";
+import { ARGUMENT_EDGE_TYPES, ARGUMENT_NODE_TYPES } from "@shared/argumentMap";
+
+// Shapes the model is asked to return. Each analysis function shares the
+// AnalysisResult envelope but must actually fill in its own field.
+
+const annotatedQuoteSchema = z.object({
+  quote: z.string().min(1),
+  context: z.string(),
+});
+
+const viewSchema = z.object({
+  view: z.string().min(1),
+  evidence: z.array(z.string()),
+});
+
+// Models sometimes number their node ids
+const nodeIdSchema = z.union([z.string().trim().min(1), z.number()]).transform(String);
+
+const argumentMapSchema = z.object({
+  nodes: z.array(z.object({
+    id: nodeIdSchema,
+    type: lowercaseEnum([...ARGUMENT_NODE_TYPES]),
+    text: z.string().trim().min(1),
+    evidence: z.array(z.string()).default([]),
+  })).min(1),
+  edges: z.array(z.object({
+    from: nodeIdSchema,
+    to: nodeIdSchema,
+    type: lowercaseEnum([...ARGUMENT_EDGE_TYPES]),
+    evidence: z.array(z.string()).default([]),
+  })).default([]),
+}).superRefine((map, ctx) => {
+  const ids = new Set(map.nodes.map(node => node.id));
+  if (ids.size < map.nodes.length) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["nodes"], message: "Node ids must be unique" });
+  }
+  map.edges.forEach((edge, i) => {
+    for (const end of ["from", "to"] as const) {
+      if (!ids.has(edge[end])) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["edges", i, end], message: `No node has id '${edge[end]}'` });
+      }
+    }
+  });
+});
+
+const analysisResultSchema = z.object({
+  quotes: z.array(z.string()).default([]),
+  annotatedQuotes: z.array(annotatedQuoteSchema).default([]),
+  summary: z.string().default(""),
+  database: z.string().default(""),
+  analyzer: z.string().default(""),
+  views: z.array(viewSchema).default([]),
+  argumentMap: argumentMapSchema.optional(),
+});
+
+const analysisSchemas = {
+  quotes: analysisResultSchema.extend({
+    quotes: z.array(z.string().trim().min(1)).min(1),
+  }),
+  context: analysisResultSchema.extend({
+    annotatedQuotes: z.array(annotatedQuoteSchema).min(1),
+  }),
+  rewrite: analysisResultSchema.extend({
+    summary: z.string().trim().min(1),
+  }),
+  database: analysisResultSchema.extend({
+    database: z.string().trim().min(1),
+  }),
+  analyzer: analysisResultSchema.extend({
+    analyzer: z.string().trim().min(1),
+  }),
+  views: analysisResultSchema.extend({
+    views: z.array(viewSchema).min(1),
+  }),
+  arguments: analysisResultSchema.extend({
+    argumentMap: argumentMapSchema,
+  }),
+};
+
+export type ValidatedAnalysis = z.infer<typeof analysisResultSchema>;
+
+export function getAnalysisSchema(functionType: string): z.ZodType<ValidatedAnalysis, z.ZodTypeDef, unknown> {
+  return analysisSchemas[functionType as keyof typeof analysisSchemas] || analysisSchemas.quotes;
+}
+
+// A custom function's output is whatever its spec declares. It travels in the
+// AnalysisResult envelope with the built-in fields left empty.
+function customFieldSchema(field: OutputField): z.ZodTypeAny {
+  switch (field.kind) {
+    case "text":
+      return z.string().default("");
+    case "list":
+      return z.array(z.string()).default([]);
+    case "records":
+      return z.array(z.object(Object.fromEntries(
+        field.properties!.map(p => [p, z.string().default("")])
+      ))).default([]);
+  }
+}
+
+export type CustomAnalysis = ValidatedAnalysis & { custom: { data: CustomData; display: string } };
+
+export function getCustomAnalysisSchema(spec: OutputSpec): z.ZodType<CustomAnalysis, z.ZodTypeDef, unknown> {
+  const shape = Object.fromEntries(spec.fields.map(field => [field.name, customFieldSchema(field)]));
+  return z.object(shape)
+    .refine(
+      data => Object.values(data).some(value => value.length > 0),
+      { message: `Fill in at least one of ${spec.fields.map(f => `'${f.name}'`).join(", ")}` }
+    )
+    .transform(data => ({
+      ...analysisResultSchema.parse({}),
+      custom: { data: data as CustomData, display: renderOutput(spec, data as CustomData) },
+    }));
+}
+
+// Models are inconsistent about casing in enum-like answers
+function lowercaseEnum<T extends [string, ...string[]]>(values: T) {
+  return z.preprocess(
+    value => (typeof value === "string" ? value.trim().toLowerCase() : value),
+    z.enum(values)
+  );
+}
+
+const clusteringSchema = z.object({
+  veryCloseTo: z.array(z.string()).default([]),
+  moderatelyCloseTo: z.array(z.string()).default([]),
+  farFrom: z.array(z.string()).default([]),
+});
+
+// Fields the report formatters rely on are required; anything else the prompt
+// asks for (secondaryMatch, farFrom, ...) is passed through untouched.
+export const stylometricSchema = z.object({
+  metaphorDensity: lowercaseEnum(["none", "low", "moderate", "high"]),
+  anecdoteFrequency: lowercaseEnum(["none", "rare", "occasional", "frequent"]),
+  classification: z.string().optional(),
+  signaturePhrases: z.array(z.string()).default([]),
+  negativeMarkers: z.array(z.string()).default([]),
+  sampleSentences: z.array(z.object({ text: z.string(), source: z.string().optional() })).default([]),
+  representativeQuote: z.string().optional(),
+  quoteAnalysis: z.string().optional(),
+  closestAuthorMatch: z.string().min(1),
+  matchExplanation: z.string().default(""),
+  psychologicalProfile: z.record(z.string()).default({}),
+  narrativeSummary: z.string().min(1),
+  clustering: clusteringSchema.default({}),
+}).passthrough();
+
+export const stylometricComparisonSchema = z.object({
+  textA: stylometricSchema,
+  textB: stylometricSchema,
+  comparison: z.object({
+    keyDivergences: z.array(z.object({
+      feature: z.string(),
+      textA: z.string(),
+      textB: z.string(),
+      analysis: z.string(),
+    })).default([]),
+    sameRoomScenario: z.string().default(""),
+    collaborativePotential: z.string().default(""),
+  }).passthrough(),
+  verdict: z.string().min(1),
+});
+
+export const intelligenceSchema = z.object({
+  // An empty list is a legitimate answer for bland text
+  sharpQuotes: z.array(z.string()),
+  analysis: z.string().default(""),
+});
+
+export const intelligenceComparisonSchema = z.object({
+  textA: intelligenceSchema,
+  textB: intelligenceSchema,
+  verdict: z.string().default(""),
+});
@@ -0,0 +1,552 @@
+import { mkdirSync } from "fs";
+import path from "path";
+import Sqlite from "better-sqlite3";
+import { drizzle } from "drizzle-orm/better-sqlite3";
+import { migrate } from "drizzle-orm/better-sqlite3/migrator";
+import { eq, and, or, desc, asc, inArray, isNull, lt, gte, type SQL } from "drizzle-orm";
+import session from "express-session";
+import {
+  type User,
+  type InsertUser,
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMemberWithUser,
+  type WorkspaceWithRole,
+  type StylometricAuthor,
+  type InsertStylometricAuthor,
+  type SavedDocument,
+  type SavedDocumentSummary,
+  type InsertSavedDocument,
+  type UserPromptTemplate,
+  type InsertUserPromptTemplate,
+  type PromptTemplateVersion,
+  type AnalysisHistory,
+  type InsertAnalysisHistory,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type AnalysisJobChunk,
+  type InsertAnalysisJobChunk,
+  type LlmCacheEntry,
+  type InsertLlmCacheEntry,
+} from "@shared/schema";
+import * as schema from "@shared/sqliteSchema";
+import {
+  users,
+  workspaces,
+  workspaceMembers,
+  stylometricAuthors,
+  documents,
+  promptTemplates,
+  promptTemplateVersions,
+  analysisHistory,
+  analysisJobs,
+  analysisJobChunks,
+  llmCache,
+  sessions,
+} from "@shared/sqliteSchema";
+import type { IStorage } from "./storage";
+
+// Storage in a single SQLite file, for running on one machine without a
+// database server. The schema is brought up to date from migrations/sqlite
+// on start; generate a new migration with `npm run db:generate:sqlite`.
+
+// server/ in development and dist/ in production are both one level down
+const MIGRATIONS_FOLDER = path.resolve(import.meta.dirname, "..", "migrations", "sqlite");
+const DEFAULT_SESSION_MS = 24 * 60 * 60 * 1000;
+
+type SqliteDatabase = ReturnType<typeof drizzle<typeof schema>>;
+
+// The same workspace scopes as DatabaseStorage in storage.ts
+function visibleTo(table: typeof stylometricAuthors | typeof documents | typeof analysisHistory, userId: number, workspaceIds: number[]): SQL {
+  return or(
+    and(eq(table.userId, userId), isNull(table.workspaceId)),
+    workspaceIds.length > 0 ? inArray(table.workspaceId, workspaceIds) : undefined,
+  )!;
+}
+
+function inScope(table: typeof stylometricAuthors | typeof documents, userId: number, workspaceId: number | null): SQL {
+  return workspaceId === null
+    ? and(eq(table.userId, userId), isNull(table.workspaceId))!
+    : eq(table.workspaceId, workspaceId);
+}
+
+// Sessions live in the same file, so a restart doesn't log anyone out
+class SqliteSessionStore extends session.Store {
+  constructor(private db: SqliteDatabase) {
+    super();
+    this.db.delete(sessions).where(lt(sessions.expire, new Date())).run();
+  }
+
+  private expiry(sess: session.SessionData): Date {
+    return sess.cookie?.expires ? new Date(sess.cookie.expires) : new Date(Date.now() + DEFAULT_SESSION_MS);
+  }
+
+  get(sid: string, callback: (err: any, session?: session.SessionData | null) => void) {
+    try {
+      const row = this.db.select().from(sessions)
+        .where(and(eq(sessions.sid, sid), gte(sessions.expire, new Date())))
+        .get();
+      callback(null, row ? row.sess as session.SessionData : null);
+    } catch (error) {
+      callback(error);
+    }
+  }
+
+  set(sid: string, sess: session.SessionData, callback?: (err?: any) => void) {
+    try {
+      const expire = this.expiry(sess);
+      this.db.insert(sessions)
+        .values({ sid, sess, expire })
+        .onConflictDoUpdate({ target: sessions.sid, set: { sess, expire } })
+        .run();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  destroy(sid: string, callback?: (err?: any) => void) {
+    try {
+      this.db.delete(sessions).where(eq(sessions.sid, sid)).run();
+      callback?.();
+    } catch (error) {
+      callback?.(error);
+    }
+  }
+
+  touch(sid: string, sess: session.SessionData, callback?: () => void) {
+    this.db.update(sessions).set({ expire: this.expiry(sess) }).where(eq(sessions.sid, sid)).run();
+    callback?.();
+  }
+}
+
+export class SqliteStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: SqliteDatabase;
+
+  constructor(filename: string) {
+    mkdirSync(path.dirname(path.resolve(filename)), { recursive: true });
+    const sqlite = new Sqlite(filename);
+    sqlite.pragma("journal_mode = WAL");
+    // Migrations that change a constraint rebuild the table. The migrator runs
+    // them in a transaction, where SQLite ignores their own foreign_keys=OFF,
+    // so dropping the old table would cascade to the rows that point at it
+    sqlite.pragma("foreign_keys = OFF");
+    this.db = drizzle(sqlite, { schema });
+    migrate(this.db, { migrationsFolder: MIGRATIONS_FOLDER });
+    sqlite.pragma("foreign_keys = ON");
+    this.sessionStore = new SqliteSessionStore(this.db);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async claimUser(id: number, passwordHash: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ passwordHash })
+      .where(and(eq(users.id, id), isNull(users.passwordHash)))
+      .returning();
+    return user;
+  }
+
+  async createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    return this.db.transaction((tx) => {
+      const created = tx.insert(workspaces).values(workspace).returning().get();
+      tx.insert(workspaceMembers).values({ workspaceId: created.id, userId: ownerId, role: "owner" }).run();
+      return created;
+    });
+  }
+
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+
+  async getUserWorkspaces(userId: number): Promise<WorkspaceWithRole[]> {
+    const rows = await this.db.select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+
+  async updateWorkspace(id: number, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const [updated] = await this.db.update(workspaces)
+      .set({ ...workspace, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteWorkspace(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(workspaces).where(eq(workspaces.id, id)).returning({ id: workspaces.id });
+    return deleted.length > 0;
+  }
+
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await this.db.select({ member: workspaceMembers, username: users.username })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(users.username));
+    return rows.map(row => ({ ...row.member, username: row.username }));
+  }
+
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db.select().from(workspaceMembers).where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    );
+    return member;
+  }
+
+  async setWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [saved] = await this.db.insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return saved;
+  }
+
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+
+  async getStylometricAuthors(userId: number, workspaceIds: number[] = []): Promise<StylometricAuthor[]> {
+    return await this.db.select().from(stylometricAuthors).where(visibleTo(stylometricAuthors, userId, workspaceIds));
+  }
+
+  async getStylometricAuthor(id: number): Promise<StylometricAuthor | undefined> {
+    const [author] = await this.db.select().from(stylometricAuthors).where(eq(stylometricAuthors.id, id));
+    return author;
+  }
+
+  async getStylometricAuthorByName(userId: number, authorName: string, workspaceId: number | null = null): Promise<StylometricAuthor | undefined> {
+    const [author] = await this.db.select().from(stylometricAuthors).where(
+      and(
+        inScope(stylometricAuthors, userId, workspaceId),
+        eq(stylometricAuthors.authorName, authorName)
+      )
+    );
+    return author;
+  }
+
+  async createStylometricAuthor(author: InsertStylometricAuthor): Promise<StylometricAuthor> {
+    const [created] = await this.db.insert(stylometricAuthors).values(author).returning();
+    return created;
+  }
+
+  async updateStylometricAuthor(id: number, author: Partial<InsertStylometricAuthor>): Promise<StylometricAuthor | undefined> {
+    const [updated] = await this.db.update(stylometricAuthors)
+      .set({ ...author, updatedAt: new Date() })
+      .where(eq(stylometricAuthors.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteStylometricAuthor(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(stylometricAuthors).where(eq(stylometricAuthors.id, id)).returning({ id: stylometricAuthors.id });
+    return deleted.length > 0;
+  }
+
+  async getDocuments(userId: number, workspaceIds: number[] = []): Promise<SavedDocumentSummary[]> {
+    return await this.db.select({
+      id: documents.id,
+      userId: documents.userId,
+      workspaceId: documents.workspaceId,
+      title: documents.title,
+      author: documents.author,
+      contentHash: documents.contentHash,
+      wordCount: documents.wordCount,
+      format: documents.format,
+      createdAt: documents.createdAt,
+      updatedAt: documents.updatedAt,
+    })
+      .from(documents)
+      .where(visibleTo(documents, userId, workspaceIds))
+      .orderBy(desc(documents.updatedAt));
+  }
+
+  async getDocument(id: number): Promise<SavedDocument | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+
+  async getDocumentByHash(userId: number, contentHash: string, workspaceId: number | null = null): Promise<SavedDocument | undefined> {
+    const [document] = await this.db.select().from(documents).where(
+      and(
+        inScope(documents, userId, workspaceId),
+        eq(documents.contentHash, contentHash)
+      )
+    );
+    return document;
+  }
+
+  async createDocument(document: InsertSavedDocument): Promise<SavedDocument> {
+    const [created] = await this.db.insert(documents).values(document).returning();
+    return created;
+  }
+
+  async updateDocument(id: number, document: Partial<InsertSavedDocument>): Promise<SavedDocument | undefined> {
+    const [updated] = await this.db.update(documents)
+      .set({ ...document, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteDocument(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+
+  async getPromptTemplates(userId: number): Promise<UserPromptTemplate[]> {
+    return await this.db.select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.userId, userId))
+      .orderBy(asc(promptTemplates.name));
+  }
+
+  async getPromptTemplate(id: number): Promise<UserPromptTemplate | undefined> {
+    const [template] = await this.db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template;
+  }
+
+  async getPromptTemplateVersions(templateId: number): Promise<PromptTemplateVersion[]> {
+    return await this.db.select()
+      .from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, templateId))
+      .orderBy(desc(promptTemplateVersions.version));
+  }
+
+  async getPromptTemplateVersion(templateId: number, version: number): Promise<PromptTemplateVersion | undefined> {
+    const [found] = await this.db.select().from(promptTemplateVersions).where(
+      and(
+        eq(promptTemplateVersions.templateId, templateId),
+        eq(promptTemplateVersions.version, version)
+      )
+    );
+    return found;
+  }
+
+  // better-sqlite3 transactions are synchronous, hence .get() and .run() below
+  async createPromptTemplate(template: InsertUserPromptTemplate): Promise<UserPromptTemplate> {
+    return this.db.transaction((tx) => {
+      const created = tx.insert(promptTemplates).values(template).returning().get();
+      tx.insert(promptTemplateVersions).values({
+        templateId: created.id,
+        version: created.version,
+        template: created.template,
+        output: created.output,
+      }).run();
+      return created;
+    });
+  }
+
+  // A changed template text or output spec becomes the next version; renames keep the version
+  async updatePromptTemplate(id: number, template: Partial<InsertUserPromptTemplate>): Promise<UserPromptTemplate | undefined> {
+    return this.db.transaction((tx) => {
+      const current = tx.select().from(promptTemplates).where(eq(promptTemplates.id, id)).get();
+      if (!current) return undefined;
+
+      const changed = (template.template !== undefined && template.template !== current.template)
+        || (template.output !== undefined && JSON.stringify(template.output) !== JSON.stringify(current.output));
+      const updated = tx.update(promptTemplates)
+        .set({ ...template, version: changed ? current.version + 1 : current.version, updatedAt: new Date() })
+        .where(eq(promptTemplates.id, id))
+        .returning()
+        .get();
+      if (changed) {
+        tx.insert(promptTemplateVersions).values({
+          templateId: id,
+          version: updated.version,
+          template: updated.template,
+          output: updated.output,
+        }).run();
+      }
+      return updated;
+    });
+  }
+
+  async deletePromptTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(promptTemplates).where(eq(promptTemplates.id, id)).returning({ id: promptTemplates.id });
+    return deleted.length > 0;
+  }
+
+  async createAnalysisHistory(history: InsertAnalysisHistory): Promise<AnalysisHistory> {
+    const [created] = await this.db.insert(analysisHistory).values(history).returning();
+    return created;
+  }
+
+  async getAnalysisHistory(userId: number, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return await this.db.select()
+      .from(analysisHistory)
+      .where(visibleTo(analysisHistory, userId, workspaceIds))
+      .orderBy(desc(analysisHistory.createdAt));
+  }
+
+  async getAnalysisHistoryByType(userId: number, analysisType: string, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return await this.db.select()
+      .from(analysisHistory)
+      .where(and(
+        visibleTo(analysisHistory, userId, workspaceIds),
+        eq(analysisHistory.analysisType, analysisType)
+      ))
+      .orderBy(desc(analysisHistory.createdAt));
+  }
+
+  async getAnalysisHistoryItem(id: number): Promise<AnalysisHistory | undefined> {
+    const [item] = await this.db.select().from(analysisHistory).where(eq(analysisHistory.id, id));
+    return item;
+  }
+
+  async getAnalysisHistoryByDocument(documentId: number): Promise<AnalysisHistory[]> {
+    return await this.db.select()
+      .from(analysisHistory)
+      .where(eq(analysisHistory.documentId, documentId))
+      .orderBy(desc(analysisHistory.createdAt));
+  }
+
+  async updateAnalysisHistory(id: number, history: Partial<InsertAnalysisHistory>): Promise<AnalysisHistory | undefined> {
+    const [updated] = await this.db.update(analysisHistory)
+      .set(history)
+      .where(eq(analysisHistory.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteAnalysisHistoryItem(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(analysisHistory).where(eq(analysisHistory.id, id)).returning({ id: analysisHistory.id });
+    return deleted.length > 0;
+  }
+
+  async createAnalysisJob(job: InsertAnalysisJob, chunks: Omit<InsertAnalysisJobChunk, "jobId">[]): Promise<AnalysisJob> {
+    return this.db.transaction((tx) => {
+      const created = tx.insert(analysisJobs).values(job).returning().get();
+      if (chunks.length > 0) {
+        tx.insert(analysisJobChunks).values(chunks.map(chunk => ({ ...chunk, jobId: created.id }))).run();
+      }
+      return created;
+    });
+  }
+
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+
+  async getAnalysisJobs(userId: number): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.userId, userId))
+      .orderBy(desc(analysisJobs.createdAt));
+  }
+
+  async getAnalysisJobsByTextHash(userId: number, textHash: string): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(and(
+        eq(analysisJobs.userId, userId),
+        eq(analysisJobs.textHash, textHash)
+      ))
+      .orderBy(desc(analysisJobs.createdAt));
+  }
+
+  async getAnalysisJobsByStatus(statuses: string[]): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(inArray(analysisJobs.status, statuses))
+      .orderBy(asc(analysisJobs.createdAt));
+  }
+
+  async updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [updated] = await this.db.update(analysisJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return updated;
+  }
+
+  // Moves a job from queued to running only if nobody cancelled it in the meantime
+  async claimAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [claimed] = await this.db.update(analysisJobs)
+      .set({ status: "running", error: null, updatedAt: new Date() })
+      .where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, "queued")))
+      .returning();
+    return claimed;
+  }
+
+  async getAnalysisJobChunks(jobId: number): Promise<AnalysisJobChunk[]> {
+    return await this.db.select()
+      .from(analysisJobChunks)
+      .where(eq(analysisJobChunks.jobId, jobId))
+      .orderBy(asc(analysisJobChunks.chunkNumber));
+  }
+
+  async updateAnalysisJobChunk(id: number, chunk: Partial<InsertAnalysisJobChunk>): Promise<AnalysisJobChunk | undefined> {
+    const [updated] = await this.db.update(analysisJobChunks)
+      .set(chunk)
+      .where(eq(analysisJobChunks.id, id))
+      .returning();
+    return updated;
+  }
+
+  async getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(llmCache).where(eq(llmCache.key, key));
+    return entry;
+  }
+
+  async setLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<LlmCacheEntry> {
+    const [saved] = await this.db.insert(llmCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: llmCache.key,
+        set: { value: entry.value, createdAt: new Date(), expiresAt: entry.expiresAt },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteLlmCacheEntries(filter: Partial<Pick<LlmCacheEntry, "key" | "textHash" | "functionType" | "provider">>): Promise<number> {
+    const conditions: SQL[] = [];
+    if (filter.key) conditions.push(eq(llmCache.key, filter.key));
+    if (filter.textHash) conditions.push(eq(llmCache.textHash, filter.textHash));
+    if (filter.functionType) conditions.push(eq(llmCache.functionType, filter.functionType));
+    if (filter.provider) conditions.push(eq(llmCache.provider, filter.provider));
+
+    const deleted = await this.db.delete(llmCache)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .returning({ key: llmCache.key });
+    return deleted.length;
+  }
+
+  async deleteExpiredLlmCacheEntries(): Promise<number> {
+    const deleted = await this.db.delete(llmCache)
+      .where(lt(llmCache.expiresAt, new Date()))
+      .returning({ key: llmCache.key });
+    return deleted.length;
+  }
+}
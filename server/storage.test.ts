@@ -0,0 +1,460 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { getTableName, is } from "drizzle-orm";
+import { getTableConfig as getPgTableConfig, PgTable } from "drizzle-orm/pg-core";
+import { getTableConfig as getSqliteTableConfig, SQLiteTable } from "drizzle-orm/sqlite-core";
+import * as pgSchema from "@shared/schema";
+import * as sqliteSchema from "@shared/sqliteSchema";
+import { DatabaseStorage, MemStorage, type IStorage } from "./storage";
+import { SqliteStorage } from "./sqlite";
+
+// One contract for every IStorage backend, so that they cannot drift apart.
+// MemStorage and SqliteStorage always run; DatabaseStorage runs when
+// TEST_DATABASE_URL names a Postgres database with the schema pushed to it
+// (`DATABASE_URL=<url> npm run db:push`). Every test makes its own users, so
+// the suite can share a database that already holds data.
+
+const sqliteDir = mkdtempSync(path.join(tmpdir(), "storage-contract-"));
+afterAll(() => rmSync(sqliteDir, { recursive: true, force: true }));
+
+const backends: { name: string; enabled: boolean; open: () => IStorage }[] = [
+  { name: "MemStorage", enabled: true, open: () => new MemStorage() },
+  { name: "SqliteStorage", enabled: true, open: () => new SqliteStorage(path.join(sqliteDir, "contract.db")) },
+  {
+    name: "DatabaseStorage",
+    enabled: Boolean(process.env.TEST_DATABASE_URL),
+    open: () => new DatabaseStorage(process.env.TEST_DATABASE_URL!),
+  },
+];
+
+const run = Math.random().toString(36).slice(2, 8);
+let users = 0;
+
+describe.each(backends.filter(backend => backend.enabled))("$name", ({ open }) => {
+  let storage: IStorage;
+
+  beforeAll(() => {
+    storage = open();
+  });
+
+  const newUser = (passwordHash: string | null = "hash.salt") =>
+    storage.createUser({ username: `contract-${run}-${++users}`, passwordHash });
+
+  const newDocument = (userId: number, text: string, workspaceId: number | null = null) =>
+    storage.createDocument({ userId, workspaceId, title: text.slice(0, 20), text, contentHash: `hash-${run}-${text}`, wordCount: text.split(" ").length });
+
+  const newJob = (userId: number, textHash: string) =>
+    storage.createAnalysisJob(
+      { userId, functionType: "quotes", providers: ["mock"], textHash, totalChunks: 2 },
+      [
+        { chunkNumber: 2, startWord: 1000, endWord: 1999, startOffset: 6000, text: "second" },
+        { chunkNumber: 1, startWord: 0, endWord: 999, text: "first" },
+      ]
+    );
+
+  describe("users", () => {
+    it("creates and finds users", async () => {
+      const user = await newUser();
+
+      expect(user).toMatchObject({ id: expect.any(Number), passwordHash: "hash.salt" });
+      expect(await storage.getUser(user.id)).toEqual(user);
+      expect(await storage.getUserByUsername(user.username)).toEqual(user);
+      expect(await storage.getUser(-1)).toBeUndefined();
+    });
+
+    it("refuses a duplicate username", async () => {
+      const user = await newUser();
+
+      await expect(storage.createUser({ username: user.username })).rejects.toThrow();
+    });
+
+    it("claims a passwordless account only once", async () => {
+      const user = await newUser(null);
+
+      expect(user.passwordHash).toBeNull();
+      expect((await storage.claimUser(user.id, "first.hash"))?.passwordHash).toBe("first.hash");
+      expect(await storage.claimUser(user.id, "second.hash")).toBeUndefined();
+      expect((await storage.getUser(user.id))?.passwordHash).toBe("first.hash");
+    });
+  });
+
+  describe("workspaces", () => {
+    it("makes the creator the first owner", async () => {
+      const owner = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, owner.id);
+
+      expect(await storage.getWorkspace(workspace.id)).toEqual(workspace);
+      expect(await storage.getUserWorkspaces(owner.id)).toEqual([{ ...workspace, role: "owner" }]);
+      expect(await storage.getWorkspaceMember(workspace.id, owner.id)).toMatchObject({ role: "owner" });
+    });
+
+    it("adds, updates and removes members", async () => {
+      const owner = await newUser();
+      const member = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, owner.id);
+
+      const added = await storage.setWorkspaceMember({ workspaceId: workspace.id, userId: member.id, role: "viewer" });
+      const changed = await storage.setWorkspaceMember({ workspaceId: workspace.id, userId: member.id, role: "editor" });
+      expect(changed.id).toBe(added.id);
+      expect(changed.role).toBe("editor");
+
+      const members = await storage.getWorkspaceMembers(workspace.id);
+      expect(members.map(m => [m.username, m.role])).toEqual([[owner.username, "owner"], [member.username, "editor"]]);
+
+      expect(await storage.removeWorkspaceMember(workspace.id, member.id)).toBe(true);
+      expect(await storage.removeWorkspaceMember(workspace.id, member.id)).toBe(false);
+      expect(await storage.getUserWorkspaces(member.id)).toEqual([]);
+    });
+
+    it("lists a user's workspaces by name", async () => {
+      const user = await newUser();
+      const other = await newUser();
+      await storage.createWorkspace({ name: "Zebra" }, user.id);
+      const shared = await storage.createWorkspace({ name: "Aardvark" }, other.id);
+      await storage.setWorkspaceMember({ workspaceId: shared.id, userId: user.id, role: "viewer" });
+
+      expect((await storage.getUserWorkspaces(user.id)).map(w => [w.name, w.role])).toEqual([["Aardvark", "viewer"], ["Zebra", "owner"]]);
+    });
+
+    it("renames a workspace", async () => {
+      const owner = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Old" }, owner.id);
+
+      expect((await storage.updateWorkspace(workspace.id, { name: "New" }))?.name).toBe("New");
+      expect(await storage.updateWorkspace(-1, { name: "Nothing" })).toBeUndefined();
+    });
+
+    it("hands items back to their creators when deleted", async () => {
+      const owner = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Doomed" }, owner.id);
+      const author = await storage.createStylometricAuthor({ userId: owner.id, workspaceId: workspace.id, authorName: "Shared" });
+      const document = await newDocument(owner.id, "shared words", workspace.id);
+      const history = await storage.createAnalysisHistory({ userId: owner.id, workspaceId: workspace.id, analysisType: "quotes" });
+
+      expect(await storage.deleteWorkspace(workspace.id)).toBe(true);
+      expect(await storage.deleteWorkspace(workspace.id)).toBe(false);
+      expect(await storage.getWorkspace(workspace.id)).toBeUndefined();
+      expect(await storage.getWorkspaceMembers(workspace.id)).toEqual([]);
+      expect((await storage.getStylometricAuthor(author.id))?.workspaceId).toBeNull();
+      expect((await storage.getDocument(document.id))?.workspaceId).toBeNull();
+      expect((await storage.getAnalysisHistoryItem(history.id))?.workspaceId).toBeNull();
+    });
+  });
+
+  describe("stylometric authors", () => {
+    it("creates, updates and deletes authors", async () => {
+      const user = await newUser();
+      const author = await storage.createStylometricAuthor({
+        userId: user.id,
+        authorName: "Woolf",
+        wordCount: 812,
+        verticalityScore: "0.420",
+        rawFeatures: { avgSentenceLength: 21.5 },
+      });
+
+      expect(author).toMatchObject({ workspaceId: null, sourceTitle: null, verticalityScore: "0.420", rawFeatures: { avgSentenceLength: 21.5 } });
+      expect(await storage.getStylometricAuthor(author.id)).toEqual(author);
+
+      const updated = await storage.updateStylometricAuthor(author.id, { sourceTitle: "The Waves" });
+      expect(updated).toMatchObject({ authorName: "Woolf", sourceTitle: "The Waves", wordCount: 812 });
+
+      expect(await storage.deleteStylometricAuthor(author.id)).toBe(true);
+      expect(await storage.deleteStylometricAuthor(author.id)).toBe(false);
+      expect(await storage.getStylometricAuthor(author.id)).toBeUndefined();
+    });
+
+    it("lists own authors and those of the given workspaces", async () => {
+      const user = await newUser();
+      const other = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, other.id);
+      const own = await storage.createStylometricAuthor({ userId: user.id, authorName: "Mine" });
+      const shared = await storage.createStylometricAuthor({ userId: other.id, workspaceId: workspace.id, authorName: "Shared" });
+      await storage.createStylometricAuthor({ userId: other.id, authorName: "Theirs" });
+
+      expect((await storage.getStylometricAuthors(user.id)).map(a => a.id)).toEqual([own.id]);
+      expect((await storage.getStylometricAuthors(user.id, [workspace.id])).map(a => a.id).sort()).toEqual([own.id, shared.id].sort());
+    });
+
+    it("finds an author by name within one scope", async () => {
+      const user = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, user.id);
+      const own = await storage.createStylometricAuthor({ userId: user.id, authorName: "Twin" });
+      const shared = await storage.createStylometricAuthor({ userId: user.id, workspaceId: workspace.id, authorName: "Twin" });
+
+      expect((await storage.getStylometricAuthorByName(user.id, "Twin"))?.id).toBe(own.id);
+      expect((await storage.getStylometricAuthorByName(user.id, "Twin", workspace.id))?.id).toBe(shared.id);
+      expect(await storage.getStylometricAuthorByName(user.id, "Nobody")).toBeUndefined();
+    });
+  });
+
+  describe("documents", () => {
+    it("stores the text and its structure", async () => {
+      const user = await newUser();
+      const document = await storage.createDocument({
+        userId: user.id,
+        title: "Minutes",
+        text: "# Tuesday\n\nThe committee met.",
+        contentHash: `hash-${run}-structured`,
+        wordCount: 4,
+        format: "markdown",
+        sections: [{ title: "Tuesday", level: 1, start: 0, end: 29 }],
+      });
+
+      expect(document).toMatchObject({ workspaceId: null, author: null, pages: null, sections: [{ title: "Tuesday", level: 1, start: 0, end: 29 }] });
+      expect(await storage.getDocument(document.id)).toEqual(document);
+    });
+
+    it("lists summaries without the text", async () => {
+      const user = await newUser();
+      const first = await newDocument(user.id, "first text");
+      const second = await newDocument(user.id, "second text");
+
+      const listed = await storage.getDocuments(user.id);
+      expect(listed.map(d => d.id).sort()).toEqual([first.id, second.id].sort());
+      expect(listed[0]).not.toHaveProperty("text");
+      expect(listed[0]).not.toHaveProperty("sections");
+    });
+
+    it("finds a document by hash within one scope", async () => {
+      const user = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, user.id);
+      const own = await newDocument(user.id, "same words");
+      const shared = await newDocument(user.id, "same words", workspace.id);
+
+      expect((await storage.getDocumentByHash(user.id, own.contentHash))?.id).toBe(own.id);
+      expect((await storage.getDocumentByHash(user.id, own.contentHash, workspace.id))?.id).toBe(shared.id);
+      expect((await storage.getDocuments(user.id, [workspace.id])).map(d => d.id).sort()).toEqual([own.id, shared.id].sort());
+    });
+
+    it("updates a document", async () => {
+      const user = await newUser();
+      const document = await newDocument(user.id, "some words");
+
+      expect(await storage.updateDocument(document.id, { title: "Renamed", author: "Anon" })).toMatchObject({ title: "Renamed", author: "Anon", text: "some words" });
+    });
+
+    it("unlinks history and jobs when deleted", async () => {
+      const user = await newUser();
+      const document = await newDocument(user.id, "linked words");
+      const history = await storage.createAnalysisHistory({ userId: user.id, analysisType: "quotes", documentId: document.id });
+      const job = await storage.createAnalysisJob({ userId: user.id, functionType: "quotes", providers: ["mock"], totalChunks: 1, documentId: document.id }, []);
+
+      expect((await storage.getAnalysisHistoryByDocument(document.id)).map(h => h.id)).toEqual([history.id]);
+      expect(await storage.deleteDocument(document.id)).toBe(true);
+      expect(await storage.deleteDocument(document.id)).toBe(false);
+      expect((await storage.getAnalysisHistoryItem(history.id))?.documentId).toBeNull();
+      expect((await storage.getAnalysisJob(job.id))?.documentId).toBeNull();
+    });
+  });
+
+  describe("prompt templates", () => {
+    const output = { fields: [{ name: "themes", label: "Themes", kind: "list" as const }], merge: "deduplicate" as const, display: "{{themes}}" };
+
+    it("versions changes to the text or output, not renames", async () => {
+      const user = await newUser();
+      const template = await storage.createPromptTemplate({ userId: user.id, name: "Mine", baseFunction: "quotes", template: "v1" });
+      expect(template).toMatchObject({ version: 1, description: null, clonedFrom: null, output: null });
+
+      expect((await storage.updatePromptTemplate(template.id, { name: "Renamed" }))?.version).toBe(1);
+      expect((await storage.updatePromptTemplate(template.id, { template: "v2" }))?.version).toBe(2);
+      expect((await storage.updatePromptTemplate(template.id, { output }))?.version).toBe(3);
+      expect((await storage.updatePromptTemplate(template.id, { output }))?.version).toBe(3);
+
+      const versions = await storage.getPromptTemplateVersions(template.id);
+      expect(versions.map(v => [v.version, v.template])).toEqual([[3, "v2"], [2, "v2"], [1, "v1"]]);
+      expect((await storage.getPromptTemplateVersion(template.id, 3))?.output).toEqual(output);
+      expect(await storage.getPromptTemplateVersion(template.id, 4)).toBeUndefined();
+    });
+
+    it("lists a user's templates by name", async () => {
+      const user = await newUser();
+      await storage.createPromptTemplate({ userId: user.id, name: "Zeta", baseFunction: "quotes", template: "z" });
+      await storage.createPromptTemplate({ userId: user.id, name: "Alpha", baseFunction: "views", template: "a" });
+
+      expect((await storage.getPromptTemplates(user.id)).map(t => t.name)).toEqual(["Alpha", "Zeta"]);
+    });
+
+    it("drops the versions with the template", async () => {
+      const user = await newUser();
+      const template = await storage.createPromptTemplate({ userId: user.id, name: "Gone", baseFunction: "quotes", template: "x" });
+
+      expect(await storage.deletePromptTemplate(template.id)).toBe(true);
+      expect(await storage.deletePromptTemplate(template.id)).toBe(false);
+      expect(await storage.getPromptTemplate(template.id)).toBeUndefined();
+      expect(await storage.getPromptTemplateVersions(template.id)).toEqual([]);
+    });
+  });
+
+  describe("analysis history", () => {
+    it("creates, updates and deletes entries", async () => {
+      const user = await newUser();
+      const entry = await storage.createAnalysisHistory({ userId: user.id, analysisType: "quotes", provider: "mock", outputData: { quotes: ["a"] } });
+
+      expect(entry).toMatchObject({ workspaceId: null, documentId: null, promptId: null, outputData: { quotes: ["a"] } });
+      expect(await storage.getAnalysisHistoryItem(entry.id)).toEqual(entry);
+      expect((await storage.updateAnalysisHistory(entry.id, { outputData: { quotes: ["b"] } }))?.outputData).toEqual({ quotes: ["b"] });
+      expect(await storage.deleteAnalysisHistoryItem(entry.id)).toBe(true);
+      expect(await storage.deleteAnalysisHistoryItem(entry.id)).toBe(false);
+    });
+
+    it("unlinks the job that saved it when deleted", async () => {
+      const user = await newUser();
+      const job = await newJob(user.id, `job-${run}-history`);
+      const entry = await storage.createAnalysisHistory({ userId: user.id, analysisType: "quotes", provider: "mock" });
+      await storage.updateAnalysisJob(job.id, { status: "completed", historyId: entry.id });
+
+      expect(await storage.deleteAnalysisHistoryItem(entry.id)).toBe(true);
+      expect(await storage.getAnalysisHistoryItem(entry.id)).toBeUndefined();
+      expect((await storage.getAnalysisJob(job.id))?.historyId).toBeNull();
+    });
+
+    it("lists own entries and those of the given workspaces, by type", async () => {
+      const user = await newUser();
+      const other = await newUser();
+      const workspace = await storage.createWorkspace({ name: "Team" }, other.id);
+      const quotes = await storage.createAnalysisHistory({ userId: user.id, analysisType: "quotes" });
+      const views = await storage.createAnalysisHistory({ userId: user.id, analysisType: "views" });
+      const shared = await storage.createAnalysisHistory({ userId: other.id, workspaceId: workspace.id, analysisType: "quotes" });
+      await storage.createAnalysisHistory({ userId: other.id, analysisType: "quotes" });
+
+      expect((await storage.getAnalysisHistory(user.id)).map(h => h.id).sort()).toEqual([quotes.id, views.id].sort());
+      expect((await storage.getAnalysisHistoryByType(user.id, "quotes", [workspace.id])).map(h => h.id).sort()).toEqual([quotes.id, shared.id].sort());
+    });
+  });
+
+  describe("analysis jobs", () => {
+    it("creates a job with its chunks in order", async () => {
+      const user = await newUser();
+      const job = await newJob(user.id, `job-${run}-chunks`);
+
+      expect(job).toMatchObject({ status: "queued", completedChunks: 0, synthesize: false, result: null, providers: ["mock"] });
+      expect(await storage.getAnalysisJob(job.id)).toEqual(job);
+
+      const chunks = await storage.getAnalysisJobChunks(job.id);
+      expect(chunks.map(c => [c.chunkNumber, c.status, c.startOffset, c.text])).toEqual([[1, "pending", 0, "first"], [2, "pending", 6000, "second"]]);
+    });
+
+    it("finds jobs by user, text hash and status", async () => {
+      const user = await newUser();
+      const hash = `job-${run}-lookup`;
+      const job = await newJob(user.id, hash);
+      const other = await newJob(user.id, `${hash}-other`);
+
+      expect((await storage.getAnalysisJobs(user.id)).map(j => j.id).sort()).toEqual([job.id, other.id].sort());
+      expect((await storage.getAnalysisJobsByTextHash(user.id, hash)).map(j => j.id)).toEqual([job.id]);
+
+      await storage.updateAnalysisJob(other.id, { status: "failed", error: "boom" });
+      const queued = (await storage.getAnalysisJobsByStatus(["queued"])).map(j => j.id);
+      expect(queued).toContain(job.id);
+      expect(queued).not.toContain(other.id);
+    });
+
+    it("claims only a queued job", async () => {
+      const user = await newUser();
+      const job = await newJob(user.id, `job-${run}-claim`);
+
+      expect((await storage.claimAnalysisJob(job.id))?.status).toBe("running");
+      expect(await storage.claimAnalysisJob(job.id)).toBeUndefined();
+    });
+
+    it("records chunk and job progress", async () => {
+      const user = await newUser();
+      const job = await newJob(user.id, `job-${run}-progress`);
+      const [first] = await storage.getAnalysisJobChunks(job.id);
+
+      const chunk = await storage.updateAnalysisJobChunk(first.id, { status: "completed", provider: "mock", output: { quotes: ["x"] }, completedAt: new Date() });
+      expect(chunk).toMatchObject({ status: "completed", output: { quotes: ["x"] }, text: "first" });
+
+      const updated = await storage.updateAnalysisJob(job.id, { completedChunks: 1, result: { quotes: ["x"] } });
+      expect(updated).toMatchObject({ completedChunks: 1, result: { quotes: ["x"] }, status: "queued" });
+    });
+  });
+
+  describe("LLM cache", () => {
+    const entry = (key: string, provider = "mock", expiresAt: Date | null = new Date(Date.now() + 60_000)) => ({
+      key: `${run}-${key}`,
+      textHash: `${run}-text`,
+      functionType: "quotes",
+      provider,
+      model: "mock-fixtures",
+      promptVersion: "v1",
+      value: { quotes: [key] },
+      expiresAt,
+    });
+
+    it("stores and replaces entries by key", async () => {
+      await storage.setLlmCacheEntry(entry("replace"));
+      await storage.setLlmCacheEntry({ ...entry("replace"), value: { quotes: ["new"] } });
+
+      expect((await storage.getLlmCacheEntry(`${run}-replace`))?.value).toEqual({ quotes: ["new"] });
+      expect(await storage.getLlmCacheEntry(`${run}-missing`)).toBeUndefined();
+    });
+
+    it("deletes entries matching every filter", async () => {
+      await storage.setLlmCacheEntry(entry("keep", "other"));
+      await storage.setLlmCacheEntry(entry("drop"));
+
+      expect(await storage.deleteLlmCacheEntries({ textHash: `${run}-text`, provider: "mock" })).toBeGreaterThanOrEqual(1);
+      expect(await storage.getLlmCacheEntry(`${run}-drop`)).toBeUndefined();
+      expect(await storage.getLlmCacheEntry(`${run}-keep`)).toBeDefined();
+    });
+
+    it("purges expired entries", async () => {
+      await storage.setLlmCacheEntry(entry("expired", "mock", new Date(Date.now() - 60_000)));
+      await storage.setLlmCacheEntry(entry("forever", "other", null));
+
+      expect(await storage.deleteExpiredLlmCacheEntries()).toBeGreaterThanOrEqual(1);
+      expect(await storage.getLlmCacheEntry(`${run}-expired`)).toBeUndefined();
+      expect(await storage.getLlmCacheEntry(`${run}-forever`)).toBeDefined();
+    });
+  });
+
+  it("has a session store", () => {
+    expect(storage.sessionStore).toBeDefined();
+  });
+});
+
+// shared/sqliteSchema.ts is kept by hand beside shared/schema.ts; this fails as
+// soon as a table, column, constraint or foreign key exists in only one of them.
+describe("SQLite schema", () => {
+  type TableConfig = ReturnType<typeof getPgTableConfig> | ReturnType<typeof getSqliteTableConfig>;
+
+  const shape = (config: TableConfig) => ({
+    name: config.name,
+    columns: config.columns.map(column => ({
+      name: column.name,
+      notNull: column.notNull,
+      hasDefault: column.hasDefault,
+      primary: column.primary,
+      unique: column.isUnique,
+    })),
+    unique: config.uniqueConstraints.map(constraint => constraint.columns.map(column => column.name)),
+    foreignKeys: config.foreignKeys.map(foreignKey => {
+      const reference = foreignKey.reference();
+      return {
+        columns: reference.columns.map(column => column.name),
+        table: getTableName(reference.foreignTable),
+        foreignColumns: reference.foreignColumns.map(column => column.name),
+        onDelete: foreignKey.onDelete ?? "no action",
+      };
+    }),
+  });
+
+  const pgTables = Object.entries(pgSchema).filter(([, value]) => is(value, PgTable)) as [string, PgTable][];
+  // The SQLite session store keeps its table in the schema; connect-pg-simple
+  // creates its own
+  const sqliteTables = Object.entries(sqliteSchema).filter(([name, value]) => is(value, SQLiteTable) && name !== "sessions") as [string, SQLiteTable][];
+
+  it("has the same tables", () => {
+    expect(sqliteTables.map(([name]) => name).sort()).toEqual(pgTables.map(([name]) => name).sort());
+  });
+
+  it.each(pgTables)("mirrors %s", (name, table) => {
+    const mirror = sqliteTables.find(([sqliteName]) => sqliteName === name)?.[1];
+
+    expect(mirror).toBeDefined();
+    expect(shape(getSqliteTableConfig(mirror!))).toEqual(shape(getPgTableConfig(table)));
+  });
+});
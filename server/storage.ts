@@ -1,65 +1,253 @@
 import { 
   type User, 
   type InsertUser, 
+  type Workspace,
+  type InsertWorkspace,
+  type WorkspaceMember,
+  type InsertWorkspaceMember,
+  type WorkspaceMemberWithUser,
+  type WorkspaceWithRole,
   type StylometricAuthor, 
   type InsertStylometricAuthor,
+  type SavedDocument,
+  type SavedDocumentSummary,
+  type InsertSavedDocument,
+  type UserPromptTemplate,
+  type InsertUserPromptTemplate,
+  type PromptTemplateVersion,
   type AnalysisHistory,
   type InsertAnalysisHistory,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type AnalysisJobChunk,
+  type InsertAnalysisJobChunk,
+  type LlmCacheEntry,
+  type InsertLlmCacheEntry,
   users, 
+  workspaces,
+  workspaceMembers,
   stylometricAuthors,
-  analysisHistory
+  documents,
+  promptTemplates,
+  promptTemplateVersions,
+  analysisHistory,
+  analysisJobs,
+  analysisJobChunks,
+  llmCache
 } from "@shared/schema";
-import { db } from "./db";
-import { eq, and, desc } from "drizzle-orm";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import { connectDatabase, type Database } from "./db";
+import { eq, and, or, desc, asc, inArray, isNull, lt, type SQL } from "drizzle-orm";
+
+const PostgresSessionStore = connectPg(session);
+const MemoryStore = createMemoryStore(session);
+
+// The user's own rows outside any workspace, plus every row in `workspaceIds`
+function visibleTo(table: typeof stylometricAuthors | typeof documents | typeof analysisHistory, userId: number, workspaceIds: number[]): SQL {
+  return or(
+    and(eq(table.userId, userId), isNull(table.workspaceId)),
+    workspaceIds.length > 0 ? inArray(table.workspaceId, workspaceIds) : undefined,
+  )!;
+}
+
+// Matches one scope: the user's own rows when `workspaceId` is null, else that workspace's
+function inScope(table: typeof stylometricAuthors | typeof documents, userId: number, workspaceId: number | null): SQL {
+  return workspaceId === null
+    ? and(eq(table.userId, userId), isNull(table.workspaceId))!
+    : eq(table.workspaceId, workspaceId);
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
+
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  // Gives a passwordless account its first password; undefined if it already
+  // has one, so that a claim code can only be used once
+  claimUser(id: number, passwordHash: string): Promise<User | undefined>;
+  
+  // Creates the workspace with `ownerId` as its first owner
+  createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace>;
+  getWorkspace(id: number): Promise<Workspace | undefined>;
+  getUserWorkspaces(userId: number): Promise<WorkspaceWithRole[]>;
+  updateWorkspace(id: number, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined>;
+  deleteWorkspace(id: number): Promise<boolean>;
+  getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]>;
+  getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined>;
+  // Adds the user to the workspace, or changes their role if already a member
+  setWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember>;
+  removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean>;
   
-  getStylometricAuthors(userId: number): Promise<StylometricAuthor[]>;
+  // Listings cover the user's own items that are in no workspace, plus every
+  // item in `workspaceIds`. Lookups by name or hash search one of those scopes:
+  // the user's own items when `workspaceId` is null, otherwise that workspace.
+  getStylometricAuthors(userId: number, workspaceIds?: number[]): Promise<StylometricAuthor[]>;
   getStylometricAuthor(id: number): Promise<StylometricAuthor | undefined>;
-  getStylometricAuthorByName(userId: number, authorName: string): Promise<StylometricAuthor | undefined>;
+  getStylometricAuthorByName(userId: number, authorName: string, workspaceId?: number | null): Promise<StylometricAuthor | undefined>;
   createStylometricAuthor(author: InsertStylometricAuthor): Promise<StylometricAuthor>;
   updateStylometricAuthor(id: number, author: Partial<InsertStylometricAuthor>): Promise<StylometricAuthor | undefined>;
   deleteStylometricAuthor(id: number): Promise<boolean>;
   
+  getDocuments(userId: number, workspaceIds?: number[]): Promise<SavedDocumentSummary[]>;
+  getDocument(id: number): Promise<SavedDocument | undefined>;
+  getDocumentByHash(userId: number, contentHash: string, workspaceId?: number | null): Promise<SavedDocument | undefined>;
+  createDocument(document: InsertSavedDocument): Promise<SavedDocument>;
+  updateDocument(id: number, document: Partial<InsertSavedDocument>): Promise<SavedDocument | undefined>;
+  deleteDocument(id: number): Promise<boolean>;
+  
+  getPromptTemplates(userId: number): Promise<UserPromptTemplate[]>;
+  getPromptTemplate(id: number): Promise<UserPromptTemplate | undefined>;
+  getPromptTemplateVersions(templateId: number): Promise<PromptTemplateVersion[]>;
+  getPromptTemplateVersion(templateId: number, version: number): Promise<PromptTemplateVersion | undefined>;
+  createPromptTemplate(template: InsertUserPromptTemplate): Promise<UserPromptTemplate>;
+  updatePromptTemplate(id: number, template: Partial<InsertUserPromptTemplate>): Promise<UserPromptTemplate | undefined>;
+  deletePromptTemplate(id: number): Promise<boolean>;
+  
   createAnalysisHistory(history: InsertAnalysisHistory): Promise<AnalysisHistory>;
-  getAnalysisHistory(userId: number): Promise<AnalysisHistory[]>;
-  getAnalysisHistoryByType(userId: number, analysisType: string): Promise<AnalysisHistory[]>;
+  getAnalysisHistory(userId: number, workspaceIds?: number[]): Promise<AnalysisHistory[]>;
+  getAnalysisHistoryByType(userId: number, analysisType: string, workspaceIds?: number[]): Promise<AnalysisHistory[]>;
   getAnalysisHistoryItem(id: number): Promise<AnalysisHistory | undefined>;
+  getAnalysisHistoryByDocument(documentId: number): Promise<AnalysisHistory[]>;
+  updateAnalysisHistory(id: number, history: Partial<InsertAnalysisHistory>): Promise<AnalysisHistory | undefined>;
   deleteAnalysisHistoryItem(id: number): Promise<boolean>;
+  
+  createAnalysisJob(job: InsertAnalysisJob, chunks: Omit<InsertAnalysisJobChunk, "jobId">[]): Promise<AnalysisJob>;
+  getAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  getAnalysisJobs(userId: number): Promise<AnalysisJob[]>;
+  getAnalysisJobsByTextHash(userId: number, textHash: string): Promise<AnalysisJob[]>;
+  getAnalysisJobsByStatus(statuses: string[]): Promise<AnalysisJob[]>;
+  updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined>;
+  claimAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  getAnalysisJobChunks(jobId: number): Promise<AnalysisJobChunk[]>;
+  updateAnalysisJobChunk(id: number, chunk: Partial<InsertAnalysisJobChunk>): Promise<AnalysisJobChunk | undefined>;
+  
+  getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined>;
+  setLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<LlmCacheEntry>;
+  deleteLlmCacheEntries(filter: Partial<Pick<LlmCacheEntry, "key" | "textHash" | "functionType" | "provider">>): Promise<number>;
+  deleteExpiredLlmCacheEntries(): Promise<number>;
 }
 
 export class DatabaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+
+  constructor(connectionString: string) {
+    const { pool, db } = connectDatabase(connectionString);
+    this.db = db;
+    this.sessionStore = new PostgresSessionStore({ pool, createTableIfMissing: true });
+  }
+
   async getUser(id: number): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async getUserByUsername(username: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.username, username));
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
     return user;
   }
 
   async createUser(insertUser: InsertUser): Promise<User> {
-    const [user] = await db.insert(users).values(insertUser).returning();
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async claimUser(id: number, passwordHash: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ passwordHash })
+      .where(and(eq(users.id, id), isNull(users.passwordHash)))
+      .returning();
     return user;
   }
   
-  async getStylometricAuthors(userId: number): Promise<StylometricAuthor[]> {
-    return await db.select().from(stylometricAuthors).where(eq(stylometricAuthors.userId, userId));
+  async createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(workspaces).values(workspace).returning();
+      await tx.insert(workspaceMembers).values({ workspaceId: created.id, userId: ownerId, role: "owner" });
+      return created;
+    });
+  }
+  
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    const [workspace] = await this.db.select().from(workspaces).where(eq(workspaces.id, id));
+    return workspace;
+  }
+  
+  async getUserWorkspaces(userId: number): Promise<WorkspaceWithRole[]> {
+    const rows = await this.db.select({ workspace: workspaces, role: workspaceMembers.role })
+      .from(workspaceMembers)
+      .innerJoin(workspaces, eq(workspaceMembers.workspaceId, workspaces.id))
+      .where(eq(workspaceMembers.userId, userId))
+      .orderBy(asc(workspaces.name));
+    return rows.map(row => ({ ...row.workspace, role: row.role }));
+  }
+  
+  async updateWorkspace(id: number, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const [updated] = await this.db.update(workspaces)
+      .set({ ...workspace, updatedAt: new Date() })
+      .where(eq(workspaces.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteWorkspace(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(workspaces).where(eq(workspaces.id, id)).returning({ id: workspaces.id });
+    return deleted.length > 0;
+  }
+  
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    const rows = await this.db.select({ member: workspaceMembers, username: users.username })
+      .from(workspaceMembers)
+      .innerJoin(users, eq(workspaceMembers.userId, users.id))
+      .where(eq(workspaceMembers.workspaceId, workspaceId))
+      .orderBy(asc(users.username));
+    return rows.map(row => ({ ...row.member, username: row.username }));
+  }
+  
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    const [member] = await this.db.select().from(workspaceMembers).where(
+      and(
+        eq(workspaceMembers.workspaceId, workspaceId),
+        eq(workspaceMembers.userId, userId)
+      )
+    );
+    return member;
+  }
+  
+  async setWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const [saved] = await this.db.insert(workspaceMembers)
+      .values(member)
+      .onConflictDoUpdate({
+        target: [workspaceMembers.workspaceId, workspaceMembers.userId],
+        set: { role: member.role },
+      })
+      .returning();
+    return saved;
+  }
+  
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const deleted = await this.db.delete(workspaceMembers)
+      .where(and(eq(workspaceMembers.workspaceId, workspaceId), eq(workspaceMembers.userId, userId)))
+      .returning({ id: workspaceMembers.id });
+    return deleted.length > 0;
+  }
+  
+  async getStylometricAuthors(userId: number, workspaceIds: number[] = []): Promise<StylometricAuthor[]> {
+    return await this.db.select().from(stylometricAuthors).where(visibleTo(stylometricAuthors, userId, workspaceIds));
   }
   
   async getStylometricAuthor(id: number): Promise<StylometricAuthor | undefined> {
-    const [author] = await db.select().from(stylometricAuthors).where(eq(stylometricAuthors.id, id));
+    const [author] = await this.db.select().from(stylometricAuthors).where(eq(stylometricAuthors.id, id));
     return author;
   }
   
-  async getStylometricAuthorByName(userId: number, authorName: string): Promise<StylometricAuthor | undefined> {
-    const [author] = await db.select().from(stylometricAuthors).where(
+  async getStylometricAuthorByName(userId: number, authorName: string, workspaceId: number | null = null): Promise<StylometricAuthor | undefined> {
+    const [author] = await this.db.select().from(stylometricAuthors).where(
       and(
-        eq(stylometricAuthors.userId, userId),
+        inScope(stylometricAuthors, userId, workspaceId),
         eq(stylometricAuthors.authorName, authorName)
       )
     );
@@ -67,12 +255,12 @@ export class DatabaseStorage implements IStorage {
   }
   
   async createStylometricAuthor(author: InsertStylometricAuthor): Promise<StylometricAuthor> {
-    const [created] = await db.insert(stylometricAuthors).values(author).returning();
+    const [created] = await this.db.insert(stylometricAuthors).values(author).returning();
     return created;
   }
   
   async updateStylometricAuthor(id: number, author: Partial<InsertStylometricAuthor>): Promise<StylometricAuthor | undefined> {
-    const [updated] = await db.update(stylometricAuthors)
+    const [updated] = await this.db.update(stylometricAuthors)
       .set({ ...author, updatedAt: new Date() })
       .where(eq(stylometricAuthors.id, id))
       .returning();
@@ -80,41 +268,791 @@ export class DatabaseStorage implements IStorage {
   }
   
   async deleteStylometricAuthor(id: number): Promise<boolean> {
-    const result = await db.delete(stylometricAuthors).where(eq(stylometricAuthors.id, id));
-    return true;
+    const deleted = await this.db.delete(stylometricAuthors).where(eq(stylometricAuthors.id, id)).returning({ id: stylometricAuthors.id });
+    return deleted.length > 0;
+  }
+  
+  async getDocuments(userId: number, workspaceIds: number[] = []): Promise<SavedDocumentSummary[]> {
+    return await this.db.select({
+      id: documents.id,
+      userId: documents.userId,
+      workspaceId: documents.workspaceId,
+      title: documents.title,
+      author: documents.author,
+      contentHash: documents.contentHash,
+      wordCount: documents.wordCount,
+      format: documents.format,
+      createdAt: documents.createdAt,
+      updatedAt: documents.updatedAt,
+    })
+      .from(documents)
+      .where(visibleTo(documents, userId, workspaceIds))
+      .orderBy(desc(documents.updatedAt));
+  }
+  
+  async getDocument(id: number): Promise<SavedDocument | undefined> {
+    const [document] = await this.db.select().from(documents).where(eq(documents.id, id));
+    return document;
+  }
+  
+  async getDocumentByHash(userId: number, contentHash: string, workspaceId: number | null = null): Promise<SavedDocument | undefined> {
+    const [document] = await this.db.select().from(documents).where(
+      and(
+        inScope(documents, userId, workspaceId),
+        eq(documents.contentHash, contentHash)
+      )
+    );
+    return document;
+  }
+  
+  async createDocument(document: InsertSavedDocument): Promise<SavedDocument> {
+    const [created] = await this.db.insert(documents).values(document).returning();
+    return created;
+  }
+  
+  async updateDocument(id: number, document: Partial<InsertSavedDocument>): Promise<SavedDocument | undefined> {
+    const [updated] = await this.db.update(documents)
+      .set({ ...document, updatedAt: new Date() })
+      .where(eq(documents.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteDocument(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(documents).where(eq(documents.id, id)).returning({ id: documents.id });
+    return deleted.length > 0;
+  }
+  
+  async getPromptTemplates(userId: number): Promise<UserPromptTemplate[]> {
+    return await this.db.select()
+      .from(promptTemplates)
+      .where(eq(promptTemplates.userId, userId))
+      .orderBy(asc(promptTemplates.name));
+  }
+  
+  async getPromptTemplate(id: number): Promise<UserPromptTemplate | undefined> {
+    const [template] = await this.db.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+    return template;
+  }
+  
+  async getPromptTemplateVersions(templateId: number): Promise<PromptTemplateVersion[]> {
+    return await this.db.select()
+      .from(promptTemplateVersions)
+      .where(eq(promptTemplateVersions.templateId, templateId))
+      .orderBy(desc(promptTemplateVersions.version));
+  }
+  
+  async getPromptTemplateVersion(templateId: number, version: number): Promise<PromptTemplateVersion | undefined> {
+    const [found] = await this.db.select().from(promptTemplateVersions).where(
+      and(
+        eq(promptTemplateVersions.templateId, templateId),
+        eq(promptTemplateVersions.version, version)
+      )
+    );
+    return found;
+  }
+  
+  async createPromptTemplate(template: InsertUserPromptTemplate): Promise<UserPromptTemplate> {
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(promptTemplates).values(template).returning();
+      await tx.insert(promptTemplateVersions).values({
+        templateId: created.id,
+        version: created.version,
+        template: created.template,
+        output: created.output,
+      });
+      return created;
+    });
+  }
+  
+  // A changed template text or output spec becomes the next version; renames keep the version
+  async updatePromptTemplate(id: number, template: Partial<InsertUserPromptTemplate>): Promise<UserPromptTemplate | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [current] = await tx.select().from(promptTemplates).where(eq(promptTemplates.id, id));
+      if (!current) return undefined;
+      
+      const changed = (template.template !== undefined && template.template !== current.template)
+        || (template.output !== undefined && JSON.stringify(template.output) !== JSON.stringify(current.output));
+      const [updated] = await tx.update(promptTemplates)
+        .set({ ...template, version: changed ? current.version + 1 : current.version, updatedAt: new Date() })
+        .where(eq(promptTemplates.id, id))
+        .returning();
+      if (changed) {
+        await tx.insert(promptTemplateVersions).values({
+          templateId: id,
+          version: updated.version,
+          template: updated.template,
+          output: updated.output,
+        });
+      }
+      return updated;
+    });
+  }
+  
+  async deletePromptTemplate(id: number): Promise<boolean> {
+    const deleted = await this.db.delete(promptTemplates).where(eq(promptTemplates.id, id)).returning({ id: promptTemplates.id });
+    return deleted.length > 0;
   }
   
   async createAnalysisHistory(history: InsertAnalysisHistory): Promise<AnalysisHistory> {
-    const [created] = await db.insert(analysisHistory).values(history).returning();
+    const [created] = await this.db.insert(analysisHistory).values(history).returning();
     return created;
   }
   
-  async getAnalysisHistory(userId: number): Promise<AnalysisHistory[]> {
-    return await db.select()
+  async getAnalysisHistory(userId: number, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return await this.db.select()
       .from(analysisHistory)
-      .where(eq(analysisHistory.userId, userId))
+      .where(visibleTo(analysisHistory, userId, workspaceIds))
       .orderBy(desc(analysisHistory.createdAt));
   }
   
-  async getAnalysisHistoryByType(userId: number, analysisType: string): Promise<AnalysisHistory[]> {
-    return await db.select()
+  async getAnalysisHistoryByType(userId: number, analysisType: string, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return await this.db.select()
       .from(analysisHistory)
       .where(and(
-        eq(analysisHistory.userId, userId),
+        visibleTo(analysisHistory, userId, workspaceIds),
         eq(analysisHistory.analysisType, analysisType)
       ))
       .orderBy(desc(analysisHistory.createdAt));
   }
   
   async getAnalysisHistoryItem(id: number): Promise<AnalysisHistory | undefined> {
-    const [item] = await db.select().from(analysisHistory).where(eq(analysisHistory.id, id));
+    const [item] = await this.db.select().from(analysisHistory).where(eq(analysisHistory.id, id));
     return item;
   }
   
+  async getAnalysisHistoryByDocument(documentId: number): Promise<AnalysisHistory[]> {
+    return await this.db.select()
+      .from(analysisHistory)
+      .where(eq(analysisHistory.documentId, documentId))
+      .orderBy(desc(analysisHistory.createdAt));
+  }
+  
+  async updateAnalysisHistory(id: number, history: Partial<InsertAnalysisHistory>): Promise<AnalysisHistory | undefined> {
+    const [updated] = await this.db.update(analysisHistory)
+      .set(history)
+      .where(eq(analysisHistory.id, id))
+      .returning();
+    return updated;
+  }
+  
   async deleteAnalysisHistoryItem(id: number): Promise<boolean> {
-    await db.delete(analysisHistory).where(eq(analysisHistory.id, id));
+    const deleted = await this.db.delete(analysisHistory).where(eq(analysisHistory.id, id)).returning({ id: analysisHistory.id });
+    return deleted.length > 0;
+  }
+  
+  async createAnalysisJob(job: InsertAnalysisJob, chunks: Omit<InsertAnalysisJobChunk, "jobId">[]): Promise<AnalysisJob> {
+    return await this.db.transaction(async (tx) => {
+      const [created] = await tx.insert(analysisJobs).values(job).returning();
+      if (chunks.length > 0) {
+        await tx.insert(analysisJobChunks).values(chunks.map(chunk => ({ ...chunk, jobId: created.id })));
+      }
+      return created;
+    });
+  }
+  
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [job] = await this.db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return job;
+  }
+  
+  async getAnalysisJobs(userId: number): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(eq(analysisJobs.userId, userId))
+      .orderBy(desc(analysisJobs.createdAt));
+  }
+  
+  async getAnalysisJobsByTextHash(userId: number, textHash: string): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(and(
+        eq(analysisJobs.userId, userId),
+        eq(analysisJobs.textHash, textHash)
+      ))
+      .orderBy(desc(analysisJobs.createdAt));
+  }
+  
+  async getAnalysisJobsByStatus(statuses: string[]): Promise<AnalysisJob[]> {
+    return await this.db.select()
+      .from(analysisJobs)
+      .where(inArray(analysisJobs.status, statuses))
+      .orderBy(asc(analysisJobs.createdAt));
+  }
+  
+  async updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const [updated] = await this.db.update(analysisJobs)
+      .set({ ...job, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return updated;
+  }
+  
+  // Moves a job from queued to running only if nobody cancelled it in the meantime
+  async claimAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const [claimed] = await this.db.update(analysisJobs)
+      .set({ status: "running", error: null, updatedAt: new Date() })
+      .where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, "queued")))
+      .returning();
+    return claimed;
+  }
+  
+  async getAnalysisJobChunks(jobId: number): Promise<AnalysisJobChunk[]> {
+    return await this.db.select()
+      .from(analysisJobChunks)
+      .where(eq(analysisJobChunks.jobId, jobId))
+      .orderBy(asc(analysisJobChunks.chunkNumber));
+  }
+  
+  async updateAnalysisJobChunk(id: number, chunk: Partial<InsertAnalysisJobChunk>): Promise<AnalysisJobChunk | undefined> {
+    const [updated] = await this.db.update(analysisJobChunks)
+      .set(chunk)
+      .where(eq(analysisJobChunks.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined> {
+    const [entry] = await this.db.select().from(llmCache).where(eq(llmCache.key, key));
+    return entry;
+  }
+  
+  async setLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<LlmCacheEntry> {
+    const [saved] = await this.db.insert(llmCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: llmCache.key,
+        set: { value: entry.value, createdAt: new Date(), expiresAt: entry.expiresAt },
+      })
+      .returning();
+    return saved;
+  }
+  
+  async deleteLlmCacheEntries(filter: Partial<Pick<LlmCacheEntry, "key" | "textHash" | "functionType" | "provider">>): Promise<number> {
+    const conditions: SQL[] = [];
+    if (filter.key) conditions.push(eq(llmCache.key, filter.key));
+    if (filter.textHash) conditions.push(eq(llmCache.textHash, filter.textHash));
+    if (filter.functionType) conditions.push(eq(llmCache.functionType, filter.functionType));
+    if (filter.provider) conditions.push(eq(llmCache.provider, filter.provider));
+    
+    const deleted = await this.db.delete(llmCache)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .returning({ key: llmCache.key });
+    return deleted.length;
+  }
+  
+  async deleteExpiredLlmCacheEntries(): Promise<number> {
+    const deleted = await this.db.delete(llmCache)
+      .where(lt(llmCache.expiresAt, new Date()))
+      .returning({ key: llmCache.key });
+    return deleted.length;
+  }
+}
+
+// Drizzle leaves out undefined fields when inserting and updating; so does MemStorage
+function defined<T extends object>(values: T): Partial<T> {
+  return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+// Same scopes as visibleTo and inScope above, for MemStorage
+function visibleRow(row: { userId: number | null; workspaceId: number | null }, userId: number, workspaceIds: number[]): boolean {
+  return row.workspaceId === null ? row.userId === userId : workspaceIds.includes(row.workspaceId);
+}
+
+function inScopeRow(row: { userId: number | null; workspaceId: number | null }, userId: number, workspaceId: number | null): boolean {
+  return workspaceId === null ? row.workspaceId === null && row.userId === userId : row.workspaceId === workspaceId;
+}
+
+function newestFirst<T extends { id: number; createdAt: Date | null }>(a: T, b: T): number {
+  return (b.createdAt?.getTime() ?? 0) - (a.createdAt?.getTime() ?? 0) || b.id - a.id;
+}
+
+// Keeps everything in process memory, for running without a database. Rows are
+// copied in and out so callers can't change stored data by mutating a result,
+// and deletes follow the foreign keys in shared/schema.ts.
+export class MemStorage implements IStorage {
+  sessionStore: session.Store = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+
+  private users = new Map<number, User>();
+  private workspaces = new Map<number, Workspace>();
+  private workspaceMembers = new Map<number, WorkspaceMember>();
+  private stylometricAuthors = new Map<number, StylometricAuthor>();
+  private documents = new Map<number, SavedDocument>();
+  private promptTemplates = new Map<number, UserPromptTemplate>();
+  private promptTemplateVersions = new Map<number, PromptTemplateVersion>();
+  private analysisHistory = new Map<number, AnalysisHistory>();
+  private analysisJobs = new Map<number, AnalysisJob>();
+  private analysisJobChunks = new Map<number, AnalysisJobChunk>();
+  private llmCache = new Map<string, LlmCacheEntry>();
+  private lastId = 0;
+
+  private nextId(): number {
+    return ++this.lastId;
+  }
+
+  private find<T>(table: Map<unknown, T>, matches: (row: T) => boolean): T | undefined {
+    const row = Array.from(table.values()).find(matches);
+    return row && structuredClone(row);
+  }
+
+  private filter<T>(table: Map<unknown, T>, matches: (row: T) => boolean): T[] {
+    return Array.from(table.values()).filter(matches).map(row => structuredClone(row));
+  }
+
+  private save<K, T>(table: Map<K, T>, key: K, row: T): T {
+    table.set(key, structuredClone(row));
+    return structuredClone(row);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    return this.find(this.users, user => user.id === id);
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return this.find(this.users, user => user.username === username);
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    if (await this.getUserByUsername(insertUser.username)) {
+      throw new Error(`User '${insertUser.username}' already exists`);
+    }
+    const id = this.nextId();
+    return this.save(this.users, id, {
+      passwordHash: null,
+      ...defined(insertUser),
+      username: insertUser.username,
+      id,
+      createdAt: new Date(),
+    });
+  }
+
+  async claimUser(id: number, passwordHash: string): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && !user.passwordHash ? this.save(this.users, id, { ...user, passwordHash }) : undefined;
+  }
+  
+  async createWorkspace(workspace: InsertWorkspace, ownerId: number): Promise<Workspace> {
+    const id = this.nextId();
+    const now = new Date();
+    const created = this.save(this.workspaces, id, { name: workspace.name, id, createdAt: now, updatedAt: now });
+    await this.setWorkspaceMember({ workspaceId: id, userId: ownerId, role: "owner" });
+    return created;
+  }
+  
+  async getWorkspace(id: number): Promise<Workspace | undefined> {
+    return this.find(this.workspaces, workspace => workspace.id === id);
+  }
+  
+  async getUserWorkspaces(userId: number): Promise<WorkspaceWithRole[]> {
+    return this.filter(this.workspaceMembers, member => member.userId === userId)
+      .map(member => ({ ...structuredClone(this.workspaces.get(member.workspaceId)!), role: member.role }))
+      .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  }
+  
+  async updateWorkspace(id: number, workspace: Partial<InsertWorkspace>): Promise<Workspace | undefined> {
+    const current = this.workspaces.get(id);
+    return current && this.save(this.workspaces, id, { ...current, ...defined(workspace), updatedAt: new Date() });
+  }
+  
+  async deleteWorkspace(id: number): Promise<boolean> {
+    if (!this.workspaces.delete(id)) return false;
+    // Members cascade; authors, documents and history fall back to their creators
+    this.workspaceMembers.forEach((member, key) => {
+      if (member.workspaceId === id) this.workspaceMembers.delete(key);
+    });
+    for (const table of [this.stylometricAuthors, this.documents, this.analysisHistory]) {
+      table.forEach(row => { if (row.workspaceId === id) row.workspaceId = null; });
+    }
+    return true;
+  }
+  
+  async getWorkspaceMembers(workspaceId: number): Promise<WorkspaceMemberWithUser[]> {
+    return this.filter(this.workspaceMembers, member => member.workspaceId === workspaceId)
+      .map(member => ({ ...member, username: this.users.get(member.userId)!.username }))
+      .sort((a, b) => a.username < b.username ? -1 : a.username > b.username ? 1 : 0);
+  }
+  
+  async getWorkspaceMember(workspaceId: number, userId: number): Promise<WorkspaceMember | undefined> {
+    return this.find(this.workspaceMembers, member => member.workspaceId === workspaceId && member.userId === userId);
+  }
+  
+  async setWorkspaceMember(member: InsertWorkspaceMember): Promise<WorkspaceMember> {
+    const current = await this.getWorkspaceMember(member.workspaceId, member.userId);
+    if (current) {
+      return this.save(this.workspaceMembers, current.id, { ...current, role: member.role });
+    }
+    const id = this.nextId();
+    return this.save(this.workspaceMembers, id, { ...member, id, createdAt: new Date() });
+  }
+  
+  async removeWorkspaceMember(workspaceId: number, userId: number): Promise<boolean> {
+    const member = await this.getWorkspaceMember(workspaceId, userId);
+    return member !== undefined && this.workspaceMembers.delete(member.id);
+  }
+  
+  async getStylometricAuthors(userId: number, workspaceIds: number[] = []): Promise<StylometricAuthor[]> {
+    return this.filter(this.stylometricAuthors, author => visibleRow(author, userId, workspaceIds));
+  }
+  
+  async getStylometricAuthor(id: number): Promise<StylometricAuthor | undefined> {
+    return this.find(this.stylometricAuthors, author => author.id === id);
+  }
+  
+  async getStylometricAuthorByName(userId: number, authorName: string, workspaceId: number | null = null): Promise<StylometricAuthor | undefined> {
+    return this.find(this.stylometricAuthors, author => inScopeRow(author, userId, workspaceId) && author.authorName === authorName);
+  }
+  
+  async createStylometricAuthor(author: InsertStylometricAuthor): Promise<StylometricAuthor> {
+    const id = this.nextId();
+    const now = new Date();
+    return this.save(this.stylometricAuthors, id, {
+      userId: null,
+      workspaceId: null,
+      sourceTitle: null,
+      wordCount: null,
+      verticalityScore: null,
+      rawFeatures: null,
+      signaturePhrases: null,
+      negativeMarkers: null,
+      sampleSentences: null,
+      closestAuthorMatch: null,
+      matchExplanation: null,
+      psychologicalProfile: null,
+      narrativeSummary: null,
+      clustering: null,
+      fullReport: null,
+      ...defined(author),
+      authorName: author.authorName,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  
+  async updateStylometricAuthor(id: number, author: Partial<InsertStylometricAuthor>): Promise<StylometricAuthor | undefined> {
+    const current = this.stylometricAuthors.get(id);
+    return current && this.save(this.stylometricAuthors, id, { ...current, ...defined(author), updatedAt: new Date() });
+  }
+  
+  async deleteStylometricAuthor(id: number): Promise<boolean> {
+    return this.stylometricAuthors.delete(id);
+  }
+  
+  async getDocuments(userId: number, workspaceIds: number[] = []): Promise<SavedDocumentSummary[]> {
+    return this.filter(this.documents, document => visibleRow(document, userId, workspaceIds))
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0) || b.id - a.id)
+      .map(({ text, sections, pages, ...summary }) => summary);
+  }
+  
+  async getDocument(id: number): Promise<SavedDocument | undefined> {
+    return this.find(this.documents, document => document.id === id);
+  }
+  
+  async getDocumentByHash(userId: number, contentHash: string, workspaceId: number | null = null): Promise<SavedDocument | undefined> {
+    return this.find(this.documents, document => inScopeRow(document, userId, workspaceId) && document.contentHash === contentHash);
+  }
+  
+  async createDocument(document: InsertSavedDocument): Promise<SavedDocument> {
+    const id = this.nextId();
+    const now = new Date();
+    return this.save(this.documents, id, {
+      workspaceId: null,
+      author: null,
+      format: null,
+      sections: null,
+      pages: null,
+      ...defined(document),
+      userId: document.userId,
+      title: document.title,
+      text: document.text,
+      contentHash: document.contentHash,
+      wordCount: document.wordCount,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+  
+  async updateDocument(id: number, document: Partial<InsertSavedDocument>): Promise<SavedDocument | undefined> {
+    const current = this.documents.get(id);
+    return current && this.save(this.documents, id, { ...current, ...defined(document), updatedAt: new Date() });
+  }
+  
+  async deleteDocument(id: number): Promise<boolean> {
+    if (!this.documents.delete(id)) return false;
+    // document_id is "on delete set null" for history and jobs
+    this.analysisHistory.forEach(item => { if (item.documentId === id) item.documentId = null; });
+    this.analysisJobs.forEach(job => { if (job.documentId === id) job.documentId = null; });
+    return true;
+  }
+  
+  async getPromptTemplates(userId: number): Promise<UserPromptTemplate[]> {
+    return this.filter(this.promptTemplates, template => template.userId === userId)
+      .sort((a, b) => a.name < b.name ? -1 : a.name > b.name ? 1 : 0);
+  }
+  
+  async getPromptTemplate(id: number): Promise<UserPromptTemplate | undefined> {
+    return this.find(this.promptTemplates, template => template.id === id);
+  }
+  
+  async getPromptTemplateVersions(templateId: number): Promise<PromptTemplateVersion[]> {
+    return this.filter(this.promptTemplateVersions, version => version.templateId === templateId)
+      .sort((a, b) => b.version - a.version);
+  }
+  
+  async getPromptTemplateVersion(templateId: number, version: number): Promise<PromptTemplateVersion | undefined> {
+    return this.find(this.promptTemplateVersions, found => found.templateId === templateId && found.version === version);
+  }
+
+  private saveTemplateVersion(template: UserPromptTemplate) {
+    const id = this.nextId();
+    this.save(this.promptTemplateVersions, id, {
+      id,
+      templateId: template.id,
+      version: template.version,
+      template: template.template,
+      output: template.output,
+      createdAt: new Date(),
+    });
+  }
+  
+  async createPromptTemplate(template: InsertUserPromptTemplate): Promise<UserPromptTemplate> {
+    const id = this.nextId();
+    const now = new Date();
+    const created = this.save(this.promptTemplates, id, {
+      description: null,
+      clonedFrom: null,
+      output: null,
+      ...defined(template),
+      userId: template.userId,
+      name: template.name,
+      baseFunction: template.baseFunction,
+      template: template.template,
+      id,
+      version: 1,
+      createdAt: now,
+      updatedAt: now,
+    });
+    this.saveTemplateVersion(created);
+    return created;
+  }
+  
+  // A changed template text or output spec becomes the next version; renames keep the version
+  async updatePromptTemplate(id: number, template: Partial<InsertUserPromptTemplate>): Promise<UserPromptTemplate | undefined> {
+    const current = this.promptTemplates.get(id);
+    if (!current) return undefined;
+    
+    const changed = (template.template !== undefined && template.template !== current.template)
+      || (template.output !== undefined && JSON.stringify(template.output) !== JSON.stringify(current.output));
+    const updated = this.save(this.promptTemplates, id, {
+      ...current,
+      ...defined(template),
+      version: changed ? current.version + 1 : current.version,
+      updatedAt: new Date(),
+    });
+    if (changed) {
+      this.saveTemplateVersion(updated);
+    }
+    return updated;
+  }
+  
+  async deletePromptTemplate(id: number): Promise<boolean> {
+    if (!this.promptTemplates.delete(id)) return false;
+    this.promptTemplateVersions.forEach((version, key) => {
+      if (version.templateId === id) this.promptTemplateVersions.delete(key);
+    });
+    return true;
+  }
+  
+  async createAnalysisHistory(history: InsertAnalysisHistory): Promise<AnalysisHistory> {
+    const id = this.nextId();
+    return this.save(this.analysisHistory, id, {
+      userId: null,
+      provider: null,
+      inputPreview: null,
+      workspaceId: null,
+      documentId: null,
+      promptId: null,
+      promptVersion: null,
+      outputData: null,
+      ...defined(history),
+      analysisType: history.analysisType,
+      id,
+      createdAt: new Date(),
+    });
+  }
+  
+  async getAnalysisHistory(userId: number, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return this.filter(this.analysisHistory, item => visibleRow(item, userId, workspaceIds)).sort(newestFirst);
+  }
+  
+  async getAnalysisHistoryByType(userId: number, analysisType: string, workspaceIds: number[] = []): Promise<AnalysisHistory[]> {
+    return this.filter(this.analysisHistory, item => visibleRow(item, userId, workspaceIds) && item.analysisType === analysisType)
+      .sort(newestFirst);
+  }
+  
+  async getAnalysisHistoryItem(id: number): Promise<AnalysisHistory | undefined> {
+    return this.find(this.analysisHistory, item => item.id === id);
+  }
+  
+  async getAnalysisHistoryByDocument(documentId: number): Promise<AnalysisHistory[]> {
+    return this.filter(this.analysisHistory, item => item.documentId === documentId).sort(newestFirst);
+  }
+  
+  async updateAnalysisHistory(id: number, history: Partial<InsertAnalysisHistory>): Promise<AnalysisHistory | undefined> {
+    const current = this.analysisHistory.get(id);
+    return current && this.save(this.analysisHistory, id, { ...current, ...defined(history) });
+  }
+  
+  async deleteAnalysisHistoryItem(id: number): Promise<boolean> {
+    if (!this.analysisHistory.delete(id)) return false;
+    // history_id is "on delete set null" for jobs
+    this.analysisJobs.forEach(job => { if (job.historyId === id) job.historyId = null; });
     return true;
   }
+  
+  async createAnalysisJob(job: InsertAnalysisJob, chunks: Omit<InsertAnalysisJobChunk, "jobId">[]): Promise<AnalysisJob> {
+    const id = this.nextId();
+    const now = new Date();
+    const created = this.save(this.analysisJobs, id, {
+      userId: null,
+      textHash: null,
+      documentId: null,
+      promptId: null,
+      promptVersion: null,
+      status: "queued",
+      inputPreview: null,
+      completedChunks: 0,
+      synthesize: false,
+      result: null,
+      error: null,
+      historyId: null,
+      completedAt: null,
+      ...defined(job),
+      functionType: job.functionType,
+      providers: job.providers,
+      totalChunks: job.totalChunks,
+      id,
+      createdAt: now,
+      updatedAt: now,
+    });
+    for (const chunk of chunks) {
+      const chunkId = this.nextId();
+      this.save(this.analysisJobChunks, chunkId, {
+        startOffset: 0,
+        status: "pending",
+        provider: null,
+        output: null,
+        error: null,
+        completedAt: null,
+        ...defined(chunk),
+        chunkNumber: chunk.chunkNumber,
+        startWord: chunk.startWord,
+        endWord: chunk.endWord,
+        text: chunk.text,
+        id: chunkId,
+        jobId: id,
+      });
+    }
+    return created;
+  }
+  
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    return this.find(this.analysisJobs, job => job.id === id);
+  }
+  
+  async getAnalysisJobs(userId: number): Promise<AnalysisJob[]> {
+    return this.filter(this.analysisJobs, job => job.userId === userId).sort(newestFirst);
+  }
+  
+  async getAnalysisJobsByTextHash(userId: number, textHash: string): Promise<AnalysisJob[]> {
+    return this.filter(this.analysisJobs, job => job.userId === userId && job.textHash === textHash).sort(newestFirst);
+  }
+  
+  async getAnalysisJobsByStatus(statuses: string[]): Promise<AnalysisJob[]> {
+    return this.filter(this.analysisJobs, job => statuses.includes(job.status)).sort((a, b) => newestFirst(b, a));
+  }
+  
+  async updateAnalysisJob(id: number, job: Partial<InsertAnalysisJob>): Promise<AnalysisJob | undefined> {
+    const current = this.analysisJobs.get(id);
+    return current && this.save(this.analysisJobs, id, { ...current, ...defined(job), updatedAt: new Date() });
+  }
+  
+  // Moves a job from queued to running only if nobody cancelled it in the meantime
+  async claimAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const current = this.analysisJobs.get(id);
+    if (current?.status !== "queued") return undefined;
+    return this.save(this.analysisJobs, id, { ...current, status: "running", error: null, updatedAt: new Date() });
+  }
+  
+  async getAnalysisJobChunks(jobId: number): Promise<AnalysisJobChunk[]> {
+    return this.filter(this.analysisJobChunks, chunk => chunk.jobId === jobId)
+      .sort((a, b) => a.chunkNumber - b.chunkNumber);
+  }
+  
+  async updateAnalysisJobChunk(id: number, chunk: Partial<InsertAnalysisJobChunk>): Promise<AnalysisJobChunk | undefined> {
+    const current = this.analysisJobChunks.get(id);
+    return current && this.save(this.analysisJobChunks, id, { ...current, ...defined(chunk) });
+  }
+  
+  async getLlmCacheEntry(key: string): Promise<LlmCacheEntry | undefined> {
+    return this.find(this.llmCache, entry => entry.key === key);
+  }
+  
+  async setLlmCacheEntry(entry: InsertLlmCacheEntry): Promise<LlmCacheEntry> {
+    // The key is derived from the other columns, so only the value and dates change
+    return this.save(this.llmCache, entry.key, { ...entry, expiresAt: entry.expiresAt ?? null, createdAt: new Date() });
+  }
+  
+  async deleteLlmCacheEntries(filter: Partial<Pick<LlmCacheEntry, "key" | "textHash" | "functionType" | "provider">>): Promise<number> {
+    let deleted = 0;
+    this.llmCache.forEach((entry, key) => {
+      if ((!filter.key || entry.key === filter.key)
+        && (!filter.textHash || entry.textHash === filter.textHash)
+        && (!filter.functionType || entry.functionType === filter.functionType)
+        && (!filter.provider || entry.provider === filter.provider)) {
+        this.llmCache.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+  
+  async deleteExpiredLlmCacheEntries(): Promise<number> {
+    const now = Date.now();
+    let deleted = 0;
+    this.llmCache.forEach((entry, key) => {
+      if (entry.expiresAt && entry.expiresAt.getTime() < now) {
+        this.llmCache.delete(key);
+        deleted++;
+      }
+    });
+    return deleted;
+  }
+}
+
+// STORAGE_BACKEND chooses postgres, sqlite or memory. Left unset, DATABASE_URL
+// means postgres and its absence memory, where everything is lost on restart.
+// SQLite is only loaded when chosen, so the other backends never need the
+// native better-sqlite3 module.
+async function createStorage(): Promise<IStorage> {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? "postgres" : "memory");
+  switch (backend) {
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_BACKEND=postgres needs DATABASE_URL");
+      }
+      return new DatabaseStorage(process.env.DATABASE_URL);
+    case "sqlite": {
+      const { SqliteStorage } = await import("./sqlite");
+      return new SqliteStorage(process.env.SQLITE_PATH || "data/studio.db");
+    }
+    case "memory":
+      console.warn("No database is configured; data is kept in memory and lost on restart");
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND '${backend}'; use postgres, sqlite or memory`);
+  }
 }
 
-export const storage = new DatabaseStorage();
+export const storage = await createStorage();
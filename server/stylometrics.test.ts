@@ -0,0 +1,89 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestClient } from "./testing";
+
+// Ownership of saved stylometric authors, on the in-memory storage
+
+let app: TestApp;
+let alice: TestClient & { id: number };
+let bob: TestClient & { id: number };
+
+async function saveAuthor(user: TestClient, authorName: string): Promise<number> {
+  const response = await user.request("POST", "/api/stylometrics/save", {
+    authorName,
+    sourceTitle: "Minutes",
+    data: { wordCount: 500, verticalityScore: 0.4 },
+  });
+  expect(response.status).toBe(200);
+  return response.body.author.id;
+}
+
+beforeAll(async () => {
+  app = await startTestApp();
+  alice = await app.register("alice-stylo");
+  bob = await app.register("bob-stylo");
+});
+
+afterAll(() => app.close());
+
+describe("GET /api/stylometrics/author/:id", () => {
+  it("returns the owner's author", async () => {
+    const id = await saveAuthor(alice, "Alice's Author");
+    const response = await alice.request("GET", `/api/stylometrics/author/${id}`);
+
+    expect(response.status).toBe(200);
+    expect(response.body.author.authorName).toBe("Alice's Author");
+  });
+
+  it("answers 401 without a session", async () => {
+    const id = await saveAuthor(alice, "Private Author");
+
+    expect((await app.client().request("GET", `/api/stylometrics/author/${id}`)).status).toBe(401);
+  });
+
+  it("answers 403 for someone else's author", async () => {
+    const id = await saveAuthor(alice, "Not Bob's");
+    const response = await bob.request("GET", `/api/stylometrics/author/${id}`);
+
+    expect(response.status).toBe(403);
+    expect(response.body.author).toBeUndefined();
+  });
+
+  it("answers 404 for an author that does not exist", async () => {
+    expect((await alice.request("GET", "/api/stylometrics/author/999999")).status).toBe(404);
+  });
+});
+
+describe("DELETE /api/stylometrics/author/:id", () => {
+  it("answers 401 without a session", async () => {
+    const id = await saveAuthor(alice, "Anonymous Target");
+
+    expect((await app.client().request("DELETE", `/api/stylometrics/author/${id}`)).status).toBe(401);
+    expect((await alice.request("GET", `/api/stylometrics/author/${id}`)).status).toBe(200);
+  });
+
+  it("answers 403 for someone else's author and keeps it", async () => {
+    const id = await saveAuthor(alice, "Bob's Target");
+
+    expect((await bob.request("DELETE", `/api/stylometrics/author/${id}`)).status).toBe(403);
+    expect((await alice.request("GET", `/api/stylometrics/author/${id}`)).status).toBe(200);
+  });
+
+  it("deletes the owner's author, and answers 404 the second time", async () => {
+    const id = await saveAuthor(alice, "Short-Lived");
+
+    expect((await alice.request("DELETE", `/api/stylometrics/author/${id}`)).status).toBe(200);
+    expect((await alice.request("GET", `/api/stylometrics/author/${id}`)).status).toBe(404);
+    expect((await alice.request("DELETE", `/api/stylometrics/author/${id}`)).status).toBe(404);
+  });
+});
+
+describe("GET /api/stylometrics/authors", () => {
+  it("lists only the user's own authors", async () => {
+    await saveAuthor(bob, "Bob's Own");
+    const response = await alice.request("GET", "/api/stylometrics/authors");
+
+    expect(response.status).toBe(200);
+    expect(response.body.authors.length).toBeGreaterThan(0);
+    expect(response.body.authors.every((author: any) => author.userId === alice.id)).toBe(true);
+  });
+});
@@ -1,3 +1,5 @@
+import { builtinPrompt, renderPrompt } from "./prompts";
+
 export interface RawFeatures {
   wordCount: number;
   egoPronounRate: number;
@@ -165,223 +167,22 @@ export function buildSingleTextPrompt(
   text: string,
   rawFeatures: RawFeatures
 ): string {
-  return `You are a stylometric analyst. Analyze the following text and produce a detailed stylometric report.
-
-AUTHOR NAME: ${authorName}
-SOURCE/TITLE: ${sourceTitle || 'Not provided'}
-WORD COUNT: ${rawFeatures.wordCount}
-
-TEXT:
-"""
-${text}
-"""
-
-PRE-COMPUTED FEATURES (use these exact values):
-- Ego-pronoun rate: ${rawFeatures.egoPronounRate} per 1000 words
-- Average sentence length: ${rawFeatures.avgSentenceLength} words
-- Max sentence length: ${rawFeatures.maxSentenceLength} words
-- Subordination depth: ${rawFeatures.subordinationDepth} (1-7 scale)
-- Semicolon frequency: ${rawFeatures.semicolonFreq} per 1000 words
-- Colon frequency: ${rawFeatures.colonFreq} per 1000 words
-- Dash frequency: ${rawFeatures.dashFreq} per 1000 words
-- Rhetorical question rate: ${rawFeatures.questionFreq} per 1000 words
-- Impersonal construction rate: ${rawFeatures.impersonalRate} per 1000 words
-
-YOUR TASK:
-
-1. CLASSIFY metaphor density as: none / low / moderate / high
-   - none = zero metaphors or figurative language
-   - low = 1-2 instances per 1000 words
-   - moderate = 3-5 instances per 1000 words
-   - high = 6+ instances per 1000 words
-
-2. CLASSIFY anecdote frequency as: none / rare / occasional / frequent
-   - none = zero personal stories or concrete narrative examples
-   - rare = 1 brief anecdote
-   - occasional = 2-3 anecdotes
-   - frequent = anecdotes throughout, narrative-driven
-
-3. COMPUTE verticality score using this formula:
-   verticality = (
-     0.25 × (1 - ego_pronoun_rate/80) +
-     0.15 × (impersonal_rate/20) +
-     0.15 × (subordination_depth/7) +
-     0.10 × (semicolon_freq/15) +
-     0.10 × (1 - dash_freq/20) +
-     0.10 × (1 - question_freq/10) +
-     0.075 × metaphor_score +
-     0.075 × anecdote_score
-   )
-   where metaphor_score: none=1.0, low=0.75, moderate=0.5, high=0.0
-   and anecdote_score: none=1.0, rare=0.75, occasional=0.5, frequent=0.0
-   Clamp result to [0.00, 1.00]
-
-4. DETERMINE abstraction level based on verticality score:
-   - 0.85-1.00 = "Extreme Abstraction" — Prose operates at the level of pure logical relations. No particulars survive.
-   - 0.60-0.84 = "High Abstraction" — Conceptual architecture dominates. Concrete examples subordinated to structure.
-   - 0.40-0.59 = "Mixed" — Abstraction and particularity in tension.
-   - 0.20-0.39 = "Low Abstraction" — Concrete particulars dominate. Concepts emerge from stories.
-   - 0.00-0.19 = "Extreme Concreteness" — Pure sensory/narrative immersion. Abstraction dissolved into experience.
-
-5. IDENTIFY 8-15 signature phrases and constructions (verbal tics, scaffolding phrases, characteristic patterns)
-
-6. IDENTIFY 5-10 negative markers (things this author NEVER or almost never does)
-
-7. SELECT 3-5 sample sentences that best exemplify the author's style
-
-8. IDENTIFY closest author match from this reference list:
-   EXTREME VERTICAL (0.85-1.00): Gottlob Frege, Ernest Nagel, John-Michael Kuczynski, Arthur Schopenhauer, Carl Hempel, Timothy Williamson, Wittgenstein (Tractatus)
-   HIGH VERTICAL (0.70-0.84): Bertrand Russell (technical), W.V.O. Quine, Saul Kripke, Donald Davidson, Kit Fine
-   MID-RANGE (0.40-0.69): David Hume, Adam Smith, John Stuart Mill, Sigmund Freud, Gilbert Ryle, J.L. Austin, Joan Didion, Annie Dillard, George Orwell
-   LOW VERTICAL (0.20-0.39): William James, Voltaire, Wittgenstein (Investigations), David Foster Wallace, Henry James, Virginia Woolf
-   EXTREME HORIZONTAL (0.00-0.19): James Joyce (Finnegans Wake), Jack Kerouac, William S. Burroughs
-   
-   Explain WHY this author is the closest match (specific shared features).
-
-9. GENERATE psychological profile:
-   - Cognitive empathy: none / low / moderate / high / extreme
-   - Affective empathy: none / low / moderate / high / extreme
-   - Need for closure: low / moderate / high / extreme
-   - Schizoid features: absent / mild / moderate / marked / extreme
-   - Social orientation: solitary / reserved / moderate / social / highly_social
-   - Body/sensation: disembodied / low / moderate / embodied / hyper_embodied
-   - Consensus attitude: respectful / neutral / skeptical / dismissive / contemptuous
-   - Humor style: none / dry_rare / ironic / warm / frequent_performative
-
-10. WRITE a 3-5 sentence narrative psychological summary. Be BLUNT and SPECIFIC. Do not hedge.
-
-11. IDENTIFY clustering:
-    - Very close to: (1-3 authors from reference list)
-    - Moderately close to: (2-4 authors)
-    - Far from: (2-4 authors)
-
-OUTPUT FORMAT - Your response must be valid JSON with this exact structure:
-{
-  "metaphorDensity": "none|low|moderate|high",
-  "anecdoteFrequency": "none|rare|occasional|frequent",
-  "verticalityScore": 0.00,
-  "classification": "string",
-  "abstractionLevel": "string",
-  "abstractionDescription": "string",
-  "signaturePhrases": ["phrase1", "phrase2", ...],
-  "negativeMarkers": ["marker1", "marker2", ...],
-  "sampleSentences": [
-    {"text": "sentence text", "source": "source attribution"},
-    ...
-  ],
-  "closestAuthorMatch": "Author Name",
-  "matchExplanation": "explanation",
-  "secondaryMatch": "Author Name or null",
-  "farFrom": ["Author1", "Author2", ...],
-  "psychologicalProfile": {
-    "cognitiveEmpathy": "level",
-    "affectiveEmpathy": "level",
-    "needForClosure": "level",
-    "schizoidFeatures": "level",
-    "socialOrientation": "level",
-    "bodySensation": "level",
-    "consensusAttitude": "level",
-    "humorStyle": "level"
-  },
-  "narrativeSummary": "3-5 sentence blunt psychological portrait",
-  "clustering": {
-    "veryCloseTo": ["author1", "author2"],
-    "moderatelyCloseTo": ["author1", "author2", "author3"],
-    "farFrom": ["author1", "author2"]
-  }
-}`;
+  return renderPrompt(builtinPrompt("stylometrics"), {
+    authorName,
+    sourceTitle: sourceTitle || 'Not provided',
+    text,
+    features: rawFeatures,
+  });
 }
 
 export function buildComparisonPrompt(
   textA: { authorName: string; text: string; rawFeatures: RawFeatures },
   textB: { authorName: string; text: string; rawFeatures: RawFeatures }
 ): string {
-  return `You are a stylometric analyst. Compare the following two texts and produce a detailed comparative stylometric report.
-
-TEXT A:
-Author/Label: ${textA.authorName}
-Word Count: ${textA.rawFeatures.wordCount}
-"""
-${textA.text}
-"""
-
-TEXT A PRE-COMPUTED FEATURES:
-- Ego-pronoun rate: ${textA.rawFeatures.egoPronounRate} per 1000 words
-- Average sentence length: ${textA.rawFeatures.avgSentenceLength} words
-- Max sentence length: ${textA.rawFeatures.maxSentenceLength} words
-- Subordination depth: ${textA.rawFeatures.subordinationDepth}
-- Semicolon frequency: ${textA.rawFeatures.semicolonFreq} per 1000 words
-- Colon frequency: ${textA.rawFeatures.colonFreq} per 1000 words
-- Dash frequency: ${textA.rawFeatures.dashFreq} per 1000 words
-- Rhetorical question rate: ${textA.rawFeatures.questionFreq} per 1000 words
-- Impersonal construction rate: ${textA.rawFeatures.impersonalRate} per 1000 words
-
-TEXT B:
-Author/Label: ${textB.authorName}
-Word Count: ${textB.rawFeatures.wordCount}
-"""
-${textB.text}
-"""
-
-TEXT B PRE-COMPUTED FEATURES:
-- Ego-pronoun rate: ${textB.rawFeatures.egoPronounRate} per 1000 words
-- Average sentence length: ${textB.rawFeatures.avgSentenceLength} words
-- Max sentence length: ${textB.rawFeatures.maxSentenceLength} words
-- Subordination depth: ${textB.rawFeatures.subordinationDepth}
-- Semicolon frequency: ${textB.rawFeatures.semicolonFreq} per 1000 words
-- Colon frequency: ${textB.rawFeatures.colonFreq} per 1000 words
-- Dash frequency: ${textB.rawFeatures.dashFreq} per 1000 words
-- Rhetorical question rate: ${textB.rawFeatures.questionFreq} per 1000 words
-- Impersonal construction rate: ${textB.rawFeatures.impersonalRate} per 1000 words
-
-YOUR TASK:
-
-1. For EACH text, classify metaphor density and anecdote frequency
-2. Compute verticality score for EACH text using the formula provided
-3. Determine abstraction level for EACH text
-4. Identify signature phrases for EACH text
-5. Identify negative markers for EACH text
-6. Select representative quote for EACH text
-7. Identify closest author match for EACH text
-8. Generate psychological profile for EACH text
-9. Write comparative analysis:
-   - Key stylistic differences (3-5 major divergences with specific evidence)
-   - "If these authors were in the same room" scenario (vivid, specific, entertaining)
-   - Collaborative potential assessment
-10. Identify clustering for each text
-
-OUTPUT FORMAT - Your response must be valid JSON with this exact structure:
-{
-  "textA": {
-    "metaphorDensity": "none|low|moderate|high",
-    "anecdoteFrequency": "none|rare|occasional|frequent",
-    "verticalityScore": 0.00,
-    "classification": "string",
-    "abstractionLevel": "string",
-    "abstractionDescription": "string",
-    "signaturePhrases": ["phrase1", "phrase2"],
-    "negativeMarkers": ["marker1", "marker2"],
-    "representativeQuote": "quote text",
-    "quoteAnalysis": "what this quote shows",
-    "closestAuthorMatch": "Author Name",
-    "matchExplanation": "why",
-    "psychologicalProfile": {...},
-    "narrativeSummary": "3-4 sentence portrait",
-    "clustering": {...}
-  },
-  "textB": {
-    ... same structure as textA ...
-  },
-  "comparison": {
-    "verticalityDifference": 0.00,
-    "keyDivergences": [
-      {"feature": "feature name", "textA": "value/description", "textB": "value/description", "analysis": "what this means"}
-    ],
-    "sameRoomScenario": "vivid, specific, entertaining paragraph",
-    "collaborativePotential": "specific assessment"
-  },
-  "verdict": "2-3 sentence summary of the fundamental difference"
-}`;
+  return renderPrompt(builtinPrompt("stylometrics.compare"), {
+    textA: { authorName: textA.authorName, text: textA.text, features: textA.rawFeatures },
+    textB: { authorName: textB.authorName, text: textB.text, features: textB.rawFeatures },
+  });
 }
 
 export function formatSingleTextReport(
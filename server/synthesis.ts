@@ -0,0 +1,83 @@
+import { maxChunkWords } from "@shared/chunking";
+import { synthesizeResults, withFailover, type AnalysisResult } from "./llm";
+
+// Map-reduce pass over per-chunk outputs: consecutive outputs are merged in
+// groups that fit the provider chain's context window, and the merged results
+// are merged again until one document-level result is left.
+
+const SYNTHESIS_FIELDS: Record<string, "analyzer" | "database" | "summary"> = {
+  analyzer: "analyzer",
+  database: "database",
+  rewrite: "summary",
+};
+
+const APPENDIX_TITLES: Record<string, string> = {
+  analyzer: "PER-CHUNK ANALYSES",
+  database: "PER-CHUNK DATABASES",
+  rewrite: "PER-CHUNK COMPRESSIONS",
+};
+
+function countWords(text: string): number {
+  return text.split(/\s+/).filter(Boolean).length;
+}
+
+// Every group gets at least two parts so each round at least halves the list,
+// even when single outputs are larger than the budget
+function groupParts(parts: string[], budget: number): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let words = 0;
+
+  for (const part of parts) {
+    const partWords = countWords(part);
+    if (current.length >= 2 && words + partWords > budget) {
+      groups.push(current);
+      current = [];
+      words = 0;
+    }
+    current.push(part);
+    words += partWords;
+  }
+
+  if (current.length === 1 && groups.length > 0) {
+    groups[groups.length - 1].push(current[0]);
+  } else {
+    groups.push(current);
+  }
+  return groups;
+}
+
+// Returns `combined` with the synthesized document-level text in place of the
+// concatenated per-chunk text, which is kept below it as an appendix
+export async function synthesizeDocument(
+  functionType: string,
+  outputs: AnalysisResult[],
+  combined: AnalysisResult,
+  providers: string[]
+): Promise<AnalysisResult> {
+  const field = SYNTHESIS_FIELDS[functionType];
+  if (!field || outputs.length < 2) return combined;
+
+  const budget = maxChunkWords(providers);
+  let parts = outputs.map(output => output[field]);
+  let round = 1;
+
+  while (parts.length > 1) {
+    const groups = groupParts(parts, budget);
+    console.log(`Synthesis round ${round}: merging ${parts.length} ${functionType} outputs in ${groups.length} group(s)`);
+
+    const merged: string[] = [];
+    for (const group of groups) {
+      const { value } = await withFailover(providers, p => synthesizeResults(group, p, functionType));
+      merged.push(value[field]);
+    }
+    parts = merged;
+    round++;
+  }
+
+  const banner = "═══════════════════════════════════════════════════════════════";
+  return {
+    ...combined,
+    [field]: `${parts[0]}\n\n\n${banner}\n              APPENDIX: ${APPENDIX_TITLES[functionType]}\n${banner}\n\n${combined[field]}`,
+  };
+}
@@ -0,0 +1,114 @@
+import type { User, UserPromptTemplate } from "@shared/schema";
+import { CUSTOM_FUNCTION, outputSpecErrors } from "@shared/functions";
+import { storage } from "./storage";
+import { ANALYSIS_FUNCTIONS, ANALYSIS_VARIABLES, analysisPrompt, templateErrors, type PromptTemplate } from "./prompts";
+
+// Custom functions are users' copies of the built-in analysis prompts, or
+// functions of their own with the "custom" base and an output spec. A run
+// names its prompt by id and version: "analysis.quotes" v1 for a built-in,
+// "user:<id>" and the template's current version for a custom function.
+
+export class PromptTemplateError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "PromptTemplateError";
+  }
+}
+
+export function userPromptId(templateId: number): string {
+  return `user:${templateId}`;
+}
+
+export function toPrompt(template: UserPromptTemplate): PromptTemplate {
+  return {
+    id: userPromptId(template.id),
+    version: template.version,
+    name: template.name,
+    template: template.template,
+    output: template.output ?? undefined,
+  };
+}
+
+// What is wrong with a template a user submitted, if anything
+export function validateTemplate(details: { name?: unknown; baseFunction?: unknown; template?: unknown; output?: unknown }): string[] {
+  const errors: string[] = [];
+  if (details.name !== undefined && (typeof details.name !== "string" || !details.name.trim())) {
+    errors.push("'name' must be a non-empty string");
+  }
+  if (details.baseFunction !== undefined && (typeof details.baseFunction !== "string"
+    || !(ANALYSIS_FUNCTIONS.includes(details.baseFunction) || details.baseFunction === CUSTOM_FUNCTION))) {
+    errors.push(`'baseFunction' must be one of ${ANALYSIS_FUNCTIONS.join(", ")} or ${CUSTOM_FUNCTION}`);
+  }
+  // Only a custom function declares its output; the others keep their base's
+  if (details.baseFunction === CUSTOM_FUNCTION && (details.output === undefined || details.output === null)) {
+    errors.push(`A '${CUSTOM_FUNCTION}' function needs an 'output' spec`);
+  } else if (details.baseFunction !== undefined && details.baseFunction !== CUSTOM_FUNCTION && details.output !== undefined && details.output !== null) {
+    errors.push(`Only a '${CUSTOM_FUNCTION}' function can define its 'output'`);
+  } else if (details.output !== undefined && details.output !== null) {
+    errors.push(...outputSpecErrors(details.output));
+  }
+  if (details.template !== undefined) {
+    if (typeof details.template !== "string") {
+      errors.push("'template' must be a string");
+    } else {
+      errors.push(...templateErrors(details.template, ANALYSIS_VARIABLES));
+    }
+  }
+  return errors;
+}
+
+// The prompt a run uses: the named template, which must be the user's, or else
+// the built-in prompt for the function. A template also fixes the function type.
+export async function resolveAnalysisPrompt(
+  user: User | undefined,
+  functionType: string,
+  templateId?: unknown
+): Promise<{ functionType: string; prompt: PromptTemplate }> {
+  if (templateId === undefined || templateId === null) {
+    if (functionType === CUSTOM_FUNCTION) {
+      throw new PromptTemplateError("'templateId' is required to run a custom function", 400);
+    }
+    return { functionType, prompt: analysisPrompt(functionType) };
+  }
+
+  if (typeof templateId !== "number" || !Number.isInteger(templateId)) {
+    throw new PromptTemplateError("'templateId' must be a template id", 400);
+  }
+
+  if (!user) {
+    throw new PromptTemplateError("Login required to run a custom function", 401);
+  }
+
+  const template = await storage.getPromptTemplate(templateId);
+  if (!template) {
+    throw new PromptTemplateError("Prompt template not found", 404);
+  }
+  if (template.userId !== user.id) {
+    throw new PromptTemplateError("Access denied", 403);
+  }
+
+  return { functionType: template.baseFunction, prompt: toPrompt(template) };
+}
+
+// The exact prompt a job was created with. Built-ins only exist in their
+// current version, so a job resumed after a built-in changed picks up the new one.
+export async function promptForRun(promptId: string | null, version: number | null, functionType: string): Promise<PromptTemplate> {
+  if (!promptId?.startsWith("user:")) {
+    return analysisPrompt(functionType);
+  }
+
+  const templateId = parseInt(promptId.slice("user:".length));
+  const template = await storage.getPromptTemplate(templateId);
+  const saved = template && await storage.getPromptTemplateVersion(templateId, version ?? template.version);
+  if (!template || !saved) {
+    throw new Error(`Prompt ${promptId} v${version} no longer exists`);
+  }
+
+  return {
+    id: promptId,
+    version: saved.version,
+    name: template.name,
+    template: saved.template,
+    output: saved.output ?? undefined,
+  };
+}
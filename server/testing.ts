@@ -0,0 +1,67 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { registerRoutes } from "./routes";
+
+// Route tests run the real routes on a random local port against whatever
+// storage the environment selects (memory under `npm test`).
+
+export interface TestResponse {
+  status: number;
+  body: any;
+}
+
+export interface TestClient {
+  request(method: string, path: string, body?: unknown): Promise<TestResponse>;
+}
+
+export interface TestApp {
+  // A client that keeps its own session cookie, like one browser
+  client(): TestClient;
+  // A client logged in as a newly registered user
+  register(username: string, password?: string): Promise<TestClient & { id: number }>;
+  close(): Promise<void>;
+}
+
+export async function startTestApp(): Promise<TestApp> {
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const client = (): TestClient => {
+    let cookie: string | undefined;
+    return {
+      async request(method, path, body) {
+        const response = await fetch(baseUrl + path, {
+          method,
+          headers: { "Content-Type": "application/json", ...(cookie && { cookie }) },
+          body: body === undefined ? undefined : JSON.stringify(body),
+        });
+        cookie = response.headers.get("set-cookie")?.split(";")[0] || cookie;
+        const text = await response.text();
+        let parsed: any = text;
+        try {
+          parsed = JSON.parse(text);
+        } catch {
+          // Not every response is JSON
+        }
+        return { status: response.status, body: parsed };
+      },
+    };
+  };
+
+  return {
+    client,
+    async register(username, password = "correct horse") {
+      const user = client();
+      const response = await user.request("POST", "/api/auth/register", { username, password });
+      if (response.status !== 201) {
+        throw new Error(`Could not register ${username}: ${JSON.stringify(response.body)}`);
+      }
+      return { ...user, id: response.body.user.id };
+    },
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+}
@@ -0,0 +1,73 @@
+import { createAligner, type QuoteLocation } from "@shared/alignment";
+import type { AnalysisResult } from "./llm";
+
+// Checks every quote a model returned against the text it was given and
+// records where it was found. QUOTE_VERIFICATION=drop removes quotes that
+// cannot be found; the default (flag) keeps them with a null location.
+
+const DROP_UNVERIFIED = process.env.QUOTE_VERIFICATION === "drop";
+
+export type AnalysisLocations = NonNullable<AnalysisResult["locations"]>;
+
+export function verifyAnalysis(source: string, result: AnalysisResult): AnalysisResult {
+  const locate = createAligner(source);
+
+  let quotes = result.quotes.map(quote => ({ quote, location: locate(quote) }));
+  let annotated = result.annotatedQuotes.map(item => ({ item, location: locate(item.quote) }));
+  let views = (result.views || []).map(view => ({
+    view,
+    evidence: view.evidence.map(quote => ({ quote, location: locate(quote) })),
+  }));
+
+  if (DROP_UNVERIFIED) {
+    quotes = quotes.filter(q => q.location);
+    annotated = annotated.filter(a => a.location);
+    // A view survives as long as some of its evidence is real
+    views = views
+      .map(v => ({ ...v, evidence: v.evidence.filter(e => e.location) }))
+      .filter(v => v.evidence.length > 0);
+  }
+
+  const verified: AnalysisResult = {
+    ...result,
+    quotes: quotes.map(q => q.quote),
+    annotatedQuotes: annotated.map(a => a.item),
+    views: views.map(v => ({ ...v.view, evidence: v.evidence.map(e => e.quote) })),
+    locations: {
+      quotes: quotes.map(q => q.location),
+      annotatedQuotes: annotated.map(a => a.location),
+      views: views.map(v => v.evidence.map(e => e.location)),
+    },
+  };
+
+  if (result.argumentMap) {
+    // Nodes and edges stay even without evidence: the graph is a reading of
+    // the text, and its structure does not depend on the quotes
+    const check = (evidence: string[]) => {
+      const located = evidence.map(quote => ({ quote, location: locate(quote) }));
+      return DROP_UNVERIFIED ? located.filter(e => e.location) : located;
+    };
+    const nodes = result.argumentMap.nodes.map(node => check(node.evidence));
+    const edges = result.argumentMap.edges.map(edge => check(edge.evidence));
+
+    verified.argumentMap = {
+      nodes: result.argumentMap.nodes.map((node, i) => ({ ...node, evidence: nodes[i].map(e => e.quote) })),
+      edges: result.argumentMap.edges.map((edge, i) => ({ ...edge, evidence: edges[i].map(e => e.quote) })),
+    };
+    verified.locations!.argumentMap = {
+      nodes: nodes.map(evidence => evidence.map(e => e.location)),
+      edges: edges.map(evidence => evidence.map(e => e.location)),
+    };
+  }
+
+  return verified;
+}
+
+export function verifyQuotes(source: string, quotes: string[]): { quotes: string[]; locations: (QuoteLocation | null)[] } {
+  const locate = createAligner(source);
+  let located = quotes.map(quote => ({ quote, location: locate(quote) }));
+  if (DROP_UNVERIFIED) {
+    located = located.filter(q => q.location);
+  }
+  return { quotes: located.map(q => q.quote), locations: located.map(q => q.location) };
+}
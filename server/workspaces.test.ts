@@ -0,0 +1,92 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import { startTestApp, type TestApp, type TestClient } from "./testing";
+
+// Moving shared documents between workspaces, on the in-memory storage
+
+let app: TestApp;
+let alice: TestClient & { id: number };
+let bob: TestClient & { id: number };
+let carol: TestClient & { id: number };
+let team: number;
+let archive: number;
+
+async function createWorkspace(owner: TestClient, name: string): Promise<number> {
+  const response = await owner.request("POST", "/api/workspaces", { name });
+  expect(response.status).toBe(201);
+  return response.body.workspace.id;
+}
+
+async function addMember(owner: TestClient, workspaceId: number, username: string, role: string) {
+  const response = await owner.request("PUT", `/api/workspaces/${workspaceId}/members`, { username, role });
+  expect(response.status).toBe(200);
+}
+
+async function saveDocument(user: TestClient, text: string, workspaceId: number): Promise<number> {
+  const response = await user.request("POST", "/api/documents", { text, title: "Minutes", workspaceId });
+  expect(response.status).toBe(201);
+  return response.body.document.id;
+}
+
+async function workspaceOf(user: TestClient, documentId: number): Promise<number | null> {
+  return (await user.request("GET", `/api/documents/${documentId}`)).body.document.workspaceId;
+}
+
+beforeAll(async () => {
+  app = await startTestApp();
+  alice = await app.register("alice-ws");
+  bob = await app.register("bob-ws");
+  carol = await app.register("carol-ws");
+
+  // Alice owns both team workspaces; Bob and Carol edit in Team
+  team = await createWorkspace(alice, "Team");
+  archive = await createWorkspace(alice, "Archive");
+  await addMember(alice, team, "bob-ws", "editor");
+  await addMember(alice, team, "carol-ws", "editor");
+});
+
+afterAll(() => app.close());
+
+describe("PATCH /api/documents/:id moving a workspace document", () => {
+  it("refuses an editor who did not create it", async () => {
+    const id = await saveDocument(bob, "Bob's notes on the budget.", team);
+    const own = await createWorkspace(carol, "Carol's");
+
+    const response = await carol.request("PATCH", `/api/documents/${id}`, { workspaceId: own });
+
+    expect(response.status).toBe(403);
+    expect(await workspaceOf(bob, id)).toBe(team);
+  });
+
+  it("still lets that editor rename it", async () => {
+    const id = await saveDocument(bob, "Bob's notes on the hiring plan.", team);
+    const response = await carol.request("PATCH", `/api/documents/${id}`, { title: "Hiring" });
+
+    expect(response.status).toBe(200);
+    expect(response.body.document.title).toBe("Hiring");
+  });
+
+  it("lets its creator move it", async () => {
+    const id = await saveDocument(bob, "Bob's notes on the roadmap.", team);
+    const own = await createWorkspace(bob, "Bob's");
+    const response = await bob.request("PATCH", `/api/documents/${id}`, { workspaceId: own });
+
+    expect(response.status).toBe(200);
+    expect(response.body.document.workspaceId).toBe(own);
+  });
+
+  it("lets an owner of its workspace move it", async () => {
+    const id = await saveDocument(bob, "Bob's notes on the offsite.", team);
+    const response = await alice.request("PATCH", `/api/documents/${id}`, { workspaceId: archive });
+
+    expect(response.status).toBe(200);
+    expect(response.body.document.workspaceId).toBe(archive);
+  });
+
+  it("lets only its creator take it out of the workspace", async () => {
+    const id = await saveDocument(bob, "Bob's notes on the retrospective.", team);
+
+    expect((await alice.request("PATCH", `/api/documents/${id}`, { workspaceId: null })).status).toBe(403);
+    expect((await bob.request("PATCH", `/api/documents/${id}`, { workspaceId: null })).status).toBe(200);
+    expect(await workspaceOf(bob, id)).toBeNull();
+  });
+});
@@ -0,0 +1,67 @@
+import { canEditWorkspace, type WorkspaceRole } from "@shared/workspaces";
+import { storage } from "./storage";
+
+// Who may see and change stylometric authors, documents and history items.
+// An item in no workspace is its creator's alone; an item in a workspace is
+// readable by every member and changeable by its editors and owners,
+// whoever created it.
+
+export class WorkspaceError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+type SharedItem = { userId: number | null; workspaceId: number | null };
+
+export async function workspaceRole(userId: number, workspaceId: number): Promise<WorkspaceRole | undefined> {
+  return (await storage.getWorkspaceMember(workspaceId, userId))?.role;
+}
+
+export async function canAccess(userId: number, item: SharedItem, access: "read" | "write" = "read"): Promise<boolean> {
+  if (item.workspaceId === null) return item.userId === userId;
+  const role = await workspaceRole(userId, item.workspaceId);
+  return access === "read" ? role !== undefined : canEditWorkspace(role);
+}
+
+// The workspace a request asks to put a new item in: null (the default) keeps
+// it to the user, otherwise the user must be an editor or owner there
+export async function targetWorkspace(userId: number, workspaceId: unknown): Promise<number | null> {
+  if (workspaceId === undefined || workspaceId === null) return null;
+  if (typeof workspaceId !== "number" || !Number.isInteger(workspaceId)) {
+    throw new WorkspaceError("'workspaceId' must be a workspace id or null", 400);
+  }
+  const role = await workspaceRole(userId, workspaceId);
+  if (!role) {
+    throw new WorkspaceError("Workspace not found", 404);
+  }
+  if (!canEditWorkspace(role)) {
+    throw new WorkspaceError("Viewers can't add to this workspace", 403);
+  }
+  return workspaceId;
+}
+
+// What a listing shows: by default the user's own items and those of every
+// workspace they belong to. `?workspaceId=<id>` narrows it to one workspace,
+// `?workspaceId=personal` to the user's own.
+export async function listingScope(userId: number, filter: unknown): Promise<{
+  workspaceIds: number[];
+  includes: (item: SharedItem) => boolean;
+}> {
+  const workspaceIds = (await storage.getUserWorkspaces(userId)).map(workspace => workspace.id);
+  if (filter === undefined || filter === "") {
+    return { workspaceIds, includes: () => true };
+  }
+  if (filter === "personal") {
+    return { workspaceIds: [], includes: item => item.workspaceId === null };
+  }
+  const workspaceId = typeof filter === "string" ? Number(filter) : NaN;
+  if (!Number.isInteger(workspaceId)) {
+    throw new WorkspaceError("'workspaceId' must be a workspace id or 'personal'", 400);
+  }
+  if (!workspaceIds.includes(workspaceId)) {
+    throw new WorkspaceError("Workspace not found", 404);
+  }
+  return { workspaceIds: [workspaceId], includes: item => item.workspaceId === workspaceId };
+}
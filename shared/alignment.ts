@@ -0,0 +1,151 @@
+// Finds where a quote returned by a model actually occurs in the source text.
+// Models are asked for exact quotes but paraphrase, re-punctuate and trim, so
+// matching is done on words: candidate positions are voted for by shared
+// words and the best window is scored with a word-level LCS.
+
+export interface QuoteLocation {
+  start: number;  // character offsets into the source, end exclusive
+  end: number;
+  confidence: number;  // 1 for a verbatim match
+}
+
+// At or above this a quote is treated as verified; between MIN_CONFIDENCE and
+// this it is shown as an approximate match
+export const VERIFIED_CONFIDENCE = 0.85;
+export const MIN_CONFIDENCE = 0.6;
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const WORD = /[^\s"'“”‘’«».,;:!?()\[\]…—–\-*_/]+/g;
+const ELLIPSIS = /\s*(?:\.\s?\.\s?\.|…|\[\.\.\.\])\s*/;
+const MAX_CANDIDATES = 5;
+// Words this common say nothing about where a quote is
+const MAX_POSITIONS_PER_WORD = 200;
+
+function tokenize(text: string): Token[] {
+  return Array.from(text.matchAll(WORD), match => ({
+    word: match[0].toLowerCase(),
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+}
+
+// Longest common subsequence of quote words within a window of source tokens;
+// returns the match count and the first and last matched source tokens
+function alignWindow(quote: string[], tokens: Token[], from: number, to: number) {
+  const width = to - from;
+  let previous = new Array<number>(width + 1).fill(0);
+  let previousFirst = new Array<number>(width + 1).fill(-1);
+
+  for (let i = 1; i <= quote.length; i++) {
+    const current = new Array<number>(width + 1).fill(0);
+    const currentFirst = new Array<number>(width + 1).fill(-1);
+    for (let j = 1; j <= width; j++) {
+      if (quote[i - 1] === tokens[from + j - 1].word) {
+        current[j] = previous[j - 1] + 1;
+        currentFirst[j] = previousFirst[j - 1] === -1 ? from + j - 1 : previousFirst[j - 1];
+      } else if (previous[j] >= current[j - 1]) {
+        current[j] = previous[j];
+        currentFirst[j] = previousFirst[j];
+      } else {
+        current[j] = current[j - 1];
+        currentFirst[j] = currentFirst[j - 1];
+      }
+    }
+    previous = current;
+    previousFirst = currentFirst;
+  }
+
+  // The earliest column reaching the full score is where the match ends
+  const matched = previous[width];
+  let column = width;
+  for (let j = 1; j <= width; j++) {
+    if (previous[j] === matched) {
+      column = j;
+      break;
+    }
+  }
+  return { matched, first: previousFirst[column], last: from + column - 1 };
+}
+
+function alignSegment(quote: string[], tokens: Token[], index: Map<string, number[]>, after: number) {
+  // Each shared word votes for the source position the quote would start at
+  const votes = new Map<number, number>();
+  quote.forEach((word, offset) => {
+    const positions = index.get(word);
+    if (!positions || positions.length > MAX_POSITIONS_PER_WORD) return;
+    for (const position of positions) {
+      if (position < after) continue;
+      const start = position - offset;
+      votes.set(start, (votes.get(start) || 0) + 1);
+    }
+  });
+
+  const candidates = Array.from(votes.entries())
+    .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+    .slice(0, MAX_CANDIDATES);
+
+  const slack = Math.max(3, Math.ceil(quote.length / 4));
+  let best: { confidence: number; first: number; last: number } | null = null;
+
+  for (const [start] of candidates) {
+    const from = Math.max(after, start - slack);
+    const to = Math.min(tokens.length, start + quote.length + slack);
+    if (to <= from) continue;
+
+    const { matched, first, last } = alignWindow(quote, tokens, from, to);
+    if (matched === 0 || first === -1) continue;
+
+    // Words the source has inside the span but the quote lacks count against it
+    const span = last - first + 1;
+    const confidence = (2 * matched) / (quote.length + span);
+    if (!best || confidence > best.confidence) best = { confidence, first, last };
+    if (confidence === 1) break;
+  }
+
+  return best;
+}
+
+// Builds the word index once so every quote from one result can be located cheaply
+export function createAligner(source: string): (quote: string) => QuoteLocation | null {
+  const tokens = tokenize(source);
+  const index = new Map<string, number[]>();
+  tokens.forEach((token, i) => {
+    const positions = index.get(token.word);
+    if (positions) positions.push(i);
+    else index.set(token.word, [i]);
+  });
+
+  return (quote: string) => {
+    // "A ... B" quotes legitimately skip material, so each part is located
+    // separately, in order
+    const segments = quote
+      .split(ELLIPSIS)
+      .map(segment => tokenize(segment).map(token => token.word))
+      .filter(words => words.length > 0);
+    if (segments.length === 0) return null;
+
+    let after = 0;
+    let weighted = 0;
+    let total = 0;
+    let start = -1;
+    let end = -1;
+
+    for (const words of segments) {
+      const match = alignSegment(words, tokens, index, after);
+      if (!match) return null;
+      if (start === -1) start = tokens[match.first].start;
+      end = tokens[match.last].end;
+      after = match.last + 1;
+      weighted += match.confidence * words.length;
+      total += words.length;
+    }
+
+    const confidence = Math.round((weighted / total) * 100) / 100;
+    return confidence >= MIN_CONFIDENCE ? { start, end, confidence } : null;
+  };
+}
@@ -0,0 +1,98 @@
+// Argument maps: the claims, premises, objections and replies of a text as
+// nodes, joined by edges saying which node supports or attacks which. Node ids
+// only need to be unique within one map; merged maps renumber them.
+
+export const ARGUMENT_NODE_TYPES = ["claim", "premise", "objection", "reply"] as const;
+export type ArgumentNodeType = typeof ARGUMENT_NODE_TYPES[number];
+
+export const ARGUMENT_EDGE_TYPES = ["supports", "attacks"] as const;
+export type ArgumentEdgeType = typeof ARGUMENT_EDGE_TYPES[number];
+
+export interface ArgumentNode {
+  id: string;
+  type: ArgumentNodeType;
+  text: string;  // the step restated in one sentence
+  evidence: string[];  // exact quotes from the source
+  chunks?: number[];  // merged maps only: the chunks the node was found in
+}
+
+export interface ArgumentEdge {
+  from: string;
+  to: string;
+  type: ArgumentEdgeType;
+  evidence: string[];  // the wording that signals the relation, if any
+}
+
+export interface ArgumentMap {
+  nodes: ArgumentNode[];
+  edges: ArgumentEdge[];
+}
+
+export const NODE_COLORS: Record<ArgumentNodeType, string> = {
+  claim: "#dbeafe",
+  premise: "#dcfce7",
+  objection: "#fee2e2",
+  reply: "#fef3c7",
+};
+
+export const EDGE_COLORS: Record<ArgumentEdgeType, string> = {
+  supports: "#16a34a",
+  attacks: "#dc2626",
+};
+
+// Breaks text into lines of at most `width` characters at word boundaries
+export function wrapText(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let line = "";
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (line && line.length + word.length + 1 > width) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = line ? `${line} ${word}` : word;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+}
+
+function dotString(value: string): string {
+  return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+// GraphViz source with conclusions at the top: `dot -Tsvg map.dot > map.svg`
+export function argumentMapToDot(map: ArgumentMap, title = "Argument map"): string {
+  const lines = [
+    "digraph ArgumentMap {",
+    `  label=${dotString(title)};`,
+    "  labelloc=t;",
+    "  rankdir=BT;",
+    '  node [shape=box, style="rounded,filled", fontname="Helvetica", fontsize=11];',
+    '  edge [fontname="Helvetica", fontsize=9];',
+  ];
+
+  for (const node of map.nodes) {
+    const label = `${node.type.toUpperCase()}\n${wrapText(node.text, 40).join("\n")}`;
+    lines.push(`  ${dotString(node.id)} [label=${dotString(label)}, fillcolor=${dotString(NODE_COLORS[node.type])}];`);
+  }
+
+  for (const edge of map.edges) {
+    const style = edge.type === "attacks" ? ", style=dashed" : "";
+    lines.push(`  ${dotString(edge.from)} -> ${dotString(edge.to)} [label=${dotString(edge.type)}, color=${dotString(EDGE_COLORS[edge.type])}${style}];`);
+  }
+
+  lines.push("}");
+  return lines.join("\n");
+}
+
+// Plain-text listing for reports and progress output
+export function argumentMapToText(map: ArgumentMap): string {
+  const nodes = map.nodes.map(node => [
+    `${node.type.toUpperCase()} ${node.id}: ${node.text}`,
+    ...node.evidence.map(quote => `   EVIDENCE: "${quote}"`),
+  ].join("\n"));
+  const edges = map.edges.map(edge =>
+    `${edge.from} ${edge.type} ${edge.to}${edge.evidence.length > 0 ? ` ("${edge.evidence.join('" / "')}")` : ""}`
+  );
+  return `${nodes.join("\n\n")}\n\nRELATIONS\n${edges.join("\n") || "None"}`;
+}
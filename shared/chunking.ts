@@ -0,0 +1,155 @@
+// Shared by the browser (chunk picker) and the job worker so that chunk ids
+// mean the same thing on both sides.
+
+export const CHUNK_SIZE = 1000;
+export const CHUNK_OVERLAP = 100;
+export const MIN_CHUNK_SIZE = 200;
+
+// Functions whose per-chunk outputs can be merged into one document-level result
+export const SYNTHESIS_FUNCTIONS = ["analyzer", "database", "rewrite"];
+
+export interface TextChunk {
+  id: number;  // 1-based position in the document
+  text: string;  // includes the overlap carried over from the previous chunk
+  wordCount: number;
+  startWord: number;
+  endWord: number;
+  overlapWords: number;  // leading words of `text` that repeat the previous chunk
+  startOffset: number;  // character offset of `text` in the source
+}
+
+export interface ChunkOptions {
+  targetWords?: number;
+  overlapWords?: number;
+}
+
+// Approximate context windows in tokens. Local servers are assumed to run with
+// a small window since Ollama and llama.cpp default to one.
+export const CONTEXT_WINDOWS: Record<string, number> = {
+  openai: 128000,
+  anthropic: 200000,
+  grok: 131072,
+  perplexity: 127000,
+  deepseek: 64000,
+  local: 8192,
+  mock: 128000,
+};
+
+const TOKENS_PER_WORD = 1.4;
+const PROMPT_TOKENS = 2000;
+
+// Half of the window is left for the answer, which for the quote and database
+// functions can be as long as the chunk itself
+export function maxChunkWords(providers: string[]): number {
+  const windows = providers.map(id => CONTEXT_WINDOWS[id] ?? 8192);
+  const window = Math.min(...windows);
+  return Math.max(MIN_CHUNK_SIZE, Math.floor((window / 2 - PROMPT_TOKENS) / TOKENS_PER_WORD));
+}
+
+// Clamps requested options so every provider in the chain can take a whole chunk
+export function resolveChunkOptions(providers: string[], options: ChunkOptions = {}): Required<ChunkOptions> {
+  const targetWords = Math.min(
+    Math.max(options.targetWords ?? CHUNK_SIZE, MIN_CHUNK_SIZE),
+    maxChunkWords(providers.length > 0 ? providers : ["openai"])
+  );
+  const overlapWords = Math.min(Math.max(options.overlapWords ?? CHUNK_OVERLAP, 0), Math.floor(targetWords / 4));
+  return { targetWords, overlapWords };
+}
+
+const SENTENCE_END = /[.!?…]["'”’)\]]*$/;
+const HEADING = /^(#{1,6}\s|(chapter|part|book|section|prologue|epilogue|appendix)\b|[IVXLC]+\.?$)/i;
+
+function isHeadingLine(line: string): boolean {
+  const words = line.split(/\s+/).filter(Boolean);
+  if (words.length === 0 || words.length > 12) return false;
+  if (HEADING.test(line)) return true;
+  // Short all-caps lines ("THE PROBLEM OF INDUCTION") are headings in most plain-text books
+  return words.length <= 10 && /[A-Z]/.test(line) && line === line.toUpperCase() && !/[.,;:]$/.test(line);
+}
+
+// How good a place the gap before each word is to cut: 3 before a heading,
+// 2 at a paragraph break, 1 at a sentence or line end, 0 mid-sentence
+function scoreBreaks(text: string, words: { start: number; end: number }[]): Uint8Array {
+  const scores = new Uint8Array(words.length);
+  let previousLineIsHeading = false;
+
+  for (let i = 1; i < words.length; i++) {
+    const gap = text.slice(words[i - 1].end, words[i].start);
+    const previousWord = text.slice(words[i - 1].start, words[i - 1].end);
+
+    if (!gap.includes("\n")) {
+      scores[i] = SENTENCE_END.test(previousWord) ? 1 : 0;
+      continue;
+    }
+
+    const lineEnd = text.indexOf("\n", words[i].start);
+    const line = text.slice(words[i].start, lineEnd === -1 ? text.length : lineEnd).trim();
+    const heading = isHeadingLine(line);
+
+    if (heading) {
+      scores[i] = 3;
+    } else if (previousLineIsHeading || /\n[^\S\n]*\n/.test(gap)) {
+      scores[i] = 2;
+    } else {
+      scores[i] = 1;
+    }
+    previousLineIsHeading = heading;
+  }
+
+  return scores;
+}
+
+// Splits text into chunks of about `targetWords`, cutting at the strongest
+// boundary (heading, paragraph, sentence) in the back half of each chunk. Each
+// chunk after the first also carries up to `overlapWords` of whole sentences
+// from the end of the previous one so boundary material keeps its context.
+export function splitIntoChunks(text: string, options: ChunkOptions = {}): TextChunk[] {
+  const targetWords = Math.max(options.targetWords ?? CHUNK_SIZE, 1);
+  const overlapLimit = Math.max(options.overlapWords ?? CHUNK_OVERLAP, 0);
+
+  const words = Array.from(text.matchAll(/\S+/g), match => ({
+    start: match.index!,
+    end: match.index! + match[0].length,
+  }));
+  const scores = scoreBreaks(text, words);
+  const chunks: TextChunk[] = [];
+
+  let start = 0;
+  while (start < words.length) {
+    let end = words.length;
+
+    if (words.length - start > targetWords) {
+      end = start + targetWords;
+      const earliest = start + Math.ceil(targetWords / 2);
+      for (let i = start + targetWords; i >= earliest; i--) {
+        if (scores[i] > scores[end]) end = i;
+        if (scores[end] === 3) break;
+      }
+    }
+
+    let overlapStart = start;
+    if (start > 0 && overlapLimit > 0) {
+      const earliest = Math.max(start - overlapLimit, chunks[chunks.length - 1].startWord - 1);
+      overlapStart = earliest;
+      for (let i = earliest; i < start; i++) {
+        if (scores[i] > 0) {
+          overlapStart = i;
+          break;
+        }
+      }
+    }
+
+    chunks.push({
+      id: chunks.length + 1,
+      text: text.slice(words[overlapStart].start, words[end - 1].end),
+      wordCount: end - start,
+      startWord: start + 1,
+      endWord: end,
+      overlapWords: start - overlapStart,
+      startOffset: words[overlapStart].start,
+    });
+    start = end;
+  }
+
+  return chunks;
+}
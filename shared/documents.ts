@@ -0,0 +1,71 @@
+// Structure recovered from an uploaded file by the ingestion endpoint. All
+// offsets are character offsets into `text`, the same space that chunk
+// offsets and quote locations use, so a located quote can be mapped back to
+// its chapter and page.
+
+export type DocumentFormat = "pdf" | "docx" | "epub" | "html" | "rtf" | "markdown" | "text";
+
+export interface DocumentSection {
+  title: string | null;  // null for material before the first heading
+  level: number;  // 1 for chapters, 2+ for subheadings, 0 for the untitled lead-in
+  start: number;
+  end: number;
+}
+
+export interface DocumentPage {
+  number: number;  // 1-based position in the file
+  label: string | null;  // the printed page number, when a header or footer carried one
+  start: number;
+  end: number;
+}
+
+export interface IngestedDocument {
+  filename: string;
+  format: DocumentFormat;
+  title: string | null;
+  text: string;  // headings are written as Markdown "#" lines so the chunker breaks at them
+  wordCount: number;
+  sections: DocumentSection[];
+  pages: DocumentPage[];  // empty for formats without fixed pages
+}
+
+export const INGEST_EXTENSIONS: Record<string, DocumentFormat> = {
+  ".pdf": "pdf",
+  ".docx": "docx",
+  ".epub": "epub",
+  ".html": "html",
+  ".htm": "html",
+  ".xhtml": "html",
+  ".rtf": "rtf",
+  ".md": "markdown",
+  ".markdown": "markdown",
+  ".txt": "text",
+  ".text": "text",
+};
+
+export const INGEST_ACCEPT = Object.keys(INGEST_EXTENSIONS).join(",");
+
+export function formatForFilename(filename: string): DocumentFormat | null {
+  const dot = filename.lastIndexOf(".");
+  return dot === -1 ? null : INGEST_EXTENSIONS[filename.slice(dot).toLowerCase()] || null;
+}
+
+function containing<T extends { start: number; end: number }>(ranges: T[], offset: number): T | null {
+  let low = 0;
+  let high = ranges.length - 1;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (offset < ranges[middle].start) high = middle - 1;
+    else if (offset >= ranges[middle].end) low = middle + 1;
+    else return ranges[middle];
+  }
+  return null;
+}
+
+export function pageAt(document: IngestedDocument, offset: number): DocumentPage | null {
+  return containing(document.pages, offset);
+}
+
+export function sectionAt(document: IngestedDocument, offset: number): DocumentSection | null {
+  return containing(document.sections, offset);
+}
@@ -0,0 +1,206 @@
+// User-defined analysis functions. Besides its prompt, a function declares the
+// JSON it returns, how the outputs of a chunked run are combined and how a
+// result is displayed. The display template is a small Mustache subset:
+// {{field}} inserts a value, {{#field}}...{{/field}} repeats its body for each
+// item of a list (or shows it once if a text is non-empty), and inside a
+// section {{.}} is the item itself and {{property}} a property of a record.
+
+// Custom functions run under this function type
+export const CUSTOM_FUNCTION = "custom";
+
+export const FIELD_KINDS = ["text", "list", "records"] as const;
+export type FieldKind = typeof FIELD_KINDS[number];
+
+// concatenate: every chunk's output is kept in order; deduplicate: near-identical
+// list items found in several chunks are kept once, as with built-in quotes
+export const MERGE_STRATEGIES = ["concatenate", "deduplicate"] as const;
+export type MergeStrategy = typeof MERGE_STRATEGIES[number];
+
+export interface OutputField {
+  name: string;  // the JSON key
+  label: string;
+  kind: FieldKind;  // text: a string; list: strings; records: objects of `properties`
+  description?: string;  // what the model should put there
+  properties?: string[];
+}
+
+export interface OutputSpec {
+  fields: OutputField[];
+  merge: MergeStrategy;
+  display: string;
+}
+
+export type CustomValue = string | string[] | Record<string, string>[];
+export type CustomData = Record<string, CustomValue>;
+
+const MAX_FIELDS = 20;
+const MAX_PROPERTIES = 10;
+const IDENTIFIER = /^[A-Za-z_]\w*$/;
+
+type DisplayNode =
+  | { type: "text"; value: string }
+  | { type: "value"; name: string }
+  | { type: "section"; name: string; children: DisplayNode[] };
+
+const TAG = /\{\{\s*([#\/]?)\s*([A-Za-z_]\w*|\.)\s*\}\}/g;
+
+function parseDisplay(display: string): DisplayNode[] {
+  const root: DisplayNode[] = [];
+  const stack: { name: string; children: DisplayNode[] }[] = [{ name: "", children: root }];
+  let last = 0;
+
+  for (const match of Array.from(display.matchAll(TAG))) {
+    const [tag, marker, name] = match;
+    const current = stack[stack.length - 1];
+    if (match.index! > last) current.children.push({ type: "text", value: display.slice(last, match.index) });
+    last = match.index! + tag.length;
+
+    if (marker === "#") {
+      const section = { type: "section" as const, name, children: [] as DisplayNode[] };
+      current.children.push(section);
+      stack.push(section);
+    } else if (marker === "/") {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`Display template closes {{/${name}}} without opening it`);
+      }
+      stack.pop();
+    } else {
+      current.children.push({ type: "value", name });
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error(`Display template never closes {{#${stack[stack.length - 1].name}}}`);
+  }
+  if (last < display.length) root.push({ type: "text", value: display.slice(last) });
+  return root;
+}
+
+// What is wrong with a display template, given the fields it can refer to
+export function displayErrors(display: string, fields: OutputField[]): string[] {
+  let nodes: DisplayNode[];
+  try {
+    nodes = parseDisplay(display);
+  } catch (error: any) {
+    return [error.message];
+  }
+
+  const errors: string[] = [];
+  const byName = new Map(fields.map(field => [field.name, field]));
+  const check = (children: DisplayNode[], item: OutputField | null) => {
+    for (const node of children) {
+      if (node.type === "text") continue;
+      const known = node.name === "."
+        ? item?.kind === "list" || item?.kind === "text"
+        : byName.has(node.name) || (item?.kind === "records" && Boolean(item.properties?.includes(node.name)));
+      if (!known) {
+        errors.push(`Display template uses {{${node.name}}}, which is not a field${item ? ` or a property of '${item.name}'` : ""}`);
+      }
+      if (node.type === "section") check(node.children, byName.get(node.name) || null);
+    }
+  };
+  check(nodes, null);
+  return errors;
+}
+
+// What is wrong with a function's output spec, if anything
+export function outputSpecErrors(spec: unknown): string[] {
+  if (!spec || typeof spec !== "object") {
+    return ["'output' must be an object with 'fields', 'merge' and 'display'"];
+  }
+
+  const { fields, merge, display } = spec as Partial<OutputSpec>;
+  const errors: string[] = [];
+
+  if (!Array.isArray(fields) || fields.length === 0 || fields.length > MAX_FIELDS) {
+    errors.push(`'output.fields' must list 1 to ${MAX_FIELDS} fields`);
+  } else {
+    const names = new Set<string>();
+    fields.forEach((field, i) => {
+      if (!field || typeof field.name !== "string" || !IDENTIFIER.test(field.name)) {
+        errors.push(`Field ${i + 1} needs a name made of letters, digits and underscores`);
+        return;
+      }
+      if (names.has(field.name)) errors.push(`Field '${field.name}' is defined twice`);
+      names.add(field.name);
+      if (typeof field.label !== "string" || !field.label.trim()) {
+        errors.push(`Field '${field.name}' needs a label`);
+      }
+      if (!FIELD_KINDS.includes(field.kind)) {
+        errors.push(`Field '${field.name}' must be of kind ${FIELD_KINDS.join(", ")}`);
+      }
+      if (field.description !== undefined && typeof field.description !== "string") {
+        errors.push(`Field '${field.name}' has a description that is not a string`);
+      }
+      if (field.kind === "records") {
+        const properties = field.properties;
+        if (!Array.isArray(properties) || properties.length === 0 || properties.length > MAX_PROPERTIES
+          || properties.some(p => typeof p !== "string" || !IDENTIFIER.test(p))) {
+          errors.push(`Field '${field.name}' must name 1 to ${MAX_PROPERTIES} properties made of letters, digits and underscores`);
+        }
+      }
+    });
+  }
+
+  if (!MERGE_STRATEGIES.includes(merge as MergeStrategy)) {
+    errors.push(`'output.merge' must be one of ${MERGE_STRATEGIES.join(", ")}`);
+  }
+
+  if (typeof display !== "string") {
+    errors.push("'output.display' must be a string");
+  } else if (errors.length === 0) {
+    errors.push(...displayErrors(display, fields!));
+  }
+
+  return errors;
+}
+
+// A display that shows every field under its label
+export function defaultDisplay(fields: OutputField[]): string {
+  return fields.map(field => {
+    switch (field.kind) {
+      case "text":
+        return `${field.label.toUpperCase()}\n{{${field.name}}}\n`;
+      case "list":
+        return `${field.label.toUpperCase()}\n{{#${field.name}}}• {{.}}\n{{/${field.name}}}`;
+      case "records": {
+        const [first, ...rest] = field.properties || [];
+        const details = rest.map(p => `  ${p}: {{${p}}}\n`).join("");
+        return `${field.label.toUpperCase()}\n{{#${field.name}}}• {{${first}}}\n${details}{{/${field.name}}}`;
+      }
+    }
+  }).join("\n");
+}
+
+function stringify(value: unknown): string {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value)) return value.filter(v => typeof v === "string").join(", ");
+  return "";
+}
+
+function renderNodes(nodes: DisplayNode[], data: CustomData, item: unknown): string {
+  const lookup = (name: string): unknown => {
+    if (name === ".") return item;
+    if (item && typeof item === "object" && !Array.isArray(item) && name in item) {
+      return (item as Record<string, unknown>)[name];
+    }
+    return data[name];
+  };
+
+  return nodes.map(node => {
+    if (node.type === "text") return node.value;
+    const value = lookup(node.name);
+    if (node.type === "value") return stringify(value);
+    if (Array.isArray(value)) return value.map(entry => renderNodes(node.children, data, entry)).join("");
+    return typeof value === "string" && value.trim() ? renderNodes(node.children, data, value) : "";
+  }).join("");
+}
+
+export function renderDisplay(display: string, data: CustomData): string {
+  return renderNodes(parseDisplay(display), data, undefined).trim();
+}
+
+// An empty display template shows every field
+export function renderOutput(spec: OutputSpec, data: CustomData): string {
+  return renderDisplay(spec.display.trim() ? spec.display : defaultDisplay(spec.fields), data);
+}
@@ -1,11 +1,16 @@
 import { sql } from "drizzle-orm";
-import { pgTable, text, varchar, serial, integer, timestamp, decimal, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, varchar, serial, integer, timestamp, decimal, jsonb, boolean, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { DocumentPage, DocumentSection } from "./documents";
+import { FIELD_KINDS, MERGE_STRATEGIES, type OutputSpec } from "./functions";
+import { WORKSPACE_ROLES, type WorkspaceRole } from "./workspaces";
 
 export const users = pgTable("users", {
   id: serial("id").primaryKey(),
   username: text("username").notNull().unique(),
+  // scrypt hash and salt; null for accounts created before passwords existed
+  passwordHash: text("password_hash"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -17,9 +22,51 @@ export const insertUserSchema = createInsertSchema(users).omit({
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 
+// A team sharing authors, documents and history; see shared/workspaces.ts
+export const workspaces = pgTable("workspaces", {
+  id: serial("id").primaryKey(),
+  name: varchar("name", { length: 100 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertWorkspaceSchema = createInsertSchema(workspaces).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertWorkspace = z.infer<typeof insertWorkspaceSchema>;
+export type Workspace = typeof workspaces.$inferSelect;
+
+export const workspaceMembers = pgTable("workspace_members", {
+  id: serial("id").primaryKey(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: varchar("role", { length: 20 }).$type<WorkspaceRole>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.workspaceId, table.userId),
+]);
+
+export const insertWorkspaceMemberSchema = createInsertSchema(workspaceMembers, {
+  role: z.enum(WORKSPACE_ROLES),
+}).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertWorkspaceMember = z.infer<typeof insertWorkspaceMemberSchema>;
+export type WorkspaceMember = typeof workspaceMembers.$inferSelect;
+// The member list shows names; the caller's own workspaces show their role
+export type WorkspaceMemberWithUser = WorkspaceMember & { username: string };
+export type WorkspaceWithRole = Workspace & { role: WorkspaceRole };
+
 export const stylometricAuthors = pgTable("stylometric_authors", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
+  // Shared with every member of this workspace; null for the creator alone
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
   authorName: varchar("author_name", { length: 255 }).notNull(),
   sourceTitle: varchar("source_title", { length: 500 }),
   wordCount: integer("word_count"),
@@ -47,12 +94,118 @@ export const insertStylometricAuthorSchema = createInsertSchema(stylometricAutho
 export type InsertStylometricAuthor = z.infer<typeof insertStylometricAuthorSchema>;
 export type StylometricAuthor = typeof stylometricAuthors.$inferSelect;
 
+// Saved source texts. The same text is stored once per user, or once per
+// workspace (by content hash), and every analysis run on it links back here.
+export const documents = pgTable("documents", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  // Shared with every member of this workspace; null for the creator alone
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  title: varchar("title", { length: 500 }).notNull(),
+  author: varchar("author", { length: 255 }),
+  text: text("text").notNull(),
+  contentHash: varchar("content_hash", { length: 64 }).notNull(),
+  wordCount: integer("word_count").notNull(),
+  // Set for uploaded files: the format they were extracted from and their structure
+  format: varchar("format", { length: 20 }),
+  sections: jsonb("sections").$type<DocumentSection[]>(),
+  pages: jsonb("pages").$type<DocumentPage[]>(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertSavedDocumentSchema = createInsertSchema(documents, {
+  sections: z.array(z.object({
+    title: z.string().nullable(),
+    level: z.number().int(),
+    start: z.number().int(),
+    end: z.number().int(),
+  })).nullable().optional(),
+  pages: z.array(z.object({
+    number: z.number().int(),
+    label: z.string().nullable(),
+    start: z.number().int(),
+    end: z.number().int(),
+  })).nullable().optional(),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertSavedDocument = z.infer<typeof insertSavedDocumentSchema>;
+export type SavedDocument = typeof documents.$inferSelect;
+// Listings leave out the text and structure, which can be megabytes for a book
+export type SavedDocumentSummary = Omit<SavedDocument, "text" | "sections" | "pages">;
+
+// A user's analysis function, offered next to the built-in ones. A copy of a
+// built-in prompt keeps the output shape, chunk merge and display of its base
+// function; a function with the "custom" base declares its own in `output`.
+// Each change to the template text or output spec is a new version.
+export const promptTemplates = pgTable("prompt_templates", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: varchar("name", { length: 100 }).notNull(),
+  description: text("description"),
+  baseFunction: varchar("base_function", { length: 50 }).notNull(),
+  // The built-in prompt it was cloned from, e.g. "analysis.quotes"
+  clonedFrom: varchar("cloned_from", { length: 100 }),
+  template: text("template").notNull(),
+  output: jsonb("output").$type<OutputSpec>(),
+  version: integer("version").notNull().default(1),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertUserPromptTemplateSchema = createInsertSchema(promptTemplates, {
+  output: z.object({
+    fields: z.array(z.object({
+      name: z.string(),
+      label: z.string(),
+      kind: z.enum(FIELD_KINDS),
+      description: z.string().optional(),
+      properties: z.array(z.string()).optional(),
+    })),
+    merge: z.enum(MERGE_STRATEGIES),
+    display: z.string(),
+  }).nullable().optional(),
+}).omit({
+  id: true,
+  version: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertUserPromptTemplate = z.infer<typeof insertUserPromptTemplateSchema>;
+export type UserPromptTemplate = typeof promptTemplates.$inferSelect;
+
+// Every version a template has had, so that a history row or a resumed job can
+// still find the exact text it was run with
+export const promptTemplateVersions = pgTable("prompt_template_versions", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").references(() => promptTemplates.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  template: text("template").notNull(),
+  output: jsonb("output").$type<OutputSpec>(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export type PromptTemplateVersion = typeof promptTemplateVersions.$inferSelect;
+
 export const analysisHistory = pgTable("analysis_history", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   analysisType: varchar("analysis_type", { length: 50 }).notNull(),
   provider: varchar("provider", { length: 50 }),
   inputPreview: text("input_preview"),
+  // Follows the document it was run on
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  // The saved document the analysis was run on
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  // The prompt that produced the output: a built-in id such as "analysis.views",
+  // or "user:<id>" for a custom template
+  promptId: varchar("prompt_id", { length: 100 }),
+  promptVersion: integer("prompt_version"),
   outputData: jsonb("output_data"),
   createdAt: timestamp("created_at").defaultNow(),
 });
@@ -64,3 +217,86 @@ export const insertAnalysisHistorySchema = createInsertSchema(analysisHistory).o
 
 export type InsertAnalysisHistory = z.infer<typeof insertAnalysisHistorySchema>;
 export type AnalysisHistory = typeof analysisHistory.$inferSelect;
+
+// Long multi-chunk analyses run server-side so that they survive closed tabs
+// and server restarts. Status: queued | running | completed | failed | cancelled
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id),
+  functionType: varchar("function_type", { length: 50 }).notNull(),
+  providers: jsonb("providers").$type<string[]>().notNull(),
+  // SHA-256 of the full source text, so a run can be found again from the same document
+  textHash: varchar("text_hash", { length: 64 }),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  // Same meaning as on analysis_history; every chunk is run with this exact version
+  promptId: varchar("prompt_id", { length: 100 }),
+  promptVersion: integer("prompt_version"),
+  status: varchar("status", { length: 20 }).notNull().default("queued"),
+  inputPreview: text("input_preview"),
+  totalChunks: integer("total_chunks").notNull(),
+  completedChunks: integer("completed_chunks").notNull().default(0),
+  // Run a document-level synthesis pass once every chunk is done
+  synthesize: boolean("synthesize").notNull().default(false),
+  result: jsonb("result"),
+  error: text("error"),
+  historyId: integer("history_id").references(() => analysisHistory.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertAnalysisJobSchema = createInsertSchema(analysisJobs, {
+  providers: z.array(z.string()),
+}).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertAnalysisJob = z.infer<typeof insertAnalysisJobSchema>;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+
+// Status: pending | running | completed | failed
+export const analysisJobChunks = pgTable("analysis_job_chunks", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => analysisJobs.id, { onDelete: "cascade" }).notNull(),
+  chunkNumber: integer("chunk_number").notNull(),
+  startWord: integer("start_word").notNull(),
+  endWord: integer("end_word").notNull(),
+  // Where `text` starts in the source, so quote locations can be made document-relative
+  startOffset: integer("start_offset").notNull().default(0),
+  text: text("text").notNull(),
+  status: varchar("status", { length: 20 }).notNull().default("pending"),
+  provider: varchar("provider", { length: 50 }),
+  output: jsonb("output"),
+  error: text("error"),
+  completedAt: timestamp("completed_at"),
+});
+
+export const insertAnalysisJobChunkSchema = createInsertSchema(analysisJobChunks).omit({
+  id: true,
+});
+
+export type InsertAnalysisJobChunk = z.infer<typeof insertAnalysisJobChunkSchema>;
+export type AnalysisJobChunk = typeof analysisJobChunks.$inferSelect;
+
+// Validated model outputs, keyed by everything that determines them: a hash of
+// the input text, the function, the provider and model, and the prompt version
+export const llmCache = pgTable("llm_cache", {
+  key: varchar("key", { length: 64 }).primaryKey(),
+  textHash: varchar("text_hash", { length: 64 }).notNull(),
+  functionType: varchar("function_type", { length: 50 }).notNull(),
+  provider: varchar("provider", { length: 50 }).notNull(),
+  model: varchar("model", { length: 100 }).notNull(),
+  promptVersion: varchar("prompt_version", { length: 64 }).notNull(),
+  value: jsonb("value").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  expiresAt: timestamp("expires_at"),
+});
+
+export const insertLlmCacheEntrySchema = createInsertSchema(llmCache).omit({
+  createdAt: true,
+});
+
+export type InsertLlmCacheEntry = z.infer<typeof insertLlmCacheEntrySchema>;
+export type LlmCacheEntry = typeof llmCache.$inferSelect;
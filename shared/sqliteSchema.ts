@@ -0,0 +1,169 @@
+import { sqliteTable, text, integer, unique } from "drizzle-orm/sqlite-core";
+import type { DocumentPage, DocumentSection } from "./documents";
+import type { OutputSpec } from "./functions";
+import type { WorkspaceRole } from "./workspaces";
+
+// The tables of shared/schema.ts for the SQLite backend (STORAGE_BACKEND=sqlite).
+// Column names and the inferred row types match the Postgres tables, so the
+// insert and select types from schema.ts serve both: jsonb becomes JSON text,
+// timestamps are stored as milliseconds, and decimals as text. Any change to
+// schema.ts needs the same change here, followed by `npm run db:generate:sqlite`;
+// the schema check in server/storage.test.ts fails until both agree.
+
+const createdAt = () => integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date());
+const updatedAt = () => integer("updated_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date());
+
+export const users = sqliteTable("users", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  username: text("username").notNull().unique(),
+  passwordHash: text("password_hash"),
+  createdAt: createdAt(),
+});
+
+export const workspaces = sqliteTable("workspaces", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  name: text("name", { length: 100 }).notNull(),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+});
+
+export const workspaceMembers = sqliteTable("workspace_members", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "cascade" }).notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  role: text("role", { length: 20 }).$type<WorkspaceRole>().notNull(),
+  createdAt: createdAt(),
+}, (table) => [
+  unique().on(table.workspaceId, table.userId),
+]);
+
+export const stylometricAuthors = sqliteTable("stylometric_authors", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").references(() => users.id),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  authorName: text("author_name", { length: 255 }).notNull(),
+  sourceTitle: text("source_title", { length: 500 }),
+  wordCount: integer("word_count"),
+  verticalityScore: text("verticality_score"),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+  rawFeatures: text("raw_features", { mode: "json" }),
+  signaturePhrases: text("signature_phrases", { mode: "json" }),
+  negativeMarkers: text("negative_markers", { mode: "json" }),
+  sampleSentences: text("sample_sentences", { mode: "json" }),
+  closestAuthorMatch: text("closest_author_match", { length: 255 }),
+  matchExplanation: text("match_explanation"),
+  psychologicalProfile: text("psychological_profile", { mode: "json" }),
+  narrativeSummary: text("narrative_summary"),
+  clustering: text("clustering", { mode: "json" }),
+  fullReport: text("full_report"),
+});
+
+export const documents = sqliteTable("documents", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  title: text("title", { length: 500 }).notNull(),
+  author: text("author", { length: 255 }),
+  text: text("text").notNull(),
+  contentHash: text("content_hash", { length: 64 }).notNull(),
+  wordCount: integer("word_count").notNull(),
+  format: text("format", { length: 20 }),
+  sections: text("sections", { mode: "json" }).$type<DocumentSection[]>(),
+  pages: text("pages", { mode: "json" }).$type<DocumentPage[]>(),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+});
+
+export const promptTemplates = sqliteTable("prompt_templates", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name", { length: 100 }).notNull(),
+  description: text("description"),
+  baseFunction: text("base_function", { length: 50 }).notNull(),
+  clonedFrom: text("cloned_from", { length: 100 }),
+  template: text("template").notNull(),
+  output: text("output", { mode: "json" }).$type<OutputSpec>(),
+  version: integer("version").notNull().default(1),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+});
+
+export const promptTemplateVersions = sqliteTable("prompt_template_versions", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  templateId: integer("template_id").references(() => promptTemplates.id, { onDelete: "cascade" }).notNull(),
+  version: integer("version").notNull(),
+  template: text("template").notNull(),
+  output: text("output", { mode: "json" }).$type<OutputSpec>(),
+  createdAt: createdAt(),
+});
+
+export const analysisHistory = sqliteTable("analysis_history", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").references(() => users.id),
+  analysisType: text("analysis_type", { length: 50 }).notNull(),
+  provider: text("provider", { length: 50 }),
+  inputPreview: text("input_preview"),
+  workspaceId: integer("workspace_id").references(() => workspaces.id, { onDelete: "set null" }),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  promptId: text("prompt_id", { length: 100 }),
+  promptVersion: integer("prompt_version"),
+  outputData: text("output_data", { mode: "json" }),
+  createdAt: createdAt(),
+});
+
+export const analysisJobs = sqliteTable("analysis_jobs", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  userId: integer("user_id").references(() => users.id),
+  functionType: text("function_type", { length: 50 }).notNull(),
+  providers: text("providers", { mode: "json" }).$type<string[]>().notNull(),
+  textHash: text("text_hash", { length: 64 }),
+  documentId: integer("document_id").references(() => documents.id, { onDelete: "set null" }),
+  promptId: text("prompt_id", { length: 100 }),
+  promptVersion: integer("prompt_version"),
+  status: text("status", { length: 20 }).notNull().default("queued"),
+  inputPreview: text("input_preview"),
+  totalChunks: integer("total_chunks").notNull(),
+  completedChunks: integer("completed_chunks").notNull().default(0),
+  synthesize: integer("synthesize", { mode: "boolean" }).notNull().default(false),
+  result: text("result", { mode: "json" }),
+  error: text("error"),
+  historyId: integer("history_id").references(() => analysisHistory.id, { onDelete: "set null" }),
+  createdAt: createdAt(),
+  updatedAt: updatedAt(),
+  completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+});
+
+export const analysisJobChunks = sqliteTable("analysis_job_chunks", {
+  id: integer("id").primaryKey({ autoIncrement: true }),
+  jobId: integer("job_id").references(() => analysisJobs.id, { onDelete: "cascade" }).notNull(),
+  chunkNumber: integer("chunk_number").notNull(),
+  startWord: integer("start_word").notNull(),
+  endWord: integer("end_word").notNull(),
+  startOffset: integer("start_offset").notNull().default(0),
+  text: text("text").notNull(),
+  status: text("status", { length: 20 }).notNull().default("pending"),
+  provider: text("provider", { length: 50 }),
+  output: text("output", { mode: "json" }),
+  error: text("error"),
+  completedAt: integer("completed_at", { mode: "timestamp_ms" }),
+});
+
+export const llmCache = sqliteTable("llm_cache", {
+  key: text("key", { length: 64 }).primaryKey(),
+  textHash: text("text_hash", { length: 64 }).notNull(),
+  functionType: text("function_type", { length: 50 }).notNull(),
+  provider: text("provider", { length: 50 }).notNull(),
+  model: text("model", { length: 100 }).notNull(),
+  promptVersion: text("prompt_version", { length: 64 }).notNull(),
+  value: text("value", { mode: "json" }).notNull(),
+  createdAt: integer("created_at", { mode: "timestamp_ms" }).$defaultFn(() => new Date()).notNull(),
+  expiresAt: integer("expires_at", { mode: "timestamp_ms" }),
+});
+
+// Login sessions; Postgres keeps these in connect-pg-simple's own table
+export const sessions = sqliteTable("sessions", {
+  sid: text("sid").primaryKey(),
+  sess: text("sess", { mode: "json" }).notNull(),
+  expire: integer("expire", { mode: "timestamp_ms" }).notNull(),
+});
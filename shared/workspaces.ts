@@ -0,0 +1,11 @@
+// Team workspaces. Stylometric authors, documents and analysis history either
+// belong to their creator alone (no workspace) or to a workspace, where every
+// member can see them. Owners manage the workspace and its members, editors
+// add and change its items, and viewers only read them.
+
+export const WORKSPACE_ROLES = ["owner", "editor", "viewer"] as const;
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number];
+
+export function canEditWorkspace(role: WorkspaceRole | null | undefined): boolean {
+  return role === "owner" || role === "editor";
+}